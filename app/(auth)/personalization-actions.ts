@@ -40,6 +40,7 @@ export interface UserSettingsInput {
 	timezone?: string | null;
 	baseCurrency?: string | null;
 	dateFormat?: string | null;
+	eliminateIntercompany?: boolean | null;
 }
 
 export async function saveUserSettings(
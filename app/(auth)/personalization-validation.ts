@@ -21,6 +21,7 @@ export const userSettingsInputSchema = z.object({
 	dateFormat: z
 		.enum([...VALID_DATE_FORMATS] as [string, ...string[]])
 		.nullish(),
+	eliminateIntercompany: z.boolean().nullish(),
 });
 
 export type ValidatedUserSettingsInput = z.infer<
@@ -3,6 +3,8 @@
 import { auth } from "@clerk/nextjs/server";
 import { generateText, type UIMessage } from "ai";
 import { cookies } from "next/headers";
+import { z } from "zod";
+import type { KnowledgeScope } from "@/components/knowledge-scope-selector";
 import type { VisibilityType } from "@/components/visibility-selector";
 import { fileTitlePrompt, titlePrompt } from "@/lib/ai/prompts";
 import { getTitleModel } from "@/lib/ai/providers";
@@ -10,10 +12,17 @@ import {
 	deleteMessagesByChatIdAfterTimestamp,
 	getChatById,
 	getMessageById,
+	updateChatKnowledgeScopeById,
 	updateChatVisibilityById,
 } from "@/lib/db/queries";
 import { getTextFromMessage } from "@/lib/utils";
 
+// Server actions can be called with any payload, whatever their types say
+const knowledgeScopeSchema = z.object({
+	chatId: z.string().uuid(),
+	knowledgeScope: z.enum(["chat", "organisation", "all"]),
+});
+
 export async function saveChatModelAsCookie(model: string) {
 	const { userId } = await auth();
 
@@ -117,3 +126,34 @@ export async function updateChatVisibility({
 
 	await updateChatVisibilityById({ chatId, visibility });
 }
+
+export async function updateChatKnowledgeScope({
+	chatId,
+	knowledgeScope,
+}: {
+	chatId: string;
+	knowledgeScope: KnowledgeScope;
+}) {
+	const { userId } = await auth();
+
+	if (!userId) {
+		throw new Error("Unauthorized");
+	}
+
+	if (!knowledgeScopeSchema.safeParse({ chatId, knowledgeScope }).success) {
+		throw new Error("Invalid knowledge scope");
+	}
+
+	const chat = await getChatById({ id: chatId });
+
+	// Not saved yet: the scope is sent with the chat's first message
+	if (!chat) {
+		return;
+	}
+
+	if (chat.userId !== userId) {
+		throw new Error("Forbidden");
+	}
+
+	await updateChatKnowledgeScopeById({ chatId, knowledgeScope });
+}
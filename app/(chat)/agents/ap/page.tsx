@@ -1,15 +1,29 @@
 import { ApDashboard } from "@/components/agents/ap/ap-dashboard";
-import { getApDashboardData, getVendorList } from "@/lib/agents/ap/queries";
+import {
+	getApDashboardData,
+	getSpendBreakdown,
+	getVendorList,
+} from "@/lib/agents/ap/queries";
 
 export const metadata = {
 	title: "Accounts Payable Agent",
 };
 
+const SPEND_BREAKDOWN_DAYS = 90;
+
 export default async function ApPage() {
-	const [data, vendors] = await Promise.all([
+	const [data, vendors, spendBreakdown] = await Promise.all([
 		getApDashboardData(),
 		getVendorList(),
+		getSpendBreakdown(SPEND_BREAKDOWN_DAYS),
 	]);
 
-	return <ApDashboard initialData={data} initialVendors={vendors} />;
+	return (
+		<ApDashboard
+			initialData={data}
+			initialVendors={vendors}
+			spendBreakdown={spendBreakdown}
+			spendBreakdownDays={SPEND_BREAKDOWN_DAYS}
+		/>
+	);
 }
@@ -1,15 +1,29 @@
 import { ArDashboard } from "@/components/agents/ar/ar-dashboard";
-import { getArDashboardData, getCustomerList } from "@/lib/agents/ar/queries";
+import {
+	getArDashboardData,
+	getCustomerList,
+	getRevenueByItem,
+} from "@/lib/agents/ar/queries";
 
 export const metadata = {
 	title: "Accounts Receivable Agent",
 };
 
+const REVENUE_BY_ITEM_DAYS = 90;
+
 export default async function ArPage() {
-	const [data, customers] = await Promise.all([
+	const [data, customers, revenueByItem] = await Promise.all([
 		getArDashboardData(),
 		getCustomerList(),
+		getRevenueByItem(REVENUE_BY_ITEM_DAYS),
 	]);
 
-	return <ArDashboard initialData={data} initialCustomers={customers} />;
+	return (
+		<ArDashboard
+			initialData={data}
+			initialCustomers={customers}
+			revenueByItem={revenueByItem}
+			revenueByItemDays={REVENUE_BY_ITEM_DAYS}
+		/>
+	);
 }
@@ -1,8 +1,10 @@
+import { auth } from "@clerk/nextjs/server";
 import { CashflowDashboard } from "@/components/agents/cashflow/cashflow-dashboard";
 import {
 	getCalendarEvents,
 	getCashflowChartData,
 	getCashflowDashboardData,
+	getScenarioComparison,
 } from "@/lib/agents/cashflow/queries";
 
 export const metadata = {
@@ -10,9 +12,11 @@ export const metadata = {
 };
 
 export default async function CashflowPage() {
-	const [data, chartData, events] = await Promise.all([
+	const { orgRole } = await auth();
+	const [data, chartData, scenarioComparison, events] = await Promise.all([
 		getCashflowDashboardData(30), // Default 30
 		getCashflowChartData(),
+		getScenarioComparison(),
 		getCalendarEvents(),
 	]);
 
@@ -20,7 +24,9 @@ export default async function CashflowPage() {
 		<CashflowDashboard
 			initialData={data}
 			chartData={chartData}
+			scenarioComparison={scenarioComparison}
 			events={events}
+			canEditMinimumCash={orgRole === "org:admin" || orgRole === "org:owner"}
 		/>
 	);
 }
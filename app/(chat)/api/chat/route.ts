@@ -13,9 +13,9 @@ import {
 	createResumableStreamContext,
 	type ResumableStreamContext,
 } from "resumable-stream";
-import { entitlementsByUserType } from "@/lib/ai/entitlements";
 import {
 	createIntellisyncContext,
+	documentContextPrompt,
 	intellisyncSystemPrompt,
 	type RequestHints,
 } from "@/lib/ai/prompts";
@@ -59,6 +59,7 @@ import { updateXeroCreditNote } from "@/lib/ai/tools/update-xero-credit-note";
 import { updateXeroInvoice } from "@/lib/ai/tools/update-xero-invoice";
 import { updateXeroPayrollTimesheet } from "@/lib/ai/tools/update-xero-payroll-timesheet";
 import { updateXeroQuote } from "@/lib/ai/tools/update-xero-quote";
+import { assertEntitled, recordUsage } from "@/lib/ai/usage";
 import { DEFAULT_CHAT_TITLE, isProductionEnvironment } from "@/lib/constants";
 import {
 	createStreamId,
@@ -129,10 +130,11 @@ export async function POST(request: Request) {
 			messages,
 			selectedChatModel,
 			selectedVisibilityType,
+			selectedKnowledgeScope,
 			currentDocumentId,
 		} = requestBody;
 
-		const { userId } = await auth();
+		const { userId, orgId } = await auth();
 		const user = userId ? await currentUser() : null;
 
 		if (!userId || !user) {
@@ -144,14 +146,19 @@ export async function POST(request: Request) {
 			email: user.emailAddresses[0]?.emailAddress ?? "",
 		});
 
-		const userType = "regular";
+		// Throws when the org's plan excludes the model or its monthly budget is spent
+		const entitlements = await assertEntitled({
+			userId,
+			orgId,
+			model: selectedChatModel,
+		});
 
 		const messageCount = await getMessageCountByUserId({
 			id: userId,
 			differenceInHours: 24,
 		});
 
-		if (messageCount > entitlementsByUserType[userType].maxMessagesPerDay) {
+		if (messageCount > entitlements.maxMessagesPerDay) {
 			return new ChatSDKError("rate_limit:chat").toResponse();
 		}
 
@@ -166,7 +173,6 @@ export async function POST(request: Request) {
 		const userSettings = await getUserSettingsByUserId({ userId });
 
 		// Get organization name from Clerk if available
-		const { orgId } = await auth();
 		let companyName = userSettings?.companyName || "Your Organisation";
 		if (orgId) {
 			try {
@@ -195,6 +201,7 @@ export async function POST(request: Request) {
 				userId,
 				title: DEFAULT_CHAT_TITLE,
 				visibility: selectedVisibilityType,
+				knowledgeScope: selectedKnowledgeScope,
 			});
 
 			// Start title generation in parallel (don't await)
@@ -247,9 +254,11 @@ export async function POST(request: Request) {
 		const ragMessage =
 			message?.role === "user" ? message : getMostRecentUserMessage(uiMessages);
 		const ragQuery = ragMessage ? getTextFromMessage(ragMessage) : "";
-		const { context: documentContext } = await buildRagContext({
+		const { context: documentContext, citations } = await buildRagContext({
 			userId,
 			chatId: id,
+			orgId,
+			knowledgeScope: selectedKnowledgeScope ?? chat?.knowledgeScope ?? "all",
 			query: ragQuery,
 		});
 
@@ -349,7 +358,7 @@ ${file!.content}
 
 		const systemWithContext = [
 			baseSystemPrompt,
-			documentContext ? `DOCUMENT CONTEXT:\n${documentContext}` : null,
+			documentContext ? documentContextPrompt(documentContext) : null,
 			currentDocumentContext,
 			uploadedFileContext,
 			"Use the conversation below to answer the user.",
@@ -380,6 +389,11 @@ ${file!.content}
 			// Pass original messages for tool approval continuation
 			originalMessages: isToolApprovalFlow ? uiMessages : undefined,
 			execute: async ({ writer: dataStream }) => {
+				// Saved with the assistant message so its [n] citations can be rendered
+				if (citations.length > 0) {
+					dataStream.write({ type: "data-citations", data: citations });
+				}
+
 				// Handle title generation in parallel
 				if (titlePromise) {
 					titlePromise.then((title) => {
@@ -412,7 +426,6 @@ ${file!.content}
 						"listXeroInvoices",
 						"listXeroContacts",
 						"listXeroAccounts",
-						"createXeroInvoice",
 						"listXeroCreditNotes",
 						"listXeroQuotes",
 						"listXeroBankTransactions",
@@ -422,22 +435,28 @@ ${file!.content}
 						"listXeroTrialBalance",
 						"listXeroAgedReceivables",
 						"listXeroAgedPayables",
-						"createXeroContact",
-						"updateXeroContact",
-						"createXeroQuote",
-						"updateXeroQuote",
-						"createXeroCreditNote",
-						"updateXeroCreditNote",
-						"createXeroPayment",
-						"updateXeroInvoice",
 						"listXeroPayrollEmployees",
 						"listXeroPayrollLeaveApplications",
 						"listXeroPayrollLeaveTypes",
-						"createXeroPayrollTimesheet",
 						"getXeroPayrollTimesheet",
-						"updateXeroPayrollTimesheet",
 						"listXeroContactGroups",
 						"listXeroPayrollCalendars",
+						// Xero write tools are a paid-plan feature
+						...(entitlements.features.xero_write
+							? [
+									"createXeroInvoice" as const,
+									"createXeroContact" as const,
+									"updateXeroContact" as const,
+									"createXeroQuote" as const,
+									"updateXeroQuote" as const,
+									"createXeroCreditNote" as const,
+									"updateXeroCreditNote" as const,
+									"createXeroPayment" as const,
+									"updateXeroInvoice" as const,
+									"createXeroPayrollTimesheet" as const,
+									"updateXeroPayrollTimesheet" as const,
+								]
+							: []),
 					],
 					experimental_transform: smoothStream({ chunking: "word" }),
 					providerOptions: isReasoningModel
@@ -449,10 +468,21 @@ ${file!.content}
 						: undefined,
 					tools: {
 						getWeather,
-						createDocument: createDocument({ userId, chatId: id, dataStream }),
-						updateDocument: updateDocument({ userId, chatId: id, dataStream }),
+						createDocument: createDocument({
+							userId,
+							orgId: orgId ?? null,
+							chatId: id,
+							dataStream,
+						}),
+						updateDocument: updateDocument({
+							userId,
+							orgId: orgId ?? null,
+							chatId: id,
+							dataStream,
+						}),
 						requestSuggestions: requestSuggestions({
 							userId,
+							orgId: orgId ?? null,
 							dataStream,
 						}),
 						...(process.env.ABN_LOOKUP_ENABLED === "true"
@@ -496,6 +526,15 @@ ${file!.content}
 						isEnabled: isProductionEnvironment,
 						functionId: "stream-text",
 					},
+					onFinish: ({ totalUsage }) =>
+						recordUsage({
+							userId,
+							orgId,
+							chatId: id,
+							model: selectedChatModel,
+							feature: "chat",
+							usage: totalUsage,
+						}),
 				});
 
 				result.consumeStream();
@@ -44,6 +44,7 @@ export const postRequestBodySchema = z
 		messages: z.array(messageSchema).optional(),
 		selectedChatModel: z.string(),
 		selectedVisibilityType: z.enum(["public", "private"]),
+		selectedKnowledgeScope: z.enum(["chat", "organisation", "all"]).optional(),
 		currentDocumentId: z.string().uuid().optional(),
 	})
 	.refine((data) => data.message !== undefined || data.messages !== undefined, {
@@ -1,13 +1,17 @@
 import { auth } from "@clerk/nextjs/server";
 import { put } from "@vercel/blob";
-import mammoth from "mammoth";
 import { after, NextResponse } from "next/server";
 import { parse } from "papaparse";
-import { PDFParse } from "pdf-parse";
 import { z } from "zod";
 import { generateTitleFromDocument } from "@/lib/ai/chat-title";
+import { chunkDocument } from "@/lib/ai/chunking";
+import {
+	extractPdfPages,
+	extractText,
+	resolveDocumentKind,
+} from "@/lib/ai/document-text";
 import { generateTitleFromFileMetadata } from "@/lib/ai/file-title";
-import { chunkText, createEmbeddings } from "@/lib/ai/rag";
+import { createEmbeddings } from "@/lib/ai/rag";
 import { isPlaceholderChatTitle } from "@/lib/chat-title";
 import {
 	getChatById,
@@ -79,64 +83,6 @@ const summarizeSheet = (content: string) => {
 	return `Spreadsheet with ${rowCount} rows and ${columnCount} columns. Columns: ${columns}`;
 };
 
-const extractText = async (
-	fileBuffer: Buffer,
-	fileType: string,
-): Promise<string> => {
-	if (fileType === "text/plain") {
-		return fileBuffer.toString("utf-8");
-	}
-
-	if (fileType === "text/csv" || fileType === "text/tab-separated-values") {
-		return fileBuffer.toString("utf-8");
-	}
-
-	if (fileType === "application/pdf") {
-		let pdfParser: PDFParse | null = null;
-		try {
-			pdfParser = new PDFParse({ data: fileBuffer });
-			const result = await pdfParser.getText();
-			return result.text;
-		} catch (error) {
-			console.error("PDF parsing error:", error);
-			return ""; // Triggers validation error downstream
-		} finally {
-			if (pdfParser) {
-				await pdfParser.destroy(); // REQUIRED for memory cleanup
-			}
-		}
-	}
-
-	if (
-		fileType ===
-		"application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-	) {
-		const result = await mammoth.extractRawText({ buffer: fileBuffer });
-		return result.value;
-	}
-
-	return "";
-};
-
-const resolveDocumentKind = (fileType: string) => {
-	if (fileType === "application/pdf") {
-		return "pdf";
-	}
-
-	if (
-		fileType ===
-		"application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-	) {
-		return "docx";
-	}
-
-	if (fileType === "text/csv" || fileType === "text/tab-separated-values") {
-		return "sheet";
-	}
-
-	return "text";
-};
-
 const resolveTitleKind = (
 	fileType: string,
 	documentKind: string,
@@ -195,6 +141,7 @@ export async function POST(request: Request) {
 
 		// Extract and validate text for non-image uploads
 		let extractedText = "";
+		let pdfPages: Array<{ pageNumber: number; text: string }> = [];
 		const isPDF = file.type === "application/pdf";
 
 		if (!isImageUpload && !isPDF) {
@@ -214,7 +161,8 @@ export async function POST(request: Request) {
 		} else if (isPDF) {
 			// For PDFs, attempt text extraction but don't fail if it errors
 			try {
-				extractedText = await extractText(fileBuffer, file.type);
+				pdfPages = await extractPdfPages(fileBuffer);
+				extractedText = pdfPages.map((page) => page.text).join("\n\n");
 			} catch (error) {
 				console.warn(
 					"PDF text extraction failed, uploading without text content:",
@@ -317,8 +265,16 @@ export async function POST(request: Request) {
 			}
 
 			if (normalizedText.length >= MIN_TEXT_LENGTH) {
-				const chunks = chunkText(normalizedText);
-				const embeddings = await createEmbeddings(chunks);
+				// Chunked by page, heading or row group so citations can point
+				// into the document
+				const chunks = chunkDocument({
+					kind,
+					text: normalizedText,
+					pages: pdfPages,
+				});
+				const embeddings = await createEmbeddings(
+					chunks.map((chunk) => chunk.content),
+				);
 
 				if (embeddings.length !== chunks.length) {
 					console.error("Embeddings length mismatch", {
@@ -335,11 +291,13 @@ export async function POST(request: Request) {
 				const createdAt = new Date();
 
 				await saveDocumentChunks({
-					chunks: chunks.map((content, index) => ({
+					chunks: chunks.map(({ content, pageNumber, metadata }, index) => ({
 						artifactId: documentId,
 						userId,
 						chatId,
 						chunkIndex: index,
+						pageNumber,
+						metadata,
 						content,
 						embedding: embeddings[index] ?? [],
 						createdAt,
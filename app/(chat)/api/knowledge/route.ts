@@ -0,0 +1,185 @@
+import { auth, currentUser } from "@clerk/nextjs/server";
+import { put } from "@vercel/blob";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+	DOCUMENT_CONTENT_TYPES,
+	extractPdfPages,
+	extractText,
+	resolveDocumentKind,
+} from "@/lib/ai/document-text";
+import {
+	canManageKnowledge,
+	indexKnowledgeDocument,
+	parseTags,
+} from "@/lib/ai/knowledge-base";
+import {
+	deleteKnowledgeDocumentById,
+	getKnowledgeDocumentById,
+	saveKnowledgeDocument,
+	verifyUser,
+} from "@/lib/db/queries";
+
+const MIN_TEXT_LENGTH = 10;
+
+const uuidSchema = z.string().uuid();
+
+const FileSchema = z.object({
+	file: z
+		.instanceof(Blob)
+		.refine((file) => file.size <= 10 * 1024 * 1024, {
+			message: "File size should be less than 10MB",
+		})
+		.refine((file) => DOCUMENT_CONTENT_TYPES.includes(file.type), {
+			message: "File type should be PDF, DOCX, TXT, CSV, or TSV",
+		}),
+});
+
+/**
+ * Uploads a document to the org's knowledge base, or replaces the file of an
+ * existing one when documentId is given. Org admins only.
+ */
+export async function POST(request: Request) {
+	const { userId, orgId, orgRole } = await auth();
+
+	if (!userId) {
+		return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+	}
+
+	if (!orgId) {
+		return NextResponse.json(
+			{ error: "Select an organisation to manage its knowledge base" },
+			{ status: 400 },
+		);
+	}
+
+	if (!canManageKnowledge(orgRole)) {
+		return NextResponse.json(
+			{ error: "Only organisation admins can manage the knowledge base" },
+			{ status: 403 },
+		);
+	}
+
+	try {
+		const formData = await request.formData();
+		const file = formData.get("file") as Blob;
+		const documentId = formData.get("documentId")?.toString() || null;
+		const tags = formData.get("tags")?.toString();
+
+		if (!file) {
+			return NextResponse.json({ error: "No file uploaded" }, { status: 400 });
+		}
+
+		const validatedFile = FileSchema.safeParse({ file });
+
+		if (!validatedFile.success) {
+			const errorMessage = validatedFile.error.issues
+				.map((error) => error.message)
+				.join(", ");
+
+			return NextResponse.json({ error: errorMessage }, { status: 400 });
+		}
+
+		if (documentId && !uuidSchema.safeParse(documentId).success) {
+			return NextResponse.json(
+				{ error: "Invalid knowledge document id" },
+				{ status: 400 },
+			);
+		}
+
+		const existing = documentId
+			? await getKnowledgeDocumentById({ id: documentId, orgId })
+			: null;
+
+		if (documentId && !existing) {
+			return NextResponse.json(
+				{ error: "Knowledge document not found" },
+				{ status: 404 },
+			);
+		}
+
+		const filename = (formData.get("file") as File).name;
+		const fileBuffer = Buffer.from(await file.arrayBuffer());
+
+		const pages =
+			file.type === "application/pdf" ? await extractPdfPages(fileBuffer) : [];
+		const text =
+			pages.length > 0
+				? pages.map((page) => page.text).join("\n\n")
+				: await extractText(fileBuffer, file.type);
+
+		if (text.replace(/\s+/g, " ").trim().length < MIN_TEXT_LENGTH) {
+			return NextResponse.json(
+				{
+					error: `The uploaded document does not contain enough text content. Please upload a file with at least ${MIN_TEXT_LENGTH} characters.`,
+				},
+				{ status: 400 },
+			);
+		}
+
+		// Chunks reference the uploader
+		const user = await currentUser();
+		await verifyUser({
+			id: userId,
+			email: user?.emailAddresses[0]?.emailAddress ?? "",
+		});
+
+		const blob = await put(`knowledge/${filename}`, fileBuffer, {
+			access: "public",
+			addRandomSuffix: true,
+		});
+
+		const contentType = file.type;
+		const kind = resolveDocumentKind(contentType);
+
+		if (existing) {
+			// The document keeps its old file and chunks unless indexing succeeds
+			const chunkCount = await indexKnowledgeDocument({
+				knowledgeDocumentId: existing.id,
+				orgId,
+				userId,
+				kind,
+				text,
+				pages,
+				values: {
+					title: filename,
+					contentType,
+					blobUrl: blob.url,
+					...(tags === undefined ? {} : { tags: parseTags(tags) }),
+				},
+			});
+
+			return NextResponse.json({ id: existing.id, chunkCount });
+		}
+
+		const saved = await saveKnowledgeDocument({
+			clerkOrgId: orgId,
+			title: filename,
+			contentType,
+			blobUrl: blob.url,
+			tags: parseTags(tags ?? ""),
+			uploadedByClerkUserId: userId,
+		});
+
+		let chunkCount: number;
+		try {
+			chunkCount = await indexKnowledgeDocument({
+				knowledgeDocumentId: saved.id,
+				orgId,
+				userId,
+				kind,
+				text,
+				pages,
+			});
+		} catch (error) {
+			// Don't leave a document nobody can find in search
+			await deleteKnowledgeDocumentById({ id: saved.id, orgId });
+			throw error;
+		}
+
+		return NextResponse.json({ id: saved.id, chunkCount });
+	} catch (error) {
+		console.error("Knowledge base upload failed:", error);
+		return NextResponse.json({ error: "Upload failed" }, { status: 500 });
+	}
+}
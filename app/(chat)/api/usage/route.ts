@@ -0,0 +1,123 @@
+import { auth } from "@clerk/nextjs/server";
+import type { NextRequest } from "next/server";
+import { entitlementsByPlan } from "@/lib/ai/entitlements";
+import { chatModels } from "@/lib/ai/models";
+import { getMonthToDateUsage, getOrgPlan } from "@/lib/ai/usage";
+import { getDailyLlmUsage } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+
+const MAX_DAYS = 365;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function modelName(modelId: string) {
+	return chatModels.find((m) => m.id === modelId)?.name ?? modelId;
+}
+
+/**
+ * Daily token series and per-model totals for the Usage page.
+ * `scope=org` covers the whole Clerk organisation and is limited to admins.
+ */
+export async function GET(request: NextRequest) {
+	const { searchParams } = request.nextUrl;
+
+	const days = Math.min(
+		Math.max(Number.parseInt(searchParams.get("days") || "30", 10) || 30, 1),
+		MAX_DAYS,
+	);
+
+	const { userId, orgId, orgRole } = await auth();
+
+	if (!userId) {
+		return new ChatSDKError("unauthorized:api").toResponse();
+	}
+
+	const canViewOrg =
+		!!orgId && !!orgRole && ["org:admin", "org:owner"].includes(orgRole);
+
+	const scope = searchParams.get("scope") === "org" ? "org" : "user";
+	if (scope === "org" && !canViewOrg) {
+		return new ChatSDKError(
+			"forbidden:api",
+			"Only organisation admins can view organisation usage.",
+		).toResponse();
+	}
+
+	const today = new Date();
+	today.setUTCHours(0, 0, 0, 0);
+	const since = new Date(today.getTime() - days * DAY_MS);
+
+	const rows = await getDailyLlmUsage({
+		userId,
+		clerkOrgId: scope === "org" ? orgId : null,
+		since,
+	});
+
+	// One entry per day, zero-filled, with a key per model name
+	const daily = new Map<string, Record<string, number | string>>();
+	for (let i = days; i >= 0; i--) {
+		const date = new Date(today.getTime() - i * DAY_MS)
+			.toISOString()
+			.slice(0, 10);
+		daily.set(date, { date });
+	}
+
+	const totals = new Map<
+		string,
+		{ inputTokens: number; outputTokens: number; totalTokens: number }
+	>();
+
+	for (const row of rows) {
+		const name = modelName(row.model);
+
+		const point = daily.get(row.day);
+		if (point) {
+			point[name] =
+				((point[name] as number | undefined) ?? 0) + row.totalTokens;
+		}
+
+		const total = totals.get(name) ?? {
+			inputTokens: 0,
+			outputTokens: 0,
+			totalTokens: 0,
+		};
+		total.inputTokens += row.inputTokens;
+		total.outputTokens += row.outputTokens;
+		total.totalTokens += row.totalTokens;
+		totals.set(name, total);
+	}
+
+	// Every day carries every model so the chart draws continuous lines
+	const series = Array.from(daily.values()).map((point) => {
+		for (const name of totals.keys()) {
+			point[name] ??= 0;
+		}
+		return point;
+	});
+
+	const models = Array.from(totals, ([model, total]) => ({
+		model,
+		...total,
+	})).sort((a, b) => b.totalTokens - a.totalTokens);
+
+	// Budgets apply to the whole org, whichever scope is being viewed
+	const [planId, monthToDate] = await Promise.all([
+		getOrgPlan(orgId),
+		getMonthToDateUsage({ userId, orgId }),
+	]);
+	const { monthlyTokenBudget, monthlyCostBudgetUsd } =
+		entitlementsByPlan[planId];
+
+	return Response.json({
+		scope,
+		days,
+		canViewOrg,
+		daily: series,
+		models,
+		plan: {
+			id: planId,
+			monthlyTokenBudget,
+			monthlyCostBudgetUsd,
+			monthToDate,
+		},
+	});
+}
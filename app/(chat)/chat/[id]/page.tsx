@@ -57,6 +57,7 @@ async function ChatPage({ params }: { params: Promise<{ id: string }> }) {
 					id={chat.id}
 					initialChatModel={DEFAULT_CHAT_MODEL}
 					initialMessages={uiMessages}
+					initialKnowledgeScope={chat.knowledgeScope}
 					initialVisibilityType={chat.visibility}
 					isReadonly={userId !== chat.userId}
 				/>
@@ -72,6 +73,7 @@ async function ChatPage({ params }: { params: Promise<{ id: string }> }) {
 				id={chat.id}
 				initialChatModel={chatModelFromCookie.value}
 				initialMessages={uiMessages}
+				initialKnowledgeScope={chat.knowledgeScope}
 				initialVisibilityType={chat.visibility}
 				isReadonly={userId !== chat.userId}
 			/>
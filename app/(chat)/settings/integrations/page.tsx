@@ -6,6 +6,7 @@ import {
 	CheckCircle2,
 	ChevronLeft,
 	Clock,
+	History,
 	Loader2,
 	Plus,
 	RefreshCcw,
@@ -56,9 +57,24 @@ interface IntegrationGrant {
 	expiresAt: string;
 }
 
+interface SyncRun {
+	id: string;
+	tenantBindingId: string;
+	dataType: string;
+	trigger: "manual" | "webhook" | "schedule";
+	status: "running" | "success" | "failed";
+	recordCount: number | null;
+	errorCode: string | null;
+	errorMessage: string | null;
+	startedAt: string;
+	finishedAt: string | null;
+}
+
 interface StatusResponse {
 	bindings: IntegrationBinding[];
 	grants: IntegrationGrant[];
+	latestSyncRuns: SyncRun[];
+	recentSyncRuns: SyncRun[];
 }
 
 interface XeroTenant {
@@ -113,6 +129,103 @@ function formatTimeUntil(dateString: string): string {
 	return `${diffDays} day${diffDays === 1 ? "" : "s"}`;
 }
 
+function formatDuration(startedAt: string, finishedAt: string | null): string {
+	if (!finishedAt) return "in progress";
+	const diffMs = new Date(finishedAt).getTime() - new Date(startedAt).getTime();
+	if (diffMs < 1000) return `${diffMs}ms`;
+	const diffSecs = Math.round(diffMs / 1000);
+	if (diffSecs < 60) return `${diffSecs}s`;
+	return `${Math.floor(diffSecs / 60)}m ${diffSecs % 60}s`;
+}
+
+function formatDataType(dataType: string): string {
+	const label = dataType.replace(/_/g, " ");
+	return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function SyncRunStatusIcon({ status }: { status: SyncRun["status"] }) {
+	if (status === "success") {
+		return <CheckCircle2 className="w-4 h-4 text-green-600 flex-shrink-0" />;
+	}
+	if (status === "failed") {
+		return <AlertCircle className="w-4 h-4 text-red-600 flex-shrink-0" />;
+	}
+	return (
+		<Loader2 className="w-4 h-4 text-muted-foreground animate-spin flex-shrink-0" />
+	);
+}
+
+function SyncHistory({
+	latestRuns,
+	recentRuns,
+}: {
+	latestRuns: SyncRun[];
+	recentRuns: SyncRun[];
+}) {
+	if (latestRuns.length === 0) {
+		return (
+			<div className="text-sm text-muted-foreground italic">
+				No syncs have run for this organization yet.
+			</div>
+		);
+	}
+
+	return (
+		<div className="space-y-4 text-sm">
+			{/* Latest run per data type */}
+			<div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+				{latestRuns.map((run) => (
+					<div key={run.id} className="flex items-start gap-2">
+						<SyncRunStatusIcon status={run.status} />
+						<div className="min-w-0">
+							<div className="font-medium">{formatDataType(run.dataType)}</div>
+							<div className="text-xs text-muted-foreground">
+								{run.status === "failed" ? "Failed" : "Synced"}{" "}
+								{formatRelativeTime(run.startedAt)} ({run.trigger})
+							</div>
+							{run.status === "failed" && run.errorCode && (
+								<div
+									className="text-xs text-red-600 truncate"
+									title={run.errorMessage ?? undefined}
+								>
+									{run.errorCode}
+									{run.errorMessage ? `: ${run.errorMessage}` : ""}
+								</div>
+							)}
+						</div>
+					</div>
+				))}
+			</div>
+
+			{/* Recent runs */}
+			<div>
+				<div className="text-muted-foreground text-xs mb-2">Recent runs</div>
+				<div className="divide-y border rounded-md bg-card">
+					{recentRuns.map((run) => (
+						<div
+							key={run.id}
+							className="flex items-center justify-between gap-2 px-3 py-2"
+						>
+							<div className="flex items-center gap-2 min-w-0">
+								<SyncRunStatusIcon status={run.status} />
+								<span className="truncate">{formatDataType(run.dataType)}</span>
+								<Badge variant="outline">{run.trigger}</Badge>
+							</div>
+							<div className="text-xs text-muted-foreground text-right flex-shrink-0">
+								{run.status === "failed"
+									? run.errorCode
+									: `${run.recordCount ?? 0} records`}{" "}
+								· {formatDuration(run.startedAt, run.finishedAt)} ·{" "}
+								{formatDateTime(run.startedAt)}
+							</div>
+						</div>
+					))}
+				</div>
+			</div>
+		</div>
+	);
+}
+
 function getTokenHealth(
 	expiresAt: string,
 	refreshTokenIssuedAt: string | null,
@@ -183,6 +296,8 @@ export default function IntegrationsPage() {
 	const [data, setData] = useState<StatusResponse>({
 		bindings: [],
 		grants: [],
+		latestSyncRuns: [],
+		recentSyncRuns: [],
 	});
 
 	// Modal State
@@ -385,6 +500,13 @@ export default function IntegrationsPage() {
 											binding.grantStatus,
 										);
 
+										const latestRuns = data.latestSyncRuns.filter(
+											(run) => run.tenantBindingId === binding.id,
+										);
+										const recentRuns = data.recentSyncRuns
+											.filter((run) => run.tenantBindingId === binding.id)
+											.slice(0, 10);
+
 										return (
 											<div
 												key={binding.id}
@@ -562,6 +684,18 @@ export default function IntegrationsPage() {
 														)}
 													</div>
 												</div>
+
+												{/* Sync History */}
+												<div className="p-4 border-t">
+													<h4 className="text-sm font-medium mb-3 flex items-center gap-2">
+														<History className="w-4 h-4 text-muted-foreground" />
+														Sync History
+													</h4>
+													<SyncHistory
+														latestRuns={latestRuns}
+														recentRuns={recentRuns}
+													/>
+												</div>
 											</div>
 										);
 									})}
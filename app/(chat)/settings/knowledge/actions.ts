@@ -0,0 +1,50 @@
+"use server";
+
+import { auth } from "@clerk/nextjs/server";
+import { revalidatePath } from "next/cache";
+import { z } from "zod";
+import { canManageKnowledge, parseTags } from "@/lib/ai/knowledge-base";
+import {
+	deleteKnowledgeDocumentById,
+	getKnowledgeDocumentById,
+	updateKnowledgeDocument,
+} from "@/lib/db/queries";
+
+const uuidSchema = z.string().uuid();
+
+async function requireKnowledgeManager(documentId: string) {
+	const { userId, orgId, orgRole } = await auth();
+	if (!userId || !orgId) throw new Error("Not authenticated");
+	if (!canManageKnowledge(orgRole)) {
+		throw new Error("Only organisation admins can manage the knowledge base");
+	}
+	if (!uuidSchema.safeParse(documentId).success) {
+		throw new Error("Invalid document");
+	}
+
+	const document = await getKnowledgeDocumentById({ id: documentId, orgId });
+	if (!document) throw new Error("Knowledge document not found");
+
+	return { orgId, document };
+}
+
+export async function setKnowledgeDocumentTags(
+	documentId: string,
+	tags: string,
+) {
+	const { orgId } = await requireKnowledgeManager(documentId);
+
+	await updateKnowledgeDocument({
+		id: documentId,
+		orgId,
+		values: { tags: parseTags(tags) },
+	});
+	revalidatePath("/settings/knowledge");
+}
+
+export async function deleteKnowledgeDocument(documentId: string) {
+	const { orgId } = await requireKnowledgeManager(documentId);
+
+	await deleteKnowledgeDocumentById({ id: documentId, orgId });
+	revalidatePath("/settings/knowledge");
+}
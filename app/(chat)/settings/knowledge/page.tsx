@@ -0,0 +1,54 @@
+import { auth } from "@clerk/nextjs/server";
+import { ChevronLeft } from "lucide-react";
+import Link from "next/link";
+import { KnowledgeBaseManager } from "@/components/knowledge-base-manager";
+import { SettingsHeader } from "@/components/settings-header";
+import { Button } from "@/components/ui/button";
+import { canManageKnowledge } from "@/lib/ai/knowledge-base";
+import { getKnowledgeDocumentsByOrgId } from "@/lib/db/queries";
+
+export const metadata = {
+	title: "Knowledge Base",
+};
+
+export default async function KnowledgeBasePage() {
+	const { orgId, orgRole } = await auth();
+	const documents = orgId
+		? await getKnowledgeDocumentsByOrgId({ orgId })
+		: null;
+
+	return (
+		<>
+			<SettingsHeader />
+			<div className="flex flex-col gap-8 p-4 md:p-8 max-w-4xl mx-auto w-full">
+				<div className="flex items-center gap-4">
+					<Link href="/settings">
+						<Button variant="ghost" size="icon">
+							<ChevronLeft className="h-5 w-5" />
+						</Button>
+					</Link>
+					<h1 className="text-3xl font-bold">Knowledge Base</h1>
+				</div>
+
+				<div className="border rounded-lg p-6">
+					<h2 className="text-xl font-semibold mb-4">Organisation Library</h2>
+					<p className="text-muted-foreground mb-6">
+						Documents here are searched in every member's chats, unless a chat
+						is limited to its own files. Policy manuals, price lists and
+						procedures are good candidates.
+					</p>
+					{documents ? (
+						<KnowledgeBaseManager
+							documents={documents}
+							canManage={canManageKnowledge(orgRole)}
+						/>
+					) : (
+						<p className="text-sm text-muted-foreground">
+							Select an organisation to manage its knowledge base.
+						</p>
+					)}
+				</div>
+			</div>
+		</>
+	);
+}
@@ -1,5 +1,11 @@
 import Link from "next/link";
-import { ArrowUpIcon, BoxIcon, SparklesIcon } from "@/components/icons";
+import {
+	ArrowUpIcon,
+	BoxIcon,
+	FileIcon,
+	SparklesIcon,
+	WarningIcon,
+} from "@/components/icons";
 import { SettingsHeader } from "@/components/settings-header";
 
 export default function SettingsPage() {
@@ -39,6 +45,36 @@ export default function SettingsPage() {
 							</p>
 						</div>
 					</Link>
+
+					<Link href="/settings/risk-rules" className="block">
+						<div className="flex flex-col gap-2 p-6 border rounded-lg hover:bg-muted/50 transition-colors h-full">
+							<div className="flex items-center gap-2">
+								<div className="p-2 rounded-md bg-orange-100 dark:bg-orange-900/30 text-orange-600 dark:text-orange-400">
+									<WarningIcon size={20} />
+								</div>
+								<h2 className="text-xl font-semibold">AP Risk Rules</h2>
+							</div>
+							<p className="text-muted-foreground">
+								Set how supplier bills are risk scored, including custom rules
+								for your organisation's risk appetite.
+							</p>
+						</div>
+					</Link>
+
+					<Link href="/settings/knowledge" className="block">
+						<div className="flex flex-col gap-2 p-6 border rounded-lg hover:bg-muted/50 transition-colors h-full">
+							<div className="flex items-center gap-2">
+								<div className="p-2 rounded-md bg-purple-100 dark:bg-purple-900/30 text-purple-600 dark:text-purple-400">
+									<FileIcon size={20} />
+								</div>
+								<h2 className="text-xl font-semibold">Knowledge Base</h2>
+							</div>
+							<p className="text-muted-foreground">
+								Share policy manuals and other documents with every chat in your
+								organisation.
+							</p>
+						</div>
+					</Link>
 				</div>
 			</div>
 		</>
@@ -0,0 +1,53 @@
+import { auth } from "@clerk/nextjs/server";
+import { ChevronLeft } from "lucide-react";
+import Link from "next/link";
+import { RiskRulesForm } from "@/components/risk-rules-form";
+import { SettingsHeader } from "@/components/settings-header";
+import { Button } from "@/components/ui/button";
+import { getRiskScoringConfig } from "@/lib/agents/ap/risk-config";
+import { DEFAULT_RISK_SCORING_CONFIG } from "@/lib/agents/ap/risk-scoring";
+
+export const metadata = {
+	title: "AP Risk Rules",
+};
+
+export default async function RiskRulesPage() {
+	const { orgId, orgRole } = await auth();
+	const config = orgId ? await getRiskScoringConfig(orgId) : null;
+	const canEdit = orgRole === "org:admin" || orgRole === "org:owner";
+
+	return (
+		<>
+			<SettingsHeader />
+			<div className="flex flex-col gap-8 p-4 md:p-8 max-w-4xl mx-auto w-full">
+				<div className="flex items-center gap-4">
+					<Link href="/settings">
+						<Button variant="ghost" size="icon">
+							<ChevronLeft className="h-5 w-5" />
+						</Button>
+					</Link>
+					<h1 className="text-3xl font-bold">AP Risk Rules</h1>
+				</div>
+
+				<div className="border rounded-lg p-6">
+					<h2 className="text-xl font-semibold mb-4">Supplier Risk Scoring</h2>
+					<p className="text-muted-foreground mb-6">
+						Decide how the Accounts Payable agent scores bills and suppliers.
+						These rules apply to everyone in your organisation.
+					</p>
+					{config ? (
+						<RiskRulesForm
+							initialConfig={config}
+							defaultConfig={DEFAULT_RISK_SCORING_CONFIG}
+							canEdit={canEdit}
+						/>
+					) : (
+						<p className="text-sm text-muted-foreground">
+							Select an organisation to manage its risk rules.
+						</p>
+					)}
+				</div>
+			</div>
+		</>
+	);
+}
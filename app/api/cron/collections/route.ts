@@ -0,0 +1,21 @@
+import { processDueCollectionEmails } from "@/lib/agents/ar/collections";
+import { verifyCronRequest } from "@/lib/auth/cron";
+import { logError } from "@/lib/integrations/errors";
+
+export const maxDuration = 300;
+
+/**
+ * Scheduled send of AR collection follow-ups that have fallen due
+ */
+export async function GET(req: Request) {
+	const unauthorised = verifyCronRequest(req);
+	if (unauthorised) return unauthorised;
+
+	try {
+		const result = await processDueCollectionEmails();
+		return Response.json(result);
+	} catch (error) {
+		logError(error, { context: "cron_collections" });
+		return new Response("Collections run failed", { status: 500 });
+	}
+}
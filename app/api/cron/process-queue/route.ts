@@ -0,0 +1,22 @@
+import { verifyCronRequest } from "@/lib/auth/cron";
+import { logError } from "@/lib/integrations/errors";
+import { SyncWorker } from "@/lib/integrations/sync/worker";
+
+export const maxDuration = 60;
+
+/**
+ * Scheduled drain of the webhook-driven sync queue.
+ * Leaves headroom under maxDuration so an in-flight job can finish.
+ */
+export async function GET(req: Request) {
+	const unauthorised = verifyCronRequest(req);
+	if (unauthorised) return unauthorised;
+
+	try {
+		const result = await SyncWorker.processQueue({ timeBudgetMs: 45_000 });
+		return Response.json(result);
+	} catch (error) {
+		logError(error, { context: "cron_process_queue" });
+		return new Response("Queue processing failed", { status: 500 });
+	}
+}
@@ -0,0 +1,21 @@
+import { verifyCronRequest } from "@/lib/auth/cron";
+import { logError } from "@/lib/integrations/errors";
+import { SyncWorker } from "@/lib/integrations/sync/worker";
+
+export const maxDuration = 300;
+
+/**
+ * Scheduled incremental Xero sync for every active tenant binding
+ */
+export async function GET(req: Request) {
+	const unauthorised = verifyCronRequest(req);
+	if (unauthorised) return unauthorised;
+
+	try {
+		const results = await SyncWorker.runAllTenantsOnce();
+		return Response.json({ results });
+	} catch (error) {
+		logError(error, { context: "cron_xero_sync" });
+		return new Response("Sync failed", { status: 500 });
+	}
+}
@@ -1,7 +1,13 @@
 import { auth } from "@clerk/nextjs/server";
-import { and, eq } from "drizzle-orm";
+import { and, desc, eq, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
-import { integrationGrants, integrationTenantBindings } from "@/lib/db/schema";
+import {
+	integrationGrants,
+	integrationSyncRuns,
+	integrationTenantBindings,
+} from "@/lib/db/schema";
+
+const RECENT_SYNC_RUN_LIMIT = 50;
 
 export async function GET(req: Request) {
 	const { orgId } = await auth();
@@ -54,8 +60,53 @@ export async function GET(req: Request) {
 		.from(integrationGrants)
 		.where(eq(integrationGrants.clerkOrgId, orgId));
 
+	// Sync run history for the active bindings: the latest run of each data
+	// type (is anything stale or failing?) plus a recent history feed
+	const bindingIds = bindingsWithGrants.map((binding) => binding.id);
+	const syncRunFields = {
+		id: integrationSyncRuns.id,
+		tenantBindingId: integrationSyncRuns.tenantBindingId,
+		dataType: integrationSyncRuns.dataType,
+		trigger: integrationSyncRuns.trigger,
+		status: integrationSyncRuns.status,
+		recordCount: integrationSyncRuns.recordCount,
+		errorCode: integrationSyncRuns.errorCode,
+		errorMessage: integrationSyncRuns.errorMessage,
+		startedAt: integrationSyncRuns.startedAt,
+		finishedAt: integrationSyncRuns.finishedAt,
+	};
+
+	const [latestSyncRuns, recentSyncRuns] =
+		bindingIds.length === 0
+			? [[], []]
+			: await Promise.all([
+					db
+						.selectDistinctOn(
+							[
+								integrationSyncRuns.tenantBindingId,
+								integrationSyncRuns.dataType,
+							],
+							syncRunFields,
+						)
+						.from(integrationSyncRuns)
+						.where(inArray(integrationSyncRuns.tenantBindingId, bindingIds))
+						.orderBy(
+							integrationSyncRuns.tenantBindingId,
+							integrationSyncRuns.dataType,
+							desc(integrationSyncRuns.startedAt),
+						),
+					db
+						.select(syncRunFields)
+						.from(integrationSyncRuns)
+						.where(inArray(integrationSyncRuns.tenantBindingId, bindingIds))
+						.orderBy(desc(integrationSyncRuns.startedAt))
+						.limit(RECENT_SYNC_RUN_LIMIT),
+				]);
+
 	return Response.json({
 		bindings: bindingsWithGrants,
 		grants,
+		latestSyncRuns,
+		recentSyncRuns,
 	});
 }
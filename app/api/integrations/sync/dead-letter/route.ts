@@ -0,0 +1,109 @@
+import { auth } from "@clerk/nextjs/server";
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { integrationTenantBindings } from "@/lib/db/schema";
+import { logError } from "@/lib/integrations/errors";
+import { SyncQueue } from "@/lib/integrations/sync/queue";
+
+const DeadLetterActionSchema = z.object({
+	action: z.enum(["replay", "discard"]),
+	jobIds: z.array(z.string().uuid()).min(1).max(100),
+});
+
+async function requireOrgAdmin() {
+	const { userId, orgId, orgRole } = await auth();
+
+	if (!userId || !orgId) {
+		return { error: new Response("Unauthorized", { status: 401 }) };
+	}
+
+	if (orgRole !== "org:admin" && orgRole !== "org:owner") {
+		return { error: new Response("Forbidden", { status: 403 }) };
+	}
+
+	const bindings = await db
+		.select({
+			id: integrationTenantBindings.id,
+			externalTenantName: integrationTenantBindings.externalTenantName,
+		})
+		.from(integrationTenantBindings)
+		.where(eq(integrationTenantBindings.clerkOrgId, orgId));
+
+	return { bindings: new Map(bindings.map((b) => [b.id, b])) };
+}
+
+/**
+ * List dead-lettered sync jobs for the current organization's Xero tenants
+ */
+export async function GET() {
+	const result = await requireOrgAdmin();
+	if (result.error) return result.error;
+
+	try {
+		const jobs = await SyncQueue.listDeadLetters();
+
+		return Response.json({
+			jobs: jobs
+				.filter((job) => result.bindings.has(job.tenantBindingId))
+				.map((job) => ({
+					...job,
+					tenantName:
+						result.bindings.get(job.tenantBindingId)?.externalTenantName ??
+						null,
+				})),
+		});
+	} catch (error) {
+		logError(error, { context: "dead_letter_list" });
+		return new Response("Failed to load dead-lettered jobs", { status: 500 });
+	}
+}
+
+/**
+ * Replay or discard dead-lettered sync jobs
+ */
+export async function POST(req: Request) {
+	const result = await requireOrgAdmin();
+	if (result.error) return result.error;
+
+	let body: unknown;
+	try {
+		body = await req.json();
+	} catch {
+		return new Response("Invalid JSON", { status: 400 });
+	}
+
+	const parsed = DeadLetterActionSchema.safeParse(body);
+	if (!parsed.success) {
+		return new Response("Invalid input", { status: 400 });
+	}
+
+	const { action, jobIds } = parsed.data;
+
+	try {
+		// Only touch jobs that belong to this organization's tenants
+		const ownedJobIds = new Set(
+			(await SyncQueue.listDeadLetters())
+				.filter((job) => result.bindings.has(job.tenantBindingId))
+				.map((job) => job.id),
+		);
+
+		const updated: string[] = [];
+		for (const jobId of jobIds) {
+			if (!ownedJobIds.has(jobId)) continue;
+
+			const ok =
+				action === "replay"
+					? await SyncQueue.replayDeadLetter(jobId)
+					: await SyncQueue.discardDeadLetter(jobId);
+			if (ok) updated.push(jobId);
+		}
+
+		return Response.json({ action, updated });
+	} catch (error) {
+		logError(error, { context: "dead_letter_action", action });
+		return new Response("Failed to update dead-lettered jobs", {
+			status: 500,
+		});
+	}
+}
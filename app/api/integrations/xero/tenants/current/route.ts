@@ -0,0 +1,75 @@
+import { auth } from "@clerk/nextjs/server";
+import { z } from "zod";
+import {
+	CONSOLIDATED_SCOPE,
+	getXeroTenantScope,
+	listActiveXeroBindings,
+	setTenantSelection,
+} from "@/lib/integrations/xero/tenant-scope";
+
+const SelectCurrentTenantSchema = z.object({
+	// A tenant binding ID, or "consolidated" for every connected organisation
+	selection: z.union([z.string().uuid(), z.literal(CONSOLIDATED_SCOPE)]),
+});
+
+/**
+ * The Xero organisations this org has connected and which one the user is viewing
+ */
+export async function GET() {
+	const { userId, orgId } = await auth();
+
+	if (!userId || !orgId) {
+		return new Response("Unauthorized", { status: 401 });
+	}
+
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) {
+		return Response.json({ tenants: [], current: null });
+	}
+
+	const bindings = await listActiveXeroBindings(orgId);
+
+	return Response.json({
+		tenants: bindings.map((b) => ({
+			id: b.id,
+			name: b.externalTenantName ?? b.externalTenantId,
+		})),
+		current: scope.consolidated ? CONSOLIDATED_SCOPE : scope.bindings[0].id,
+	});
+}
+
+/**
+ * Switch the Xero organisation the user is viewing
+ */
+export async function POST(req: Request) {
+	const { userId, orgId } = await auth();
+
+	if (!userId || !orgId) {
+		return new Response("Unauthorized", { status: 401 });
+	}
+
+	let body: unknown;
+	try {
+		body = await req.json();
+	} catch {
+		return new Response("Invalid JSON", { status: 400 });
+	}
+
+	const result = SelectCurrentTenantSchema.safeParse(body);
+	if (!result.success) {
+		return new Response("Invalid input", { status: 400 });
+	}
+
+	const { selection } = result.data;
+
+	if (selection !== CONSOLIDATED_SCOPE) {
+		const bindings = await listActiveXeroBindings(orgId);
+		if (!bindings.some((b) => b.id === selection)) {
+			return new Response("Tenant binding not found", { status: 404 });
+		}
+	}
+
+	await setTenantSelection(orgId, selection);
+
+	return Response.json({ success: true, current: selection });
+}
@@ -157,17 +157,13 @@ export async function POST(req: Request) {
 				const binding = bindingMap.get(tenantId);
 
 				if (binding) {
-					// Enqueue Sync Job
-					// Queue processing has been disabled (cron removed).
-					// Uncomment the below if you implement a new worker mechanism.
-					/*
+					// Enqueue a targeted resync; /api/cron/process-queue drains it
 					await SyncQueue.enqueue({
 						tenantBindingId: binding.id,
 						eventId: externalEventId,
 						resourceType: event.eventCategory,
 						resourceId: event.resourceId,
 					});
-					*/
 				} else {
 					console.warn("Webhook received for unknown tenant", tenantId, {
 						tenantId,
@@ -1,12 +1,14 @@
 import { streamObject } from "ai";
 import { z } from "zod";
+import { ARTIFACT_MODEL } from "@/lib/ai/models";
 import { intellisyncCodePrompt, updateDocumentPrompt } from "@/lib/ai/prompts";
 import { getArtifactModel } from "@/lib/ai/providers";
+import { recordUsage } from "@/lib/ai/usage";
 import { createDocumentHandler } from "@/lib/artifacts/server";
 
 export const codeDocumentHandler = createDocumentHandler<"code">({
 	kind: "code",
-	onCreateDocument: async ({ title, dataStream }) => {
+	onCreateDocument: async ({ title, dataStream, userId, orgId, chatId }) => {
 		let draftContent = "";
 
 		const { fullStream } = streamObject({
@@ -16,6 +18,15 @@ export const codeDocumentHandler = createDocumentHandler<"code">({
 			schema: z.object({
 				code: z.string(),
 			}),
+			onFinish: ({ usage }) =>
+				recordUsage({
+					userId,
+					orgId,
+					chatId,
+					model: ARTIFACT_MODEL,
+					feature: "artifact",
+					usage,
+				}),
 		});
 
 		for await (const delta of fullStream) {
@@ -39,7 +50,14 @@ export const codeDocumentHandler = createDocumentHandler<"code">({
 
 		return draftContent;
 	},
-	onUpdateDocument: async ({ document, description, dataStream }) => {
+	onUpdateDocument: async ({
+		document,
+		description,
+		dataStream,
+		userId,
+		orgId,
+		chatId,
+	}) => {
 		let draftContent = "";
 
 		const { fullStream } = streamObject({
@@ -49,6 +67,15 @@ export const codeDocumentHandler = createDocumentHandler<"code">({
 			schema: z.object({
 				code: z.string(),
 			}),
+			onFinish: ({ usage }) =>
+				recordUsage({
+					userId,
+					orgId,
+					chatId,
+					model: ARTIFACT_MODEL,
+					feature: "artifact",
+					usage,
+				}),
 		});
 
 		for await (const delta of fullStream) {
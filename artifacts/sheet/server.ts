@@ -1,13 +1,22 @@
 import { streamObject } from "ai";
 import { z } from "zod";
+import { ARTIFACT_MODEL } from "@/lib/ai/models";
 import { intellisyncSheetPrompt, updateDocumentPrompt } from "@/lib/ai/prompts";
 import { getArtifactModel } from "@/lib/ai/providers";
+import { recordUsage } from "@/lib/ai/usage";
 import { createDocumentHandler } from "@/lib/artifacts/server";
 import { validateAndSanitizeCSV } from "@/lib/utils/csv-validation";
 
 export const sheetDocumentHandler = createDocumentHandler<"sheet">({
 	kind: "sheet",
-	onCreateDocument: async ({ title, description, dataStream }) => {
+	onCreateDocument: async ({
+		title,
+		description,
+		dataStream,
+		userId,
+		orgId,
+		chatId,
+	}) => {
 		let draftContent = "";
 
 		// If description contains CSV data (from uploaded file), use it directly
@@ -46,6 +55,15 @@ export const sheetDocumentHandler = createDocumentHandler<"sheet">({
 						"CSV data with proper newlines and Australian date/currency formatting",
 					),
 			}),
+			onFinish: ({ usage }) =>
+				recordUsage({
+					userId,
+					orgId,
+					chatId,
+					model: ARTIFACT_MODEL,
+					feature: "artifact",
+					usage,
+				}),
 		});
 
 		for await (const delta of fullStream) {
@@ -82,7 +100,14 @@ export const sheetDocumentHandler = createDocumentHandler<"sheet">({
 
 		return sanitizedContent;
 	},
-	onUpdateDocument: async ({ document, description, dataStream }) => {
+	onUpdateDocument: async ({
+		document,
+		description,
+		dataStream,
+		userId,
+		orgId,
+		chatId,
+	}) => {
 		let draftContent = "";
 
 		const { fullStream } = streamObject({
@@ -96,6 +121,15 @@ export const sheetDocumentHandler = createDocumentHandler<"sheet">({
 						"CSV data with proper newlines and Australian date/currency formatting",
 					),
 			}),
+			onFinish: ({ usage }) =>
+				recordUsage({
+					userId,
+					orgId,
+					chatId,
+					model: ARTIFACT_MODEL,
+					feature: "artifact",
+					usage,
+				}),
 		});
 
 		for await (const delta of fullStream) {
@@ -1,17 +1,28 @@
 import { streamText } from "ai";
+import { ARTIFACT_MODEL } from "@/lib/ai/models";
 import { intellisyncTextPrompt, updateDocumentPrompt } from "@/lib/ai/prompts";
 import { getArtifactModel } from "@/lib/ai/providers";
+import { recordUsage } from "@/lib/ai/usage";
 import { createDocumentHandler } from "@/lib/artifacts/server";
 
 export const textDocumentHandler = createDocumentHandler<"text">({
 	kind: "text",
-	onCreateDocument: async ({ title, dataStream }) => {
+	onCreateDocument: async ({ title, dataStream, userId, orgId, chatId }) => {
 		let draftContent = "";
 
 		const { fullStream } = streamText({
 			model: getArtifactModel(),
 			system: intellisyncTextPrompt("general"),
 			prompt: title,
+			onFinish: ({ totalUsage }) =>
+				recordUsage({
+					userId,
+					orgId,
+					chatId,
+					model: ARTIFACT_MODEL,
+					feature: "artifact",
+					usage: totalUsage,
+				}),
 		});
 
 		for await (const delta of fullStream) {
@@ -32,7 +43,14 @@ export const textDocumentHandler = createDocumentHandler<"text">({
 
 		return draftContent;
 	},
-	onUpdateDocument: async ({ document, description, dataStream }) => {
+	onUpdateDocument: async ({
+		document,
+		description,
+		dataStream,
+		userId,
+		orgId,
+		chatId,
+	}) => {
 		let draftContent = "";
 
 		const { fullStream } = streamText({
@@ -47,6 +65,15 @@ export const textDocumentHandler = createDocumentHandler<"text">({
 					},
 				},
 			},
+			onFinish: ({ totalUsage }) =>
+				recordUsage({
+					userId,
+					orgId,
+					chatId,
+					model: ARTIFACT_MODEL,
+					feature: "artifact",
+					usage: totalUsage,
+				}),
 		});
 
 		for await (const delta of fullStream) {
@@ -2,8 +2,13 @@
 
 import { useState } from "react";
 import { AgentHeader } from "@/components/agent-header";
+import {
+	ConsolidationNotice,
+	type ConsolidationSummary,
+} from "@/components/agents/consolidation-notice";
 import { ApAgeingChart } from "./ap-ageing-chart";
 import { ApSummaryCards } from "./ap-summary-cards";
+import { SpendBreakdown } from "./spend-breakdown";
 import { SyncBillsButton } from "./sync-bills-button";
 import { VendorSheet } from "./vendor-sheet";
 import { VendorTable } from "./vendor-table";
@@ -30,6 +35,7 @@ interface AgeingData {
 interface DashboardData {
 	summary: DashboardSummary;
 	ageing: AgeingData;
+	consolidation: ConsolidationSummary | null;
 }
 
 interface Vendor {
@@ -48,12 +54,24 @@ interface Vendor {
 	riskFactors: string[];
 }
 
+interface SpendBreakdownData {
+	byAccount: { accountCode: string; total: number; lineCount: number }[];
+	byTracking: { category: string; option: string; total: number }[];
+}
+
 interface ApDashboardProps {
 	initialData: DashboardData | null;
 	initialVendors: Vendor[];
+	spendBreakdown: SpendBreakdownData | null;
+	spendBreakdownDays: number;
 }
 
-export function ApDashboard({ initialData, initialVendors }: ApDashboardProps) {
+export function ApDashboard({
+	initialData,
+	initialVendors,
+	spendBreakdown,
+	spendBreakdownDays,
+}: ApDashboardProps) {
 	const [selectedVendorId, setSelectedVendorId] = useState<string | null>(null);
 	const [isSheetOpen, setIsSheetOpen] = useState(false);
 
@@ -72,6 +90,7 @@ export function ApDashboard({ initialData, initialVendors }: ApDashboardProps) {
 			<main className="flex-1 overflow-y-auto p-6 space-y-6">
 				{initialData && (
 					<>
+						<ConsolidationNotice consolidation={initialData.consolidation} />
 						<ApSummaryCards
 							totalPayable={initialData.summary.totalPayable}
 							countPayable={initialData.summary.countPayable}
@@ -86,6 +105,10 @@ export function ApDashboard({ initialData, initialVendors }: ApDashboardProps) {
 					</>
 				)}
 
+				{spendBreakdown && (
+					<SpendBreakdown days={spendBreakdownDays} data={spendBreakdown} />
+				)}
+
 				<VendorTable
 					vendors={initialVendors}
 					onVendorClick={handleVendorClick}
@@ -0,0 +1,100 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+
+const MAX_ROWS = 10;
+
+interface SpendBreakdownProps {
+	days: number;
+	data: {
+		byAccount: { accountCode: string; total: number; lineCount: number }[];
+		byTracking: { category: string; option: string; total: number }[];
+	};
+}
+
+const formatCurrency = (value: number) =>
+	`$${value.toLocaleString("en-AU", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+export function SpendBreakdown({ days, data }: SpendBreakdownProps) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Spend Breakdown (last {days} days)</CardTitle>
+			</CardHeader>
+			<CardContent className="grid grid-cols-1 md:grid-cols-2 gap-6">
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Account</TableHead>
+							<TableHead className="text-right">Lines</TableHead>
+							<TableHead className="text-right">Spend</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{data.byAccount.length === 0 ? (
+							<TableRow>
+								<TableCell className="text-muted-foreground" colSpan={3}>
+									No bill line items in this period
+								</TableCell>
+							</TableRow>
+						) : (
+							data.byAccount.slice(0, MAX_ROWS).map((account) => (
+								<TableRow key={account.accountCode}>
+									<TableCell className="font-medium">
+										{account.accountCode}
+									</TableCell>
+									<TableCell className="text-right">
+										{account.lineCount}
+									</TableCell>
+									<TableCell className="text-right">
+										{formatCurrency(account.total)}
+									</TableCell>
+								</TableRow>
+							))
+						)}
+					</TableBody>
+				</Table>
+
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Tracking Category</TableHead>
+							<TableHead className="text-right">Spend</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{data.byTracking.length === 0 ? (
+							<TableRow>
+								<TableCell className="text-muted-foreground" colSpan={2}>
+									No tracked spend in this period
+								</TableCell>
+							</TableRow>
+						) : (
+							data.byTracking.slice(0, MAX_ROWS).map((entry) => (
+								<TableRow key={`${entry.category}:${entry.option}`}>
+									<TableCell>
+										<span className="text-muted-foreground">
+											{entry.category}:
+										</span>{" "}
+										{entry.option}
+									</TableCell>
+									<TableCell className="text-right">
+										{formatCurrency(entry.total)}
+									</TableCell>
+								</TableRow>
+							))
+						)}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
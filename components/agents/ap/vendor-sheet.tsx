@@ -18,6 +18,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
 	generateBillCommentary,
 	getVendorDetails,
+	setSupplierRelatedEntity,
 } from "@/lib/agents/ap/actions";
 
 interface VendorSheetProps {
@@ -52,6 +53,17 @@ export function VendorSheet({
 		}
 	}, [vendorId, open]);
 
+	const handleToggleRelatedEntity = async () => {
+		if (!data) return;
+		const isRelatedEntity = !data.supplier.isRelatedEntity;
+		try {
+			await setSupplierRelatedEntity(data.supplier.id, isRelatedEntity);
+			setData({ ...data, supplier: { ...data.supplier, isRelatedEntity } });
+		} catch (_error) {
+			toast.error("Failed to update supplier");
+		}
+	};
+
 	const handleGenerateCommentary = async (
 		billId: string,
 		summary: string,
@@ -147,9 +159,22 @@ export function VendorSheet({
 							)}
 						</div>
 
-						<div className="text-sm text-muted-foreground space-y-1">
-							<p>{data.supplier.email}</p>
-							<p>{data.supplier.phone}</p>
+						<div className="flex items-start justify-between gap-4">
+							<div className="text-sm text-muted-foreground space-y-1">
+								<p>{data.supplier.email}</p>
+								<p>{data.supplier.phone}</p>
+							</div>
+							<Button
+								variant={
+									data.supplier.isRelatedEntity ? "secondary" : "outline"
+								}
+								size="sm"
+								onClick={handleToggleRelatedEntity}
+							>
+								{data.supplier.isRelatedEntity
+									? "Related entity"
+									: "Mark as related entity"}
+							</Button>
 						</div>
 
 						<Tabs defaultValue="unpaid">
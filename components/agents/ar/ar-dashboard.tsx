@@ -2,9 +2,14 @@
 
 import { useState } from "react";
 import { AgentHeader } from "@/components/agent-header";
+import {
+	ConsolidationNotice,
+	type ConsolidationSummary,
+} from "@/components/agents/consolidation-notice";
 import { AgeingChart } from "./ageing-chart";
 import { CustomerSheet } from "./customer-sheet";
 import { CustomerTable } from "./customer-table";
+import { RevenueByItem } from "./revenue-by-item";
 import { SummaryCards } from "./summary-cards";
 import { SyncButton } from "./sync-button";
 
@@ -30,6 +35,7 @@ interface AgeingData {
 interface DashboardData {
 	summary: DashboardSummary;
 	ageing: AgeingData;
+	consolidation: ConsolidationSummary | null;
 }
 
 interface Customer {
@@ -43,17 +49,32 @@ interface Customer {
 	days90: number;
 	days90plus: number;
 	riskScore: number;
+	riskFactors: string[];
 	followUpTone: string;
+	disputedAmount: number;
+	promisedDate: Date | null;
+	brokenPromiseCount: number;
+}
+
+interface ItemRevenue {
+	itemCode: string;
+	revenue: number;
+	quantity: number;
+	invoiceCount: number;
 }
 
 interface ArDashboardProps {
 	initialData: DashboardData | null;
 	initialCustomers: Customer[];
+	revenueByItem: ItemRevenue[];
+	revenueByItemDays: number;
 }
 
 export function ArDashboard({
 	initialData,
 	initialCustomers,
+	revenueByItem,
+	revenueByItemDays,
 }: ArDashboardProps) {
 	const [selectedCustomerId, setSelectedCustomerId] = useState<string | null>(
 		null,
@@ -72,6 +93,7 @@ export function ArDashboard({
 			<main className="flex-1 overflow-y-auto p-6 space-y-6">
 				{initialData && (
 					<>
+						<ConsolidationNotice consolidation={initialData.consolidation} />
 						<SummaryCards
 							totalOutstanding={initialData.summary.totalOutstanding}
 							countOutstanding={initialData.summary.countOutstanding}
@@ -86,6 +108,10 @@ export function ArDashboard({
 					</>
 				)}
 
+				{initialData && (
+					<RevenueByItem days={revenueByItemDays} items={revenueByItem} />
+				)}
+
 				<CustomerTable
 					customers={initialCustomers}
 					onCustomerClick={handleCustomerClick}
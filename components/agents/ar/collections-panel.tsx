@@ -0,0 +1,332 @@
+"use client";
+
+import { CalendarClock, Send, X } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+	cancelCollectionEmail,
+	generateCollectionEmail,
+	getCollectionEmails,
+	scheduleCollectionEmail,
+	sendCollectionEmailNow,
+	updateCollectionEmail,
+} from "@/lib/agents/ar/actions";
+
+// Client-side type definition mirroring the stored email
+type CollectionEmail = Awaited<ReturnType<typeof getCollectionEmails>>[number];
+
+interface CollectionsPanelProps {
+	contactId: string;
+	hasOverdue: boolean;
+}
+
+const STATUS_VARIANTS: Record<
+	string,
+	"default" | "secondary" | "destructive" | "outline"
+> = {
+	DRAFT: "outline",
+	SCHEDULED: "secondary",
+	SENDING: "secondary",
+	SENT: "default",
+	FAILED: "destructive",
+	CANCELLED: "outline",
+};
+
+function formatDateTime(value: Date | string | null) {
+	return value
+		? new Date(value).toLocaleString("en-AU", {
+				dateStyle: "medium",
+				timeStyle: "short",
+			})
+		: "";
+}
+
+function EditableEmail({
+	email,
+	onChange,
+}: {
+	email: CollectionEmail;
+	onChange: (email: CollectionEmail) => void;
+}) {
+	const [toEmail, setToEmail] = useState(email.toEmail ?? "");
+	const [subject, setSubject] = useState(email.subject);
+	const [body, setBody] = useState(email.body);
+	const [scheduledFor, setScheduledFor] = useState("");
+	const [pending, setPending] = useState(false);
+
+	const run = async (
+		action: () => Promise<CollectionEmail>,
+		success: string,
+		saveEdits = true,
+	) => {
+		setPending(true);
+		try {
+			// Save edits first so what is sent matches what is on screen
+			if (saveEdits) {
+				await updateCollectionEmail(email.id, { toEmail, subject, body });
+			}
+			const updated = await action();
+			onChange(updated);
+			if (
+				updated.status === "FAILED" ||
+				(updated.status === "CANCELLED" && saveEdits)
+			) {
+				toast.error(updated.error ?? "Email was not sent");
+			} else {
+				toast.success(success);
+			}
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Something went wrong");
+		} finally {
+			setPending(false);
+		}
+	};
+
+	return (
+		<fieldset disabled={pending} className="space-y-3">
+			<div className="space-y-1">
+				<Label htmlFor={`to-${email.id}`}>To</Label>
+				<Input
+					id={`to-${email.id}`}
+					type="email"
+					value={toEmail}
+					onChange={(e) => setToEmail(e.target.value)}
+				/>
+			</div>
+			<div className="space-y-1">
+				<Label htmlFor={`subject-${email.id}`}>Subject</Label>
+				<Input
+					id={`subject-${email.id}`}
+					value={subject}
+					onChange={(e) => setSubject(e.target.value)}
+				/>
+			</div>
+			<Textarea
+				value={body}
+				onChange={(e) => setBody(e.target.value)}
+				className="h-[240px] text-sm"
+			/>
+			<div className="flex flex-wrap items-end gap-2">
+				<Button
+					size="sm"
+					onClick={() =>
+						run(() => sendCollectionEmailNow(email.id), "Email sent")
+					}
+				>
+					<Send className="mr-2 h-4 w-4" />
+					Send now
+				</Button>
+				<Input
+					type="datetime-local"
+					className="h-9 w-auto"
+					aria-label="Send at"
+					value={scheduledFor}
+					onChange={(e) => setScheduledFor(e.target.value)}
+				/>
+				<Button
+					size="sm"
+					variant="outline"
+					disabled={!scheduledFor}
+					onClick={() =>
+						run(
+							() =>
+								scheduleCollectionEmail(
+									email.id,
+									new Date(scheduledFor).toISOString(),
+								),
+							"Email scheduled",
+						)
+					}
+				>
+					<CalendarClock className="mr-2 h-4 w-4" />
+					Schedule
+				</Button>
+				<Button
+					size="sm"
+					variant="ghost"
+					onClick={() =>
+						run(() => cancelCollectionEmail(email.id), "Email discarded", false)
+					}
+				>
+					<X className="mr-2 h-4 w-4" />
+					Discard
+				</Button>
+			</div>
+		</fieldset>
+	);
+}
+
+// An automatic follow-up, written from the account as it stands when it falls
+// due. It can be sent early or discarded, but not edited.
+function PendingFollowUp({
+	email,
+	onChange,
+}: {
+	email: CollectionEmail;
+	onChange: (email: CollectionEmail) => void;
+}) {
+	const [pending, setPending] = useState(false);
+
+	const run = async (
+		action: () => Promise<CollectionEmail>,
+		success: string,
+	) => {
+		setPending(true);
+		try {
+			const updated = await action();
+			onChange(updated);
+			// Cancelled with an error means it was due to send but stopped
+			if (updated.status === "FAILED" || updated.error) {
+				toast.error(updated.error ?? "Email was not sent");
+			} else {
+				toast.success(success);
+			}
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Something went wrong");
+		} finally {
+			setPending(false);
+		}
+	};
+
+	return (
+		<div className="space-y-3">
+			<p className="text-sm text-muted-foreground">
+				Written when it is due, from the customer&apos;s balance, promises and
+				disputes at the time. A promise to pay postpones it.
+			</p>
+			<div className="flex flex-wrap gap-2">
+				<Button
+					disabled={pending}
+					onClick={() =>
+						run(() => sendCollectionEmailNow(email.id), "Email sent")
+					}
+					size="sm"
+				>
+					<Send className="mr-2 h-4 w-4" />
+					Send now
+				</Button>
+				<Button
+					disabled={pending}
+					onClick={() =>
+						run(() => cancelCollectionEmail(email.id), "Follow-up cancelled")
+					}
+					size="sm"
+					variant="ghost"
+				>
+					<X className="mr-2 h-4 w-4" />
+					Discard
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+/**
+ * The chase cycle for one customer: drafts, scheduled follow-ups and the
+ * log of what was sent
+ */
+export function CollectionsPanel({
+	contactId,
+	hasOverdue,
+}: CollectionsPanelProps) {
+	const [emails, setEmails] = useState<CollectionEmail[]>([]);
+	const [generating, setGenerating] = useState(false);
+
+	const load = useCallback(() => {
+		getCollectionEmails(contactId)
+			.then(setEmails)
+			.catch(() => toast.error("Failed to load collection emails"));
+	}, [contactId]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const handleGenerate = async () => {
+		setGenerating(true);
+		try {
+			const email = await generateCollectionEmail(contactId);
+			setEmails((prev) => [email, ...prev]);
+		} catch (err) {
+			toast.error(
+				err instanceof Error ? err.message : "Failed to generate email",
+			);
+		} finally {
+			setGenerating(false);
+		}
+	};
+
+	// Sending schedules the next stage, so reload rather than patch in place
+	const handleChange = (updated: CollectionEmail) => {
+		if (updated.status === "SENT") {
+			load();
+		} else {
+			setEmails((prev) => prev.map((e) => (e.id === updated.id ? updated : e)));
+		}
+	};
+
+	return (
+		<div className="space-y-4">
+			<Button
+				onClick={handleGenerate}
+				disabled={generating || !hasOverdue}
+				className="w-full"
+			>
+				{generating ? "Generating..." : "Generate Collection Email"}
+			</Button>
+			{!hasOverdue && (
+				<p className="text-center text-sm text-muted-foreground">
+					Nothing is overdue for this customer.
+				</p>
+			)}
+
+			{emails.map((email) => {
+				const editable =
+					email.status === "DRAFT" || email.status === "SCHEDULED";
+
+				return (
+					<div key={email.id} className="space-y-3 rounded-lg border p-3">
+						<div className="flex items-center justify-between gap-2">
+							<div className="flex items-center gap-2">
+								<Badge variant={STATUS_VARIANTS[email.status] ?? "outline"}>
+									{email.status.toLowerCase()}
+								</Badge>
+								<span className="text-sm font-medium">{email.tone}</span>
+							</div>
+							<span className="text-xs text-muted-foreground">
+								{email.status === "SENT"
+									? `Sent ${formatDateTime(email.sentAt)}`
+									: email.status === "SCHEDULED"
+										? `Sends ${formatDateTime(email.scheduledFor)}`
+										: formatDateTime(email.createdAt)}
+							</span>
+						</div>
+
+						{editable && !email.body ? (
+							<PendingFollowUp email={email} onChange={handleChange} />
+						) : editable ? (
+							<EditableEmail email={email} onChange={handleChange} />
+						) : (
+							<div className="space-y-1 text-sm">
+								<p className="font-medium">{email.subject}</p>
+								<p className="text-muted-foreground">
+									{email.toEmail ?? "No email address"}
+								</p>
+								{email.error && (
+									<p className="text-red-600 dark:text-red-400">
+										{email.error}
+									</p>
+								)}
+							</div>
+						)}
+					</div>
+				);
+			})}
+		</div>
+	);
+}
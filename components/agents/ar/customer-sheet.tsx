@@ -1,6 +1,5 @@
 "use client";
 
-import { CopyIcon } from "lucide-react";
 import { useEffect, useState } from "react";
 import { toast } from "sonner";
 import { Badge } from "@/components/ui/badge";
@@ -15,11 +14,12 @@ import {
 } from "@/components/ui/sheet";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Textarea } from "@/components/ui/textarea";
 import {
-	generateCollectionEmail,
 	getCustomerDetails,
+	setCustomerRelatedEntity,
 } from "@/lib/agents/ar/actions";
+import { CollectionsPanel } from "./collections-panel";
+import { PromisesDisputesPanel } from "./promises-disputes-panel";
 
 interface CustomerSheetProps {
 	customerId: string | null;
@@ -39,14 +39,11 @@ export function CustomerSheet({
 }: CustomerSheetProps) {
 	const [data, setData] = useState<CustomerDetails | null>(null);
 	const [loading, setLoading] = useState(false);
-	const [emailDraft, setEmailDraft] = useState("");
-	const [generatingEmail, setGeneratingEmail] = useState(false);
 
 	useEffect(() => {
 		if (customerId && open) {
 			setLoading(true);
 			setData(null);
-			setEmailDraft("");
 			getCustomerDetails(customerId)
 				.then((res) => setData(res))
 				.catch((err) => toast.error("Failed to load details"))
@@ -54,35 +51,14 @@ export function CustomerSheet({
 		}
 	}, [customerId, open]);
 
-	const handleGenerateEmail = async () => {
+	const handleToggleRelatedEntity = async () => {
 		if (!data) return;
-		setGeneratingEmail(true);
+		const isRelatedEntity = !data.contact.isRelatedEntity;
 		try {
-			const overdue = data.invoices
-				.filter(
-					(i) =>
-						i.amountDue > 0 && i.dueDate && new Date(i.dueDate) < new Date(),
-				)
-				.map((i) => ({
-					id: i.xeroInvoiceId,
-					date: i.date ? new Date(i.date).toLocaleDateString("en-AU") : "",
-					dueDate: i.dueDate
-						? new Date(i.dueDate).toLocaleDateString("en-AU")
-						: "",
-					amount: i.amountDue.toFixed(2),
-					number: i.xeroInvoiceId.substring(0, 8),
-				}));
-
-			const draft = await generateCollectionEmail(
-				data.contact.name,
-				data.contact.xeroContactId,
-				overdue,
-			);
-			setEmailDraft(draft);
-		} catch (e) {
-			toast.error("Failed to generate email");
-		} finally {
-			setGeneratingEmail(false);
+			await setCustomerRelatedEntity(data.contact.id, isRelatedEntity);
+			setData({ ...data, contact: { ...data.contact, isRelatedEntity } });
+		} catch (_error) {
+			toast.error("Failed to update customer");
 		}
 	};
 
@@ -127,15 +103,35 @@ export function CustomerSheet({
 							{getRiskBadge(data.risk)}
 						</div>
 
-						<div className="text-sm text-muted-foreground space-y-1">
-							<p>{data.contact.email}</p>
-							<p>{data.contact.phone}</p>
+						{data.riskFactors.length > 0 && (
+							<ul className="list-disc space-y-1 pl-5 text-sm text-muted-foreground">
+								{data.riskFactors.map((factor) => (
+									<li key={factor}>{factor}</li>
+								))}
+							</ul>
+						)}
+
+						<div className="flex items-start justify-between gap-4">
+							<div className="text-sm text-muted-foreground space-y-1">
+								<p>{data.contact.email}</p>
+								<p>{data.contact.phone}</p>
+							</div>
+							<Button
+								variant={data.contact.isRelatedEntity ? "secondary" : "outline"}
+								size="sm"
+								onClick={handleToggleRelatedEntity}
+							>
+								{data.contact.isRelatedEntity
+									? "Related entity"
+									: "Mark as related entity"}
+							</Button>
 						</div>
 
 						<Tabs defaultValue="invoices">
 							<TabsList>
 								<TabsTrigger value="invoices">Invoices</TabsTrigger>
-								<TabsTrigger value="email">Draft Email</TabsTrigger>
+								<TabsTrigger value="collections">Collections</TabsTrigger>
+								<TabsTrigger value="promises">Promises & Disputes</TabsTrigger>
 							</TabsList>
 
 							<TabsContent value="invoices">
@@ -179,37 +175,23 @@ export function CustomerSheet({
 								</ScrollArea>
 							</TabsContent>
 
-							<TabsContent value="email" className="space-y-4">
-								<Button
-									onClick={handleGenerateEmail}
-									disabled={generatingEmail}
-									className="w-full"
-								>
-									{generatingEmail
-										? "Generating..."
-										: "Generate Collection Email"}
-								</Button>
+							<TabsContent value="collections">
+								<CollectionsPanel
+									contactId={data.contact.id}
+									hasOverdue={data.invoices.some(
+										(i) =>
+											i.amountDue > 0 &&
+											i.dueDate &&
+											new Date(i.dueDate) < new Date(),
+									)}
+								/>
+							</TabsContent>
 
-								{emailDraft && (
-									<div className="space-y-2">
-										<Textarea
-											value={emailDraft}
-											readOnly
-											className="h-[300px] font-mono text-sm"
-										/>
-										<Button
-											variant="outline"
-											onClick={() => {
-												navigator.clipboard.writeText(emailDraft);
-												toast.success("Copied to clipboard");
-											}}
-											className="w-full"
-										>
-											<CopyIcon className="w-4 h-4 mr-2" />
-											Copy to Clipboard
-										</Button>
-									</div>
-								)}
+							<TabsContent value="promises">
+								<PromisesDisputesPanel
+									contactId={data.contact.id}
+									invoices={data.invoices}
+								/>
 							</TabsContent>
 						</Tabs>
 					</div>
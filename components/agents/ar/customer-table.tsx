@@ -15,6 +15,12 @@ import {
 	TableRow,
 } from "@/components/ui/table";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipProvider,
+	TooltipTrigger,
+} from "@/components/ui/tooltip";
 
 interface Customer {
 	id: string;
@@ -27,7 +33,11 @@ interface Customer {
 	days90: number;
 	days90plus: number;
 	riskScore: number;
+	riskFactors: string[];
 	followUpTone: string;
+	disputedAmount: number;
+	promisedDate: Date | null;
+	brokenPromiseCount: number;
 }
 
 interface CustomerTableProps {
@@ -257,7 +267,25 @@ export function CustomerTable({
 										onClick={() => onCustomerClick(customer.id)}
 									>
 										<TableCell className="font-medium">
-											{customer.name}
+											<div>{customer.name}</div>
+											<div className="flex flex-wrap gap-1 text-xs font-normal">
+												{customer.brokenPromiseCount > 0 && (
+													<Badge variant="destructive">Broken promise</Badge>
+												)}
+												{customer.promisedDate && (
+													<span className="text-muted-foreground">
+														Promised by{" "}
+														{new Date(customer.promisedDate).toLocaleDateString(
+															"en-AU",
+														)}
+													</span>
+												)}
+												{customer.disputedAmount > 0 && (
+													<span className="text-muted-foreground">
+														{formatCurrency(customer.disputedAmount)} disputed
+													</span>
+												)}
+											</div>
 										</TableCell>
 										<TableCell className="text-right font-medium">
 											{formatCurrency(customer.totalDue)}
@@ -278,16 +306,36 @@ export function CustomerTable({
 											{formatCurrency(customer.days90plus)}
 										</TableCell>
 										<TableCell className="text-center">
-											<div className="flex flex-col items-center gap-1">
-												<Badge
-													variant={getToneBadgeVariant(customer.followUpTone)}
-												>
-													{customer.followUpTone}
-												</Badge>
-												<span className="text-xs text-muted-foreground">
-													{customer.riskScore.toFixed(2)}
-												</span>
-											</div>
+											<TooltipProvider>
+												<Tooltip>
+													<TooltipTrigger asChild>
+														<div className="flex flex-col items-center gap-1">
+															<Badge
+																variant={getToneBadgeVariant(
+																	customer.followUpTone,
+																)}
+															>
+																{customer.followUpTone}
+															</Badge>
+															<span className="text-xs text-muted-foreground">
+																{customer.riskScore.toFixed(2)}
+															</span>
+														</div>
+													</TooltipTrigger>
+													<TooltipContent className="max-w-xs">
+														<p className="font-semibold mb-1">
+															Risk Score: {customer.riskScore.toFixed(2)}
+														</p>
+														{customer.riskFactors.length > 0 && (
+															<ul className="text-xs space-y-1">
+																{customer.riskFactors.map((factor) => (
+																	<li key={factor}>• {factor}</li>
+																))}
+															</ul>
+														)}
+													</TooltipContent>
+												</Tooltip>
+											</TooltipProvider>
 										</TableCell>
 									</TableRow>
 								))
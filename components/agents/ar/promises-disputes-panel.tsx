@@ -0,0 +1,291 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	cancelPromise,
+	getPromisesAndDisputes,
+	recordInvoiceDispute,
+	recordPaymentPromise,
+	resolveDispute,
+} from "@/lib/agents/ar/actions";
+
+// Client-side type definition mirroring the stored records
+type PromisesAndDisputes = Awaited<ReturnType<typeof getPromisesAndDisputes>>;
+
+interface PromisesDisputesPanelProps {
+	contactId: string;
+	invoices: Array<{ id: string; xeroInvoiceId: string; amountDue: number }>;
+}
+
+const STATUS_VARIANTS: Record<
+	string,
+	"default" | "secondary" | "destructive" | "outline"
+> = {
+	OPEN: "secondary",
+	KEPT: "default",
+	BROKEN: "destructive",
+	CANCELLED: "outline",
+	RESOLVED: "outline",
+};
+
+const formatCurrency = (value: number | string) =>
+	`$${Number(value).toLocaleString("en-AU", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const formatDate = (value: Date | string) =>
+	new Date(value).toLocaleDateString("en-AU");
+
+/**
+ * What the customer has promised to pay and which invoices they dispute
+ */
+export function PromisesDisputesPanel({
+	contactId,
+	invoices,
+}: PromisesDisputesPanelProps) {
+	const [data, setData] = useState<PromisesAndDisputes>({
+		promises: [],
+		disputes: [],
+	});
+	const [pending, setPending] = useState(false);
+
+	const [promiseAmount, setPromiseAmount] = useState("");
+	const [promiseDate, setPromiseDate] = useState("");
+	const [promiseNote, setPromiseNote] = useState("");
+
+	const [disputeInvoiceId, setDisputeInvoiceId] = useState("");
+	const [disputeAmount, setDisputeAmount] = useState("");
+	const [disputeReason, setDisputeReason] = useState("");
+
+	const unpaidInvoices = invoices.filter((i) => i.amountDue > 0);
+
+	const load = useCallback(() => {
+		getPromisesAndDisputes(contactId)
+			.then(setData)
+			.catch(() => toast.error("Failed to load promises and disputes"));
+	}, [contactId]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const run = async (action: () => Promise<unknown>, success: string) => {
+		setPending(true);
+		try {
+			await action();
+			toast.success(success);
+			load();
+			return true;
+		} catch (err) {
+			toast.error(err instanceof Error ? err.message : "Something went wrong");
+			return false;
+		} finally {
+			setPending(false);
+		}
+	};
+
+	const handleRecordPromise = async () => {
+		const saved = await run(
+			() =>
+				recordPaymentPromise(contactId, {
+					amount: Number(promiseAmount),
+					promisedDate: promiseDate,
+					note: promiseNote || undefined,
+				}),
+			"Promise recorded",
+		);
+		if (saved) {
+			setPromiseAmount("");
+			setPromiseDate("");
+			setPromiseNote("");
+		}
+	};
+
+	const handleRecordDispute = async () => {
+		const saved = await run(
+			() =>
+				recordInvoiceDispute(disputeInvoiceId, {
+					amount: disputeAmount ? Number(disputeAmount) : undefined,
+					reason: disputeReason,
+				}),
+			"Dispute recorded",
+		);
+		if (saved) {
+			setDisputeInvoiceId("");
+			setDisputeAmount("");
+			setDisputeReason("");
+		}
+	};
+
+	const invoiceLabel = (invoiceId: string) => {
+		const invoice = invoices.find((i) => i.id === invoiceId);
+		return invoice
+			? `Invoice ${invoice.xeroInvoiceId.substring(0, 6)}...`
+			: "Invoice";
+	};
+
+	return (
+		<fieldset disabled={pending} className="space-y-6">
+			<section className="space-y-3">
+				<h4 className="text-sm font-semibold">Promises to pay</h4>
+				<div className="grid grid-cols-2 gap-2">
+					<div className="space-y-1">
+						<Label htmlFor="promise-amount">Amount</Label>
+						<Input
+							id="promise-amount"
+							type="number"
+							min="0"
+							step="0.01"
+							value={promiseAmount}
+							onChange={(e) => setPromiseAmount(e.target.value)}
+						/>
+					</div>
+					<div className="space-y-1">
+						<Label htmlFor="promise-date">Pay by</Label>
+						<Input
+							id="promise-date"
+							type="date"
+							value={promiseDate}
+							onChange={(e) => setPromiseDate(e.target.value)}
+						/>
+					</div>
+				</div>
+				<Input
+					placeholder="Note (optional)"
+					value={promiseNote}
+					onChange={(e) => setPromiseNote(e.target.value)}
+				/>
+				<Button
+					size="sm"
+					onClick={handleRecordPromise}
+					disabled={!promiseAmount || !promiseDate}
+				>
+					Record promise
+				</Button>
+
+				{data.promises.map((promise) => (
+					<div
+						key={promise.id}
+						className="flex items-center justify-between gap-2 rounded-lg border p-3 text-sm"
+					>
+						<div>
+							<p className="font-medium">
+								{formatCurrency(promise.amount)} by{" "}
+								{formatDate(promise.promisedDate)}
+							</p>
+							{promise.note && (
+								<p className="text-xs text-muted-foreground">{promise.note}</p>
+							)}
+						</div>
+						<div className="flex items-center gap-2">
+							<Badge variant={STATUS_VARIANTS[promise.status] ?? "outline"}>
+								{promise.status.toLowerCase()}
+							</Badge>
+							{promise.status === "OPEN" && (
+								<Button
+									size="sm"
+									variant="ghost"
+									onClick={() =>
+										run(() => cancelPromise(promise.id), "Promise cancelled")
+									}
+								>
+									Cancel
+								</Button>
+							)}
+						</div>
+					</div>
+				))}
+			</section>
+
+			<section className="space-y-3">
+				<h4 className="text-sm font-semibold">Disputes</h4>
+				<div className="grid grid-cols-2 gap-2">
+					<div className="space-y-1">
+						<Label>Invoice</Label>
+						<Select
+							value={disputeInvoiceId}
+							onValueChange={setDisputeInvoiceId}
+						>
+							<SelectTrigger>
+								<SelectValue placeholder="Select an invoice" />
+							</SelectTrigger>
+							<SelectContent>
+								{unpaidInvoices.map((inv) => (
+									<SelectItem key={inv.id} value={inv.id}>
+										{inv.xeroInvoiceId.substring(0, 6)}... (
+										{formatCurrency(inv.amountDue)} due)
+									</SelectItem>
+								))}
+							</SelectContent>
+						</Select>
+					</div>
+					<div className="space-y-1">
+						<Label htmlFor="dispute-amount">Amount</Label>
+						<Input
+							id="dispute-amount"
+							type="number"
+							min="0"
+							step="0.01"
+							placeholder="All of it"
+							value={disputeAmount}
+							onChange={(e) => setDisputeAmount(e.target.value)}
+						/>
+					</div>
+				</div>
+				<Input
+					placeholder="Reason"
+					value={disputeReason}
+					onChange={(e) => setDisputeReason(e.target.value)}
+				/>
+				<Button
+					size="sm"
+					onClick={handleRecordDispute}
+					disabled={!disputeInvoiceId || !disputeReason}
+				>
+					Record dispute
+				</Button>
+
+				{data.disputes.map((dispute) => (
+					<div
+						key={dispute.id}
+						className="flex items-center justify-between gap-2 rounded-lg border p-3 text-sm"
+					>
+						<div>
+							<p className="font-medium">
+								{invoiceLabel(dispute.invoiceId)}:{" "}
+								{formatCurrency(dispute.amount)}
+							</p>
+							<p className="text-xs text-muted-foreground">{dispute.reason}</p>
+						</div>
+						<div className="flex items-center gap-2">
+							<Badge variant={STATUS_VARIANTS[dispute.status] ?? "outline"}>
+								{dispute.status.toLowerCase()}
+							</Badge>
+							{dispute.status === "OPEN" && (
+								<Button
+									size="sm"
+									variant="ghost"
+									onClick={() =>
+										run(() => resolveDispute(dispute.id), "Dispute resolved")
+									}
+								>
+									Resolve
+								</Button>
+							)}
+						</div>
+					</div>
+				))}
+			</section>
+		</fieldset>
+	);
+}
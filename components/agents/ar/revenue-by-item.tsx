@@ -0,0 +1,72 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+
+const MAX_ROWS = 10;
+
+interface RevenueByItemProps {
+	days: number;
+	items: {
+		itemCode: string;
+		revenue: number;
+		quantity: number;
+		invoiceCount: number;
+	}[];
+}
+
+const formatCurrency = (value: number) =>
+	`$${value.toLocaleString("en-AU", { minimumFractionDigits: 0, maximumFractionDigits: 0 })}`;
+
+export function RevenueByItem({ days, items }: RevenueByItemProps) {
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Revenue by Item (last {days} days)</CardTitle>
+			</CardHeader>
+			<CardContent>
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Item</TableHead>
+							<TableHead className="text-right">Quantity</TableHead>
+							<TableHead className="text-right">Invoices</TableHead>
+							<TableHead className="text-right">Revenue</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{items.length === 0 ? (
+							<TableRow>
+								<TableCell className="text-muted-foreground" colSpan={4}>
+									No invoice line items in this period
+								</TableCell>
+							</TableRow>
+						) : (
+							items.slice(0, MAX_ROWS).map((item) => (
+								<TableRow key={item.itemCode}>
+									<TableCell className="font-medium">{item.itemCode}</TableCell>
+									<TableCell className="text-right">
+										{item.quantity.toLocaleString("en-AU")}
+									</TableCell>
+									<TableCell className="text-right">
+										{item.invoiceCount}
+									</TableCell>
+									<TableCell className="text-right">
+										{formatCurrency(item.revenue)}
+									</TableCell>
+								</TableRow>
+							))
+						)}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,140 @@
+"use client";
+
+import { AlertTriangle, Landmark } from "lucide-react";
+import { useState } from "react";
+import { toast } from "sonner";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { setMinimumCash } from "@/lib/agents/cashflow/actions";
+import type { CashflowChartData } from "./cashflow-chart";
+
+function formatMoney(value: number) {
+	return `$${value.toLocaleString("en-AU", { minimumFractionDigits: 2 })}`;
+}
+
+function formatDate(value: Date | string) {
+	return new Date(value).toLocaleDateString("en-AU", {
+		day: "numeric",
+		month: "short",
+		year: "numeric",
+	});
+}
+
+interface CashPositionProps {
+	data: CashflowChartData | null;
+	canEditMinimumCash: boolean;
+}
+
+export function CashPosition({ data, canEditMinimumCash }: CashPositionProps) {
+	const [minimumCash, setMinimumCashInput] = useState(
+		data?.minimumCash?.toString() ?? "",
+	);
+	const [saving, setSaving] = useState(false);
+
+	const handleSave = async () => {
+		const value = minimumCash.trim() === "" ? null : Number(minimumCash);
+		if (value !== null && !Number.isFinite(value)) {
+			toast.error("Enter a valid amount");
+			return;
+		}
+
+		setSaving(true);
+		try {
+			await setMinimumCash(value);
+			toast.success(
+				value === null ? "Minimum cash cleared" : "Minimum cash saved",
+			);
+		} catch (error) {
+			toast.error(
+				error instanceof Error ? error.message : "Failed to save minimum cash",
+			);
+		} finally {
+			setSaving(false);
+		}
+	};
+
+	const closingBalances = (data?.points ?? [])
+		.map((p) => p.closingBalance)
+		.filter((b): b is number => b !== null);
+	const lowestBalance =
+		closingBalances.length > 0 ? Math.min(...closingBalances) : null;
+
+	return (
+		<div className="space-y-4">
+			{data?.shortfall && (
+				<Alert variant="destructive">
+					<AlertTriangle className="h-4 w-4" />
+					<AlertTitle>Projected cash below minimum</AlertTitle>
+					<AlertDescription>
+						The balance is forecast to fall to{" "}
+						{formatMoney(data.shortfall.balance)} on{" "}
+						{formatDate(data.shortfall.date)}, below the minimum of{" "}
+						{formatMoney(data.minimumCash ?? 0)}.
+					</AlertDescription>
+				</Alert>
+			)}
+
+			<Card>
+				<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+					<CardTitle className="text-sm font-medium">Cash in Bank</CardTitle>
+					<Landmark className="h-4 w-4 text-muted-foreground" />
+				</CardHeader>
+				<CardContent className="grid gap-4 md:grid-cols-3">
+					<div>
+						<div className="text-2xl font-bold">
+							{data?.openingBalance != null
+								? formatMoney(data.openingBalance)
+								: "-"}
+						</div>
+						<p className="text-xs text-muted-foreground">
+							{data?.balanceAsOf
+								? `As at ${formatDate(data.balanceAsOf)}`
+								: "Sync bank balances from Xero to project a running balance"}
+						</p>
+					</div>
+					<div>
+						<div
+							className={`text-2xl font-bold ${lowestBalance !== null && lowestBalance < 0 ? "text-red-600" : ""}`}
+						>
+							{lowestBalance !== null ? formatMoney(lowestBalance) : "-"}
+						</div>
+						<p className="text-xs text-muted-foreground">
+							Lowest Projected Balance
+						</p>
+					</div>
+					<div className="space-y-1">
+						{canEditMinimumCash ? (
+							<div className="flex gap-2">
+								<Input
+									type="number"
+									step="0.01"
+									placeholder="No minimum"
+									value={minimumCash}
+									onChange={(e) => setMinimumCashInput(e.target.value)}
+									className="h-8"
+								/>
+								<Button
+									size="sm"
+									variant="outline"
+									onClick={handleSave}
+									disabled={saving}
+								>
+									{saving ? "Saving..." : "Save"}
+								</Button>
+							</div>
+						) : (
+							<div className="text-2xl font-bold">
+								{data?.minimumCash != null
+									? formatMoney(data.minimumCash)
+									: "-"}
+							</div>
+						)}
+						<p className="text-xs text-muted-foreground">Minimum Cash</p>
+					</div>
+				</CardContent>
+			</Card>
+		</div>
+	);
+}
@@ -1,9 +1,11 @@
 "use client";
 
 import {
+	Area,
 	CartesianGrid,
+	ComposedChart,
+	Legend,
 	Line,
-	LineChart,
 	ReferenceLine,
 	ResponsiveContainer,
 	Tooltip,
@@ -18,13 +20,39 @@ export interface CashflowChartDataPoint {
 	historicalOut: number;
 	projectedIn: number;
 	projectedOut: number;
+	// Cumulative predicted receipts from today; null before today
+	receiptsBest: number | null;
+	receiptsExpected: number | null;
+	receiptsWorst: number | null;
+	// Projected bank balance at the end of the day; null before today
+	closingBalance: number | null;
 }
 
+export interface CashflowChartData {
+	points: CashflowChartDataPoint[];
+	openingBalance: number | null;
+	balanceAsOf: Date | null;
+	minimumCash: number | null;
+	// First day the projected balance falls below the minimum
+	shortfall: { date: string; balance: number } | null;
+}
+
+const SERIES_LABELS: Record<string, string> = {
+	historicalIn: "Cash In (Hist)",
+	historicalOut: "Cash Out (Hist)",
+	projectedIn: "Cash In (Proj)",
+	projectedOut: "Cash Out (Proj)",
+	receiptsRange: "Receipts (Worst - Best)",
+	receiptsExpected: "Receipts (Expected)",
+	closingBalance: "Closing Balance",
+};
+
 interface CashflowChartProps {
 	data: CashflowChartDataPoint[];
+	minimumCash?: number | null;
 }
 
-export function CashflowChart({ data }: CashflowChartProps) {
+export function CashflowChart({ data, minimumCash }: CashflowChartProps) {
 	const today = new Date().toISOString().split("T")[0];
 
 	return (
@@ -34,7 +62,7 @@ export function CashflowChart({ data }: CashflowChartProps) {
 			</CardHeader>
 			<CardContent className="pl-2">
 				<ResponsiveContainer width="100%" height={350}>
-					<LineChart
+					<ComposedChart
 						data={data}
 						margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
 					>
@@ -50,6 +78,8 @@ export function CashflowChart({ data }: CashflowChartProps) {
 							minTickGap={30}
 						/>
 						<YAxis />
+						<YAxis yAxisId="receipts" orientation="right" />
+						<YAxis yAxisId="balance" orientation="right" />
 						<Tooltip
 							labelFormatter={(value) =>
 								new Date(value).toLocaleDateString("en-AU", {
@@ -59,17 +89,20 @@ export function CashflowChart({ data }: CashflowChartProps) {
 									day: "numeric",
 								})
 							}
-							formatter={(value: any, name: any) => [
-								`$${Number(value).toLocaleString("en-AU", { minimumFractionDigits: 2 })}`,
-								String(name) === "historicalIn"
-									? "Cash In (Hist)"
-									: String(name) === "historicalOut"
-										? "Cash Out (Hist)"
-										: String(name) === "projectedIn"
-											? "Cash In (Proj)"
-											: "Cash Out (Proj)",
+							formatter={(value: any, _name: any, item: any) => [
+								Array.isArray(value)
+									? value
+											.map(
+												(v) =>
+													`$${Number(v).toLocaleString("en-AU", { minimumFractionDigits: 2 })}`,
+											)
+											.join(" - ")
+									: `$${Number(value).toLocaleString("en-AU", { minimumFractionDigits: 2 })}`,
+								SERIES_LABELS[String(item?.dataKey)] ??
+									SERIES_LABELS.receiptsRange,
 							]}
 						/>
+						<Legend />
 						<ReferenceLine x={today} stroke="red" label="Today" />
 						<Line
 							type="monotone"
@@ -105,7 +138,50 @@ export function CashflowChart({ data }: CashflowChartProps) {
 							dot={false}
 							name="Out (Proj)"
 						/>
-					</LineChart>
+						<Area
+							yAxisId="receipts"
+							type="stepAfter"
+							dataKey={(d: CashflowChartDataPoint) =>
+								d.receiptsWorst === null
+									? null
+									: [d.receiptsWorst, d.receiptsBest]
+							}
+							fill="#16a34a"
+							fillOpacity={0.15}
+							stroke="none"
+							connectNulls
+							name="Receipts (Worst - Best)"
+						/>
+						<Line
+							yAxisId="receipts"
+							type="stepAfter"
+							dataKey="receiptsExpected"
+							stroke="#2563eb"
+							strokeWidth={2}
+							dot={false}
+							connectNulls
+							name="Receipts (Expected)"
+						/>
+						<Line
+							yAxisId="balance"
+							type="stepAfter"
+							dataKey="closingBalance"
+							stroke="#7c3aed"
+							strokeWidth={2}
+							dot={false}
+							connectNulls
+							name="Closing Balance"
+						/>
+						{minimumCash != null && (
+							<ReferenceLine
+								yAxisId="balance"
+								y={minimumCash}
+								stroke="#f59e0b"
+								strokeDasharray="3 3"
+								label="Minimum"
+							/>
+						)}
+					</ComposedChart>
 				</ResponsiveContainer>
 			</CardContent>
 		</Card>
@@ -2,10 +2,20 @@
 
 import { useState } from "react";
 import { AgentHeader } from "@/components/agent-header";
+import {
+	ConsolidationNotice,
+	type ConsolidationSummary,
+} from "@/components/agents/consolidation-notice";
+import { CashPosition } from "./cash-position";
 import { CashflowCards } from "./cashflow-cards";
-import { CashflowChart, type CashflowChartDataPoint } from "./cashflow-chart";
+import { CashflowChart, type CashflowChartData } from "./cashflow-chart";
 import { CashflowSchedule } from "./cashflow-schedule";
 import { CashflowSheet } from "./cashflow-sheet";
+import {
+	ScenarioComparison,
+	type ScenarioComparisonData,
+} from "./scenario-comparison";
+import { ScenarioSheet } from "./scenario-sheet";
 import { SyncTransactionsButton } from "./sync-transactions-button";
 
 export interface CashflowEvent {
@@ -23,15 +33,20 @@ interface CashflowDashboardProps {
 			creditorsOwing: number;
 			netCashflow: number;
 		};
+		consolidation: ConsolidationSummary | null;
 	} | null;
-	chartData: CashflowChartDataPoint[];
+	chartData: CashflowChartData | null;
+	scenarioComparison: ScenarioComparisonData;
 	events: CashflowEvent[];
+	canEditMinimumCash: boolean;
 }
 
 export function CashflowDashboard({
 	initialData,
 	chartData,
+	scenarioComparison,
 	events,
+	canEditMinimumCash,
 }: CashflowDashboardProps) {
 	const [period, setPeriod] = useState("30");
 
@@ -42,12 +57,20 @@ export function CashflowDashboard({
 				actions={
 					<>
 						<CashflowSheet />
+						<ScenarioSheet />
 						<SyncTransactionsButton />
 					</>
 				}
 			/>
 
 			<main className="flex-1 overflow-y-auto p-6 space-y-6">
+				<ConsolidationNotice consolidation={initialData?.consolidation} />
+
+				<CashPosition
+					data={chartData}
+					canEditMinimumCash={canEditMinimumCash}
+				/>
+
 				<CashflowCards
 					summary={
 						initialData?.summary || {
@@ -61,9 +84,14 @@ export function CashflowDashboard({
 				/>
 
 				<div className="grid grid-cols-1 gap-6">
-					<CashflowChart data={chartData} />
+					<CashflowChart
+						data={chartData?.points ?? []}
+						minimumCash={chartData?.minimumCash}
+					/>
 				</div>
 
+				<ScenarioComparison data={scenarioComparison} />
+
 				<div className="grid grid-cols-1 md:grid-cols-3 gap-6">
 					<div className="col-span-3">
 						<CashflowSchedule events={events} />
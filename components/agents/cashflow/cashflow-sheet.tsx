@@ -22,21 +22,43 @@ import {
 	SheetTrigger,
 } from "@/components/ui/sheet";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+	Tooltip,
+	TooltipContent,
+	TooltipProvider,
+	TooltipTrigger,
+} from "@/components/ui/tooltip";
 import {
 	addCashflowAdjustment,
 	generateCashflowSuggestions,
 } from "@/lib/agents/cashflow/actions";
+import {
+	RECURRENCE_LABELS,
+	RECURRENCES,
+	type Recurrence,
+} from "@/lib/agents/cashflow/recurrence";
+
+// Select value for adjustments that happen once
+const ONE_OFF = "NONE";
+
+type CashflowSuggestion = Awaited<
+	ReturnType<typeof generateCashflowSuggestions>
+>[number];
 
 export function CashflowSheet() {
 	const [open, setOpen] = useState(false);
 	const [loadingSuggestions, setLoadingSuggestions] = useState(false);
-	const [suggestions, setSuggestions] = useState<any[]>([]);
+	const [suggestions, setSuggestions] = useState<CashflowSuggestion[]>([]);
 
 	// Manual Entry Form
 	const [desc, setDesc] = useState("");
 	const [amount, setAmount] = useState("");
 	const [date, setDate] = useState("");
 	const [type, setType] = useState<"IN" | "OUT">("OUT");
+	const [recurrence, setRecurrence] = useState<Recurrence | typeof ONE_OFF>(
+		ONE_OFF,
+	);
+	const [endDate, setEndDate] = useState("");
 
 	const handleGenerate = async () => {
 		setLoadingSuggestions(true);
@@ -50,20 +72,24 @@ export function CashflowSheet() {
 		}
 	};
 
-	const handleAdd = async (suggestion?: any) => {
+	const handleAdd = async (suggestion?: CashflowSuggestion) => {
 		try {
 			const data = suggestion
 				? {
 						description: suggestion.description,
-						amount: Number(suggestion.amount),
+						amount: suggestion.amount,
 						date: new Date(suggestion.date),
 						type: suggestion.type,
+						recurrence: suggestion.recurrence,
 					}
 				: {
 						description: desc,
 						amount: Number(amount),
 						date: new Date(date),
 						type: type,
+						recurrence: recurrence === ONE_OFF ? undefined : recurrence,
+						recurrenceEndDate:
+							recurrence !== ONE_OFF && endDate ? new Date(endDate) : undefined,
 					};
 
 			await addCashflowAdjustment(data);
@@ -72,6 +98,8 @@ export function CashflowSheet() {
 				setDesc("");
 				setAmount("");
 				setDate("");
+				setRecurrence(ONE_OFF);
+				setEndDate("");
 			} else {
 				setSuggestions((prev) => prev.filter((s) => s !== suggestion));
 			}
@@ -111,16 +139,39 @@ export function CashflowSheet() {
 							</Button>
 						</div>
 						<div className="space-y-3">
-							{suggestions.map((s, i) => (
+							{suggestions.map((s) => (
 								<div
-									key={i}
+									key={s.id}
 									className="flex justify-between items-center p-3 border rounded-lg bg-muted/30"
 								>
 									<div>
 										<p className="font-medium">{s.description}</p>
 										<p className="text-xs text-muted-foreground">
-											Predicted: {s.date}
+											Predicted: {s.date}, repeats{" "}
+											{RECURRENCE_LABELS[s.recurrence].toLowerCase()}
 										</p>
+										<TooltipProvider>
+											<Tooltip>
+												<TooltipTrigger asChild>
+													<p className="text-xs text-muted-foreground underline decoration-dotted w-fit">
+														{Math.round(s.confidence * 100)}% confidence, from{" "}
+														{s.transactions.length} transactions
+													</p>
+												</TooltipTrigger>
+												<TooltipContent className="max-w-xs">
+													<ul className="text-xs space-y-0.5">
+														{s.transactions.map((t) => (
+															<li key={t.id}>
+																{t.date}: $
+																{t.amount.toLocaleString("en-AU", {
+																	minimumFractionDigits: 2,
+																})}
+															</li>
+														))}
+													</ul>
+												</TooltipContent>
+											</Tooltip>
+										</TooltipProvider>
 									</div>
 									<div className="flex items-center gap-3">
 										<span
@@ -178,14 +229,47 @@ export function CashflowSheet() {
 								</Select>
 							</div>
 						</div>
-						<div className="space-y-2">
-							<Label>Date</Label>
-							<Input
-								type="date"
-								value={date}
-								onChange={(e) => setDate(e.target.value)}
-							/>
+						<div className="grid grid-cols-2 gap-4">
+							<div className="space-y-2">
+								<Label>{recurrence === ONE_OFF ? "Date" : "First Date"}</Label>
+								<Input
+									type="date"
+									value={date}
+									onChange={(e) => setDate(e.target.value)}
+								/>
+							</div>
+							<div className="space-y-2">
+								<Label>Repeats</Label>
+								<Select
+									value={recurrence}
+									onValueChange={(v: Recurrence | typeof ONE_OFF) =>
+										setRecurrence(v)
+									}
+								>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value={ONE_OFF}>Does not repeat</SelectItem>
+										{RECURRENCES.map((r) => (
+											<SelectItem key={r} value={r}>
+												{RECURRENCE_LABELS[r]}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
 						</div>
+						{recurrence !== ONE_OFF && (
+							<div className="space-y-2">
+								<Label>End Date (optional)</Label>
+								<Input
+									type="date"
+									value={endDate}
+									onChange={(e) => setEndDate(e.target.value)}
+								/>
+							</div>
+						)}
 						<Button onClick={() => handleAdd()} className="w-full">
 							<Plus className="w-4 h-4 mr-2" />
 							Add Adjustment
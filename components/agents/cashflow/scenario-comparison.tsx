@@ -0,0 +1,152 @@
+"use client";
+
+import {
+	CartesianGrid,
+	Legend,
+	Line,
+	LineChart,
+	ResponsiveContainer,
+	Tooltip,
+	XAxis,
+	YAxis,
+} from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import type { getScenarioComparison } from "@/lib/agents/cashflow/queries";
+
+export type ScenarioComparisonData = Awaited<
+	ReturnType<typeof getScenarioComparison>
+>;
+
+const SERIES_COLOURS = ["#2563eb", "#16a34a", "#dc2626", "#f59e0b", "#7c3aed"];
+
+function formatMoney(value: number) {
+	return `$${value.toLocaleString("en-AU", { minimumFractionDigits: 2 })}`;
+}
+
+function seriesKey(id: string | null) {
+	return id ?? "baseline";
+}
+
+interface ScenarioComparisonProps {
+	data: ScenarioComparisonData;
+}
+
+export function ScenarioComparison({ data }: ScenarioComparisonProps) {
+	// Only worth showing once there is something to compare with the baseline
+	if (!data || data.series.length < 2) return null;
+
+	const baseline = data.series[0];
+	const rows = baseline.points.map((point, i) => {
+		const row: Record<string, number | string> = { date: point.date };
+		for (const series of data.series) {
+			row[seriesKey(series.id)] = series.points[i]?.balance ?? 0;
+		}
+		return row;
+	});
+
+	return (
+		<Card>
+			<CardHeader>
+				<CardTitle>Scenario Comparison</CardTitle>
+				{data.openingBalance === null && (
+					<p className="text-xs text-muted-foreground">
+						No bank balances synced; balances show the net movement from today.
+					</p>
+				)}
+			</CardHeader>
+			<CardContent className="space-y-6">
+				<ResponsiveContainer width="100%" height={300}>
+					<LineChart
+						data={rows}
+						margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+					>
+						<CartesianGrid strokeDasharray="3 3" />
+						<XAxis
+							dataKey="date"
+							tickFormatter={(value) =>
+								new Date(value).toLocaleDateString("en-AU", {
+									day: "2-digit",
+									month: "short",
+								})
+							}
+							minTickGap={30}
+						/>
+						<YAxis />
+						<Tooltip formatter={(value: any) => formatMoney(Number(value))} />
+						<Legend />
+						{data.series.map((series, i) => (
+							<Line
+								key={seriesKey(series.id)}
+								type="stepAfter"
+								dataKey={seriesKey(series.id)}
+								name={series.name}
+								stroke={SERIES_COLOURS[i % SERIES_COLOURS.length]}
+								strokeWidth={2}
+								strokeDasharray={series.id ? undefined : "5 5"}
+								dot={false}
+							/>
+						))}
+					</LineChart>
+				</ResponsiveContainer>
+
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Scenario</TableHead>
+							<TableHead className="text-right">Cash In</TableHead>
+							<TableHead className="text-right">Cash Out</TableHead>
+							<TableHead className="text-right">Lowest Balance</TableHead>
+							<TableHead className="text-right">In 90 Days</TableHead>
+							<TableHead className="text-right">vs Baseline</TableHead>
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{data.series.map((series) => {
+							const difference =
+								series.summary.closingBalance - baseline.summary.closingBalance;
+							return (
+								<TableRow key={seriesKey(series.id)}>
+									<TableCell className="font-medium">{series.name}</TableCell>
+									<TableCell className="text-right">
+										{formatMoney(series.summary.totalIn)}
+									</TableCell>
+									<TableCell className="text-right">
+										{formatMoney(series.summary.totalOut)}
+									</TableCell>
+									<TableCell className="text-right">
+										{series.summary.lowest
+											? `${formatMoney(series.summary.lowest.balance)} (${new Date(
+													series.summary.lowest.date,
+												).toLocaleDateString("en-AU", {
+													day: "numeric",
+													month: "short",
+												})})`
+											: "-"}
+									</TableCell>
+									<TableCell className="text-right">
+										{formatMoney(series.summary.closingBalance)}
+									</TableCell>
+									<TableCell
+										className={`text-right ${difference < 0 ? "text-red-600" : difference > 0 ? "text-green-600" : ""}`}
+									>
+										{series.id
+											? `${difference >= 0 ? "+" : "-"}${formatMoney(Math.abs(difference))}`
+											: "-"}
+									</TableCell>
+								</TableRow>
+							);
+						})}
+					</TableBody>
+				</Table>
+			</CardContent>
+		</Card>
+	);
+}
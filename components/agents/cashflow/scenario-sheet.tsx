@@ -0,0 +1,357 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+	SheetTrigger,
+} from "@/components/ui/sheet";
+import {
+	addCashflowAdjustment,
+	addCashflowScenarioRule,
+	createCashflowScenario,
+	deleteCashflowScenario,
+	getCashflowScenarios,
+	removeCashflowScenarioRule,
+	removeScenarioAdjustment,
+} from "@/lib/agents/cashflow/actions";
+
+type ScenarioData = Awaited<ReturnType<typeof getCashflowScenarios>>;
+type Scenario = ScenarioData["scenarios"][number];
+type Supplier = ScenarioData["suppliers"][number];
+
+function errorMessage(error: unknown, fallback: string) {
+	return error instanceof Error ? error.message : fallback;
+}
+
+function describeRule(rule: Scenario["rules"][number]) {
+	if (rule.type === "DELAY_RECEIVABLES") {
+		return `Delay all receivables by ${rule.days} days`;
+	}
+	return `Cut ${rule.supplierName ?? "supplier"} bills by ${rule.percent}%`;
+}
+
+interface ScenarioCardProps {
+	scenario: Scenario;
+	suppliers: Supplier[];
+	onChange: () => Promise<void>;
+}
+
+function ScenarioCard({ scenario, suppliers, onChange }: ScenarioCardProps) {
+	const [ruleType, setRuleType] = useState<
+		"DELAY_RECEIVABLES" | "CUT_SUPPLIER_BILLS"
+	>("DELAY_RECEIVABLES");
+	const [days, setDays] = useState("30");
+	const [supplierId, setSupplierId] = useState("");
+	const [percent, setPercent] = useState("10");
+
+	const [desc, setDesc] = useState("");
+	const [amount, setAmount] = useState("");
+	const [date, setDate] = useState("");
+	const [type, setType] = useState<"IN" | "OUT">("OUT");
+
+	const run = async (action: () => Promise<unknown>, fallback: string) => {
+		try {
+			await action();
+			await onChange();
+		} catch (error) {
+			toast.error(errorMessage(error, fallback));
+		}
+	};
+
+	const handleAddRule = () =>
+		run(
+			() =>
+				addCashflowScenarioRule(
+					scenario.id,
+					ruleType === "DELAY_RECEIVABLES"
+						? { type: ruleType, days: Number(days) }
+						: { type: ruleType, supplierId, percent: Number(percent) },
+				),
+			"Failed to add rule",
+		);
+
+	const handleAddAdjustment = () =>
+		run(async () => {
+			await addCashflowAdjustment({
+				description: desc,
+				amount: Number(amount),
+				date: new Date(date),
+				type,
+				scenarioId: scenario.id,
+			});
+			setDesc("");
+			setAmount("");
+			setDate("");
+		}, "Failed to add adjustment");
+
+	return (
+		<div className="space-y-4 rounded-lg border p-4">
+			<div className="flex items-start justify-between">
+				<div>
+					<p className="font-medium">{scenario.name}</p>
+					{scenario.description && (
+						<p className="text-xs text-muted-foreground">
+							{scenario.description}
+						</p>
+					)}
+				</div>
+				<Button
+					size="icon"
+					variant="ghost"
+					onClick={() =>
+						run(
+							() => deleteCashflowScenario(scenario.id),
+							"Failed to delete scenario",
+						)
+					}
+				>
+					<Trash2 className="w-4 h-4" />
+				</Button>
+			</div>
+
+			<div className="space-y-2">
+				<Label>Rules</Label>
+				{scenario.rules.map((rule) => (
+					<div
+						key={rule.id}
+						className="flex items-center justify-between text-sm"
+					>
+						<span>{describeRule(rule)}</span>
+						<Button
+							size="icon"
+							variant="ghost"
+							onClick={() =>
+								run(
+									() => removeCashflowScenarioRule(rule.id),
+									"Failed to remove rule",
+								)
+							}
+						>
+							<Trash2 className="w-4 h-4" />
+						</Button>
+					</div>
+				))}
+				<div className="flex gap-2">
+					<Select
+						value={ruleType}
+						onValueChange={(v: typeof ruleType) => setRuleType(v)}
+					>
+						<SelectTrigger className="w-[180px]">
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="DELAY_RECEIVABLES">
+								Delay receivables
+							</SelectItem>
+							<SelectItem value="CUT_SUPPLIER_BILLS">
+								Cut supplier bills
+							</SelectItem>
+						</SelectContent>
+					</Select>
+					{ruleType === "DELAY_RECEIVABLES" ? (
+						<Input
+							type="number"
+							value={days}
+							onChange={(e) => setDays(e.target.value)}
+							placeholder="Days"
+						/>
+					) : (
+						<>
+							<Select value={supplierId} onValueChange={setSupplierId}>
+								<SelectTrigger>
+									<SelectValue placeholder="Supplier" />
+								</SelectTrigger>
+								<SelectContent>
+									{suppliers.map((s) => (
+										<SelectItem key={s.id} value={s.id}>
+											{s.name}
+										</SelectItem>
+									))}
+								</SelectContent>
+							</Select>
+							<Input
+								type="number"
+								value={percent}
+								onChange={(e) => setPercent(e.target.value)}
+								placeholder="%"
+								className="w-[80px]"
+							/>
+						</>
+					)}
+					<Button size="icon" variant="outline" onClick={handleAddRule}>
+						<Plus className="w-4 h-4" />
+					</Button>
+				</div>
+			</div>
+
+			<div className="space-y-2">
+				<Label>Adjustments</Label>
+				{scenario.adjustments.map((a) => (
+					<div key={a.id} className="flex items-center justify-between text-sm">
+						<span>
+							{a.description} ({new Date(a.date).toLocaleDateString("en-AU")})
+						</span>
+						<div className="flex items-center gap-2">
+							<span
+								className={a.type === "IN" ? "text-green-600" : "text-red-600"}
+							>
+								{a.type === "IN" ? "+" : "-"}$
+								{a.amount.toLocaleString("en-AU", {
+									minimumFractionDigits: 2,
+								})}
+							</span>
+							<Button
+								size="icon"
+								variant="ghost"
+								onClick={() =>
+									run(
+										() => removeScenarioAdjustment(a.id),
+										"Failed to remove adjustment",
+									)
+								}
+							>
+								<Trash2 className="w-4 h-4" />
+							</Button>
+						</div>
+					</div>
+				))}
+				<div className="grid grid-cols-2 gap-2">
+					<Input
+						value={desc}
+						onChange={(e) => setDesc(e.target.value)}
+						placeholder="e.g. Two new hires"
+						className="col-span-2"
+					/>
+					<Input
+						type="number"
+						value={amount}
+						onChange={(e) => setAmount(e.target.value)}
+						placeholder="0.00"
+					/>
+					<Select value={type} onValueChange={(v: "IN" | "OUT") => setType(v)}>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value="IN">Cash In</SelectItem>
+							<SelectItem value="OUT">Cash Out</SelectItem>
+						</SelectContent>
+					</Select>
+					<Input
+						type="date"
+						value={date}
+						onChange={(e) => setDate(e.target.value)}
+					/>
+					<Button variant="outline" onClick={handleAddAdjustment}>
+						<Plus className="w-4 h-4 mr-2" />
+						Add Adjustment
+					</Button>
+				</div>
+			</div>
+		</div>
+	);
+}
+
+export function ScenarioSheet() {
+	const [open, setOpen] = useState(false);
+	const [data, setData] = useState<ScenarioData>({
+		scenarios: [],
+		suppliers: [],
+	});
+	const [name, setName] = useState("");
+	const [description, setDescription] = useState("");
+
+	const load = useCallback(async () => {
+		try {
+			setData(await getCashflowScenarios());
+		} catch (error) {
+			toast.error(errorMessage(error, "Failed to load scenarios"));
+		}
+	}, []);
+
+	useEffect(() => {
+		if (open) load();
+	}, [open, load]);
+
+	const handleCreate = async () => {
+		try {
+			await createCashflowScenario({
+				name,
+				description: description || undefined,
+			});
+			setName("");
+			setDescription("");
+			toast.success("Scenario created");
+			await load();
+		} catch (error) {
+			toast.error(errorMessage(error, "Failed to create scenario"));
+		}
+	};
+
+	return (
+		<Sheet open={open} onOpenChange={setOpen}>
+			<SheetTrigger asChild>
+				<Button variant="outline">Scenarios</Button>
+			</SheetTrigger>
+			<SheetContent className="sm:max-w-xl overflow-y-auto">
+				<SheetHeader>
+					<SheetTitle>What-if Scenarios</SheetTitle>
+					<SheetDescription>
+						Each scenario is the baseline forecast with its own rules and
+						adjustments applied.
+					</SheetDescription>
+				</SheetHeader>
+
+				<div className="mt-4 space-y-4">
+					<div className="space-y-2">
+						<Label>New Scenario</Label>
+						<Input
+							value={name}
+							onChange={(e) => setName(e.target.value)}
+							placeholder="e.g. Lose major client"
+						/>
+						<Input
+							value={description}
+							onChange={(e) => setDescription(e.target.value)}
+							placeholder="Description (optional)"
+						/>
+						<Button onClick={handleCreate} className="w-full">
+							<Plus className="w-4 h-4 mr-2" />
+							Create Scenario
+						</Button>
+					</div>
+
+					{data.scenarios.map((scenario) => (
+						<ScenarioCard
+							key={scenario.id}
+							scenario={scenario}
+							suppliers={data.suppliers}
+							onChange={load}
+						/>
+					))}
+					{data.scenarios.length === 0 && (
+						<div className="text-center text-muted-foreground py-8">
+							No scenarios yet.
+						</div>
+					)}
+				</div>
+			</SheetContent>
+		</Sheet>
+	);
+}
@@ -15,7 +15,7 @@ export function SyncTransactionsButton() {
 			const res = await syncXeroTransactions();
 			if (res.success) {
 				toast.success(
-					`Synced ${res.counts.transactions} bank transactions and ${res.counts.payments} payments.`,
+					`Synced ${res.counts.transactions} bank transactions, ${res.counts.payments} payments and ${res.counts.balances} bank balances.`,
 				);
 			}
 		} catch (error) {
@@ -0,0 +1,44 @@
+import { Layers } from "lucide-react";
+
+export interface ConsolidationSummary {
+	organisationCount: number;
+	currency: string;
+	ratesDate: string | null;
+	eliminateIntercompany: boolean;
+}
+
+interface ConsolidationNoticeProps {
+	consolidation: ConsolidationSummary | null | undefined;
+}
+
+/**
+ * Explains how figures were combined when the consolidated view is selected
+ */
+export function ConsolidationNotice({
+	consolidation,
+}: ConsolidationNoticeProps) {
+	if (!consolidation) return null;
+
+	const { organisationCount, currency, ratesDate, eliminateIntercompany } =
+		consolidation;
+
+	return (
+		<div className="flex items-start gap-3 rounded-md border bg-muted/50 p-3 text-sm">
+			<Layers className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+			<div className="space-y-1">
+				<p className="font-medium">
+					Consolidated across {organisationCount} Xero organisations, in{" "}
+					{currency}
+				</p>
+				<p className="text-muted-foreground">
+					{ratesDate
+						? `Converted at ECB reference rates from ${ratesDate}.`
+						: "Exchange rates are unavailable, so foreign currency amounts are not converted."}{" "}
+					{eliminateIntercompany
+						? "Balances with related entities are eliminated."
+						: "Balances with related entities are included."}
+				</p>
+			</div>
+		</div>
+	);
+}
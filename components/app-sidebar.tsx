@@ -35,6 +35,7 @@ import {
 	AlertDialogTitle,
 } from "./ui/alert-dialog";
 import { Tooltip, TooltipContent, TooltipTrigger } from "./ui/tooltip";
+import { XeroTenantSwitcher } from "./xero-tenant-switcher";
 
 export function AppSidebar({
 	user,
@@ -122,11 +123,12 @@ export function AppSidebar({
 							</div>
 						</div>
 						{user && (
-							<div className="px-2 pt-2">
+							<div className="flex flex-col gap-2 px-2 pt-2">
 								<OrganizationSwitcher
 									hidePersonal
 									appearance={getOrganizationSwitcherAppearance(resolvedTheme)}
 								/>
+								<XeroTenantSwitcher />
 							</div>
 						)}
 					</SidebarMenu>
@@ -8,6 +8,7 @@ import {
 	type SetStateAction,
 	useCallback,
 	useEffect,
+	useRef,
 	useState,
 } from "react";
 import useSWR, { useSWRConfig } from "swr";
@@ -51,8 +52,41 @@ export type UIArtifact = {
 		width: number;
 		height: number;
 	};
+	// Text to scroll to once the document loads, e.g. a cited RAG chunk
+	passage?: string;
 };
 
+const PASSAGE_BLOCKS =
+	"p, li, h1, h2, h3, h4, h5, h6, pre, td, [role='gridcell']";
+
+/**
+ * Scrolls to and briefly highlights the block where a passage starts.
+ * Passages are whitespace-normalised chunks that may begin mid-paragraph,
+ * so only their first few words are matched.
+ */
+function scrollToPassage(container: HTMLElement, passage: string) {
+	const words = passage.replace(/\s+/g, " ").trim().toLowerCase().split(" ");
+	const blocks = Array.from(
+		container.querySelectorAll<HTMLElement>(PASSAGE_BLOCKS),
+	);
+
+	for (let length = Math.min(words.length, 6); length >= 3; length--) {
+		const probe = words.slice(0, length).join(" ");
+		const match = blocks.find((block) =>
+			block.textContent?.replace(/\s+/g, " ").toLowerCase().includes(probe),
+		);
+		if (match) {
+			match.scrollIntoView({ behavior: "smooth", block: "center" });
+			match.classList.add("bg-yellow-100", "dark:bg-yellow-900/40");
+			setTimeout(
+				() => match.classList.remove("bg-yellow-100", "dark:bg-yellow-900/40"),
+				3000,
+			);
+			return;
+		}
+	}
+}
+
 function PureArtifact({
 	addToolApprovalResponse,
 	chatId,
@@ -115,6 +149,7 @@ function PureArtifact({
 	const [currentVersionIndex, setCurrentVersionIndex] = useState(-1);
 
 	const { open: isSidebarOpen } = useSidebar();
+	const contentRef = useRef<HTMLDivElement>(null);
 
 	useEffect(() => {
 		if (documents && documents.length > 0) {
@@ -138,6 +173,25 @@ function PureArtifact({
 		mutateDocuments();
 	}, [mutateDocuments]);
 
+	useEffect(() => {
+		const container = contentRef.current;
+		const passage = artifact.passage;
+		if (!passage || !artifact.content || !container) {
+			return;
+		}
+
+		// Give the editor a moment to render the loaded content
+		const timeout = setTimeout(() => {
+			scrollToPassage(container, passage);
+			setArtifact((currentArtifact) => ({
+				...currentArtifact,
+				passage: undefined,
+			}));
+		}, 300);
+
+		return () => clearTimeout(timeout);
+	}, [artifact.passage, artifact.content, setArtifact]);
+
 	const { mutate } = useSWRConfig();
 	const [isContentDirty, setIsContentDirty] = useState(false);
 
@@ -482,7 +536,10 @@ function PureArtifact({
 							/>
 						</div>
 
-						<div className="h-full max-w-full! items-center overflow-y-scroll bg-background dark:bg-muted">
+						<div
+							className="h-full max-w-full! items-center overflow-y-scroll bg-background dark:bg-muted"
+							ref={contentRef}
+						>
 							<artifactDefinition.content
 								content={
 									isCurrentVersion
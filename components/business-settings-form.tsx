@@ -45,6 +45,9 @@ export function BusinessSettingsForm({
 	const [dateFormat, setDateFormat] = useState(
 		initialSettings?.dateFormat || "DD/MM/YYYY",
 	);
+	const [eliminateIntercompany, setEliminateIntercompany] = useState(
+		initialSettings?.eliminateIntercompany ?? false,
+	);
 
 	const handleSubmit = (e: React.FormEvent) => {
 		e.preventDefault();
@@ -56,6 +59,7 @@ export function BusinessSettingsForm({
 			timezone,
 			baseCurrency,
 			dateFormat,
+			eliminateIntercompany,
 		};
 
 		startTransition(async () => {
@@ -143,6 +147,28 @@ export function BusinessSettingsForm({
 				</p>
 			</div>
 
+			<div className="space-y-2">
+				<Label htmlFor="eliminateIntercompany">Intercompany Balances</Label>
+				<Select
+					value={eliminateIntercompany ? "eliminate" : "include"}
+					onValueChange={(value) =>
+						setEliminateIntercompany(value === "eliminate")
+					}
+				>
+					<SelectTrigger id="eliminateIntercompany">
+						<SelectValue />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectItem value="include">Include</SelectItem>
+						<SelectItem value="eliminate">Eliminate</SelectItem>
+					</SelectContent>
+				</Select>
+				<p className="text-sm text-muted-foreground">
+					In the consolidated view, leave out invoices and bills with contacts
+					marked as related entities
+				</p>
+			</div>
+
 			<div className="flex items-center gap-4">
 				<Button type="submit" disabled={isPending}>
 					{isPending ? "Saving..." : "Save Settings"}
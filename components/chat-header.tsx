@@ -8,16 +8,22 @@ import { AgentNavDropdown } from "@/components/agent-nav-dropdown";
 import { SidebarToggle } from "@/components/sidebar-toggle";
 import { Button } from "@/components/ui/button";
 import { PlusIcon, VercelIcon } from "./icons";
+import {
+	type KnowledgeScope,
+	KnowledgeScopeSelector,
+} from "./knowledge-scope-selector";
 import { useSidebar } from "./ui/sidebar";
 import { VisibilitySelector, type VisibilityType } from "./visibility-selector";
 
 function PureChatHeader({
 	chatId,
 	selectedVisibilityType,
+	selectedKnowledgeScope,
 	isReadonly,
 }: {
 	chatId: string;
 	selectedVisibilityType: VisibilityType;
+	selectedKnowledgeScope: KnowledgeScope;
 	isReadonly: boolean;
 }) {
 	const router = useRouter();
@@ -45,9 +51,16 @@ function PureChatHeader({
 			<AgentNavDropdown />
 
 			{!isReadonly && (
-				<VisibilitySelector
+				<KnowledgeScopeSelector
 					chatId={chatId}
 					className="ml-auto"
+					selectedKnowledgeScope={selectedKnowledgeScope}
+				/>
+			)}
+
+			{!isReadonly && (
+				<VisibilitySelector
+					chatId={chatId}
 					selectedVisibilityType={selectedVisibilityType}
 				/>
 			)}
@@ -59,6 +72,7 @@ export const ChatHeader = memo(PureChatHeader, (prevProps, nextProps) => {
 	return (
 		prevProps.chatId === nextProps.chatId &&
 		prevProps.selectedVisibilityType === nextProps.selectedVisibilityType &&
+		prevProps.selectedKnowledgeScope === nextProps.selectedKnowledgeScope &&
 		prevProps.isReadonly === nextProps.isReadonly
 	);
 });
@@ -19,6 +19,7 @@ import {
 } from "@/components/ui/alert-dialog";
 import { useArtifactSelector } from "@/hooks/use-artifact";
 import { useAutoResume } from "@/hooks/use-auto-resume";
+import { useChatKnowledgeScope } from "@/hooks/use-chat-knowledge-scope";
 import { useChatVisibility } from "@/hooks/use-chat-visibility";
 import { useXeroTokenRefresh } from "@/hooks/use-xero-token-refresh";
 import type { Vote } from "@/lib/db/schema";
@@ -27,6 +28,7 @@ import type { Attachment, ChatMessage } from "@/lib/types";
 import { fetcher, fetchWithErrorHandlers, generateUUID } from "@/lib/utils";
 import { Artifact } from "./artifact";
 import { useDataStream } from "./data-stream-provider";
+import type { KnowledgeScope } from "./knowledge-scope-selector";
 import { Messages } from "./messages";
 import { MultimodalInput } from "./multimodal-input";
 import { getChatHistoryPaginationKey } from "./sidebar-history";
@@ -38,6 +40,7 @@ export function Chat({
 	initialMessages,
 	initialChatModel,
 	initialVisibilityType,
+	initialKnowledgeScope,
 	isReadonly,
 	autoResume,
 }: {
@@ -45,6 +48,7 @@ export function Chat({
 	initialMessages: ChatMessage[];
 	initialChatModel: string;
 	initialVisibilityType: VisibilityType;
+	initialKnowledgeScope: KnowledgeScope;
 	isReadonly: boolean;
 	autoResume: boolean;
 }) {
@@ -89,6 +93,16 @@ export function Chat({
 		currentModelIdRef.current = currentModelId;
 	}, [currentModelId]);
 
+	const { knowledgeScope } = useChatKnowledgeScope({
+		chatId: id,
+		initialKnowledgeScope,
+	});
+	const knowledgeScopeRef = useRef(knowledgeScope);
+
+	useEffect(() => {
+		knowledgeScopeRef.current = knowledgeScope;
+	}, [knowledgeScope]);
+
 	const {
 		messages,
 		setMessages,
@@ -152,6 +166,7 @@ export function Chat({
 							: { message: lastMessage }),
 						selectedChatModel: currentModelIdRef.current,
 						selectedVisibilityType: visibilityType,
+						selectedKnowledgeScope: knowledgeScopeRef.current,
 						...request.body,
 					},
 				};
@@ -218,6 +233,7 @@ export function Chat({
 				<ChatHeader
 					chatId={id}
 					isReadonly={isReadonly}
+					selectedKnowledgeScope={initialKnowledgeScope}
 					selectedVisibilityType={initialVisibilityType}
 				/>
 
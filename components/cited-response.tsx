@@ -0,0 +1,186 @@
+"use client";
+
+import { type ComponentProps, type MouseEvent, useMemo } from "react";
+import { toast } from "sonner";
+import {
+	InlineCitation,
+	InlineCitationCard,
+	InlineCitationCardBody,
+	InlineCitationQuote,
+	InlineCitationSource,
+} from "@/components/ai-elements/inline-citation";
+import { useArtifact } from "@/hooks/use-artifact";
+import { describeChunkLocation } from "@/lib/ai/chunking";
+import type { Citation } from "@/lib/types";
+import type { ArtifactKind } from "./artifact";
+import { Response } from "./elements/response";
+import { Badge } from "./ui/badge";
+import { HoverCardTrigger } from "./ui/hover-card";
+
+const CITATION_HREF_PREFIX = "#citation-";
+
+// Passed to custom markdown components alongside the element's own props
+type ExtraProps = { node?: unknown };
+
+const isArtifactKind = (kind: Citation["kind"]): kind is ArtifactKind =>
+	["text", "code", "image", "sheet"].includes(kind);
+
+/**
+ * Turns the model's [n] markers into links the renderer can pick out,
+ * leaving numbers that are not a known source (or are real links) alone
+ */
+function linkCitations(text: string, citations: Citation[]) {
+	const indexes = new Set(citations.map((citation) => citation.index));
+	return text.replace(/\[(\d+)\](?!\()/g, (marker, number: string) =>
+		indexes.has(Number(number))
+			? `[${number}](${CITATION_HREF_PREFIX}${number})`
+			: marker,
+	);
+}
+
+function CitationBadge({
+	citation,
+	isReadonly,
+}: {
+	citation: Citation;
+	isReadonly: boolean;
+}) {
+	const { setArtifact } = useArtifact();
+
+	const openCitation = (event: MouseEvent<HTMLElement>) => {
+		event.preventDefault();
+
+		// Knowledge base files are not documents the artifact panel can load
+		if (citation.source === "chat" && isArtifactKind(citation.kind)) {
+			if (isReadonly) {
+				toast.error(
+					"Viewing files in shared chats is currently not supported.",
+				);
+				return;
+			}
+
+			const rect = event.currentTarget.getBoundingClientRect();
+			const artifactKind = citation.kind;
+			setArtifact((currentArtifact) => ({
+				documentId: citation.documentId,
+				kind: artifactKind,
+				content:
+					currentArtifact.documentId === citation.documentId
+						? currentArtifact.content
+						: "",
+				title: citation.title,
+				isVisible: true,
+				status: "idle",
+				boundingBox: {
+					top: rect.top,
+					left: rect.left,
+					width: rect.width,
+					height: rect.height,
+				},
+				chatId: currentArtifact.chatId,
+				passage: citation.content,
+			}));
+			return;
+		}
+
+		if (citation.url) {
+			// Browser PDF viewers open at #page=N
+			const url =
+				citation.kind === "pdf" && citation.pageNumber
+					? `${citation.url}#page=${citation.pageNumber}`
+					: citation.url;
+			window.open(url, "_blank", "noopener,noreferrer");
+			return;
+		}
+
+		toast.error("This source is no longer available.");
+	};
+
+	const location = describeChunkLocation(citation);
+
+	return (
+		<InlineCitation>
+			<InlineCitationCard>
+				<HoverCardTrigger asChild>
+					<Badge
+						className="ml-0.5 cursor-pointer rounded-full px-1.5 py-0 align-super text-[10px]"
+						onClick={openCitation}
+						variant="secondary"
+					>
+						{citation.index}
+					</Badge>
+				</HoverCardTrigger>
+				<InlineCitationCardBody>
+					<InlineCitationSource
+						className="p-4"
+						description={
+							location
+								? `${location.charAt(0).toUpperCase()}${location.slice(1)}`
+								: undefined
+						}
+						title={citation.title}
+					>
+						<InlineCitationQuote className="line-clamp-4">
+							{citation.content}
+						</InlineCitationQuote>
+					</InlineCitationSource>
+				</InlineCitationCardBody>
+			</InlineCitationCard>
+		</InlineCitation>
+	);
+}
+
+type CitedResponseProps = {
+	children: string;
+	citations: Citation[];
+	isReadonly: boolean;
+};
+
+/**
+ * Markdown response with the model's [n] source markers rendered as
+ * citations that preview the passage and open the cited document
+ */
+export function CitedResponse({
+	children,
+	citations,
+	isReadonly,
+}: CitedResponseProps) {
+	// Memoised so streaming text does not remount open citation cards
+	const components = useMemo(
+		() => ({
+			a: ({
+				href,
+				node: _node,
+				...props
+			}: ComponentProps<"a"> & ExtraProps) => {
+				const citation = href?.startsWith(CITATION_HREF_PREFIX)
+					? citations.find(
+							(c) =>
+								c.index === Number(href.slice(CITATION_HREF_PREFIX.length)),
+						)
+					: undefined;
+
+				if (citation) {
+					return <CitationBadge citation={citation} isReadonly={isReadonly} />;
+				}
+
+				return (
+					<a
+						className="font-medium text-primary underline"
+						href={href}
+						rel="noopener noreferrer"
+						target="_blank"
+						{...props}
+					/>
+				);
+			},
+		}),
+		[citations, isReadonly],
+	);
+
+	return (
+		<Response components={components}>
+			{linkCitations(children, citations)}
+		</Response>
+	);
+}
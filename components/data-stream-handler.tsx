@@ -28,6 +28,10 @@ export function DataStreamHandler() {
 				mutate(unstable_serialize(getChatHistoryPaginationKey));
 				continue;
 			}
+			// Citations are rendered from the message's own parts
+			if (delta.type === "data-citations") {
+				continue;
+			}
 			const artifactDefinition = artifactDefinitions.find(
 				(currentArtifactDefinition) =>
 					currentArtifactDefinition.kind === artifact.kind,
@@ -0,0 +1,279 @@
+"use client";
+
+import { FileText, RefreshCw, Trash2, Upload } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { useRef, useState, useTransition } from "react";
+import { toast } from "sonner";
+import {
+	deleteKnowledgeDocument,
+	setKnowledgeDocumentTags,
+} from "@/app/(chat)/settings/knowledge/actions";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableHeader,
+	TableRow,
+} from "@/components/ui/table";
+import type { KnowledgeDocument } from "@/lib/db/schema";
+
+const ACCEPTED_FILES = ".pdf,.docx,.txt,.csv,.tsv";
+
+interface KnowledgeBaseManagerProps {
+	documents: KnowledgeDocument[];
+	canManage: boolean;
+}
+
+async function uploadKnowledgeFile(
+	file: File,
+	options: { documentId?: string; tags?: string },
+) {
+	const formData = new FormData();
+	formData.append("file", file);
+	if (options.documentId) formData.append("documentId", options.documentId);
+	if (options.tags !== undefined) formData.append("tags", options.tags);
+
+	const response = await fetch("/api/knowledge", {
+		method: "POST",
+		body: formData,
+	});
+	if (!response.ok) {
+		const { error } = await response.json().catch(() => ({ error: null }));
+		throw new Error(error ?? "Upload failed");
+	}
+}
+
+function TagsEditor({
+	document,
+	disabled,
+}: {
+	document: KnowledgeDocument;
+	disabled: boolean;
+}) {
+	const [tags, setTags] = useState(document.tags.join(", "));
+	const [isPending, startTransition] = useTransition();
+
+	const save = () => {
+		if (tags === document.tags.join(", ")) return;
+		startTransition(async () => {
+			try {
+				await setKnowledgeDocumentTags(document.id, tags);
+				toast.success("Tags updated");
+			} catch (err) {
+				toast.error(err instanceof Error ? err.message : "Failed to save tags");
+			}
+		});
+	};
+
+	if (disabled) {
+		return (
+			<div className="flex flex-wrap gap-1">
+				{document.tags.map((tag) => (
+					<Badge key={tag} variant="secondary">
+						{tag}
+					</Badge>
+				))}
+			</div>
+		);
+	}
+
+	return (
+		<Input
+			aria-label={`Tags for ${document.title}`}
+			className="h-8"
+			disabled={isPending}
+			onBlur={save}
+			onChange={(e) => setTags(e.target.value)}
+			onKeyDown={(e) => {
+				if (e.key === "Enter") e.currentTarget.blur();
+			}}
+			placeholder="policy, payroll"
+			value={tags}
+		/>
+	);
+}
+
+export function KnowledgeBaseManager({
+	documents,
+	canManage,
+}: KnowledgeBaseManagerProps) {
+	const router = useRouter();
+	const [isPending, startTransition] = useTransition();
+	const [newTags, setNewTags] = useState("");
+	const uploadRef = useRef<HTMLInputElement>(null);
+	const replaceRef = useRef<HTMLInputElement>(null);
+	const [replacingId, setReplacingId] = useState<string | null>(null);
+
+	const run = (action: () => Promise<void>, success: string) => {
+		startTransition(async () => {
+			try {
+				await action();
+				toast.success(success);
+				router.refresh();
+			} catch (err) {
+				toast.error(
+					err instanceof Error ? err.message : "Something went wrong",
+				);
+			}
+		});
+	};
+
+	const handleUpload = (file: File | undefined) => {
+		if (!file) return;
+		run(async () => {
+			await uploadKnowledgeFile(file, { tags: newTags });
+			setNewTags("");
+		}, `${file.name} added to the knowledge base`);
+	};
+
+	const handleReplace = (file: File | undefined) => {
+		const documentId = replacingId;
+		setReplacingId(null);
+		if (!file || !documentId) return;
+		run(
+			() => uploadKnowledgeFile(file, { documentId }),
+			`Replaced with ${file.name}`,
+		);
+	};
+
+	const handleDelete = (document: KnowledgeDocument) => {
+		if (!window.confirm(`Remove ${document.title} from the knowledge base?`)) {
+			return;
+		}
+		run(
+			() => deleteKnowledgeDocument(document.id),
+			`${document.title} removed`,
+		);
+	};
+
+	return (
+		<div className="space-y-6">
+			{canManage ? (
+				<div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+					<div className="flex-1 space-y-2">
+						<Label htmlFor="knowledge-tags">Tags for new documents</Label>
+						<Input
+							disabled={isPending}
+							id="knowledge-tags"
+							onChange={(e) => setNewTags(e.target.value)}
+							placeholder="Comma separated, e.g. policy, payroll"
+							value={newTags}
+						/>
+					</div>
+					<Button
+						disabled={isPending}
+						onClick={() => uploadRef.current?.click()}
+						type="button"
+					>
+						<Upload className="mr-2 h-4 w-4" />
+						{isPending ? "Working..." : "Upload Document"}
+					</Button>
+					<input
+						accept={ACCEPTED_FILES}
+						className="hidden"
+						onChange={(e) => {
+							handleUpload(e.target.files?.[0]);
+							e.target.value = "";
+						}}
+						ref={uploadRef}
+						type="file"
+					/>
+					<input
+						accept={ACCEPTED_FILES}
+						className="hidden"
+						onChange={(e) => {
+							handleReplace(e.target.files?.[0]);
+							e.target.value = "";
+						}}
+						ref={replaceRef}
+						type="file"
+					/>
+				</div>
+			) : (
+				<p className="text-sm text-muted-foreground">
+					Only organisation admins can change the knowledge base.
+				</p>
+			)}
+
+			{documents.length === 0 ? (
+				<p className="text-sm text-muted-foreground">
+					No documents yet. PDF, DOCX, TXT, CSV and TSV files up to 10MB are
+					supported.
+				</p>
+			) : (
+				<Table>
+					<TableHeader>
+						<TableRow>
+							<TableHead>Document</TableHead>
+							<TableHead>Tags</TableHead>
+							<TableHead>Updated</TableHead>
+							{canManage && <TableHead className="text-right" />}
+						</TableRow>
+					</TableHeader>
+					<TableBody>
+						{documents.map((document) => (
+							<TableRow key={document.id}>
+								<TableCell className="font-medium">
+									<a
+										className="flex items-center gap-2 hover:underline"
+										href={document.blobUrl}
+										rel="noopener noreferrer"
+										target="_blank"
+									>
+										<FileText className="h-4 w-4 shrink-0" />
+										{document.title}
+									</a>
+								</TableCell>
+								<TableCell className="min-w-48">
+									<TagsEditor
+										disabled={!canManage || isPending}
+										document={document}
+									/>
+								</TableCell>
+								<TableCell className="whitespace-nowrap text-muted-foreground">
+									{new Date(document.updatedAt).toLocaleDateString("en-AU", {
+										day: "numeric",
+										month: "short",
+										year: "numeric",
+									})}
+								</TableCell>
+								{canManage && (
+									<TableCell className="text-right whitespace-nowrap">
+										<Button
+											disabled={isPending}
+											onClick={() => {
+												setReplacingId(document.id);
+												replaceRef.current?.click();
+											}}
+											size="icon"
+											title="Replace file"
+											type="button"
+											variant="ghost"
+										>
+											<RefreshCw className="h-4 w-4" />
+										</Button>
+										<Button
+											disabled={isPending}
+											onClick={() => handleDelete(document)}
+											size="icon"
+											title="Delete"
+											type="button"
+											variant="ghost"
+										>
+											<Trash2 className="h-4 w-4" />
+										</Button>
+									</TableCell>
+								)}
+							</TableRow>
+						))}
+					</TableBody>
+				</Table>
+			)}
+		</div>
+	);
+}
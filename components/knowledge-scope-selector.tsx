@@ -0,0 +1,110 @@
+"use client";
+
+import { BookOpen, Files, Library } from "lucide-react";
+import { type ReactNode, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useChatKnowledgeScope } from "@/hooks/use-chat-knowledge-scope";
+import { cn } from "@/lib/utils";
+import { CheckCircleFillIcon, ChevronDownIcon } from "./icons";
+
+export type KnowledgeScope = "chat" | "organisation" | "all";
+
+const scopes: Array<{
+	id: KnowledgeScope;
+	label: string;
+	description: string;
+	icon: ReactNode;
+}> = [
+	{
+		id: "all",
+		label: "Chat + knowledge base",
+		description: "Search files in this chat and your organisation's library",
+		icon: <Library className="size-4" />,
+	},
+	{
+		id: "chat",
+		label: "This chat only",
+		description: "Only search files uploaded to this chat",
+		icon: <Files className="size-4" />,
+	},
+	{
+		id: "organisation",
+		label: "Knowledge base only",
+		description: "Only search your organisation's library",
+		icon: <BookOpen className="size-4" />,
+	},
+];
+
+export function KnowledgeScopeSelector({
+	chatId,
+	className,
+	selectedKnowledgeScope,
+}: {
+	chatId: string;
+	selectedKnowledgeScope: KnowledgeScope;
+} & React.ComponentProps<typeof Button>) {
+	const [open, setOpen] = useState(false);
+
+	const { knowledgeScope, setKnowledgeScope } = useChatKnowledgeScope({
+		chatId,
+		initialKnowledgeScope: selectedKnowledgeScope,
+	});
+
+	const selectedScope = useMemo(
+		() => scopes.find((scope) => scope.id === knowledgeScope),
+		[knowledgeScope],
+	);
+
+	return (
+		<DropdownMenu onOpenChange={setOpen} open={open}>
+			<DropdownMenuTrigger
+				asChild
+				className={cn(
+					"w-fit data-[state=open]:bg-accent data-[state=open]:text-accent-foreground",
+					className,
+				)}
+			>
+				<Button
+					className="hidden h-8 md:flex md:h-fit md:px-2"
+					data-testid="knowledge-scope-selector"
+					variant="outline"
+				>
+					{selectedScope?.icon}
+					<span className="md:sr-only">{selectedScope?.label}</span>
+					<ChevronDownIcon />
+				</Button>
+			</DropdownMenuTrigger>
+
+			<DropdownMenuContent align="end" className="min-w-[300px]">
+				{scopes.map((scope) => (
+					<DropdownMenuItem
+						className="group/item flex flex-row items-center justify-between gap-4"
+						data-active={scope.id === knowledgeScope}
+						data-testid={`knowledge-scope-selector-item-${scope.id}`}
+						key={scope.id}
+						onSelect={() => {
+							setKnowledgeScope(scope.id);
+							setOpen(false);
+						}}
+					>
+						<div className="flex flex-col items-start gap-1">
+							{scope.label}
+							<div className="text-muted-foreground text-xs">
+								{scope.description}
+							</div>
+						</div>
+						<div className="text-foreground opacity-0 group-data-[active=true]/item:opacity-100 dark:text-foreground">
+							<CheckCircleFillIcon />
+						</div>
+					</DropdownMenuItem>
+				))}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
@@ -6,6 +6,7 @@ import { memo, useState } from "react";
 import type { Vote } from "@/lib/db/schema";
 import type { ChatMessage } from "@/lib/types";
 import { cn, sanitizeText } from "@/lib/utils";
+import { CitedResponse } from "./cited-response";
 import { useDataStream } from "./data-stream-provider";
 import { DocumentToolResult } from "./document";
 import { DocumentPreview } from "./document-preview";
@@ -111,6 +112,10 @@ const PurePreviewMessage = ({
 		(part) => part.type === "file",
 	);
 
+	const citations = message.parts.find(
+		(part) => part.type === "data-citations",
+	)?.data;
+
 	useDataStream();
 
 	return (
@@ -197,7 +202,16 @@ const PurePreviewMessage = ({
 													: undefined
 											}
 										>
-											<Response>{sanitizeText(part.text)}</Response>
+											{citations && citations.length > 0 ? (
+												<CitedResponse
+													citations={citations}
+													isReadonly={isReadonly}
+												>
+													{sanitizeText(part.text)}
+												</CitedResponse>
+											) : (
+												<Response>{sanitizeText(part.text)}</Response>
+											)}
 										</MessageContent>
 									</div>
 								);
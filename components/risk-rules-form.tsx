@@ -0,0 +1,340 @@
+"use client";
+
+import { Plus, Trash2 } from "lucide-react";
+import { useState, useTransition } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import {
+	resetRiskScoringConfig,
+	updateRiskScoringConfig,
+} from "@/lib/agents/ap/actions";
+import type {
+	CustomRiskRule,
+	CustomRiskRuleType,
+	RiskScoringConfig,
+} from "@/lib/agents/ap/risk-scoring";
+import { generateUUID } from "@/lib/utils";
+
+const WEIGHT_FIELDS: Array<{
+	key: keyof RiskScoringConfig["weights"];
+	label: string;
+}> = [
+	{ key: "missingTaxNumber", label: "Missing ABN / tax number" },
+	{ key: "missingInvoiceNumber", label: "Missing tax invoice number" },
+	{ key: "unapprovedBill", label: "Unapproved bill" },
+	{ key: "blockedSupplier", label: "Blocked supplier (archived)" },
+];
+
+const THRESHOLD_FIELDS: Array<{
+	key: keyof RiskScoringConfig["thresholds"];
+	label: string;
+}> = [
+	{ key: "medium", label: "Medium from" },
+	{ key: "high", label: "High from" },
+	{ key: "critical", label: "Critical from" },
+];
+
+const RULE_TYPE_OPTIONS: Array<{
+	value: CustomRiskRuleType;
+	label: string;
+	valueLabel: string;
+}> = [
+	{
+		value: "bill_total_over",
+		label: "Bill total over",
+		valueLabel: "Amount ($)",
+	},
+	{
+		value: "new_supplier",
+		label: "New supplier (first bill within)",
+		valueLabel: "Days",
+	},
+	{
+		value: "short_payment_terms",
+		label: "Payment terms shorter than",
+		valueLabel: "Days",
+	},
+];
+
+interface RiskRulesFormProps {
+	initialConfig: RiskScoringConfig;
+	defaultConfig: RiskScoringConfig;
+	canEdit: boolean;
+}
+
+export function RiskRulesForm({
+	initialConfig,
+	defaultConfig,
+	canEdit,
+}: RiskRulesFormProps) {
+	const [isPending, startTransition] = useTransition();
+	const [saved, setSaved] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+	const [config, setConfig] = useState<RiskScoringConfig>(initialConfig);
+
+	const setWeight = (key: keyof RiskScoringConfig["weights"], value: string) =>
+		setConfig((c) => ({
+			...c,
+			weights: { ...c.weights, [key]: Number(value) },
+		}));
+
+	const setThreshold = (
+		key: keyof RiskScoringConfig["thresholds"],
+		value: string,
+	) =>
+		setConfig((c) => ({
+			...c,
+			thresholds: { ...c.thresholds, [key]: Number(value) },
+		}));
+
+	const updateRule = (id: string, patch: Partial<CustomRiskRule>) =>
+		setConfig((c) => ({
+			...c,
+			customRules: c.customRules.map((r) =>
+				r.id === id ? { ...r, ...patch } : r,
+			),
+		}));
+
+	const addRule = () =>
+		setConfig((c) => ({
+			...c,
+			customRules: [
+				...c.customRules,
+				{
+					id: generateUUID(),
+					type: "bill_total_over",
+					value: 10000,
+					points: 15,
+				},
+			],
+		}));
+
+	const removeRule = (id: string) =>
+		setConfig((c) => ({
+			...c,
+			customRules: c.customRules.filter((r) => r.id !== id),
+		}));
+
+	const run = (action: () => Promise<void>) => {
+		setSaved(false);
+		setError(null);
+
+		startTransition(async () => {
+			try {
+				await action();
+				setSaved(true);
+				setTimeout(() => setSaved(false), 3000);
+			} catch (err) {
+				setError(err instanceof Error ? err.message : "Failed to save rules");
+			}
+		});
+	};
+
+	const handleSubmit = (e: React.FormEvent) => {
+		e.preventDefault();
+		run(() =>
+			updateRiskScoringConfig({
+				...config,
+				// Blank labels fall back to the generated description
+				customRules: config.customRules.map((r) => ({
+					...r,
+					label: r.label?.trim() || undefined,
+				})),
+			}),
+		);
+	};
+
+	const handleReset = () => {
+		run(async () => {
+			await resetRiskScoringConfig();
+			setConfig(defaultConfig);
+		});
+	};
+
+	return (
+		<form onSubmit={handleSubmit} className="space-y-8">
+			<fieldset disabled={!canEdit || isPending} className="space-y-8">
+				<div className="space-y-4">
+					<div>
+						<h3 className="font-medium">Built-in factors</h3>
+						<p className="text-sm text-muted-foreground">
+							Points added to a bill's score. Set to 0 to ignore a factor.
+						</p>
+					</div>
+					<div className="grid gap-4 sm:grid-cols-2">
+						{WEIGHT_FIELDS.map((field) => (
+							<div key={field.key} className="space-y-2">
+								<Label htmlFor={`weight-${field.key}`}>{field.label}</Label>
+								<Input
+									id={`weight-${field.key}`}
+									type="number"
+									min={0}
+									max={100}
+									value={config.weights[field.key]}
+									onChange={(e) => setWeight(field.key, e.target.value)}
+								/>
+							</div>
+						))}
+					</div>
+				</div>
+
+				<div className="space-y-4">
+					<div>
+						<h3 className="font-medium">Risk levels</h3>
+						<p className="text-sm text-muted-foreground">
+							Minimum score for each level. Scores are capped at 100.
+						</p>
+					</div>
+					<div className="grid gap-4 sm:grid-cols-3">
+						{THRESHOLD_FIELDS.map((field) => (
+							<div key={field.key} className="space-y-2">
+								<Label htmlFor={`threshold-${field.key}`}>{field.label}</Label>
+								<Input
+									id={`threshold-${field.key}`}
+									type="number"
+									min={1}
+									max={100}
+									value={config.thresholds[field.key]}
+									onChange={(e) => setThreshold(field.key, e.target.value)}
+								/>
+							</div>
+						))}
+					</div>
+				</div>
+
+				<div className="space-y-4">
+					<div>
+						<h3 className="font-medium">Custom rules</h3>
+						<p className="text-sm text-muted-foreground">
+							Extra checks for your risk appetite. A rule that fires is listed
+							in the supplier's risk factors.
+						</p>
+					</div>
+
+					{config.customRules.map((rule) => {
+						const option = RULE_TYPE_OPTIONS.find((o) => o.value === rule.type);
+						return (
+							<div
+								key={rule.id}
+								className="grid gap-3 rounded-lg border p-4 sm:grid-cols-[2fr_1fr_1fr_auto] sm:items-end"
+							>
+								<div className="space-y-2">
+									<Label>Rule</Label>
+									<Select
+										value={rule.type}
+										onValueChange={(type) =>
+											updateRule(rule.id, { type: type as CustomRiskRuleType })
+										}
+									>
+										<SelectTrigger>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{RULE_TYPE_OPTIONS.map((o) => (
+												<SelectItem key={o.value} value={o.value}>
+													{o.label}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor={`rule-value-${rule.id}`}>
+										{option?.valueLabel ?? "Value"}
+									</Label>
+									<Input
+										id={`rule-value-${rule.id}`}
+										type="number"
+										min={0}
+										value={rule.value}
+										onChange={(e) =>
+											updateRule(rule.id, { value: Number(e.target.value) })
+										}
+									/>
+								</div>
+								<div className="space-y-2">
+									<Label htmlFor={`rule-points-${rule.id}`}>Points</Label>
+									<Input
+										id={`rule-points-${rule.id}`}
+										type="number"
+										min={0}
+										max={100}
+										value={rule.points}
+										onChange={(e) =>
+											updateRule(rule.id, { points: Number(e.target.value) })
+										}
+									/>
+								</div>
+								<Button
+									type="button"
+									variant="ghost"
+									size="icon"
+									aria-label="Remove rule"
+									onClick={() => removeRule(rule.id)}
+								>
+									<Trash2 className="h-4 w-4" />
+								</Button>
+								<div className="space-y-2 sm:col-span-4">
+									<Label htmlFor={`rule-label-${rule.id}`}>
+										Label (optional)
+									</Label>
+									<Input
+										id={`rule-label-${rule.id}`}
+										placeholder="Shown as the risk factor"
+										value={rule.label ?? ""}
+										onChange={(e) =>
+											updateRule(rule.id, { label: e.target.value })
+										}
+									/>
+								</div>
+							</div>
+						);
+					})}
+
+					<Button type="button" variant="outline" size="sm" onClick={addRule}>
+						<Plus className="mr-2 h-4 w-4" />
+						Add rule
+					</Button>
+				</div>
+			</fieldset>
+
+			{canEdit ? (
+				<div className="flex items-center gap-4">
+					<Button type="submit" disabled={isPending}>
+						{isPending ? "Saving..." : "Save Rules"}
+					</Button>
+					<Button
+						type="button"
+						variant="outline"
+						disabled={isPending}
+						onClick={handleReset}
+					>
+						Reset to defaults
+					</Button>
+					{saved && (
+						<span className="text-sm text-green-600 dark:text-green-400">
+							Rules saved successfully
+						</span>
+					)}
+					{error && (
+						<span className="text-sm text-red-600 dark:text-red-400">
+							{error}
+						</span>
+					)}
+				</div>
+			) : (
+				<p className="text-sm text-muted-foreground">
+					Only organisation admins can change risk rules.
+				</p>
+			)}
+		</form>
+	);
+}
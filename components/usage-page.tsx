@@ -1,7 +1,8 @@
 "use client";
 
-import { format, subDays } from "date-fns";
+import { format, parseISO } from "date-fns";
 import { useMemo, useState } from "react";
+import useSWR from "swr";
 import {
 	Card,
 	CardContent,
@@ -17,77 +18,128 @@ import {
 	SelectValue,
 } from "@/components/ui/select";
 import { UsageChart } from "@/components/usage-chart";
+import { fetcher } from "@/lib/utils";
 
-const modelUsage = [
-	// Mock data - replace with real data fetching
-	{
-		model: "Gemini 2.5 Flash Lite",
-		inputTokens: 15420,
-		outputTokens: 8500,
-		totalTokens: 23920,
-	},
-	{
-		model: "Anthropic Claude 3.5 Sonnet",
-		inputTokens: 4200,
-		outputTokens: 1200,
-		totalTokens: 5400,
-	},
-	{
-		model: "OpenAI GPT-4o",
-		inputTokens: 1200,
-		outputTokens: 800,
-		totalTokens: 2000,
-	},
-];
+type UsageScope = "user" | "org";
 
-function generateMockData(days: number) {
-	const data = [];
-	const today = new Date();
+interface UsageResponse {
+	scope: UsageScope;
+	days: number;
+	canViewOrg: boolean;
+	daily: Array<Record<string, number | string> & { date: string }>;
+	models: Array<{
+		model: string;
+		inputTokens: number;
+		outputTokens: number;
+		totalTokens: number;
+	}>;
+	plan: {
+		id: string;
+		monthlyTokenBudget: number | null;
+		monthlyCostBudgetUsd: number | null;
+		monthToDate: { tokens: number; costUsd: number };
+	};
+}
 
-	for (let i = days; i >= 0; i--) {
-		const date = subDays(today, i);
-		data.push({
-			date: format(date, "MMM d"),
-			"Gemini 3 Pro": Math.floor(Math.random() * 5000) + 1000,
-			"Claude Sonnet": Math.floor(Math.random() * 3000) + 500,
-			"GPT-4o": Math.floor(Math.random() * 2000) + 200,
-		});
-	}
-	return data;
+function formatBudget(used: string, budget: string | null) {
+	return budget ? `${used} of ${budget}` : `${used} (no limit)`;
 }
 
 export function UsagePage() {
 	const [range, setRange] = useState("30");
+	const [scope, setScope] = useState<UsageScope>("user");
+
+	const { data, isLoading } = useSWR<UsageResponse>(
+		`/api/usage?days=${range}&scope=${scope}`,
+		fetcher,
+	);
 
-	const chartData = useMemo(() => {
-		return generateMockData(parseInt(range));
-	}, [range]);
+	const chartData = useMemo(
+		() =>
+			(data?.daily ?? []).map((point) => ({
+				...point,
+				date: format(parseISO(point.date), "MMM d"),
+			})),
+		[data],
+	);
+	const modelUsage = data?.models ?? [];
 
 	return (
 		<div className="w-full space-y-6 p-1">
 			<div className="flex flex-col gap-2">
 				<h1 className="text-2xl font-bold">Token Usage</h1>
 				<p className="text-muted-foreground">
-					View your token usage over time.
+					View token usage over time across chat, documents and the finance
+					agents.
 				</p>
 			</div>
 
+			{data?.plan && (
+				<Card>
+					<CardHeader>
+						<CardTitle className="capitalize">{data.plan.id} plan</CardTitle>
+						<CardDescription>
+							Organisation usage this calendar month. AI features pause when a
+							budget is reached.
+						</CardDescription>
+					</CardHeader>
+					<CardContent className="grid gap-4 text-sm sm:grid-cols-2">
+						<div>
+							<div className="text-muted-foreground">Tokens</div>
+							<div className="font-medium">
+								{formatBudget(
+									data.plan.monthToDate.tokens.toLocaleString(),
+									data.plan.monthlyTokenBudget?.toLocaleString() ?? null,
+								)}
+							</div>
+						</div>
+						<div>
+							<div className="text-muted-foreground">Estimated cost (USD)</div>
+							<div className="font-medium">
+								{formatBudget(
+									`$${data.plan.monthToDate.costUsd.toFixed(2)}`,
+									data.plan.monthlyCostBudgetUsd === null
+										? null
+										: `$${data.plan.monthlyCostBudgetUsd.toFixed(2)}`,
+								)}
+							</div>
+						</div>
+					</CardContent>
+				</Card>
+			)}
+
 			<Card>
 				<CardHeader className="flex flex-row items-center justify-between space-y-0 pb-7">
 					<div className="space-y-1">
 						<CardTitle>Usage Overview</CardTitle>
 						<CardDescription>Daily token consumption by model.</CardDescription>
 					</div>
-					<Select value={range} onValueChange={setRange}>
-						<SelectTrigger className="w-[180px]">
-							<SelectValue placeholder="Select range" />
-						</SelectTrigger>
-						<SelectContent>
-							<SelectItem value="30">Last 30 days</SelectItem>
-							<SelectItem value="60">Last 60 days</SelectItem>
-							<SelectItem value="90">Last 90 days</SelectItem>
-						</SelectContent>
-					</Select>
+					<div className="flex gap-2">
+						{data?.canViewOrg && (
+							<Select
+								value={scope}
+								onValueChange={(value) => setScope(value as UsageScope)}
+							>
+								<SelectTrigger className="w-[180px]">
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value="user">My usage</SelectItem>
+									<SelectItem value="org">Whole organisation</SelectItem>
+								</SelectContent>
+							</Select>
+						)}
+						<Select value={range} onValueChange={setRange}>
+							<SelectTrigger className="w-[180px]">
+								<SelectValue placeholder="Select range" />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value="30">Last 30 days</SelectItem>
+								<SelectItem value="60">Last 60 days</SelectItem>
+								<SelectItem value="90">Last 90 days</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
 				</CardHeader>
 				<CardContent className="pl-2">
 					<UsageChart data={chartData} />
@@ -98,8 +150,8 @@ export function UsagePage() {
 				<CardHeader>
 					<CardTitle>Usage by Model</CardTitle>
 					<CardDescription>
-						Detailed breakdown of input and output tokens per model (Mock
-						Total).
+						Detailed breakdown of input and output tokens per model for the
+						selected period.
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
@@ -110,6 +162,11 @@ export function UsagePage() {
 							<div className="text-right">Output Tokens</div>
 							<div className="text-right">Total</div>
 						</div>
+						{modelUsage.length === 0 && (
+							<div className="p-4 text-center text-sm text-muted-foreground">
+								{isLoading ? "Loading usage..." : "No usage in this period."}
+							</div>
+						)}
 						{modelUsage.map((item) => (
 							<div
 								key={item.model}
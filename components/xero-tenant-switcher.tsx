@@ -0,0 +1,84 @@
+"use client";
+
+import { useOrganization } from "@clerk/nextjs";
+import { Building2, Layers } from "lucide-react";
+import { useRouter } from "next/navigation";
+import { toast } from "sonner";
+import useSWR from "swr";
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectSeparator,
+	SelectTrigger,
+	SelectValue,
+} from "@/components/ui/select";
+import { fetcher } from "@/lib/utils";
+
+const CONSOLIDATED_SCOPE = "consolidated";
+
+interface CurrentTenantResponse {
+	tenants: Array<{ id: string; name: string }>;
+	current: string | null;
+}
+
+/**
+ * Picks which connected Xero organisation the dashboards and tools use.
+ * Only shown when the Clerk organisation has more than one Xero connection.
+ */
+export function XeroTenantSwitcher() {
+	const router = useRouter();
+	const { organization } = useOrganization();
+	// Keyed by org so switching Clerk organisation refetches the list
+	const { data, mutate } = useSWR<CurrentTenantResponse>(
+		organization
+			? ["/api/integrations/xero/tenants/current", organization.id]
+			: null,
+		([url]: [string]) => fetcher(url),
+	);
+
+	if (!data || data.tenants.length < 2 || !data.current) {
+		return null;
+	}
+
+	async function handleChange(selection: string) {
+		const res = await fetch("/api/integrations/xero/tenants/current", {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ selection }),
+		});
+
+		if (!res.ok) {
+			toast.error("Failed to switch Xero organisation");
+			return;
+		}
+
+		await mutate();
+		router.refresh();
+	}
+
+	return (
+		<Select onValueChange={handleChange} value={data.current}>
+			<SelectTrigger className="h-8 text-xs" aria-label="Xero organisation">
+				<SelectValue />
+			</SelectTrigger>
+			<SelectContent>
+				{data.tenants.map((tenant) => (
+					<SelectItem key={tenant.id} value={tenant.id}>
+						<span className="flex items-center gap-2">
+							<Building2 className="h-3.5 w-3.5 text-muted-foreground" />
+							{tenant.name}
+						</span>
+					</SelectItem>
+				))}
+				<SelectSeparator />
+				<SelectItem value={CONSOLIDATED_SCOPE}>
+					<span className="flex items-center gap-2">
+						<Layers className="h-3.5 w-3.5 text-muted-foreground" />
+						All organisations (consolidated)
+					</span>
+				</SelectItem>
+			</SelectContent>
+		</Select>
+	);
+}
@@ -0,0 +1,33 @@
+"use client";
+
+import useSWR from "swr";
+import { updateChatKnowledgeScope } from "@/app/(chat)/actions";
+import type { KnowledgeScope } from "@/components/knowledge-scope-selector";
+
+export function useChatKnowledgeScope({
+	chatId,
+	initialKnowledgeScope,
+}: {
+	chatId: string;
+	initialKnowledgeScope: KnowledgeScope;
+}) {
+	const { data: knowledgeScope, mutate: setLocalKnowledgeScope } = useSWR(
+		`${chatId}-knowledge-scope`,
+		null,
+		{
+			fallbackData: initialKnowledgeScope,
+		},
+	);
+
+	const setKnowledgeScope = (updatedKnowledgeScope: KnowledgeScope) => {
+		setLocalKnowledgeScope(updatedKnowledgeScope);
+
+		// New chats are saved with the scope sent alongside their first message
+		updateChatKnowledgeScope({
+			chatId,
+			knowledgeScope: updatedKnowledgeScope,
+		});
+	};
+
+	return { knowledgeScope, setKnowledgeScope };
+}
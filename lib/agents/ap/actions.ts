@@ -3,17 +3,36 @@
 import "server-only";
 
 import { generateText } from "ai";
+import { and, eq, inArray } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
 import { z } from "zod";
 import { DEFAULT_CHAT_MODEL } from "@/lib/ai/models";
 import { billCommentaryPrompt } from "@/lib/ai/prompts-ap";
 import { getLanguageModel } from "@/lib/ai/providers";
+import { assertEntitled, recordUsage } from "@/lib/ai/usage";
 import { auth } from "@clerk/nextjs/server";
 import { db } from "@/lib/db";
 import {
 	xeroBills,
 	xeroSuppliers,
 } from "@/lib/db/schema";
-import { aggregateVendorRisk, calculateVendorRisk } from "./risk-scoring";
+import {
+	getXeroTenantScope,
+	listActiveXeroBindings,
+} from "@/lib/integrations/xero/tenant-scope";
+import { REMOVED_INVOICE_STATUSES } from "@/lib/integrations/xero/types";
+import {
+	deleteRiskScoringConfig,
+	getRiskScoringConfig,
+	riskScoringConfigSchema,
+	saveRiskScoringConfig,
+} from "./risk-config";
+import {
+	aggregateVendorRisk,
+	calculateVendorRisk,
+	getPaymentTermDays,
+	type RiskScoringConfig,
+} from "./risk-scoring";
 
 const uuidSchema = z.string().uuid();
 
@@ -23,14 +42,27 @@ export async function generateBillCommentary(
 	amount: string,
 	dueDate: string,
 ) {
+	const { userId, orgId } = await auth();
+	if (!userId) throw new Error("Not authenticated");
+
+	await assertEntitled({ userId, orgId, feature: "bill_commentary" });
+
 	const model = getLanguageModel(DEFAULT_CHAT_MODEL);
 
-	const { text } = await generateText({
+	const { text, totalUsage } = await generateText({
 		model,
 		prompt: billCommentaryPrompt(vendorName, lineItemsSummary, amount, dueDate),
 		temperature: 0.3,
 	});
 
+	await recordUsage({
+		userId,
+		orgId,
+		model: DEFAULT_CHAT_MODEL,
+		feature: "bill_commentary",
+		usage: totalUsage,
+	});
+
 	return text;
 }
 
@@ -43,44 +75,52 @@ export async function getVendorDetails(supplierId: string) {
 		throw new Error("Invalid supplier ID format");
 	}
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
-	if (!binding) return null;
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) return null;
+
+	const tenantIds = scope.bindings.map((b) => b.externalTenantId);
 
 	const supplier = await db.query.xeroSuppliers.findFirst({
-		where: (t, { and, eq }) =>
-			and(eq(t.id, supplierId), eq(t.xeroTenantId, binding.externalTenantId)),
+		where: (t, { and, eq, inArray }) =>
+			and(eq(t.id, supplierId), inArray(t.xeroTenantId, tenantIds)),
 	});
 
 	if (!supplier) return null;
 
 	const bills = await db.query.xeroBills.findMany({
-		where: (t, { and, eq }) =>
+		where: (t, { and, eq, notInArray }) =>
 			and(
 				eq(t.supplierId, supplierId),
-				eq(t.xeroTenantId, binding.externalTenantId),
+				eq(t.xeroTenantId, supplier.xeroTenantId),
+				notInArray(t.status, REMOVED_INVOICE_STATUSES),
 			),
 		orderBy: (t, { desc }) => [desc(t.date)],
 	});
 
+	const riskConfig = await getRiskScoringConfig(orgId);
+	const supplierFirstBillDate = bills.reduce<Date | null>(
+		(first, b) => (b.date && (!first || b.date < first) ? b.date : first),
+		null,
+	);
+
 	// Calculate risk for each unpaid bill
 	const billRisks = bills
 		.filter((b) => Number(b.amountDue) > 0)
 		.map((bill) =>
-			calculateVendorRisk({
-				taxNumber: supplier.taxNumber,
-				invoiceNumber: bill.invoiceNumber,
-				billStatus: bill.status,
-				contactStatus: supplier.contactStatus,
-				supplierBankAccount: supplier.bankAccountNumber,
-				billBankAccount: bill.billBankAccountNumber,
-			}),
+			calculateVendorRisk(
+				{
+					taxNumber: supplier.taxNumber,
+					invoiceNumber: bill.invoiceNumber,
+					billStatus: bill.status,
+					contactStatus: supplier.contactStatus,
+					supplierBankAccount: supplier.bankAccountNumber,
+					billBankAccount: bill.billBankAccountNumber,
+					billTotal: Number(bill.total),
+					paymentTermDays: getPaymentTermDays(bill.date, bill.dueDate),
+					supplierFirstBillDate,
+				},
+				riskConfig,
+			),
 		);
 
 	// Aggregate risk across all unpaid bills
@@ -108,3 +148,77 @@ export async function getVendorDetails(supplierId: string) {
 		riskFactors: vendorRisk.riskFactors,
 	};
 }
+
+/**
+ * Flag a supplier as another entity in the group, so the consolidated view
+ * can eliminate intercompany payables
+ */
+export async function setSupplierRelatedEntity(
+	supplierId: string,
+	isRelatedEntity: boolean,
+) {
+	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(supplierId);
+	if (!validation.success) {
+		throw new Error("Invalid supplier ID format");
+	}
+
+	// Any of the org's Xero organisations, not just the one in view
+	const bindings = await listActiveXeroBindings(orgId);
+	const tenantIds = bindings.map((b) => b.externalTenantId);
+	if (tenantIds.length === 0) throw new Error("Xero is not connected");
+
+	await db
+		.update(xeroSuppliers)
+		.set({ isRelatedEntity })
+		.where(
+			and(
+				eq(xeroSuppliers.id, supplierId),
+				inArray(xeroSuppliers.xeroTenantId, tenantIds),
+			),
+		);
+
+	revalidatePath("/agents/ap");
+	revalidatePath("/agents/cashflow");
+}
+
+const RISK_SETTINGS_ROLES = ["org:admin", "org:owner"];
+
+/**
+ * Save the org's AP risk scoring rules. Admins only.
+ */
+export async function updateRiskScoringConfig(config: RiskScoringConfig) {
+	const { userId, orgId, orgRole } = await auth();
+	if (!userId || !orgId) throw new Error("Not authenticated");
+	if (!orgRole || !RISK_SETTINGS_ROLES.includes(orgRole)) {
+		throw new Error("Only organisation admins can change risk rules");
+	}
+
+	const validation = riskScoringConfigSchema.safeParse(config);
+	if (!validation.success) {
+		throw new Error(
+			validation.error.issues[0]?.message ?? "Invalid risk scoring rules",
+		);
+	}
+
+	await saveRiskScoringConfig(orgId, userId, validation.data);
+	revalidatePath("/agents/ap");
+	revalidatePath("/settings/risk-rules");
+}
+
+/**
+ * Go back to the built-in AP risk scoring rules. Admins only.
+ */
+export async function resetRiskScoringConfig() {
+	const { userId, orgId, orgRole } = await auth();
+	if (!userId || !orgId) throw new Error("Not authenticated");
+	if (!orgRole || !RISK_SETTINGS_ROLES.includes(orgRole)) {
+		throw new Error("Only organisation admins can change risk rules");
+	}
+
+	await deleteRiskScoringConfig(orgId);
+	revalidatePath("/agents/ap");
+	revalidatePath("/settings/risk-rules");
+}
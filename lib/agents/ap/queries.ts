@@ -1,41 +1,63 @@
 import "server-only";
 
 import { auth } from "@clerk/nextjs/server";
-import { and, count, desc, eq, gte, isNotNull, sql } from "drizzle-orm";
+import {
+	and,
+	count,
+	desc,
+	eq,
+	gte,
+	inArray,
+	isNotNull,
+	notInArray,
+	sql,
+} from "drizzle-orm";
+import {
+	convertAmount,
+	excludeRelatedSuppliers,
+	getConsolidationSummary,
+	getReportingScope,
+} from "@/lib/agents/consolidation";
 import { db } from "@/lib/db";
-import { xeroBills, xeroSuppliers } from "@/lib/db/schema";
+import { xeroBills, xeroLineItems, xeroSuppliers } from "@/lib/db/schema";
+import { REMOVED_INVOICE_STATUSES } from "@/lib/integrations/xero/types";
+import { getRiskScoringConfig } from "./risk-config";
 import { calculateVendorRisk } from "./risk-scoring";
 import type { RiskLevel } from "./risk-scoring";
 
 export async function getApDashboardData() {
-	const { orgId } = await auth();
+	const { userId, orgId } = await auth();
 	if (!orgId) return null;
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return null;
 
-	if (!binding) return null;
-
-	const tenantId = binding.externalTenantId;
+	const { tenantIds } = reporting;
+	const amountDue = convertAmount(
+		reporting,
+		xeroBills.amountDue,
+		xeroBills.currencyCode,
+	);
+	const total = convertAmount(
+		reporting,
+		xeroBills.total,
+		xeroBills.currencyCode,
+	);
+	const intercompany = excludeRelatedSuppliers(reporting, xeroBills.supplierId);
 
 	// 1. Total Payable & Count
 	const summary = await db
 		.select({
-			totalPayable: sql<number>`sum(cast(${xeroBills.amountDue} as numeric))`,
+			totalPayable: sql<number>`sum(${amountDue})`,
 			countPayable: count(xeroBills.id),
 		})
 		.from(xeroBills)
 		.where(
 			and(
-				eq(xeroBills.xeroTenantId, tenantId),
+				inArray(xeroBills.xeroTenantId, tenantIds),
 				sql`cast(${xeroBills.amountDue} as numeric) > 0`,
 				eq(xeroBills.status, "AUTHORISED"),
+				intercompany,
 			),
 		);
 
@@ -49,14 +71,16 @@ export async function getApDashboardData() {
 
 	const purchasesSummary = await db
 		.select({
-			totalPurchases: sql<number>`sum(cast(${xeroBills.total} as numeric))`,
+			totalPurchases: sql<number>`sum(${total})`,
 		})
 		.from(xeroBills)
 		.where(
 			and(
-				eq(xeroBills.xeroTenantId, tenantId),
+				inArray(xeroBills.xeroTenantId, tenantIds),
 				gte(xeroBills.date, ninetyDaysAgo),
 				eq(xeroBills.type, "ACCPAY"),
+				notInArray(xeroBills.status, REMOVED_INVOICE_STATUSES),
+				intercompany,
 			),
 		);
 
@@ -66,23 +90,24 @@ export async function getApDashboardData() {
 	// 3. Ageing Breakdown
 	const buckets = await db
 		.select({
-			current: sql<number>`sum(case when ${xeroBills.dueDate} >= now() then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
+			current: sql<number>`sum(case when ${xeroBills.dueDate} >= now() then ${amountDue} else 0 end)`,
 			currentCount: sql<number>`sum(case when ${xeroBills.dueDate} >= now() then 1 else 0 end)`,
-			overdue1to30: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '1 day' and interval '30 days' then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
+			overdue1to30: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '1 day' and interval '30 days' then ${amountDue} else 0 end)`,
 			overdue1to30Count: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '1 day' and interval '30 days' then 1 else 0 end)`,
-			overdue31to60: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '31 days' and interval '60 days' then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
+			overdue31to60: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '31 days' and interval '60 days' then ${amountDue} else 0 end)`,
 			overdue31to60Count: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '31 days' and interval '60 days' then 1 else 0 end)`,
-			overdue61to90: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '61 days' and interval '90 days' then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
+			overdue61to90: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '61 days' and interval '90 days' then ${amountDue} else 0 end)`,
 			overdue61to90Count: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '61 days' and interval '90 days' then 1 else 0 end)`,
-			overdue90plus: sql<number>`sum(case when now() - ${xeroBills.dueDate} > interval '90 days' then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
+			overdue90plus: sql<number>`sum(case when now() - ${xeroBills.dueDate} > interval '90 days' then ${amountDue} else 0 end)`,
 			overdue90plusCount: sql<number>`sum(case when now() - ${xeroBills.dueDate} > interval '90 days' then 1 else 0 end)`,
 		})
 		.from(xeroBills)
 		.where(
 			and(
-				eq(xeroBills.xeroTenantId, tenantId),
+				inArray(xeroBills.xeroTenantId, tenantIds),
 				sql`cast(${xeroBills.amountDue} as numeric) > 0`,
 				eq(xeroBills.status, "AUTHORISED"),
+				intercompany,
 			),
 		);
 
@@ -106,36 +131,38 @@ export async function getApDashboardData() {
 			dpo: Math.round(dpo),
 		},
 		ageing,
+		consolidation: getConsolidationSummary(reporting),
 	};
 }
 
 export async function getVendorList() {
-	const { orgId } = await auth();
+	const { userId, orgId } = await auth();
 	if (!orgId) return [];
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return [];
 
-	if (!binding) return [];
+	const { tenantIds } = reporting;
+	const amountDue = convertAmount(
+		reporting,
+		xeroBills.amountDue,
+		xeroBills.currencyCode,
+	);
+	const intercompany = excludeRelatedSuppliers(reporting, xeroBills.supplierId);
+	const riskConfig = await getRiskScoringConfig(orgId);
 
 	const rows = await db
 		.select({
 			supplierId: xeroBills.supplierId,
 			supplierName: xeroSuppliers.name,
-			totalDue: sql<number>`sum(cast(${xeroBills.amountDue} as numeric))`,
+			totalDue: sql<number>`sum(${amountDue})`,
 			billCount: count(xeroBills.id),
 			// Buckets per vendor for possible table display
-			current: sql<number>`sum(case when ${xeroBills.dueDate} >= now() then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
-			overdue1to30: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '1 day' and interval '30 days' then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
-			overdue31to60: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '31 days' and interval '60 days' then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
-			overdue61to90: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '61 days' and interval '90 days' then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
-			overdue90plus: sql<number>`sum(case when now() - ${xeroBills.dueDate} > interval '90 days' then cast(${xeroBills.amountDue} as numeric) else 0 end)`,
+			current: sql<number>`sum(case when ${xeroBills.dueDate} >= now() then ${amountDue} else 0 end)`,
+			overdue1to30: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '1 day' and interval '30 days' then ${amountDue} else 0 end)`,
+			overdue31to60: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '31 days' and interval '60 days' then ${amountDue} else 0 end)`,
+			overdue61to90: sql<number>`sum(case when now() - ${xeroBills.dueDate} between interval '61 days' and interval '90 days' then ${amountDue} else 0 end)`,
+			overdue90plus: sql<number>`sum(case when now() - ${xeroBills.dueDate} > interval '90 days' then ${amountDue} else 0 end)`,
 			// Risk scoring fields
 			taxNumber: xeroSuppliers.taxNumber,
 			contactStatus: xeroSuppliers.contactStatus,
@@ -144,15 +171,22 @@ export async function getVendorList() {
 			invoiceNumber: sql<string>`MAX(${xeroBills.invoiceNumber})`,
 			billStatus: sql<string>`MAX(${xeroBills.status})`,
 			billBankAccount: sql<string>`MAX(${xeroBills.billBankAccountNumber})`,
+			// Custom risk rule inputs: the worst case across outstanding bills
+			largestBillTotal: sql<number>`MAX(cast(${xeroBills.total} as numeric))`,
+			shortestPaymentTermDays: sql<number>`MIN(${xeroBills.dueDate}::date - ${xeroBills.date}::date)`,
+			supplierFirstBillDate: sql<
+				string | null
+			>`(select min(b.date) from ${xeroBills} b where b.supplier_id = ${xeroBills.supplierId})`,
 		})
 		.from(xeroBills)
 		.leftJoin(xeroSuppliers, eq(xeroBills.supplierId, xeroSuppliers.id))
 		.where(
 			and(
-				eq(xeroBills.xeroTenantId, binding.externalTenantId),
+				inArray(xeroBills.xeroTenantId, tenantIds),
 				sql`cast(${xeroBills.amountDue} as numeric) > 0`,
 				eq(xeroBills.status, "AUTHORISED"),
 				isNotNull(xeroBills.supplierId),
+				intercompany,
 			),
 		)
 		.groupBy(
@@ -162,20 +196,32 @@ export async function getVendorList() {
 			xeroSuppliers.contactStatus,
 			xeroSuppliers.bankAccountNumber,
 		)
-		.orderBy(desc(sql`sum(cast(${xeroBills.amountDue} as numeric))`));
+		.orderBy(desc(sql`sum(${amountDue})`));
 
 	return rows
 		.filter((r) => r.supplierId !== null)
 		.map((r) => {
 			// Calculate risk for this vendor
-			const risk = calculateVendorRisk({
-				taxNumber: r.taxNumber,
-				invoiceNumber: r.invoiceNumber,
-				billStatus: r.billStatus,
-				contactStatus: r.contactStatus,
-				supplierBankAccount: r.supplierBankAccount,
-				billBankAccount: r.billBankAccount,
-			});
+			const risk = calculateVendorRisk(
+				{
+					taxNumber: r.taxNumber,
+					invoiceNumber: r.invoiceNumber,
+					billStatus: r.billStatus,
+					contactStatus: r.contactStatus,
+					supplierBankAccount: r.supplierBankAccount,
+					billBankAccount: r.billBankAccount,
+					billTotal:
+						r.largestBillTotal != null ? Number(r.largestBillTotal) : null,
+					paymentTermDays:
+						r.shortestPaymentTermDays != null
+							? Number(r.shortestPaymentTermDays)
+							: null,
+					supplierFirstBillDate: r.supplierFirstBillDate
+						? new Date(r.supplierFirstBillDate)
+						: null,
+				},
+				riskConfig,
+			);
 
 			return {
 				id: r.supplierId as string, // Already filtered for non-null
@@ -194,3 +240,79 @@ export async function getVendorList() {
 			};
 		});
 }
+
+/**
+ * Break bill spend down by account code and tracking category, from locally
+ * stored line items (no Xero call)
+ * @param days - How far back to look, by bill date
+ */
+export async function getSpendBreakdown(days = 90) {
+	const { userId, orgId } = await auth();
+	if (!orgId) return null;
+
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return null;
+
+	const { tenantIds } = reporting;
+
+	const since = new Date();
+	since.setDate(since.getDate() - days);
+
+	const lines = await db
+		.select({
+			accountCode: xeroLineItems.accountCode,
+			lineAmount: convertAmount(
+				reporting,
+				xeroLineItems.lineAmount,
+				xeroBills.currencyCode,
+			),
+			tracking: xeroLineItems.tracking,
+		})
+		.from(xeroLineItems)
+		.innerJoin(xeroBills, eq(xeroLineItems.billId, xeroBills.id))
+		.where(
+			and(
+				inArray(xeroLineItems.xeroTenantId, tenantIds),
+				gte(xeroBills.date, since),
+				notInArray(xeroBills.status, REMOVED_INVOICE_STATUSES),
+				excludeRelatedSuppliers(reporting, xeroBills.supplierId),
+			),
+		);
+
+	const byAccount = new Map<string, { total: number; lineCount: number }>();
+	const byTracking = new Map<
+		string,
+		{ category: string; option: string; total: number }
+	>();
+
+	for (const line of lines) {
+		const amount = Number(line.lineAmount || 0);
+
+		const accountCode = line.accountCode || "Uncoded";
+		const account = byAccount.get(accountCode) || { total: 0, lineCount: 0 };
+		account.total += amount;
+		account.lineCount++;
+		byAccount.set(accountCode, account);
+
+		for (const t of line.tracking ?? []) {
+			const key = `${t.name}:${t.option}`;
+			const entry = byTracking.get(key) || {
+				category: t.name,
+				option: t.option,
+				total: 0,
+			};
+			entry.total += amount;
+			byTracking.set(key, entry);
+		}
+	}
+
+	return {
+		byAccount: Array.from(byAccount, ([accountCode, v]) => ({
+			accountCode,
+			...v,
+		})).sort((a, b) => b.total - a.total),
+		byTracking: Array.from(byTracking.values()).sort(
+			(a, b) => b.total - a.total,
+		),
+	};
+}
@@ -0,0 +1,76 @@
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { z } from "zod";
+import { db } from "@/lib/db";
+import { apRiskSettings } from "@/lib/db/schema";
+import {
+	CUSTOM_RISK_RULE_TYPES,
+	DEFAULT_RISK_SCORING_CONFIG,
+	type RiskScoringConfig,
+} from "./risk-scoring";
+
+const pointsSchema = z.number().int().min(0).max(100);
+
+export const riskScoringConfigSchema = z.object({
+	weights: z.object({
+		missingTaxNumber: pointsSchema,
+		missingInvoiceNumber: pointsSchema,
+		unapprovedBill: pointsSchema,
+		blockedSupplier: pointsSchema,
+	}),
+	thresholds: z
+		.object({
+			medium: z.number().int().min(1).max(100),
+			high: z.number().int().min(1).max(100),
+			critical: z.number().int().min(1).max(100),
+		})
+		.refine((t) => t.medium < t.high && t.high < t.critical, {
+			message: "Thresholds must increase from Medium to High to Critical",
+		}),
+	customRules: z
+		.array(
+			z.object({
+				id: z.string().min(1).max(64),
+				type: z.enum(CUSTOM_RISK_RULE_TYPES),
+				value: z.number().min(0),
+				points: pointsSchema,
+				label: z.string().trim().max(100).optional(),
+			}),
+		)
+		.max(20, "At most 20 custom rules"),
+});
+
+/**
+ * The org's AP risk scoring rules, or the built-in defaults
+ */
+export async function getRiskScoringConfig(
+	orgId: string,
+): Promise<RiskScoringConfig> {
+	const [settings] = await db
+		.select({ config: apRiskSettings.config })
+		.from(apRiskSettings)
+		.where(eq(apRiskSettings.clerkOrgId, orgId));
+
+	// Stored configs are validated on save; re-check in case the shape moved on
+	const parsed = riskScoringConfigSchema.safeParse(settings?.config);
+	return parsed.success ? parsed.data : DEFAULT_RISK_SCORING_CONFIG;
+}
+
+export async function saveRiskScoringConfig(
+	orgId: string,
+	userId: string,
+	config: RiskScoringConfig,
+) {
+	await db
+		.insert(apRiskSettings)
+		.values({ clerkOrgId: orgId, config, updatedByClerkUserId: userId })
+		.onConflictDoUpdate({
+			target: apRiskSettings.clerkOrgId,
+			set: { config, updatedByClerkUserId: userId, updatedAt: new Date() },
+		});
+}
+
+export async function deleteRiskScoringConfig(orgId: string) {
+	await db.delete(apRiskSettings).where(eq(apRiskSettings.clerkOrgId, orgId));
+}
@@ -1,20 +1,22 @@
-import "server-only";
-
 /**
  * AP Risk Scoring System
  *
- * Calculates vendor risk based on multiple factors:
+ * Calculates vendor risk based on multiple factors. Default weights:
  * - Missing ABN/Tax Number: +25 points
  * - Missing Tax Invoice Number: +20 points
  * - Unapproved Bill (not AUTHORISED): +30 points
  * - Blocked Supplier (ARCHIVED/GDPRREQUEST): +60 points
  *
- * Risk Levels:
+ * Default Risk Levels:
  * - Low: 0-19
  * - Medium: 20-44
  * - High: 45-69
  * - Critical: ≥70
  *
+ * Each org can change the weights and thresholds and add custom rules
+ * (large bills, new suppliers, short payment terms); see RiskScoringConfig.
+ * A weight of 0 turns a factor off.
+ *
  * Bank Change Detection:
  * Separate flag if bill bank account differs from supplier's stored bank account.
  * NOTE: Due to Xero API limitations, bank account names are not available,
@@ -30,6 +32,110 @@ export interface VendorRiskResult {
 	riskFactors: string[]; // Human-readable list of risk factors
 }
 
+export const CUSTOM_RISK_RULE_TYPES = [
+	"bill_total_over", // value: amount
+	"new_supplier", // value: days since the supplier's first bill
+	"short_payment_terms", // value: days from bill date to due date
+] as const;
+
+export type CustomRiskRuleType = (typeof CUSTOM_RISK_RULE_TYPES)[number];
+
+export interface CustomRiskRule {
+	id: string;
+	type: CustomRiskRuleType;
+	value: number;
+	points: number;
+	label?: string; // Shown in riskFactors instead of the generated description
+}
+
+export interface RiskScoringConfig {
+	weights: {
+		missingTaxNumber: number;
+		missingInvoiceNumber: number;
+		unapprovedBill: number;
+		blockedSupplier: number;
+	};
+	// Minimum score for each level
+	thresholds: {
+		medium: number;
+		high: number;
+		critical: number;
+	};
+	customRules: CustomRiskRule[];
+}
+
+export const DEFAULT_RISK_SCORING_CONFIG: RiskScoringConfig = {
+	weights: {
+		missingTaxNumber: 25,
+		missingInvoiceNumber: 20,
+		unapprovedBill: 30,
+		blockedSupplier: 60,
+	},
+	thresholds: {
+		medium: 20,
+		high: 45,
+		critical: 70,
+	},
+	customRules: [],
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+/**
+ * Human-readable description of a custom rule, used as its risk factor
+ */
+export function describeCustomRule(rule: CustomRiskRule): string {
+	if (rule.label) return rule.label;
+
+	switch (rule.type) {
+		case "bill_total_over":
+			return `Bill over $${rule.value.toLocaleString("en-AU")}`;
+		case "new_supplier":
+			return `New supplier (first bill within ${rule.value} days)`;
+		case "short_payment_terms":
+			return `Payment terms under ${rule.value} days`;
+		default:
+			return "Custom rule";
+	}
+}
+
+/**
+ * Days between a bill's date and its due date, or null if either is missing
+ */
+export function getPaymentTermDays(
+	billDate: Date | null,
+	dueDate: Date | null,
+): number | null {
+	if (!billDate || !dueDate) return null;
+	return Math.round((dueDate.getTime() - billDate.getTime()) / DAY_MS);
+}
+
+function customRuleMatches(
+	rule: CustomRiskRule,
+	params: {
+		billTotal?: number | null;
+		paymentTermDays?: number | null;
+		supplierFirstBillDate?: Date | null;
+	},
+): boolean {
+	switch (rule.type) {
+		case "bill_total_over":
+			return params.billTotal != null && params.billTotal > rule.value;
+		case "new_supplier":
+			return (
+				params.supplierFirstBillDate != null &&
+				Date.now() - params.supplierFirstBillDate.getTime() <
+					rule.value * DAY_MS
+			);
+		case "short_payment_terms":
+			return (
+				params.paymentTermDays != null && params.paymentTermDays < rule.value
+			);
+		default:
+			return false;
+	}
+}
+
 /**
  * Detect if bank account has changed between supplier record and bill
  */
@@ -57,24 +163,35 @@ export function detectBankAccountChange(
 /**
  * Calculate risk level from score
  */
-function getRiskLevel(score: number): RiskLevel {
-	if (score >= 70) return "Critical";
-	if (score >= 45) return "High";
-	if (score >= 20) return "Medium";
+function getRiskLevel(
+	score: number,
+	thresholds: RiskScoringConfig["thresholds"],
+): RiskLevel {
+	if (score >= thresholds.critical) return "Critical";
+	if (score >= thresholds.high) return "High";
+	if (score >= thresholds.medium) return "Medium";
 	return "Low";
 }
 
 /**
  * Calculate vendor risk score and level for a single bill
+ * @param config - The org's scoring rules; defaults to the built-in weights
  */
-export function calculateVendorRisk(params: {
-	taxNumber: string | null;
-	invoiceNumber: string | null;
-	billStatus: string | null;
-	contactStatus: string | null;
-	supplierBankAccount: string | null;
-	billBankAccount: string | null;
-}): VendorRiskResult {
+export function calculateVendorRisk(
+	params: {
+		taxNumber: string | null;
+		invoiceNumber: string | null;
+		billStatus: string | null;
+		contactStatus: string | null;
+		supplierBankAccount: string | null;
+		billBankAccount: string | null;
+		// Only needed by custom rules
+		billTotal?: number | null;
+		paymentTermDays?: number | null;
+		supplierFirstBillDate?: Date | null;
+	},
+	config: RiskScoringConfig = DEFAULT_RISK_SCORING_CONFIG,
+): VendorRiskResult {
 	const {
 		taxNumber,
 		invoiceNumber,
@@ -84,34 +201,51 @@ export function calculateVendorRisk(params: {
 		billBankAccount,
 	} = params;
 
+	const { weights } = config;
 	let score = 0;
 	const riskFactors: string[] = [];
 
-	// Missing ABN/Tax Number: +25 points
-	if (!taxNumber) {
-		score += 25;
+	// Missing ABN/Tax Number
+	if (!taxNumber && weights.missingTaxNumber > 0) {
+		score += weights.missingTaxNumber;
 		riskFactors.push("Missing ABN/Tax Number");
 	}
 
-	// Missing Tax Invoice Number: +20 points
-	if (!invoiceNumber) {
-		score += 20;
+	// Missing Tax Invoice Number
+	if (!invoiceNumber && weights.missingInvoiceNumber > 0) {
+		score += weights.missingInvoiceNumber;
 		riskFactors.push("Missing Tax Invoice Number");
 	}
 
-	// Unapproved Bill: +30 points
+	// Unapproved Bill
 	// Only AUTHORISED and PAID are considered approved
-	if (billStatus && billStatus !== "AUTHORISED" && billStatus !== "PAID") {
-		score += 30;
+	if (
+		billStatus &&
+		billStatus !== "AUTHORISED" &&
+		billStatus !== "PAID" &&
+		weights.unapprovedBill > 0
+	) {
+		score += weights.unapprovedBill;
 		riskFactors.push(`Unapproved Bill (${billStatus})`);
 	}
 
-	// Blocked Supplier: +60 points
-	if (contactStatus === "ARCHIVED" || contactStatus === "GDPRREQUEST") {
-		score += 60;
+	// Blocked Supplier
+	if (
+		(contactStatus === "ARCHIVED" || contactStatus === "GDPRREQUEST") &&
+		weights.blockedSupplier > 0
+	) {
+		score += weights.blockedSupplier;
 		riskFactors.push(`Blocked Supplier (${contactStatus})`);
 	}
 
+	// Org-defined rules, recorded by name so users can see which one fired
+	for (const rule of config.customRules) {
+		if (rule.points > 0 && customRuleMatches(rule, params)) {
+			score += rule.points;
+			riskFactors.push(describeCustomRule(rule));
+		}
+	}
+
 	// Bank account change detection (separate flag, not part of score)
 	const hasBankChange = detectBankAccountChange(
 		supplierBankAccount,
@@ -124,7 +258,7 @@ export function calculateVendorRisk(params: {
 
 	// Cap score at 100
 	const finalScore = Math.min(score, 100);
-	const riskLevel = getRiskLevel(finalScore);
+	const riskLevel = getRiskLevel(finalScore, config.thresholds);
 
 	return {
 		riskScore: finalScore,
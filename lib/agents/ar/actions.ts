@@ -2,151 +2,273 @@
 
 import "server-only";
 
-import { generateText } from "ai";
-import { and, eq } from "drizzle-orm";
+import { auth } from "@clerk/nextjs/server";
+import { and, eq, inArray } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
 import { z } from "zod";
-import { DEFAULT_CHAT_MODEL } from "@/lib/ai/models";
-import { collectionEmailPrompt } from "@/lib/ai/prompts";
-import { getLanguageModel } from "@/lib/ai/providers";
-import { auth, clerkClient, currentUser } from "@clerk/nextjs/server";
+import { getReportingScope } from "@/lib/agents/consolidation";
 import { db } from "@/lib/db";
+import { collectionEmails, xeroContacts } from "@/lib/db/schema";
 import {
-	integrationTenantBindings,
-	userSettings,
-	xeroContacts,
-	xeroInvoices,
-} from "@/lib/db/schema";
-import { ExternalAPIError } from "@/lib/integrations/errors";
-import { withTokenRefreshRetry } from "@/lib/integrations/xero/retry-helper";
+	getXeroTenantScope,
+	listActiveXeroBindings,
+} from "@/lib/integrations/xero/tenant-scope";
+import { REMOVED_INVOICE_STATUSES } from "@/lib/integrations/xero/types";
+import {
+	draftCollectionEmail,
+	getCollectionEmail,
+	getCollectionEmailsForContact,
+	sendCollectionEmail,
+} from "./collections";
+import {
+	cancelPaymentPromise,
+	createInvoiceDispute,
+	createPaymentPromise,
+	getCustomerCommitments,
+	listPromisesAndDisputes,
+	resolveInvoiceDispute,
+} from "./promises-and-disputes";
+import { scoreCustomers } from "./queries";
+import { getCustomerRiskLevel } from "./risk-scoring";
 
 const uuidSchema = z.string().uuid();
 
-// Helper to fetch history from Xero
-async function fetchXeroHistory(
-	orgId: string,
-	relatedId: string,
-): Promise<string[]> {
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: and(
-			eq(integrationTenantBindings.clerkOrgId, orgId),
-			eq(integrationTenantBindings.provider, "xero"),
-			eq(integrationTenantBindings.status, "active"),
-		),
-	});
+/**
+ * Drafts and stores a collection email for the customer, in the tone their
+ * oldest overdue invoice calls for
+ */
+export async function generateCollectionEmail(contactId: string) {
+	const { userId, orgId } = await auth();
+	if (!userId || !orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(contactId);
+	if (!validation.success) {
+		throw new Error("Invalid contact ID format");
+	}
+
+	const email = await draftCollectionEmail({ orgId, userId, contactId });
+
+	revalidatePath("/agents/ar");
+	return email;
+}
+
+export async function getCollectionEmails(contactId: string) {
+	const { orgId } = await auth();
+	if (!orgId) return [];
+
+	const validation = uuidSchema.safeParse(contactId);
+	if (!validation.success) {
+		throw new Error("Invalid contact ID format");
+	}
+
+	return await getCollectionEmailsForContact(orgId, contactId);
+}
+
+async function getEditableCollectionEmail(emailId: string) {
+	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
 
-	if (!binding) return [];
-
-	try {
-		return await withTokenRefreshRetry(binding.id, orgId, async (client) => {
-			const response = await client.fetch(
-				`/HistoryAndNotes?RelatedID=${relatedId}`,
-			);
-
-			if (!response.ok) return [];
-
-			const data = await response.json();
-			// Xero returns { HistoryAndNotes: [ ... ] }
-			// Each item has { DateUTC, Details, User, Notes, Type }
-			return (data.HistoryAndNotes || [])
-				.sort(
-					(a: any, b: any) =>
-						new Date(b.DateUTC).getTime() - new Date(a.DateUTC).getTime(),
-				)
-				.slice(0, 5) // Last 5 entries
-				.map((item: any) => {
-					const date = new Date(item.DateUTC).toLocaleDateString("en-AU");
-					return `[${date}] ${item.Details || item.Notes || "No details"}`;
-				});
-		});
-	} catch (error) {
-		// 404 means no history found or invalid ID, which is fine
-		if (
-			error instanceof ExternalAPIError &&
-			error.statusCode === 404
-		) {
-			return [];
-		}
-		console.warn(`Failed to fetch history for ${relatedId}`, error);
-		return [];
+	const validation = uuidSchema.safeParse(emailId);
+	if (!validation.success) {
+		throw new Error("Invalid email ID format");
+	}
+
+	const email = await getCollectionEmail(orgId, emailId);
+	if (!email) throw new Error("Email not found");
+	if (email.status !== "DRAFT" && email.status !== "SCHEDULED") {
+		throw new Error("Only drafts and scheduled emails can be changed");
 	}
+
+	return email;
 }
 
-export async function generateCollectionEmail(
-	contactName: string,
+const collectionEmailUpdateSchema = z.object({
+	toEmail: z.string().trim().email(),
+	subject: z.string().trim().min(1).max(200),
+	body: z.string().trim().min(1).max(10000),
+});
+
+export async function updateCollectionEmail(
+	emailId: string,
+	values: z.infer<typeof collectionEmailUpdateSchema>,
+) {
+	const email = await getEditableCollectionEmail(emailId);
+
+	const parsed = collectionEmailUpdateSchema.safeParse(values);
+	if (!parsed.success) {
+		throw new Error(parsed.error.issues[0]?.message ?? "Invalid email");
+	}
+
+	const [updated] = await db
+		.update(collectionEmails)
+		.set({ ...parsed.data, updatedAt: new Date() })
+		.where(eq(collectionEmails.id, email.id))
+		.returning();
+
+	return updated;
+}
+
+export async function sendCollectionEmailNow(emailId: string) {
+	const email = await getEditableCollectionEmail(emailId);
+	const result = await sendCollectionEmail(email);
+
+	revalidatePath("/agents/ar");
+	return result;
+}
+
+export async function scheduleCollectionEmail(
+	emailId: string,
+	scheduledFor: string,
+) {
+	const email = await getEditableCollectionEmail(emailId);
+
+	const date = new Date(scheduledFor);
+	if (Number.isNaN(date.getTime()) || date.getTime() <= Date.now()) {
+		throw new Error("Schedule a time in the future");
+	}
+
+	const [updated] = await db
+		.update(collectionEmails)
+		.set({ status: "SCHEDULED", scheduledFor: date, updatedAt: new Date() })
+		.where(eq(collectionEmails.id, email.id))
+		.returning();
+
+	return updated;
+}
+
+export async function cancelCollectionEmail(emailId: string) {
+	const email = await getEditableCollectionEmail(emailId);
+
+	const [updated] = await db
+		.update(collectionEmails)
+		.set({ status: "CANCELLED", updatedAt: new Date() })
+		.where(eq(collectionEmails.id, email.id))
+		.returning();
+
+	return updated;
+}
+
+export async function getPromisesAndDisputes(contactId: string) {
+	const { orgId } = await auth();
+	if (!orgId) return { promises: [], disputes: [] };
+
+	const validation = uuidSchema.safeParse(contactId);
+	if (!validation.success) {
+		throw new Error("Invalid contact ID format");
+	}
+
+	return await listPromisesAndDisputes(orgId, contactId);
+}
+
+const paymentPromiseSchema = z.object({
+	amount: z.number().positive(),
+	promisedDate: z.string().date(),
+	note: z.string().trim().max(1000).optional(),
+});
+
+/**
+ * Record that the customer has promised to pay an amount by a date
+ */
+export async function recordPaymentPromise(
 	contactId: string,
-	overdueInvoices: Array<{
-		id: string;
-		date: string;
-		dueDate: string;
-		amount: string;
-		number: string;
-	}>,
+	values: z.infer<typeof paymentPromiseSchema>,
 ) {
 	const { userId, orgId } = await auth();
-	const user = await currentUser();
-
-	if (!userId || !user || !orgId) throw new Error("Not authenticated");
-
-	// Fetch company name from user settings
-	const [settings] = await db
-		.select()
-		.from(userSettings)
-		.where(eq(userSettings.userId, userId));
-
-	let companyName = settings?.companyName || "Your Company";
-	const userLocation = settings?.timezone?.split("/")[1]?.replace(/_/g, " ");
-
-	// Override with Clerk Organization name if available
-	if (orgId) {
-		try {
-			const client = await clerkClient();
-			const org = await client.organizations.getOrganization({
-				organizationId: orgId,
-			});
-			companyName = org.name;
-		} catch (error) {
-			console.warn("Failed to fetch organization name:", error);
-		}
+	if (!userId || !orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(contactId);
+	if (!validation.success) {
+		throw new Error("Invalid contact ID format");
 	}
 
-	// Fetch history for Contact and Invoices
-	const historyPromises = [
-		fetchXeroHistory(orgId, contactId).then((notes) =>
-			notes.length ? `Contact History:\n${notes.join("\n")}` : "",
-		),
-		...overdueInvoices.map((inv) =>
-			fetchXeroHistory(orgId, inv.id).then((notes) =>
-				notes.length
-					? `Invoice ${inv.number} History:\n${notes.join("\n")}`
-					: "",
-			),
-		),
-	];
-
-	const historyResults = await Promise.all(historyPromises);
-	const historyContext = historyResults.filter(Boolean).join("\n\n");
-
-	const model = getLanguageModel(DEFAULT_CHAT_MODEL);
-
-	const { text } = await generateText({
-		model,
-		prompt: collectionEmailPrompt({
-			contactName,
-			companyName,
-			userFirstName: user.firstName || "Accounts",
-			userLastName: user.lastName || "Team",
-			userLocation,
-			overdueInvoices,
-			historyContext,
-		}),
-		temperature: 0.7,
+	const parsed = paymentPromiseSchema.safeParse(values);
+	if (!parsed.success) {
+		throw new Error(parsed.error.issues[0]?.message ?? "Invalid promise");
+	}
+
+	const promise = await createPaymentPromise({
+		orgId,
+		userId,
+		contactId,
+		amount: parsed.data.amount,
+		// End of the promised day, so paying on the day keeps the promise
+		promisedDate: new Date(`${parsed.data.promisedDate}T23:59:59`),
+		note: parsed.data.note,
 	});
 
-	return text;
+	revalidatePath("/agents/ar");
+	return promise;
 }
 
-export async function getCustomerDetails(contactId: string) {
+export async function cancelPromise(promiseId: string) {
+	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(promiseId);
+	if (!validation.success) {
+		throw new Error("Invalid promise ID format");
+	}
+
+	const promise = await cancelPaymentPromise(orgId, promiseId);
+
+	revalidatePath("/agents/ar");
+	return promise;
+}
+
+const invoiceDisputeSchema = z.object({
+	amount: z.number().positive().optional(),
+	reason: z.string().trim().min(1).max(1000),
+});
+
+/**
+ * Record a dispute on an invoice. Leave the amount out to dispute
+ * everything still owing on it.
+ */
+export async function recordInvoiceDispute(
+	invoiceId: string,
+	values: z.infer<typeof invoiceDisputeSchema>,
+) {
+	const { userId, orgId } = await auth();
+	if (!userId || !orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(invoiceId);
+	if (!validation.success) {
+		throw new Error("Invalid invoice ID format");
+	}
+
+	const parsed = invoiceDisputeSchema.safeParse(values);
+	if (!parsed.success) {
+		throw new Error(parsed.error.issues[0]?.message ?? "Invalid dispute");
+	}
+
+	const dispute = await createInvoiceDispute({
+		orgId,
+		userId,
+		invoiceId,
+		...parsed.data,
+	});
+
+	revalidatePath("/agents/ar");
+	return dispute;
+}
+
+export async function resolveDispute(disputeId: string) {
 	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(disputeId);
+	if (!validation.success) {
+		throw new Error("Invalid dispute ID format");
+	}
+
+	const dispute = await resolveInvoiceDispute(orgId, disputeId);
+
+	revalidatePath("/agents/ar");
+	return dispute;
+}
+
+export async function getCustomerDetails(contactId: string) {
+	const { userId, orgId } = await auth();
 	if (!orgId) return null;
 
 	const validation = uuidSchema.safeParse(contactId);
@@ -154,53 +276,35 @@ export async function getCustomerDetails(contactId: string) {
 		throw new Error("Invalid contact ID format");
 	}
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
-	if (!binding) return null;
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) return null;
+
+	const tenantIds = scope.bindings.map((b) => b.externalTenantId);
 
 	const contact = await db.query.xeroContacts.findFirst({
-		where: (t, { and, eq }) =>
-			and(eq(t.id, contactId), eq(t.xeroTenantId, binding.externalTenantId)),
+		where: (t, { and, eq, inArray }) =>
+			and(eq(t.id, contactId), inArray(t.xeroTenantId, tenantIds)),
 	});
 
 	if (!contact) return null;
 
 	const invoices = await db.query.xeroInvoices.findMany({
-		where: (t, { and, eq }) =>
+		where: (t, { and, eq, notInArray }) =>
 			and(
 				eq(t.contactId, contactId),
-				eq(t.xeroTenantId, binding.externalTenantId),
+				eq(t.xeroTenantId, contact.xeroTenantId),
+				notInArray(t.status, REMOVED_INVOICE_STATUSES),
 			),
 		orderBy: (t, { desc }) => [desc(t.date)],
 	});
 
-	// Calculate Risk Rating
-	const now = new Date();
-	let risk = "Low";
-
-	for (const inv of invoices) {
-		const due = Number(inv.amountDue);
-		if (due > 0 && inv.dueDate) {
-			const diffTime = now.getTime() - inv.dueDate.getTime();
-			const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-
-			// If now > dueDate (diffTime > 0)
-			if (diffTime > 0) {
-				if (diffDays > 60) {
-					risk = "High";
-					break;
-				} else if (diffDays > 30 && risk !== "High") {
-					risk = "Medium";
-				}
-			}
-		}
-	}
+	// Scored the same way as the customer list, across the reporting scope
+	const reporting = await getReportingScope(orgId, userId);
+	const scores = reporting
+		? await scoreCustomers(reporting, await getCustomerCommitments([contactId]))
+		: null;
+	const score = scores?.get(contactId);
+	const riskScore = score?.riskScore ?? 0;
 
 	return {
 		contact,
@@ -210,6 +314,43 @@ export async function getCustomerDetails(contactId: string) {
 			amountPaid: Number(i.amountPaid),
 			total: Number(i.total),
 		})),
-		risk,
+		risk: getCustomerRiskLevel(riskScore),
+		riskScore,
+		riskFactors: score?.riskFactors ?? [],
 	};
-}
\ No newline at end of file
+}
+
+/**
+ * Flag a customer as another entity in the group, so the consolidated view
+ * can eliminate intercompany receivables
+ */
+export async function setCustomerRelatedEntity(
+	contactId: string,
+	isRelatedEntity: boolean,
+) {
+	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(contactId);
+	if (!validation.success) {
+		throw new Error("Invalid contact ID format");
+	}
+
+	// Any of the org's Xero organisations, not just the one in view
+	const bindings = await listActiveXeroBindings(orgId);
+	const tenantIds = bindings.map((b) => b.externalTenantId);
+	if (tenantIds.length === 0) throw new Error("Xero is not connected");
+
+	await db
+		.update(xeroContacts)
+		.set({ isRelatedEntity })
+		.where(
+			and(
+				eq(xeroContacts.id, contactId),
+				inArray(xeroContacts.xeroTenantId, tenantIds),
+			),
+		);
+
+	revalidatePath("/agents/ar");
+	revalidatePath("/agents/cashflow");
+}
@@ -0,0 +1,718 @@
+import "server-only";
+
+import { clerkClient } from "@clerk/nextjs/server";
+import { generateText } from "ai";
+import { and, asc, desc, eq, inArray, lte, ne, sql } from "drizzle-orm";
+import { DEFAULT_CHAT_MODEL } from "@/lib/ai/models";
+import { collectionEmailPrompt } from "@/lib/ai/prompts";
+import { getLanguageModel } from "@/lib/ai/providers";
+import { assertEntitled, recordUsage } from "@/lib/ai/usage";
+import { db } from "@/lib/db";
+import {
+	type CollectionEmail,
+	collectionEmails,
+	type IntegrationTenantBinding,
+	userSettings,
+	xeroContacts,
+	xeroInvoices,
+} from "@/lib/db/schema";
+import {
+	ExternalAPIError,
+	getErrorMessage,
+	logError,
+} from "@/lib/integrations/errors";
+import { withTokenRefreshRetry } from "@/lib/integrations/xero/retry-helper";
+import { listActiveXeroBindings } from "@/lib/integrations/xero/tenant-scope";
+import { sendMail } from "@/lib/mail/transport";
+import {
+	type CustomerCommitments,
+	getCommitmentsForContact,
+} from "./promises-and-disputes";
+import { type FollowUpTone, getFollowUpTone } from "./queries";
+
+/**
+ * AR collections: drafts dunning emails per customer, sends them through the
+ * mail transport and chases with harsher follow-ups until the account is paid.
+ *
+ * Sending an email schedules the next stage (Polite -> Firm -> Final). Only
+ * the date is stored: the follow-up is written when it falls due, from the
+ * balance, promises and disputes as they stand then. An open promise to pay
+ * postpones it and a fully disputed balance cancels it. Each send is logged as
+ * a note on the Xero contact.
+ */
+
+export const COLLECTION_EMAIL_STATUSES = [
+	"DRAFT",
+	"SCHEDULED",
+	"SENDING", // Claimed by one sender, so no other run sends it again
+	"SENT",
+	"FAILED",
+	"CANCELLED",
+] as const;
+
+export type CollectionEmailStatus = (typeof COLLECTION_EMAIL_STATUSES)[number];
+
+// Days between a sent email and the next stage of the sequence
+export const FOLLOW_UP_INTERVAL_DAYS = 7;
+
+const NEXT_TONE: Record<FollowUpTone, FollowUpTone | null> = {
+	Polite: "Firm",
+	Firm: "Final",
+	Final: null,
+};
+
+const SUBJECT_LINE_REGEX = /^\**subject:?\**:?\s*(.+)$/i;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+async function getBindingForTenant(
+	orgId: string,
+	xeroTenantId: string,
+): Promise<IntegrationTenantBinding | null> {
+	const bindings = await listActiveXeroBindings(orgId);
+	return bindings.find((b) => b.externalTenantId === xeroTenantId) ?? null;
+}
+
+async function getOverdueInvoices(contactId: string) {
+	const rows = await db
+		.select({
+			id: xeroInvoices.id,
+			xeroInvoiceId: xeroInvoices.xeroInvoiceId,
+			invoiceNumber: xeroInvoices.invoiceNumber,
+			date: xeroInvoices.date,
+			dueDate: xeroInvoices.dueDate,
+			amountDue: xeroInvoices.amountDue,
+		})
+		.from(xeroInvoices)
+		.where(
+			and(
+				eq(xeroInvoices.contactId, contactId),
+				eq(xeroInvoices.type, "ACCREC"),
+				eq(xeroInvoices.status, "AUTHORISED"),
+				sql`cast(${xeroInvoices.amountDue} as numeric) > 0`,
+				lte(xeroInvoices.dueDate, new Date()),
+			),
+		)
+		.orderBy(asc(xeroInvoices.dueDate));
+
+	return rows.map((r) => ({ ...r, amountDue: Number(r.amountDue) }));
+}
+
+// How the customer refers to an invoice: its number, or its date for rows
+// synced before invoice numbers were
+function invoiceLabel(invoice: {
+	invoiceNumber: string | null;
+	date: Date | null;
+}) {
+	if (invoice.invoiceNumber) return invoice.invoiceNumber;
+	return invoice.date
+		? `dated ${invoice.date.toLocaleDateString("en-AU")}`
+		: "without a number";
+}
+
+// Most recent notes on the contact and its invoices, for the prompt
+async function fetchXeroHistory(
+	binding: IntegrationTenantBinding,
+	relatedId: string,
+): Promise<string[]> {
+	try {
+		return await withTokenRefreshRetry(
+			binding.id,
+			binding.clerkOrgId,
+			async (client) => {
+				const response = await client.fetch(
+					`/HistoryAndNotes?RelatedID=${relatedId}`,
+				);
+
+				if (!response.ok) return [];
+
+				const data = await response.json();
+				// Xero returns { HistoryAndNotes: [ ... ] }
+				// Each item has { DateUTC, Details, User, Notes, Type }
+				return (data.HistoryAndNotes || [])
+					.sort(
+						(a: any, b: any) =>
+							new Date(b.DateUTC).getTime() - new Date(a.DateUTC).getTime(),
+					)
+					.slice(0, 5) // Last 5 entries
+					.map((item: any) => {
+						const date = new Date(item.DateUTC).toLocaleDateString("en-AU");
+						return `[${date}] ${item.Details || item.Notes || "No details"}`;
+					});
+			},
+		);
+	} catch (error) {
+		// 404 means no history found or invalid ID, which is fine
+		if (error instanceof ExternalAPIError && error.apiStatusCode === 404) {
+			return [];
+		}
+		console.warn(`Failed to fetch history for ${relatedId}`, error);
+		return [];
+	}
+}
+
+/**
+ * Adds a note to the contact's History in Xero. Failures are logged, not
+ * thrown: the email has already gone and the local log is the record.
+ */
+async function logToXeroHistory(
+	binding: IntegrationTenantBinding,
+	xeroContactId: string,
+	details: string,
+) {
+	try {
+		await withTokenRefreshRetry(
+			binding.id,
+			binding.clerkOrgId,
+			async (client) => {
+				const response = await client.fetch(
+					`/Contacts/${xeroContactId}/History`,
+					{
+						method: "PUT",
+						headers: { "Content-Type": "application/json" },
+						body: JSON.stringify({ HistoryRecords: [{ Details: details }] }),
+					},
+				);
+
+				if (!response.ok) {
+					throw new ExternalAPIError(
+						`Failed to add contact history note: ${await response.text()}`,
+						"xero",
+						response.status,
+					);
+				}
+			},
+		);
+	} catch (error) {
+		logError(error, { context: "collections_xero_history", xeroContactId });
+	}
+}
+
+// Open disputes and promises, worded for the prompt
+function describeCommitments(
+	commitments: CustomerCommitments,
+	overdueInvoices: Awaited<ReturnType<typeof getOverdueInvoices>>,
+) {
+	const lines: string[] = [];
+
+	for (const inv of overdueInvoices) {
+		const disputed = commitments.disputedByInvoice.get(inv.id);
+		if (disputed) {
+			lines.push(
+				`- Invoice ${invoiceLabel(inv)}: $${disputed.toFixed(2)} disputed by the customer`,
+			);
+		}
+	}
+
+	const { openPromise, brokenPromiseCount } = commitments;
+	if (openPromise) {
+		lines.push(
+			`- Customer promised to pay $${Number(openPromise.amount).toFixed(2)} by ${openPromise.promisedDate.toLocaleDateString("en-AU")}`,
+		);
+	}
+	if (brokenPromiseCount > 0) {
+		lines.push(
+			`- Customer has broken ${brokenPromiseCount} previous promise${brokenPromiseCount === 1 ? "" : "s"} to pay`,
+		);
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Splits the model output into subject and body. The prompt asks for a
+ * leading `Subject:` line; fall back to a generic subject without one.
+ */
+function parseEmail(text: string, contactName: string) {
+	const lines = text.trim().split("\n");
+	const match = lines[0]?.trim().match(SUBJECT_LINE_REGEX);
+
+	if (!match) {
+		return { subject: `Overdue account - ${contactName}`, body: text.trim() };
+	}
+
+	return {
+		subject: match[1].replace(/\*+$/, "").trim(),
+		body: lines.slice(1).join("\n").trim(),
+	};
+}
+
+async function getCompanyName(orgId: string, userId: string) {
+	try {
+		const client = await clerkClient();
+		const org = await client.organizations.getOrganization({
+			organizationId: orgId,
+		});
+		return org.name;
+	} catch (error) {
+		console.warn("Failed to fetch organization name:", error);
+	}
+
+	const [settings] = await db
+		.select({ companyName: userSettings.companyName })
+		.from(userSettings)
+		.where(eq(userSettings.userId, userId));
+	return settings?.companyName || "Your Company";
+}
+
+/**
+ * Writes the subject and body of a collection email from the customer's
+ * current overdue invoices, Xero history, promises and disputes
+ */
+async function composeCollectionEmail({
+	orgId,
+	userId,
+	contact,
+	binding,
+	overdueInvoices,
+	commitments,
+	tone,
+}: {
+	orgId: string;
+	userId: string;
+	contact: typeof xeroContacts.$inferSelect;
+	binding: IntegrationTenantBinding;
+	overdueInvoices: Awaited<ReturnType<typeof getOverdueInvoices>>;
+	commitments: CustomerCommitments;
+	tone: FollowUpTone;
+}) {
+	await assertEntitled({ userId, orgId, feature: "collection_email" });
+
+	const client = await clerkClient();
+	const [user, companyName, [settings]] = await Promise.all([
+		client.users.getUser(userId),
+		getCompanyName(orgId, userId),
+		db
+			.select({ timezone: userSettings.timezone })
+			.from(userSettings)
+			.where(eq(userSettings.userId, userId)),
+	]);
+	const userLocation = settings?.timezone?.split("/")[1]?.replace(/_/g, " ");
+
+	// Fetch history for Contact and Invoices
+	const historyResults = await Promise.all([
+		fetchXeroHistory(binding, contact.xeroContactId).then((notes) =>
+			notes.length ? `Contact History:\n${notes.join("\n")}` : "",
+		),
+		...overdueInvoices.map((inv) =>
+			fetchXeroHistory(binding, inv.xeroInvoiceId).then((notes) =>
+				notes.length
+					? `Invoice ${invoiceLabel(inv)} History:\n${notes.join("\n")}`
+					: "",
+			),
+		),
+	]);
+	const historyContext = historyResults.filter(Boolean).join("\n\n");
+	const commitmentsContext = describeCommitments(commitments, overdueInvoices);
+
+	const { text, totalUsage } = await generateText({
+		model: getLanguageModel(DEFAULT_CHAT_MODEL),
+		prompt: collectionEmailPrompt({
+			contactName: contact.name,
+			companyName,
+			userFirstName: user.firstName || "Accounts",
+			userLastName: user.lastName || "Team",
+			userLocation,
+			overdueInvoices: overdueInvoices.map((i) => ({
+				date: i.date ? i.date.toLocaleDateString("en-AU") : "",
+				dueDate: i.dueDate ? i.dueDate.toLocaleDateString("en-AU") : "",
+				amount: i.amountDue.toFixed(2),
+				number: invoiceLabel(i),
+			})),
+			historyContext,
+			commitmentsContext,
+			tone,
+		}),
+		temperature: 0.7,
+	});
+
+	await recordUsage({
+		userId,
+		orgId,
+		model: DEFAULT_CHAT_MODEL,
+		feature: "collection_email",
+		usage: totalUsage,
+	});
+
+	return parseEmail(text, contact.name);
+}
+
+/**
+ * Generates and stores a draft collection email for a customer.
+ * The tone defaults to the customer's current follow-up tone.
+ */
+export async function draftCollectionEmail({
+	orgId,
+	userId,
+	contactId,
+	tone,
+}: {
+	orgId: string;
+	userId: string;
+	contactId: string;
+	tone?: FollowUpTone;
+}): Promise<CollectionEmail> {
+	const contact = await db.query.xeroContacts.findFirst({
+		where: eq(xeroContacts.id, contactId),
+	});
+	const binding = contact
+		? await getBindingForTenant(orgId, contact.xeroTenantId)
+		: null;
+	if (!contact || !binding) throw new Error("Customer not found");
+
+	const overdueInvoices = await getOverdueInvoices(contact.id);
+	if (overdueInvoices.length === 0) {
+		throw new Error("This customer has no overdue invoices");
+	}
+
+	// Escalate on what is actually being chased, not invoices under dispute
+	const commitments = await getCommitmentsForContact(contact.id);
+	const stage =
+		tone ??
+		getFollowUpTone(
+			overdueInvoices
+				.filter(
+					(i) => (commitments.disputedByInvoice.get(i.id) ?? 0) < i.amountDue,
+				)
+				.map((i) => ({ total: i.amountDue, dueDate: i.dueDate })),
+		);
+
+	const { subject, body } = await composeCollectionEmail({
+		orgId,
+		userId,
+		contact,
+		binding,
+		overdueInvoices,
+		commitments,
+		tone: stage,
+	});
+
+	const [email] = await db
+		.insert(collectionEmails)
+		.values({
+			clerkOrgId: orgId,
+			xeroTenantId: contact.xeroTenantId,
+			contactId: contact.id,
+			tone: stage,
+			toEmail: contact.email,
+			subject,
+			body,
+			createdByClerkUserId: userId,
+		})
+		.returning();
+
+	return email;
+}
+
+export async function getCollectionEmailsForContact(
+	orgId: string,
+	contactId: string,
+): Promise<CollectionEmail[]> {
+	return await db
+		.select()
+		.from(collectionEmails)
+		.where(
+			and(
+				eq(collectionEmails.clerkOrgId, orgId),
+				eq(collectionEmails.contactId, contactId),
+			),
+		)
+		.orderBy(desc(collectionEmails.createdAt));
+}
+
+async function updateEmail(
+	id: string,
+	values: Partial<CollectionEmail>,
+): Promise<CollectionEmail> {
+	const [email] = await db
+		.update(collectionEmails)
+		.set({ ...values, updatedAt: new Date() })
+		.where(eq(collectionEmails.id, id))
+		.returning();
+	return email;
+}
+
+/**
+ * Queues the next, harsher stage. Skipped after a Final notice; the credit
+ * controller decides what happens after that. The subject and body stay empty
+ * until the follow-up is written at send time.
+ */
+async function scheduleNextStage(email: CollectionEmail) {
+	const nextTone = NEXT_TONE[email.tone as FollowUpTone];
+	if (!nextTone) return;
+
+	await db.insert(collectionEmails).values({
+		clerkOrgId: email.clerkOrgId,
+		xeroTenantId: email.xeroTenantId,
+		contactId: email.contactId,
+		tone: nextTone,
+		toEmail: email.toEmail,
+		subject: "",
+		body: "",
+		status: "SCHEDULED",
+		scheduledFor: new Date(Date.now() + FOLLOW_UP_INTERVAL_DAYS * DAY_MS),
+		createdByClerkUserId: email.createdByClerkUserId,
+	});
+}
+
+/**
+ * Moves an email to SENDING if it is still in one of the given statuses.
+ * Returns null when another send, cancel or cron run got there first.
+ */
+async function claimCollectionEmail(
+	id: string,
+	fromStatuses: CollectionEmailStatus[],
+): Promise<CollectionEmail | null> {
+	const [claimed] = await db
+		.update(collectionEmails)
+		.set({ status: "SENDING", updatedAt: new Date() })
+		.where(
+			and(
+				eq(collectionEmails.id, id),
+				inArray(collectionEmails.status, fromStatuses),
+			),
+		)
+		.returning();
+	return claimed ?? null;
+}
+
+/**
+ * Sends a claimed email, writing it first if it is a queued follow-up,
+ * records the outcome locally and in Xero, and schedules the next stage.
+ * Emails for customers with nothing overdue any more are cancelled instead.
+ */
+async function deliverCollectionEmail(
+	email: CollectionEmail,
+): Promise<CollectionEmail> {
+	const contact = await db.query.xeroContacts.findFirst({
+		where: eq(xeroContacts.id, email.contactId),
+	});
+	const binding = contact
+		? await getBindingForTenant(email.clerkOrgId, contact.xeroTenantId)
+		: null;
+	if (!contact || !binding) {
+		return await updateEmail(email.id, {
+			status: "CANCELLED",
+			error: "Customer or Xero connection no longer available",
+		});
+	}
+
+	const overdueInvoices = await getOverdueInvoices(contact.id);
+	if (overdueInvoices.length === 0) {
+		return await updateEmail(email.id, {
+			status: "CANCELLED",
+			error: "No overdue invoices remain",
+		});
+	}
+
+	const toEmail = email.toEmail ?? contact.email;
+	if (!toEmail) {
+		return await updateEmail(email.id, {
+			status: "FAILED",
+			error: "Customer has no email address",
+		});
+	}
+
+	let { subject, body } = email;
+	if (!body) {
+		try {
+			({ subject, body } = await composeCollectionEmail({
+				orgId: email.clerkOrgId,
+				userId: email.createdByClerkUserId,
+				contact,
+				binding,
+				overdueInvoices,
+				commitments: await getCommitmentsForContact(contact.id),
+				tone: email.tone as FollowUpTone,
+			}));
+		} catch (error) {
+			logError(error, { context: "collections_compose", emailId: email.id });
+			return await updateEmail(email.id, {
+				status: "FAILED",
+				error: getErrorMessage(error),
+			});
+		}
+	}
+
+	// One sequence per customer: a manual send replaces anything queued
+	await db
+		.update(collectionEmails)
+		.set({ status: "CANCELLED", updatedAt: new Date() })
+		.where(
+			and(
+				eq(collectionEmails.contactId, email.contactId),
+				eq(collectionEmails.status, "SCHEDULED"),
+				ne(collectionEmails.id, email.id),
+			),
+		);
+
+	let result: CollectionEmail;
+	try {
+		const sent = await sendMail({ to: toEmail, subject, text: body });
+
+		result = await updateEmail(email.id, {
+			status: "SENT",
+			toEmail,
+			subject,
+			body,
+			sentAt: new Date(),
+			messageId: sent.messageId,
+			error: null,
+		});
+	} catch (error) {
+		logError(error, { context: "collections_send", emailId: email.id });
+		result = await updateEmail(email.id, {
+			status: "FAILED",
+			toEmail,
+			subject,
+			body,
+			error: getErrorMessage(error),
+		});
+	}
+
+	const outcome =
+		result.status === "SENT"
+			? `sent to ${toEmail}`
+			: `failed to send (${result.error})`;
+	const invoices = overdueInvoices.map(invoiceLabel).join(", ");
+	await logToXeroHistory(
+		binding,
+		contact.xeroContactId,
+		`${email.tone} collection email "${subject}" for invoice${overdueInvoices.length === 1 ? "" : "s"} ${invoices} ${outcome}`,
+	);
+
+	if (result.status === "SENT") {
+		try {
+			await scheduleNextStage(result);
+		} catch (error) {
+			logError(error, {
+				context: "collections_schedule_follow_up",
+				emailId: email.id,
+			});
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Sends a draft or scheduled email straight away
+ */
+export async function sendCollectionEmail(
+	email: CollectionEmail,
+): Promise<CollectionEmail> {
+	const claimed = await claimCollectionEmail(email.id, ["DRAFT", "SCHEDULED"]);
+	if (!claimed) {
+		throw new Error("This email has already been sent or cancelled");
+	}
+
+	try {
+		return await deliverCollectionEmail(claimed);
+	} catch (error) {
+		// Don't leave it claimed; nothing was sent if delivery threw
+		await updateEmail(claimed.id, {
+			status: "FAILED",
+			error: getErrorMessage(error),
+		});
+		throw error;
+	}
+}
+
+/**
+ * Whether a due email should wait or stop because of what the customer has
+ * said since it was scheduled: an open promise to pay postpones it until the
+ * day after the promised date, and a fully disputed balance cancels it
+ */
+async function holdForCommitments(
+	email: CollectionEmail,
+): Promise<CollectionEmail | null> {
+	const commitments = await getCommitmentsForContact(email.contactId);
+
+	const { openPromise } = commitments;
+	if (openPromise && openPromise.promisedDate.getTime() > Date.now()) {
+		return await updateEmail(email.id, {
+			status: "SCHEDULED",
+			scheduledFor: new Date(openPromise.promisedDate.getTime() + DAY_MS),
+		});
+	}
+
+	const overdueInvoices = await getOverdueInvoices(email.contactId);
+	const undisputed = overdueInvoices.filter(
+		(i) => (commitments.disputedByInvoice.get(i.id) ?? 0) < i.amountDue,
+	);
+	if (overdueInvoices.length > 0 && undisputed.length === 0) {
+		return await updateEmail(email.id, {
+			status: "CANCELLED",
+			error: "Every overdue invoice is disputed",
+		});
+	}
+
+	return null;
+}
+
+/**
+ * Sends every scheduled email that has fallen due. Called from cron. Each
+ * email is claimed before anything else, so overlapping runs and manual
+ * sends never email a customer twice.
+ */
+export async function processDueCollectionEmails({ limit = 25 } = {}) {
+	const due = await db
+		.select({ id: collectionEmails.id })
+		.from(collectionEmails)
+		.where(
+			and(
+				eq(collectionEmails.status, "SCHEDULED"),
+				lte(collectionEmails.scheduledFor, new Date()),
+			),
+		)
+		.orderBy(asc(collectionEmails.scheduledFor))
+		.limit(limit);
+
+	const counts: Record<CollectionEmailStatus, number> = {
+		DRAFT: 0,
+		SCHEDULED: 0,
+		SENDING: 0,
+		SENT: 0,
+		FAILED: 0,
+		CANCELLED: 0,
+	};
+	let processed = 0;
+
+	for (const { id } of due) {
+		const email = await claimCollectionEmail(id, ["SCHEDULED"]);
+		if (!email) continue;
+		processed++;
+
+		try {
+			const result =
+				(await holdForCommitments(email)) ??
+				(await deliverCollectionEmail(email));
+			counts[result.status as CollectionEmailStatus]++;
+		} catch (error) {
+			logError(error, {
+				context: "collections_process_due",
+				emailId: id,
+			});
+			await updateEmail(id, {
+				status: "FAILED",
+				error: getErrorMessage(error),
+			});
+			counts.FAILED++;
+		}
+	}
+
+	return { processed, ...counts };
+}
+
+export async function getCollectionEmail(
+	orgId: string,
+	id: string,
+): Promise<CollectionEmail | null> {
+	const [email] = await db
+		.select()
+		.from(collectionEmails)
+		.where(
+			and(eq(collectionEmails.clerkOrgId, orgId), eq(collectionEmails.id, id)),
+		);
+	return email ?? null;
+}
@@ -0,0 +1,374 @@
+import "server-only";
+
+import { and, desc, eq, inArray, notInArray, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+	type InvoiceDispute,
+	invoiceDisputes,
+	type PaymentPromise,
+	paymentPromises,
+	xeroContacts,
+	xeroInvoices,
+} from "@/lib/db/schema";
+import { listActiveXeroBindings } from "@/lib/integrations/xero/tenant-scope";
+import { REMOVED_INVOICE_STATUSES } from "@/lib/integrations/xero/types";
+
+/**
+ * Promises to pay and invoice disputes recorded by the credit controller.
+ *
+ * A promise is kept once the customer has paid the promised amount since it
+ * was recorded, across any of their invoices, and broken if the promised
+ * date passes first. Open disputes take the disputed amount out of the risk
+ * score and out of what collection emails chase.
+ */
+
+export const PAYMENT_PROMISE_STATUSES = [
+	"OPEN",
+	"KEPT",
+	"BROKEN",
+	"CANCELLED",
+] as const;
+
+export type PaymentPromiseStatus = (typeof PAYMENT_PROMISE_STATUSES)[number];
+
+export const INVOICE_DISPUTE_STATUSES = ["OPEN", "RESOLVED"] as const;
+
+export type InvoiceDisputeStatus = (typeof INVOICE_DISPUTE_STATUSES)[number];
+
+// Per-contact summary used by the customer list and collection emails
+export interface CustomerCommitments {
+	// Open disputed amount per invoice id, in the invoice's currency
+	disputedByInvoice: Map<string, number>;
+	openPromise: PaymentPromise | null;
+	brokenPromiseCount: number;
+}
+
+const EMPTY_COMMITMENTS: CustomerCommitments = {
+	disputedByInvoice: new Map(),
+	openPromise: null,
+	brokenPromiseCount: 0,
+};
+
+// Rounding tolerance when comparing payments to a promised amount
+const PAYMENT_TOLERANCE = 0.005;
+
+async function getContactInOrg(orgId: string, contactId: string) {
+	const bindings = await listActiveXeroBindings(orgId);
+	const tenantIds = bindings.map((b) => b.externalTenantId);
+	if (tenantIds.length === 0) return null;
+
+	const contact = await db.query.xeroContacts.findFirst({
+		where: and(
+			eq(xeroContacts.id, contactId),
+			inArray(xeroContacts.xeroTenantId, tenantIds),
+		),
+	});
+	return contact ?? null;
+}
+
+// Total paid to date per contact, over invoices Xero still counts
+async function getPaidToDate(contactIds: string[]) {
+	if (contactIds.length === 0) return new Map<string, number>();
+
+	const rows = await db
+		.select({
+			contactId: xeroInvoices.contactId,
+			paid: sql<number>`coalesce(sum(cast(${xeroInvoices.amountPaid} as numeric)), 0)`,
+		})
+		.from(xeroInvoices)
+		.where(
+			and(
+				inArray(xeroInvoices.contactId, contactIds),
+				eq(xeroInvoices.type, "ACCREC"),
+				notInArray(xeroInvoices.status, REMOVED_INVOICE_STATUSES),
+			),
+		)
+		.groupBy(xeroInvoices.contactId);
+
+	return new Map(rows.map((r) => [r.contactId as string, Number(r.paid)]));
+}
+
+/**
+ * Settles open promises for the given contacts against payments synced
+ * since they were made. Run before reading promises so statuses are current.
+ */
+export async function refreshPromiseStatuses(contactIds: string[]) {
+	if (contactIds.length === 0) return;
+
+	const open = await db
+		.select()
+		.from(paymentPromises)
+		.where(
+			and(
+				inArray(paymentPromises.contactId, contactIds),
+				eq(paymentPromises.status, "OPEN"),
+			),
+		);
+	if (open.length === 0) return;
+
+	const paidToDate = await getPaidToDate([
+		...new Set(open.map((p) => p.contactId)),
+	]);
+	const now = new Date();
+
+	for (const promise of open) {
+		const paidSince =
+			(paidToDate.get(promise.contactId) ?? 0) - Number(promise.paidAtCreation);
+
+		let status: PaymentPromiseStatus | null = null;
+		if (paidSince + PAYMENT_TOLERANCE >= Number(promise.amount)) {
+			status = "KEPT";
+		} else if (promise.promisedDate < now) {
+			status = "BROKEN";
+		}
+
+		if (status) {
+			await db
+				.update(paymentPromises)
+				.set({ status, resolvedAt: now, updatedAt: now })
+				.where(eq(paymentPromises.id, promise.id));
+		}
+	}
+}
+
+/**
+ * Open disputes and promise history for many contacts at once
+ */
+export async function getCustomerCommitments(
+	contactIds: string[],
+): Promise<Map<string, CustomerCommitments>> {
+	const result = new Map<string, CustomerCommitments>();
+	if (contactIds.length === 0) return result;
+
+	await refreshPromiseStatuses(contactIds);
+
+	const [disputes, promises] = await Promise.all([
+		db
+			.select({
+				contactId: invoiceDisputes.contactId,
+				invoiceId: invoiceDisputes.invoiceId,
+				amount: invoiceDisputes.amount,
+			})
+			.from(invoiceDisputes)
+			.where(
+				and(
+					inArray(invoiceDisputes.contactId, contactIds),
+					eq(invoiceDisputes.status, "OPEN"),
+				),
+			),
+		db
+			.select()
+			.from(paymentPromises)
+			.where(
+				and(
+					inArray(paymentPromises.contactId, contactIds),
+					inArray(paymentPromises.status, ["OPEN", "BROKEN"]),
+				),
+			)
+			.orderBy(desc(paymentPromises.promisedDate)),
+	]);
+
+	const get = (contactId: string) => {
+		let entry = result.get(contactId);
+		if (!entry) {
+			entry = {
+				disputedByInvoice: new Map(),
+				openPromise: null,
+				brokenPromiseCount: 0,
+			};
+			result.set(contactId, entry);
+		}
+		return entry;
+	};
+
+	for (const dispute of disputes) {
+		const entry = get(dispute.contactId);
+		entry.disputedByInvoice.set(
+			dispute.invoiceId,
+			(entry.disputedByInvoice.get(dispute.invoiceId) ?? 0) +
+				Number(dispute.amount),
+		);
+	}
+
+	for (const promise of promises) {
+		const entry = get(promise.contactId);
+		if (promise.status === "BROKEN") {
+			entry.brokenPromiseCount++;
+		} else if (
+			!entry.openPromise ||
+			promise.promisedDate < entry.openPromise.promisedDate
+		) {
+			entry.openPromise = promise;
+		}
+	}
+
+	return result;
+}
+
+export async function getCommitmentsForContact(
+	contactId: string,
+): Promise<CustomerCommitments> {
+	const commitments = await getCustomerCommitments([contactId]);
+	return commitments.get(contactId) ?? EMPTY_COMMITMENTS;
+}
+
+/**
+ * Every promise and dispute recorded for a customer, newest first
+ */
+export async function listPromisesAndDisputes(
+	orgId: string,
+	contactId: string,
+): Promise<{ promises: PaymentPromise[]; disputes: InvoiceDispute[] }> {
+	await refreshPromiseStatuses([contactId]);
+
+	const [promises, disputes] = await Promise.all([
+		db
+			.select()
+			.from(paymentPromises)
+			.where(
+				and(
+					eq(paymentPromises.clerkOrgId, orgId),
+					eq(paymentPromises.contactId, contactId),
+				),
+			)
+			.orderBy(desc(paymentPromises.createdAt)),
+		db
+			.select()
+			.from(invoiceDisputes)
+			.where(
+				and(
+					eq(invoiceDisputes.clerkOrgId, orgId),
+					eq(invoiceDisputes.contactId, contactId),
+				),
+			)
+			.orderBy(desc(invoiceDisputes.createdAt)),
+	]);
+
+	return { promises, disputes };
+}
+
+export async function createPaymentPromise({
+	orgId,
+	userId,
+	contactId,
+	amount,
+	promisedDate,
+	note,
+}: {
+	orgId: string;
+	userId: string;
+	contactId: string;
+	amount: number;
+	promisedDate: Date;
+	note?: string;
+}): Promise<PaymentPromise> {
+	const contact = await getContactInOrg(orgId, contactId);
+	if (!contact) throw new Error("Customer not found");
+
+	const paidToDate = await getPaidToDate([contact.id]);
+
+	const [promise] = await db
+		.insert(paymentPromises)
+		.values({
+			clerkOrgId: orgId,
+			xeroTenantId: contact.xeroTenantId,
+			contactId: contact.id,
+			amount: amount.toFixed(2),
+			promisedDate,
+			paidAtCreation: (paidToDate.get(contact.id) ?? 0).toFixed(4),
+			note: note || null,
+			createdByClerkUserId: userId,
+		})
+		.returning();
+
+	return promise;
+}
+
+export async function cancelPaymentPromise(
+	orgId: string,
+	promiseId: string,
+): Promise<PaymentPromise> {
+	const [promise] = await db
+		.update(paymentPromises)
+		.set({ status: "CANCELLED", resolvedAt: new Date(), updatedAt: new Date() })
+		.where(
+			and(
+				eq(paymentPromises.id, promiseId),
+				eq(paymentPromises.clerkOrgId, orgId),
+				eq(paymentPromises.status, "OPEN"),
+			),
+		)
+		.returning();
+
+	if (!promise) throw new Error("Only open promises can be cancelled");
+	return promise;
+}
+
+/**
+ * Records a dispute against one of the customer's invoices. Without an
+ * amount the whole balance still owing on the invoice is disputed.
+ */
+export async function createInvoiceDispute({
+	orgId,
+	userId,
+	invoiceId,
+	amount,
+	reason,
+}: {
+	orgId: string;
+	userId: string;
+	invoiceId: string;
+	amount?: number;
+	reason: string;
+}): Promise<InvoiceDispute> {
+	const invoice = await db.query.xeroInvoices.findFirst({
+		where: eq(xeroInvoices.id, invoiceId),
+	});
+	const contact = invoice?.contactId
+		? await getContactInOrg(orgId, invoice.contactId)
+		: null;
+	if (!invoice || !contact) throw new Error("Invoice not found");
+
+	const amountDue = Number(invoice.amountDue);
+	if (amountDue <= 0) throw new Error("Nothing is owing on this invoice");
+
+	const disputed = amount ?? amountDue;
+	if (disputed > amountDue + PAYMENT_TOLERANCE) {
+		throw new Error("The disputed amount is more than the amount due");
+	}
+
+	const [dispute] = await db
+		.insert(invoiceDisputes)
+		.values({
+			clerkOrgId: orgId,
+			xeroTenantId: invoice.xeroTenantId,
+			contactId: contact.id,
+			invoiceId: invoice.id,
+			amount: disputed.toFixed(2),
+			reason,
+			createdByClerkUserId: userId,
+		})
+		.returning();
+
+	return dispute;
+}
+
+export async function resolveInvoiceDispute(
+	orgId: string,
+	disputeId: string,
+): Promise<InvoiceDispute> {
+	const [dispute] = await db
+		.update(invoiceDisputes)
+		.set({ status: "RESOLVED", resolvedAt: new Date(), updatedAt: new Date() })
+		.where(
+			and(
+				eq(invoiceDisputes.id, disputeId),
+				eq(invoiceDisputes.clerkOrgId, orgId),
+				eq(invoiceDisputes.status, "OPEN"),
+			),
+		)
+		.returning();
+
+	if (!dispute) throw new Error("Only open disputes can be resolved");
+	return dispute;
+}
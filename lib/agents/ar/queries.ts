@@ -1,66 +1,50 @@
 import "server-only";
 
 import { auth } from "@clerk/nextjs/server";
-import { and, count, desc, eq, gte, isNotNull, sql } from "drizzle-orm";
+import {
+	and,
+	count,
+	desc,
+	eq,
+	gte,
+	inArray,
+	isNotNull,
+	notInArray,
+	or,
+	sql,
+} from "drizzle-orm";
+import {
+	convertAmount,
+	excludeRelatedCustomers,
+	getConsolidationSummary,
+	getReportingScope,
+	type ReportingScope,
+} from "@/lib/agents/consolidation";
 import { db } from "@/lib/db";
-import { xeroContacts, xeroInvoices } from "@/lib/db/schema";
+import { xeroContacts, xeroInvoices, xeroLineItems } from "@/lib/db/schema";
+import { REMOVED_INVOICE_STATUSES } from "@/lib/integrations/xero/types";
+import {
+	type CustomerCommitments,
+	getCustomerCommitments,
+} from "./promises-and-disputes";
+import {
+	type CustomerInvoiceHistory,
+	calculateCustomerRisk,
+} from "./risk-scoring";
 
 interface Invoice {
 	total: number;
 	dueDate: Date | null;
 }
 
-/**
- * Calculate customer risk score based on AR agent logic
- * @param invoices - Array of invoices for the customer
- * @returns Risk score between 0.05 and 0.95
- */
-function calculateRiskScore(invoices: Invoice[]): number {
-	// Base risk
-	let score = 0.1;
-
-	const now = new Date();
-	let hasHighValueInvoice = false;
-
-	// Iterate through all invoices
-	for (const invoice of invoices) {
-		// Check for high value invoices (> $10,000)
-		if (invoice.total > 10000) {
-			hasHighValueInvoice = true;
-		}
-
-		// Calculate overdue factor
-		if (invoice.dueDate) {
-			const daysOverdue = Math.max(
-				0,
-				Math.floor(
-					(now.getTime() - invoice.dueDate.getTime()) / (1000 * 60 * 60 * 24),
-				),
-			);
-
-			if (daysOverdue > 0) {
-				// Calculate penalty: (daysOverdue / 30) * 0.5, capped at 0.6
-				const penalty = Math.min((daysOverdue / 30) * 0.5, 0.6);
-				score += penalty;
-			}
-		}
-	}
-
-	// Add high value factor
-	if (hasHighValueInvoice) {
-		score += 0.1;
-	}
-
-	// Clamp between 0.05 and 0.95
-	return Math.max(0.05, Math.min(0.95, score));
-}
+export type FollowUpTone = "Polite" | "Firm" | "Final";
 
 /**
  * Determine follow-up tone based on maximum days overdue
  * @param invoices - Array of invoices for the customer
  * @returns Tone classification: "Polite", "Firm", or "Final"
  */
-function getFollowUpTone(invoices: Invoice[]): string {
+export function getFollowUpTone(invoices: Invoice[]): FollowUpTone {
 	const now = new Date();
 	let maxDaysOverdue = 0;
 
@@ -82,34 +66,41 @@ function getFollowUpTone(invoices: Invoice[]): string {
 }
 
 export async function getArDashboardData() {
-	const { orgId } = await auth();
+	const { userId, orgId } = await auth();
 	if (!orgId) return null;
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
-
-	if (!binding) return null; // No data state
-
-	const tenantId = binding.externalTenantId;
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return null; // No data state
+
+	const { tenantIds } = reporting;
+	const amountDue = convertAmount(
+		reporting,
+		xeroInvoices.amountDue,
+		xeroInvoices.currencyCode,
+	);
+	const total = convertAmount(
+		reporting,
+		xeroInvoices.total,
+		xeroInvoices.currencyCode,
+	);
+	const intercompany = excludeRelatedCustomers(
+		reporting,
+		xeroInvoices.contactId,
+	);
 
 	// 1. Total Outstanding & Count
 	const summary = await db
 		.select({
-			totalOutstanding: sql<number>`sum(cast(${xeroInvoices.amountDue} as numeric))`,
+			totalOutstanding: sql<number>`sum(${amountDue})`,
 			countOutstanding: count(xeroInvoices.id),
 		})
 		.from(xeroInvoices)
 		.where(
 			and(
-				eq(xeroInvoices.xeroTenantId, tenantId),
+				inArray(xeroInvoices.xeroTenantId, tenantIds),
 				sql`cast(${xeroInvoices.amountDue} as numeric) > 0`,
 				eq(xeroInvoices.status, "AUTHORISED"),
+				intercompany,
 			),
 		);
 
@@ -123,14 +114,16 @@ export async function getArDashboardData() {
 
 	const salesSummary = await db
 		.select({
-			totalSales: sql<number>`sum(cast(${xeroInvoices.total} as numeric))`,
+			totalSales: sql<number>`sum(${total})`,
 		})
 		.from(xeroInvoices)
 		.where(
 			and(
-				eq(xeroInvoices.xeroTenantId, tenantId),
+				inArray(xeroInvoices.xeroTenantId, tenantIds),
 				gte(xeroInvoices.date, ninetyDaysAgo),
 				eq(xeroInvoices.type, "ACCREC"),
+				notInArray(xeroInvoices.status, REMOVED_INVOICE_STATUSES),
+				intercompany,
 			),
 		);
 
@@ -140,23 +133,24 @@ export async function getArDashboardData() {
 	// 3. Ageing Breakdown
 	const buckets = await db
 		.select({
-			current: sql<number>`sum(case when ${xeroInvoices.dueDate} >= now() then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
+			current: sql<number>`sum(case when ${xeroInvoices.dueDate} >= now() then ${amountDue} else 0 end)`,
 			currentCount: sql<number>`sum(case when ${xeroInvoices.dueDate} >= now() then 1 else 0 end)`,
-			overdue1to30: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '1 day' and interval '30 days' then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
+			overdue1to30: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '1 day' and interval '30 days' then ${amountDue} else 0 end)`,
 			overdue1to30Count: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '1 day' and interval '30 days' then 1 else 0 end)`,
-			overdue31to60: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '31 days' and interval '60 days' then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
+			overdue31to60: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '31 days' and interval '60 days' then ${amountDue} else 0 end)`,
 			overdue31to60Count: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '31 days' and interval '60 days' then 1 else 0 end)`,
-			overdue61to90: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '61 days' and interval '90 days' then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
+			overdue61to90: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '61 days' and interval '90 days' then ${amountDue} else 0 end)`,
 			overdue61to90Count: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '61 days' and interval '90 days' then 1 else 0 end)`,
-			overdue90plus: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} > interval '90 days' then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
+			overdue90plus: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} > interval '90 days' then ${amountDue} else 0 end)`,
 			overdue90plusCount: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} > interval '90 days' then 1 else 0 end)`,
 		})
 		.from(xeroInvoices)
 		.where(
 			and(
-				eq(xeroInvoices.xeroTenantId, tenantId),
+				inArray(xeroInvoices.xeroTenantId, tenantIds),
 				sql`cast(${xeroInvoices.amountDue} as numeric) > 0`,
 				eq(xeroInvoices.status, "AUTHORISED"),
+				intercompany,
 			),
 		);
 
@@ -180,79 +174,171 @@ export async function getArDashboardData() {
 			dso: Math.round(dso),
 		},
 		ageing,
+		consolidation: getConsolidationSummary(reporting),
 	};
 }
 
+/**
+ * Risk, follow-up tone and disputed amount for every customer, from the
+ * last year's invoices plus anything older still owing. Open disputes are
+ * taken out of what is owing before scoring.
+ */
+export async function scoreCustomers(
+	reporting: ReportingScope,
+	commitments: Map<string, CustomerCommitments>,
+) {
+	const yearAgo = new Date();
+	yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+
+	const rows = await db
+		.select({
+			id: xeroInvoices.id,
+			contactId: xeroInvoices.contactId,
+			total: convertAmount(
+				reporting,
+				xeroInvoices.total,
+				xeroInvoices.currencyCode,
+			),
+			nativeTotal: xeroInvoices.total,
+			nativeAmountDue: xeroInvoices.amountDue,
+			nativeAmountCredited: xeroInvoices.amountCredited,
+			date: xeroInvoices.date,
+			dueDate: xeroInvoices.dueDate,
+			fullyPaidOn: xeroInvoices.fullyPaidOn,
+		})
+		.from(xeroInvoices)
+		.where(
+			and(
+				inArray(xeroInvoices.xeroTenantId, reporting.tenantIds),
+				eq(xeroInvoices.type, "ACCREC"),
+				inArray(xeroInvoices.status, ["AUTHORISED", "PAID"]),
+				isNotNull(xeroInvoices.contactId),
+				or(
+					gte(xeroInvoices.date, yearAgo),
+					sql`cast(${xeroInvoices.amountDue} as numeric) > 0`,
+				),
+				excludeRelatedCustomers(reporting, xeroInvoices.contactId),
+			),
+		);
+
+	const invoicesByContact = new Map<string, CustomerInvoiceHistory[]>();
+	const disputedByContact = new Map<string, number>();
+	const revenueByContact = new Map<string, number>();
+	let totalRevenue = 0;
+
+	for (const row of rows) {
+		if (!row.contactId) continue;
+
+		const total = Number(row.total || 0);
+		const nativeTotal = Number(row.nativeTotal || 0);
+		// Only the total is converted in SQL; convert the rest at its rate
+		const rate = nativeTotal ? total / nativeTotal : 1;
+		const nativeDue = Number(row.nativeAmountDue || 0);
+		const nativeDisputed = Math.min(
+			nativeDue,
+			commitments.get(row.contactId)?.disputedByInvoice.get(row.id) ?? 0,
+		);
+
+		if (nativeDisputed > 0) {
+			disputedByContact.set(
+				row.contactId,
+				(disputedByContact.get(row.contactId) ?? 0) + nativeDisputed * rate,
+			);
+		}
+
+		if (row.date && row.date >= yearAgo) {
+			revenueByContact.set(
+				row.contactId,
+				(revenueByContact.get(row.contactId) ?? 0) + total,
+			);
+			totalRevenue += total;
+		}
+
+		const invoices = invoicesByContact.get(row.contactId) ?? [];
+		invoices.push({
+			total,
+			amountDue: (nativeDue - nativeDisputed) * rate,
+			amountCredited: Number(row.nativeAmountCredited || 0) * rate,
+			date: row.date,
+			dueDate: row.dueDate,
+			fullyPaidOn: row.fullyPaidOn,
+		});
+		invoicesByContact.set(row.contactId, invoices);
+	}
+
+	const scores = new Map<
+		string,
+		ReturnType<typeof calculateCustomerRisk> & {
+			followUpTone: FollowUpTone;
+			disputedAmount: number;
+		}
+	>();
+
+	for (const [contactId, invoices] of invoicesByContact) {
+		const revenueShare =
+			totalRevenue > 0
+				? (revenueByContact.get(contactId) ?? 0) / totalRevenue
+				: 0;
+
+		scores.set(contactId, {
+			...calculateCustomerRisk(invoices, revenueShare),
+			followUpTone: getFollowUpTone(invoices.filter((i) => i.amountDue > 0)),
+			disputedAmount: disputedByContact.get(contactId) ?? 0,
+		});
+	}
+
+	return scores;
+}
+
 export async function getCustomerList() {
-	const { orgId } = await auth();
+	const { userId, orgId } = await auth();
 	if (!orgId) return [];
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return [];
 
-	if (!binding) return [];
+	const { tenantIds } = reporting;
+	const amountDue = convertAmount(
+		reporting,
+		xeroInvoices.amountDue,
+		xeroInvoices.currencyCode,
+	);
+	const intercompany = excludeRelatedCustomers(
+		reporting,
+		xeroInvoices.contactId,
+	);
 
 	// First, get ageing breakdown for each customer
 	const ageingRows = await db
 		.select({
 			contactId: xeroInvoices.contactId,
 			contactName: xeroContacts.name,
-			totalDue: sql<number>`sum(cast(${xeroInvoices.amountDue} as numeric))`,
+			totalDue: sql<number>`sum(${amountDue})`,
 			invoiceCount: count(xeroInvoices.id),
-			current: sql<number>`sum(case when ${xeroInvoices.dueDate} >= now() then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
-			days30: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '1 day' and interval '30 days' then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
-			days60: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '31 days' and interval '60 days' then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
-			days90: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '61 days' and interval '90 days' then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
-			days90plus: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} > interval '90 days' then cast(${xeroInvoices.amountDue} as numeric) else 0 end)`,
+			current: sql<number>`sum(case when ${xeroInvoices.dueDate} >= now() then ${amountDue} else 0 end)`,
+			days30: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '1 day' and interval '30 days' then ${amountDue} else 0 end)`,
+			days60: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '31 days' and interval '60 days' then ${amountDue} else 0 end)`,
+			days90: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} between interval '61 days' and interval '90 days' then ${amountDue} else 0 end)`,
+			days90plus: sql<number>`sum(case when now() - ${xeroInvoices.dueDate} > interval '90 days' then ${amountDue} else 0 end)`,
 		})
 		.from(xeroInvoices)
 		.leftJoin(xeroContacts, eq(xeroInvoices.contactId, xeroContacts.id))
 		.where(
 			and(
-				eq(xeroInvoices.xeroTenantId, binding.externalTenantId),
+				inArray(xeroInvoices.xeroTenantId, tenantIds),
 				sql`cast(${xeroInvoices.amountDue} as numeric) > 0`,
 				eq(xeroInvoices.status, "AUTHORISED"),
 				isNotNull(xeroInvoices.contactId),
+				intercompany,
 			),
 		)
 		.groupBy(xeroInvoices.contactId, xeroContacts.name)
-		.orderBy(desc(sql`sum(cast(${xeroInvoices.amountDue} as numeric))`));
-
-	// Get all outstanding invoices for risk calculation
-	const allInvoices = await db
-		.select({
-			contactId: xeroInvoices.contactId,
-			total: xeroInvoices.total,
-			dueDate: xeroInvoices.dueDate,
-		})
-		.from(xeroInvoices)
-		.where(
-			and(
-				eq(xeroInvoices.xeroTenantId, binding.externalTenantId),
-				sql`cast(${xeroInvoices.amountDue} as numeric) > 0`,
-				eq(xeroInvoices.status, "AUTHORISED"),
-				isNotNull(xeroInvoices.contactId),
-			),
-		);
+		.orderBy(desc(sql`sum(${amountDue})`));
 
-	// Group invoices by contact
-	const invoicesByContact = new Map<string, Invoice[]>();
-	for (const inv of allInvoices) {
-		if (!inv.contactId) continue;
-		if (!invoicesByContact.has(inv.contactId)) {
-			invoicesByContact.set(inv.contactId, []);
-		}
-		invoicesByContact.get(inv.contactId)?.push({
-			total: Number(inv.total || 0),
-			dueDate: inv.dueDate,
-		});
-	}
+	const commitments = await getCustomerCommitments(
+		ageingRows.flatMap((r) => (r.contactId ? [r.contactId] : [])),
+	);
+	const scores = await scoreCustomers(reporting, commitments);
 
 	return ageingRows
 		.filter((r) => r.contactId !== null)
@@ -265,14 +351,9 @@ export async function getCustomerList() {
 			const days90 = Number(r.days90 || 0);
 			const days90plus = Number(r.days90plus || 0);
 
-			// Get invoices for this customer
-			const customerInvoices = invoicesByContact.get(contactId) || [];
-
-			// Calculate risk score using the new formula
-			const riskScore = calculateRiskScore(customerInvoices);
-
-			// Determine follow-up tone
-			const followUpTone = getFollowUpTone(customerInvoices);
+			const score = scores.get(contactId);
+			const { openPromise, brokenPromiseCount } =
+				commitments.get(contactId) ?? {};
 
 			return {
 				id: contactId,
@@ -284,8 +365,62 @@ export async function getCustomerList() {
 				days60,
 				days90,
 				days90plus,
-				riskScore: Number.parseFloat(riskScore.toFixed(2)),
-				followUpTone,
+				riskScore: Number.parseFloat((score?.riskScore ?? 0).toFixed(2)),
+				riskFactors: score?.riskFactors ?? [],
+				followUpTone: score?.followUpTone ?? "Polite",
+				disputedAmount: score?.disputedAmount ?? 0,
+				promisedDate: openPromise?.promisedDate ?? null,
+				brokenPromiseCount: brokenPromiseCount ?? 0,
 			};
 		});
 }
+
+/**
+ * Revenue by item code from locally stored invoice line items (no Xero call)
+ * @param days - How far back to look, by invoice date
+ */
+export async function getRevenueByItem(days = 90) {
+	const { userId, orgId } = await auth();
+	if (!orgId) return [];
+
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return [];
+
+	const { tenantIds } = reporting;
+	const lineAmount = convertAmount(
+		reporting,
+		xeroLineItems.lineAmount,
+		xeroInvoices.currencyCode,
+	);
+
+	const since = new Date();
+	since.setDate(since.getDate() - days);
+
+	const rows = await db
+		.select({
+			itemCode: xeroLineItems.itemCode,
+			revenue: sql<number>`sum(${lineAmount})`,
+			quantity: sql<number>`sum(cast(${xeroLineItems.quantity} as numeric))`,
+			invoiceCount: sql<number>`count(distinct ${xeroLineItems.invoiceId})`,
+		})
+		.from(xeroLineItems)
+		.innerJoin(xeroInvoices, eq(xeroLineItems.invoiceId, xeroInvoices.id))
+		.where(
+			and(
+				inArray(xeroLineItems.xeroTenantId, tenantIds),
+				gte(xeroInvoices.date, since),
+				eq(xeroInvoices.type, "ACCREC"),
+				notInArray(xeroInvoices.status, REMOVED_INVOICE_STATUSES),
+				excludeRelatedCustomers(reporting, xeroInvoices.contactId),
+			),
+		)
+		.groupBy(xeroLineItems.itemCode)
+		.orderBy(desc(sql`sum(${lineAmount})`));
+
+	return rows.map((r) => ({
+		itemCode: r.itemCode || "No item",
+		revenue: Number(r.revenue || 0),
+		quantity: Number(r.quantity || 0),
+		invoiceCount: Number(r.invoiceCount),
+	}));
+}
@@ -0,0 +1,170 @@
+/**
+ * AR Customer Risk Scoring
+ *
+ * Scores how likely a customer is to pay late, from 0.05 (safe) to 0.95,
+ * using how they have actually paid rather than only what is overdue today:
+ *
+ * - Current arrears: days the oldest undisputed invoice is overdue (up to +0.3)
+ * - Payment history: average days late on invoices paid in the last year,
+ *   weighted by invoice value (up to +0.25, or -0.05 for paying on time)
+ * - Trend: paying at least a week later recently than before (+0.1)
+ * - Credit notes: credits raised against 15% or more of invoices (+0.1)
+ * - Concentration: 20% or more of revenue from this customer (+0.1)
+ * - No paid invoices to judge by (+0.05)
+ *
+ * Every factor that moves the score is listed in riskFactors so collectors
+ * can see why a customer ranks where it does.
+ */
+
+export interface CustomerInvoiceHistory {
+	total: number;
+	// Outstanding, less any amount under open dispute
+	amountDue: number;
+	amountCredited: number;
+	date: Date | null;
+	dueDate: Date | null;
+	fullyPaidOn: Date | null;
+}
+
+export interface CustomerRiskResult {
+	riskScore: number;
+	riskFactors: string[]; // Human-readable list of contributing factors
+	averageDaysLate: number | null; // Over paid invoices; null without history
+}
+
+const BASE_SCORE = 0.1;
+const MIN_SCORE = 0.05;
+const MAX_SCORE = 0.95;
+
+// Paid invoices needed before history counts for or against a customer
+const MIN_PAID_HISTORY = 3;
+// Payments within this many days count as "recent" for the trend
+const RECENT_WINDOW_DAYS = 90;
+const TREND_THRESHOLD_DAYS = 7;
+const CREDIT_NOTE_RATE_THRESHOLD = 0.15;
+const CONCENTRATION_THRESHOLD = 0.2;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function daysBetween(from: Date, to: Date) {
+	return Math.floor((to.getTime() - from.getTime()) / DAY_MS);
+}
+
+// Value-weighted average days late, early payments counting as on time
+function averageDaysLate(invoices: CustomerInvoiceHistory[]) {
+	let weighted = 0;
+	let weight = 0;
+
+	for (const invoice of invoices) {
+		if (!invoice.dueDate || !invoice.fullyPaidOn) continue;
+		const late = Math.max(0, daysBetween(invoice.dueDate, invoice.fullyPaidOn));
+		const value = Math.max(invoice.total, 1);
+		weighted += late * value;
+		weight += value;
+	}
+
+	return weight > 0 ? weighted / weight : 0;
+}
+
+/**
+ * Calculate a customer's risk score from their invoice history
+ * @param invoices - The customer's invoices from the last year plus any still owing
+ * @param revenueShare - Customer's share of total revenue over the same period (0-1)
+ */
+export function calculateCustomerRisk(
+	invoices: CustomerInvoiceHistory[],
+	revenueShare: number,
+	now: Date = new Date(),
+): CustomerRiskResult {
+	let score = BASE_SCORE;
+	const riskFactors: string[] = [];
+
+	// 1. Current arrears
+	let maxDaysOverdue = 0;
+	for (const invoice of invoices) {
+		if (invoice.amountDue > 0 && invoice.dueDate) {
+			maxDaysOverdue = Math.max(
+				maxDaysOverdue,
+				daysBetween(invoice.dueDate, now),
+			);
+		}
+	}
+	if (maxDaysOverdue > 0) {
+		score += Math.min(maxDaysOverdue / 90, 1) * 0.3;
+		riskFactors.push(`Oldest invoice ${maxDaysOverdue} days overdue`);
+	}
+
+	// 2. Payment history
+	const paid = invoices.filter((i) => i.fullyPaidOn && i.dueDate);
+	let averageLate: number | null = null;
+
+	if (paid.length >= MIN_PAID_HISTORY) {
+		averageLate = averageDaysLate(paid);
+		if (averageLate >= 1) {
+			score += Math.min(averageLate / 30, 1) * 0.25;
+			riskFactors.push(
+				`Pays ${Math.round(averageLate)} days late on average (${paid.length} invoices)`,
+			);
+		} else {
+			score -= 0.05;
+			riskFactors.push(`Pays on time (${paid.length} invoices)`);
+		}
+
+		// 3. Trend
+		const recentCutoff = now.getTime() - RECENT_WINDOW_DAYS * DAY_MS;
+		const recent = paid.filter(
+			(i) => (i.fullyPaidOn as Date).getTime() >= recentCutoff,
+		);
+		const earlier = paid.filter(
+			(i) => (i.fullyPaidOn as Date).getTime() < recentCutoff,
+		);
+		if (recent.length >= 2 && earlier.length >= 2) {
+			const recentLate = averageDaysLate(recent);
+			const earlierLate = averageDaysLate(earlier);
+			if (recentLate - earlierLate >= TREND_THRESHOLD_DAYS) {
+				score += 0.1;
+				riskFactors.push(
+					`Paying later: ${Math.round(recentLate)} days late recently vs ${Math.round(earlierLate)} before`,
+				);
+			}
+		}
+	} else {
+		score += 0.05;
+		riskFactors.push("Little payment history");
+	}
+
+	// 4. Credit notes
+	const credited = invoices.filter((i) => i.amountCredited > 0).length;
+	if (
+		invoices.length >= MIN_PAID_HISTORY &&
+		credited / invoices.length >= CREDIT_NOTE_RATE_THRESHOLD
+	) {
+		score += 0.1;
+		riskFactors.push(
+			`Credit notes on ${credited} of ${invoices.length} invoices`,
+		);
+	}
+
+	// 5. Concentration
+	if (revenueShare >= CONCENTRATION_THRESHOLD) {
+		score += 0.1;
+		riskFactors.push(`${Math.round(revenueShare * 100)}% of revenue`);
+	}
+
+	return {
+		riskScore: Math.max(MIN_SCORE, Math.min(MAX_SCORE, score)),
+		riskFactors,
+		averageDaysLate: averageLate,
+	};
+}
+
+export type CustomerRiskLevel = "Low" | "Medium" | "High";
+
+/**
+ * Banding for badges; High matches the customer table's High Risk filter
+ */
+export function getCustomerRiskLevel(riskScore: number): CustomerRiskLevel {
+	if (riskScore > 0.7) return "High";
+	if (riskScore >= 0.4) return "Medium";
+	return "Low";
+}
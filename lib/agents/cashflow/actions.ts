@@ -3,87 +3,166 @@
 import "server-only";
 
 import { auth } from "@clerk/nextjs/server";
-import { generateText } from "ai";
-import { and, desc, eq, gte } from "drizzle-orm";
+import { generateText, Output } from "ai";
+import { and, eq, gte, inArray, isNotNull } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
+import { z } from "zod";
 import { DEFAULT_CHAT_MODEL } from "@/lib/ai/models";
 import { cashflowSuggestionPrompt } from "@/lib/ai/prompts-cashflow";
 import { getLanguageModel } from "@/lib/ai/providers";
+import { assertEntitled, recordUsage } from "@/lib/ai/usage";
 import { db } from "@/lib/db";
+import { cashflowAdjustments, xeroTransactions } from "@/lib/db/schema";
 import {
-	cashflowAdjustments,
-	xeroTransactions,
-} from "@/lib/db/schema";
+	getXeroTenantScope,
+	getXeroWriteBinding,
+} from "@/lib/integrations/xero/tenant-scope";
+import { isRecurrence, RECURRENCE_LABELS, type Recurrence } from "./recurrence";
+import { detectRecurringPatterns } from "./recurring-patterns";
+import {
+	addScenarioRule,
+	assertScenarioInOrg,
+	createScenario,
+	deleteScenario,
+	listScenarioSuppliers,
+	listScenarios,
+	removeScenarioRule,
+} from "./scenarios";
+import { saveMinimumCash } from "./settings";
+
+const uuidSchema = z.string().uuid();
+
+// Detected patterns below this confidence are not suggested
+const MIN_SUGGESTION_CONFIDENCE = 0.5;
+const MAX_SUGGESTIONS = 25;
 
+const suggestionNamesSchema = z.object({
+	suggestions: z.array(
+		z.object({
+			patternId: z.string().describe("The pattern ID exactly as given"),
+			description: z
+				.string()
+				.describe("Short name for the recurring item, e.g. Office Rent"),
+		}),
+	),
+});
+
+/**
+ * Suggest recurring adjustments from the last 12 months of bank activity.
+ * Recurrence is detected deterministically; the model only names the
+ * patterns and drops ones that are not real commitments. Each suggestion
+ * carries its confidence and the transactions it was detected from.
+ */
 export async function generateCashflowSuggestions() {
-	const { orgId } = await auth();
-	if (!orgId) return [];
+	const { userId, orgId } = await auth();
+	if (!userId || !orgId) return [];
+
+	await assertEntitled({ userId, orgId, feature: "cashflow_suggestions" });
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) return [];
+
+	const yearAgo = new Date();
+	yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+
+	const transactions = await db
+		.select({
+			id: xeroTransactions.id,
+			date: xeroTransactions.date,
+			amount: xeroTransactions.amount,
+			type: xeroTransactions.type,
+			description: xeroTransactions.description,
+		})
+		.from(xeroTransactions)
+		.where(
 			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
+				inArray(
+					xeroTransactions.xeroTenantId,
+					scope.bindings.map((b) => b.externalTenantId),
+				),
+				gte(xeroTransactions.date, yearAgo),
 			),
-	});
-	if (!binding) return [];
-
-	// Fetch last 60 days of transactions to find patterns
-	const sixtyDaysAgo = new Date();
-	sixtyDaysAgo.setDate(sixtyDaysAgo.getDate() - 60);
+		);
 
-	const transactions = await db.query.xeroTransactions.findMany({
-		where: and(
-			eq(xeroTransactions.xeroTenantId, binding.externalTenantId),
-			gte(xeroTransactions.date, sixtyDaysAgo),
+	const patterns = detectRecurringPatterns(
+		transactions.flatMap((t) =>
+			t.date && t.type
+				? [
+						{
+							id: t.id,
+							date: t.date,
+							amount: Number(t.amount || 0),
+							type: t.type,
+							description: t.description,
+						},
+					]
+				: [],
 		),
-		orderBy: [desc(xeroTransactions.date)],
-		limit: 50, // Analyze last 50 for MVP speed
-	});
+	)
+		.filter((p) => p.confidence >= MIN_SUGGESTION_CONFIDENCE)
+		.slice(0, MAX_SUGGESTIONS);
+	if (patterns.length === 0) return [];
 
-	const context = transactions
-		.map(
-			(t) =>
-				`${t.description}: $${t.amount} on ${t.date?.toISOString().split("T")[0]}`,
+	const context = patterns
+		.map((p) =>
+			[
+				p.id,
+				p.type,
+				`$${p.amount.toFixed(2)}`,
+				RECURRENCE_LABELS[p.recurrence],
+				[...new Set(p.transactions.map((t) => t.description))]
+					.slice(0, 3)
+					.join("; "),
+			].join(" | "),
 		)
 		.join("\n");
 
-	const model = getLanguageModel(DEFAULT_CHAT_MODEL);
-	const { text } = await generateText({
-		model,
-		prompt: cashflowSuggestionPrompt(context),
-		temperature: 0.2,
-	});
-
+	let named: z.infer<typeof suggestionNamesSchema>;
 	try {
-		// Safely extract JSON array from the model output
-		const jsonStart = text.indexOf("[");
-		const jsonEnd = text.lastIndexOf("]");
-
-		if (jsonStart === -1 || jsonEnd === -1 || jsonEnd <= jsonStart) {
-			console.error("[generateCashflowSuggestions] No valid JSON array found in response");
-			return [];
-		}
-
-		const jsonString = text.slice(jsonStart, jsonEnd + 1);
-		const parsed = JSON.parse(jsonString);
-
-		// Basic structural validation: expect an array of plain objects
-		if (!Array.isArray(parsed)) {
-			console.error("[generateCashflowSuggestions] Parsed result is not an array");
-			return [];
-		}
-
-		const suggestions = parsed.filter(
-			(item) => item !== null && typeof item === "object" && !Array.isArray(item),
-		);
+		const { output, totalUsage } = await generateText({
+			model: getLanguageModel(DEFAULT_CHAT_MODEL),
+			prompt: cashflowSuggestionPrompt(context),
+			output: Output.object({ schema: suggestionNamesSchema }),
+			temperature: 0.2,
+		});
+		named = output;
 
-		return suggestions;
+		await recordUsage({
+			userId,
+			orgId,
+			model: DEFAULT_CHAT_MODEL,
+			feature: "cashflow_suggestions",
+			usage: totalUsage,
+		});
 	} catch (e) {
-		console.error("[generateCashflowSuggestions] Failed to parse AI suggestions", e);
+		console.error("[generateCashflowSuggestions] Failed to name patterns", e);
 		return [];
 	}
+
+	const byId = new Map(patterns.map((p) => [p.id, p]));
+	return named.suggestions.flatMap((s) => {
+		const pattern = byId.get(s.patternId);
+		if (!pattern) return [];
+		byId.delete(s.patternId);
+
+		return [
+			{
+				id: pattern.id,
+				description: s.description,
+				amount: Math.round(pattern.amount * 100) / 100,
+				date: pattern.nextDate.toISOString().split("T")[0],
+				type: pattern.type,
+				recurrence: pattern.recurrence,
+				confidence: pattern.confidence,
+				// The transactions the pattern was detected from
+				transactions: pattern.transactions.map((t) => ({
+					id: t.id,
+					date: t.date.toISOString().split("T")[0],
+					amount: t.amount,
+				})),
+			},
+		];
+	});
 }
 
 export async function addCashflowAdjustment(data: {
@@ -91,23 +170,42 @@ export async function addCashflowAdjustment(data: {
 	amount: number;
 	date: Date;
 	type: "IN" | "OUT";
+	// Only applies within this scenario, not the baseline
+	scenarioId?: string;
+	// Repeats from date until recurrenceEndDate (or indefinitely)
+	recurrence?: Recurrence;
+	recurrenceEndDate?: Date;
 }) {
 	const { orgId, userId } = await auth();
 	if (!orgId || !userId) throw new Error("Unauthorized");
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
+	if (data.recurrence && !isRecurrence(data.recurrence)) {
+		throw new Error("Invalid recurrence");
+	}
+	if (data.recurrenceEndDate && data.recurrenceEndDate < data.date) {
+		throw new Error("Recurrence must end after it starts");
+	}
+
+	if (data.scenarioId) {
+		if (!uuidSchema.safeParse(data.scenarioId).success) {
+			throw new Error("Invalid scenario ID format");
+		}
+		await assertScenarioInOrg(orgId, data.scenarioId);
+	}
+
+	// Adjustments belong to a single Xero organisation
+	const { binding, error } = await getXeroWriteBinding(orgId);
+	if (error) throw new Error(error);
 	if (!binding) throw new Error("No active binding");
 
 	await db.insert(cashflowAdjustments).values({
 		userId,
 		xeroTenantId: binding.externalTenantId,
+		scenarioId: data.scenarioId ?? null,
+		recurrence: data.recurrence ?? null,
+		recurrenceEndDate: data.recurrence
+			? (data.recurrenceEndDate ?? null)
+			: null,
 		description: data.description,
 		amount: data.amount.toString(),
 		date: data.date,
@@ -117,3 +215,146 @@ export async function addCashflowAdjustment(data: {
 
 	revalidatePath("/agents/cashflow");
 }
+
+const CASH_SETTINGS_ROLES = ["org:admin", "org:owner"];
+
+/**
+ * Set the balance the forecast warns about falling below, or null to stop
+ * warning. Admins only.
+ */
+export async function setMinimumCash(minimumCash: number | null) {
+	const { userId, orgId, orgRole } = await auth();
+	if (!userId || !orgId) throw new Error("Not authenticated");
+	if (!orgRole || !CASH_SETTINGS_ROLES.includes(orgRole)) {
+		throw new Error("Only organisation admins can change the minimum cash");
+	}
+	if (minimumCash !== null && !Number.isFinite(minimumCash)) {
+		throw new Error("Invalid minimum cash amount");
+	}
+
+	await saveMinimumCash(orgId, userId, minimumCash);
+	revalidatePath("/agents/cashflow");
+}
+
+export async function getCashflowScenarios() {
+	const { orgId } = await auth();
+	if (!orgId) return { scenarios: [], suppliers: [] };
+
+	const [scenarios, suppliers] = await Promise.all([
+		listScenarios(orgId),
+		listScenarioSuppliers(orgId),
+	]);
+	return { scenarios, suppliers };
+}
+
+const scenarioSchema = z.object({
+	name: z.string().trim().min(1).max(100),
+	description: z.string().trim().max(1000).optional(),
+});
+
+export async function createCashflowScenario(
+	values: z.infer<typeof scenarioSchema>,
+) {
+	const { userId, orgId } = await auth();
+	if (!userId || !orgId) throw new Error("Not authenticated");
+
+	const parsed = scenarioSchema.safeParse(values);
+	if (!parsed.success) {
+		throw new Error(parsed.error.issues[0]?.message ?? "Invalid scenario");
+	}
+
+	const scenario = await createScenario({ orgId, userId, ...parsed.data });
+
+	revalidatePath("/agents/cashflow");
+	return scenario;
+}
+
+export async function deleteCashflowScenario(scenarioId: string) {
+	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(scenarioId);
+	if (!validation.success) {
+		throw new Error("Invalid scenario ID format");
+	}
+
+	await deleteScenario(orgId, scenarioId);
+	revalidatePath("/agents/cashflow");
+}
+
+const scenarioRuleSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("DELAY_RECEIVABLES"),
+		days: z.number().int().min(1).max(365),
+	}),
+	z.object({
+		type: z.literal("CUT_SUPPLIER_BILLS"),
+		supplierId: z.string().uuid(),
+		percent: z.number().gt(0).max(100),
+	}),
+]);
+
+/**
+ * Add a rule-based shift (delay receivables, cut a supplier's bills) to a
+ * scenario
+ */
+export async function addCashflowScenarioRule(
+	scenarioId: string,
+	rule: z.infer<typeof scenarioRuleSchema>,
+) {
+	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(scenarioId);
+	if (!validation.success) {
+		throw new Error("Invalid scenario ID format");
+	}
+
+	const parsed = scenarioRuleSchema.safeParse(rule);
+	if (!parsed.success) {
+		throw new Error(parsed.error.issues[0]?.message ?? "Invalid rule");
+	}
+
+	await addScenarioRule(orgId, scenarioId, parsed.data);
+	revalidatePath("/agents/cashflow");
+}
+
+export async function removeCashflowScenarioRule(ruleId: string) {
+	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(ruleId);
+	if (!validation.success) {
+		throw new Error("Invalid rule ID format");
+	}
+
+	await removeScenarioRule(orgId, ruleId);
+	revalidatePath("/agents/cashflow");
+}
+
+/**
+ * Remove an adjustment that belongs to a scenario
+ */
+export async function removeScenarioAdjustment(adjustmentId: string) {
+	const { orgId } = await auth();
+	if (!orgId) throw new Error("Not authenticated");
+
+	const validation = uuidSchema.safeParse(adjustmentId);
+	if (!validation.success) {
+		throw new Error("Invalid adjustment ID format");
+	}
+
+	const adjustment = await db.query.cashflowAdjustments.findFirst({
+		where: and(
+			eq(cashflowAdjustments.id, adjustmentId),
+			isNotNull(cashflowAdjustments.scenarioId),
+		),
+	});
+	if (!adjustment?.scenarioId) throw new Error("Adjustment not found");
+	await assertScenarioInOrg(orgId, adjustment.scenarioId);
+
+	await db
+		.delete(cashflowAdjustments)
+		.where(eq(cashflowAdjustments.id, adjustmentId));
+	revalidatePath("/agents/cashflow");
+}
@@ -0,0 +1,113 @@
+/**
+ * Receipt date predictions for open receivables
+ *
+ * Each invoice is dated from how late the customer has paid before:
+ * - best / expected / worst = due date + 10th / 50th / 90th percentile days late
+ * - once an invoice is overdue, only past payments at least that late count,
+ *   so a 40-day-overdue invoice is predicted from invoices paid 40+ days late
+ * - customers with fewer than MIN_HISTORY paid invoices use the whole
+ *   organisation's history instead
+ *
+ * probability is the chance it is collected at all: of invoices that reached
+ * this age, the share paid rather than still open past STALE_DAYS overdue.
+ */
+
+export interface PaymentHistory {
+	// Days from due date to payment on paid invoices (negative = paid early)
+	daysLate: number[];
+	// Days overdue of invoices still open
+	openDaysOverdue: number[];
+}
+
+export interface ReceiptPrediction {
+	bestDate: Date;
+	expectedDate: Date;
+	worstDate: Date;
+	probability: number;
+}
+
+const MIN_HISTORY = 3;
+// Open this long past due with no payment counts against collection
+export const STALE_DAYS = 90;
+// Invoices overdue beyond anything in their history
+const BEYOND_HISTORY_DAYS = { best: 7, expected: 14, worst: 60 };
+const BEYOND_HISTORY_PROBABILITY = 0.5;
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function addDays(date: Date, days: number) {
+	return new Date(date.getTime() + days * DAY_MS);
+}
+
+function startOfDay(date: Date) {
+	const day = new Date(date);
+	day.setUTCHours(0, 0, 0, 0);
+	return day;
+}
+
+/**
+ * Nearest-rank percentile of an ascending list
+ */
+export function percentile(sorted: number[], p: number): number {
+	if (sorted.length === 0) return 0;
+	const index = Math.min(
+		sorted.length - 1,
+		Math.max(0, Math.ceil(p * sorted.length) - 1),
+	);
+	return sorted[index];
+}
+
+/**
+ * Predict when an open invoice will be paid
+ * @param dueDate - The invoice's due date
+ * @param customer - The customer's own history
+ * @param organisation - Every customer's history, used when the customer's is thin
+ */
+export function predictReceipt(
+	dueDate: Date,
+	customer: PaymentHistory,
+	organisation: PaymentHistory,
+	now: Date = new Date(),
+): ReceiptPrediction {
+	const today = startOfDay(now);
+	const due = startOfDay(dueDate);
+	const daysOverdue = Math.round((today.getTime() - due.getTime()) / DAY_MS);
+
+	const history =
+		customer.daysLate.length >= MIN_HISTORY ? customer : organisation;
+
+	// Without any payment history the due date is the best guess
+	if (history.daysLate.length === 0 && daysOverdue <= 0) {
+		return { bestDate: due, expectedDate: due, worstDate: due, probability: 1 };
+	}
+
+	const candidates = history.daysLate
+		.filter((d) => daysOverdue <= 0 || d >= daysOverdue)
+		.sort((a, b) => a - b);
+
+	if (candidates.length === 0) {
+		return {
+			bestDate: addDays(today, BEYOND_HISTORY_DAYS.best),
+			expectedDate: addDays(today, BEYOND_HISTORY_DAYS.expected),
+			worstDate: addDays(today, BEYOND_HISTORY_DAYS.worst),
+			probability: BEYOND_HISTORY_PROBABILITY,
+		};
+	}
+
+	const stale = history.openDaysOverdue.filter(
+		(d) => d >= Math.max(daysOverdue, STALE_DAYS),
+	).length;
+
+	// Never predict a receipt in the past
+	const dateAt = (p: number) => {
+		const date = addDays(due, percentile(candidates, p));
+		return date < today ? today : date;
+	};
+
+	return {
+		bestDate: dateAt(0.1),
+		expectedDate: dateAt(0.5),
+		worstDate: dateAt(0.9),
+		probability: candidates.length / (candidates.length + stale),
+	};
+}
@@ -1,95 +1,307 @@
 import "server-only";
 
 import { auth } from "@clerk/nextjs/server";
-import { and, eq, gte, lte, sql } from "drizzle-orm";
+import {
+	and,
+	eq,
+	gte,
+	inArray,
+	isNotNull,
+	isNull,
+	lte,
+	or,
+	sql,
+} from "drizzle-orm";
+import {
+	convertAmount,
+	excludeRelatedCustomers,
+	excludeRelatedSuppliers,
+	getConsolidationSummary,
+	getReportingScope,
+	type ReportingScope,
+	tenantCurrency,
+} from "@/lib/agents/consolidation";
 import { db } from "@/lib/db";
 import {
 	cashflowAdjustments,
+	xeroBankBalances,
 	xeroBills,
 	xeroInvoices,
 	xeroTransactions,
 } from "@/lib/db/schema";
+import { type PaymentHistory, predictReceipt } from "./payment-predictions";
+import { expandOccurrences } from "./recurrence";
+import {
+	applyScenario,
+	type ForecastFlows,
+	projectBalances,
+	summariseScenario,
+} from "./scenario-forecast";
+import { getScenarioRules } from "./scenarios";
+import { getMinimumCash } from "./settings";
+
+/**
+ * Converted amount expressions for every source the cashflow views sum.
+ * Bank transactions and adjustments are in their tenant's base currency.
+ */
+function cashflowAmounts(reporting: ReportingScope) {
+	return {
+		invoiceDue: convertAmount(
+			reporting,
+			xeroInvoices.amountDue,
+			xeroInvoices.currencyCode,
+		),
+		billDue: convertAmount(
+			reporting,
+			xeroBills.amountDue,
+			xeroBills.currencyCode,
+		),
+		transaction: convertAmount(
+			reporting,
+			xeroTransactions.amount,
+			tenantCurrency(reporting, xeroTransactions.xeroTenantId),
+		),
+		adjustment: convertAmount(
+			reporting,
+			cashflowAdjustments.amount,
+			tenantCurrency(reporting, cashflowAdjustments.xeroTenantId),
+		),
+	};
+}
 
-export async function getCashflowDashboardData(period: number = 30) {
-	const { orgId } = await auth();
-	if (!orgId) return null;
-
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
+/**
+ * Every open receivable with its predicted receipt dates, from the last
+ * year of payments by the same customer (or the whole organisation)
+ */
+export async function getPredictedReceipts(reporting: ReportingScope) {
+	const { tenantIds } = reporting;
+	const amounts = cashflowAmounts(reporting);
+
+	const yearAgo = new Date();
+	yearAgo.setFullYear(yearAgo.getFullYear() - 1);
+
+	const [open, paid] = await Promise.all([
+		db
+			.select({
+				id: xeroInvoices.id,
+				contactId: xeroInvoices.contactId,
+				dueDate: xeroInvoices.dueDate,
+				amount: amounts.invoiceDue,
+			})
+			.from(xeroInvoices)
+			.where(
+				and(
+					inArray(xeroInvoices.xeroTenantId, tenantIds),
+					eq(xeroInvoices.status, "AUTHORISED"),
+					sql`cast(${xeroInvoices.amountDue} as numeric) > 0`,
+					isNotNull(xeroInvoices.dueDate),
+					excludeRelatedCustomers(reporting, xeroInvoices.contactId),
+				),
 			),
-	});
-	if (!binding) return null;
-	const tenantId = binding.externalTenantId;
+		db
+			.select({
+				contactId: xeroInvoices.contactId,
+				daysLate: sql<number>`extract(day from date_trunc('day', ${xeroInvoices.fullyPaidOn}) - date_trunc('day', ${xeroInvoices.dueDate}))`,
+			})
+			.from(xeroInvoices)
+			.where(
+				and(
+					inArray(xeroInvoices.xeroTenantId, tenantIds),
+					eq(xeroInvoices.type, "ACCREC"),
+					eq(xeroInvoices.status, "PAID"),
+					isNotNull(xeroInvoices.dueDate),
+					gte(xeroInvoices.fullyPaidOn, yearAgo),
+				),
+			),
+	]);
+
+	const now = new Date();
+	const organisation: PaymentHistory = { daysLate: [], openDaysOverdue: [] };
+	const byContact = new Map<string, PaymentHistory>();
+	const historyFor = (contactId: string | null) => {
+		if (!contactId) return { daysLate: [], openDaysOverdue: [] };
+		let history = byContact.get(contactId);
+		if (!history) {
+			history = { daysLate: [], openDaysOverdue: [] };
+			byContact.set(contactId, history);
+		}
+		return history;
+	};
 
-	// Dates
-	const today = new Date();
-	const futureDate = new Date();
-	futureDate.setDate(today.getDate() + period);
+	for (const row of paid) {
+		const daysLate = Number(row.daysLate);
+		organisation.daysLate.push(daysLate);
+		historyFor(row.contactId).daysLate.push(daysLate);
+	}
 
-	// 1. Projected Debtors (Inflow)
-	const debtors = await db
+	for (const row of open) {
+		const daysOverdue = Math.floor(
+			(now.getTime() - (row.dueDate as Date).getTime()) / (1000 * 60 * 60 * 24),
+		);
+		if (daysOverdue > 0) {
+			organisation.openDaysOverdue.push(daysOverdue);
+			historyFor(row.contactId).openDaysOverdue.push(daysOverdue);
+		}
+	}
+
+	return open.map((row) => ({
+		id: row.id,
+		amount: Number(row.amount || 0),
+		dueDate: row.dueDate as Date,
+		...predictReceipt(
+			row.dueDate as Date,
+			historyFor(row.contactId),
+			organisation,
+			now,
+		),
+	}));
+}
+
+/**
+ * Today's cash across every bank account in scope, from the balances stored
+ * by the last sync. asOf is null when no balances have been synced.
+ */
+async function getOpeningBalance(reporting: ReportingScope) {
+	const [row] = await db
 		.select({
-			total: sql<number>`sum(cast(${xeroInvoices.amountDue} as numeric))`,
+			balance: sql<number>`sum(${convertAmount(
+				reporting,
+				xeroBankBalances.balance,
+				tenantCurrency(reporting, xeroBankBalances.xeroTenantId),
+			)})`,
+			asOf: sql<Date | null>`min(${xeroBankBalances.asOf})`,
 		})
-		.from(xeroInvoices)
+		.from(xeroBankBalances)
+		.where(inArray(xeroBankBalances.xeroTenantId, reporting.tenantIds));
+
+	return {
+		balance: Number(row?.balance || 0),
+		asOf: row?.asOf ? new Date(row.asOf) : null,
+	};
+}
+
+// Recurring adjustments are expanded this far ahead
+const FORECAST_HORIZON_DAYS = 90;
+
+/**
+ * Adjustments falling between from and to, with recurring ones expanded into
+ * an entry per occurrence. Only baseline adjustments unless scenario ids are
+ * given.
+ */
+async function getAdjustmentOccurrences(
+	reporting: ReportingScope,
+	from: Date,
+	to: Date,
+	scenarioIds: string[] = [],
+) {
+	const amounts = cashflowAmounts(reporting);
+
+	const rows = await db
+		.select({
+			id: cashflowAdjustments.id,
+			description: cashflowAdjustments.description,
+			amount: amounts.adjustment,
+			type: cashflowAdjustments.type,
+			date: cashflowAdjustments.date,
+			recurrence: cashflowAdjustments.recurrence,
+			recurrenceEndDate: cashflowAdjustments.recurrenceEndDate,
+			scenarioId: cashflowAdjustments.scenarioId,
+		})
+		.from(cashflowAdjustments)
 		.where(
 			and(
-				eq(xeroInvoices.xeroTenantId, tenantId),
-				eq(xeroInvoices.status, "AUTHORISED"),
-				gte(xeroInvoices.dueDate, today),
-				lte(xeroInvoices.dueDate, futureDate),
+				inArray(cashflowAdjustments.xeroTenantId, reporting.tenantIds),
+				scenarioIds.length > 0
+					? or(
+							isNull(cashflowAdjustments.scenarioId),
+							inArray(cashflowAdjustments.scenarioId, scenarioIds),
+						)
+					: isNull(cashflowAdjustments.scenarioId),
+				or(
+					and(
+						isNull(cashflowAdjustments.recurrence),
+						gte(cashflowAdjustments.date, from),
+						lte(cashflowAdjustments.date, to),
+					),
+					and(
+						isNotNull(cashflowAdjustments.recurrence),
+						lte(cashflowAdjustments.date, to),
+						or(
+							isNull(cashflowAdjustments.recurrenceEndDate),
+							gte(cashflowAdjustments.recurrenceEndDate, from),
+						),
+					),
+				),
 			),
 		);
-	const projectedDebtors = Number(debtors[0]?.total || 0);
+
+	return rows.flatMap((row) =>
+		expandOccurrences(row, from, to).map((date) => ({
+			id: row.id,
+			description: row.description,
+			amount: Number(row.amount || 0),
+			type: row.type,
+			scenarioId: row.scenarioId,
+			recurrence: row.recurrence,
+			date,
+		})),
+	);
+}
+
+export async function getCashflowDashboardData(period: number = 30) {
+	const { userId, orgId } = await auth();
+	if (!orgId) return null;
+
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return null;
+
+	const { tenantIds } = reporting;
+	const amounts = cashflowAmounts(reporting);
+
+	// Dates
+	const today = new Date();
+	const futureDate = new Date();
+	futureDate.setDate(today.getDate() + period);
+
+	// 1. Projected Debtors (Inflow), by predicted receipt date and weighted
+	// by the chance of collection
+	const receipts = await getPredictedReceipts(reporting);
+	const projectedDebtors = receipts
+		.filter((r) => r.expectedDate <= futureDate)
+		.reduce((sum, r) => sum + r.amount * r.probability, 0);
 
 	// 2. Projected Creditors (Outflow)
 	const creditors = await db
 		.select({
-			total: sql<number>`sum(cast(${xeroBills.amountDue} as numeric))`,
+			total: sql<number>`sum(${amounts.billDue})`,
 		})
 		.from(xeroBills)
 		.where(
 			and(
-				eq(xeroBills.xeroTenantId, tenantId),
+				inArray(xeroBills.xeroTenantId, tenantIds),
 				eq(xeroBills.status, "AUTHORISED"),
+				excludeRelatedSuppliers(reporting, xeroBills.supplierId),
 				gte(xeroBills.dueDate, today),
 				lte(xeroBills.dueDate, futureDate),
 			),
 		);
 	const projectedCreditors = Number(creditors[0]?.total || 0);
 
-	// 3. Projected Adjustments
-	const adjIn = await db
-		.select({ total: sql<number>`sum(amount)` })
-		.from(cashflowAdjustments)
-		.where(
-			and(
-				eq(cashflowAdjustments.xeroTenantId, tenantId),
-				gte(cashflowAdjustments.date, today),
-				lte(cashflowAdjustments.date, futureDate),
-				eq(cashflowAdjustments.type, "IN"),
-			),
-		);
-	const adjOut = await db
-		.select({ total: sql<number>`sum(amount)` })
-		.from(cashflowAdjustments)
-		.where(
-			and(
-				eq(cashflowAdjustments.xeroTenantId, tenantId),
-				gte(cashflowAdjustments.date, today),
-				lte(cashflowAdjustments.date, futureDate),
-				eq(cashflowAdjustments.type, "OUT"),
-			),
-		);
+	// 3. Projected Adjustments, with recurring ones expanded over the period
+	const adjustments = await getAdjustmentOccurrences(
+		reporting,
+		today,
+		futureDate,
+	);
+	const adjustmentTotal = (type: string) =>
+		adjustments
+			.filter((a) => a.type === type)
+			.reduce((sum, a) => sum + a.amount, 0);
 
 	const totalGainLoss =
 		projectedDebtors +
-		Number(adjIn[0]?.total || 0) -
-		(projectedCreditors + Number(adjOut[0]?.total || 0));
+		adjustmentTotal("IN") -
+		(projectedCreditors + adjustmentTotal("OUT"));
 
 	return {
 		summary: {
@@ -97,23 +309,19 @@ export async function getCashflowDashboardData(period: number = 30) {
 			creditorsOwing: projectedCreditors,
 			netCashflow: totalGainLoss,
 		},
+		consolidation: getConsolidationSummary(reporting),
 	};
 }
 
 export async function getCashflowChartData() {
-	const { orgId } = await auth();
-	if (!orgId) return [];
+	const { userId, orgId } = await auth();
+	if (!orgId) return null;
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
-	if (!binding) return [];
-	const tenantId = binding.externalTenantId;
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return null;
+
+	const { tenantIds } = reporting;
+	const amounts = cashflowAmounts(reporting);
 
 	// Historical (Last 90 days)
 	const ninetyDaysAgo = new Date();
@@ -123,7 +331,7 @@ export async function getCashflowChartData() {
 	const rawTransactions = await db
 		.select({
 			date: xeroTransactions.date,
-			amount: xeroTransactions.amount,
+			amount: amounts.transaction,
 			type: xeroTransactions.type,
 			source: xeroTransactions.source,
 			xeroId: xeroTransactions.xeroId,
@@ -131,7 +339,7 @@ export async function getCashflowChartData() {
 		.from(xeroTransactions)
 		.where(
 			and(
-				eq(xeroTransactions.xeroTenantId, tenantId),
+				inArray(xeroTransactions.xeroTenantId, tenantIds),
 				gte(xeroTransactions.date, ninetyDaysAgo),
 				lte(xeroTransactions.date, new Date()),
 			),
@@ -176,56 +384,34 @@ export async function getCashflowChartData() {
 	});
 
 	// Projected (Next 90 days)
-	// Future Invoices
-	const invoices = await db
-		.select({
-			date: sql<string>`to_char(${xeroInvoices.dueDate}, 'YYYY-MM-DD')`,
-			amount: sql<number>`sum(cast(${xeroInvoices.amountDue} as numeric))`,
-		})
-		.from(xeroInvoices)
-		.where(
-			and(
-				eq(xeroInvoices.xeroTenantId, tenantId),
-				eq(xeroInvoices.status, "AUTHORISED"),
-				gte(xeroInvoices.dueDate, new Date()),
-			),
-		)
-		.groupBy(sql`to_char(${xeroInvoices.dueDate}, 'YYYY-MM-DD')`);
+	// Open invoices, on the dates customers are predicted to pay them
+	const receipts = await getPredictedReceipts(reporting);
 
 	// Future Bills
 	const bills = await db
 		.select({
 			date: sql<string>`to_char(${xeroBills.dueDate}, 'YYYY-MM-DD')`,
-			amount: sql<number>`sum(cast(${xeroBills.amountDue} as numeric))`,
+			amount: sql<number>`sum(${amounts.billDue})`,
 		})
 		.from(xeroBills)
 		.where(
 			and(
-				eq(xeroBills.xeroTenantId, tenantId),
+				inArray(xeroBills.xeroTenantId, tenantIds),
 				eq(xeroBills.status, "AUTHORISED"),
+				excludeRelatedSuppliers(reporting, xeroBills.supplierId),
 				gte(xeroBills.dueDate, new Date()),
 			),
 		)
 		.groupBy(sql`to_char(${xeroBills.dueDate}, 'YYYY-MM-DD')`);
 
-	// Adjustments
-	const adjustments = await db
-		.select({
-			date: sql<string>`to_char(${cashflowAdjustments.date}, 'YYYY-MM-DD')`,
-			amount: sql<number>`sum(amount)`,
-			type: cashflowAdjustments.type,
-		})
-		.from(cashflowAdjustments)
-		.where(
-			and(
-				eq(cashflowAdjustments.xeroTenantId, tenantId),
-				gte(cashflowAdjustments.date, new Date()),
-			),
-		)
-		.groupBy(
-			sql`to_char(${cashflowAdjustments.date}, 'YYYY-MM-DD')`,
-			cashflowAdjustments.type,
-		);
+	// Adjustments, with recurring ones expanded over the forecast horizon
+	const horizon = new Date();
+	horizon.setDate(horizon.getDate() + FORECAST_HORIZON_DAYS);
+	const adjustments = await getAdjustmentOccurrences(
+		reporting,
+		new Date(),
+		horizon,
+	);
 
 	// Merge logic
 	const dataMap = new Map<
@@ -236,6 +422,12 @@ export async function getCashflowChartData() {
 			historicalOut: number;
 			projectedIn: number;
 			projectedOut: number;
+			// Cumulative predicted receipts from today, for the forecast band
+			receiptsBest: number | null;
+			receiptsExpected: number | null;
+			receiptsWorst: number | null;
+			// Projected bank balance at the end of each day from today
+			closingBalance: number | null;
 		}
 	>();
 
@@ -247,24 +439,56 @@ export async function getCashflowChartData() {
 			historicalOut: 0,
 			projectedIn: 0,
 			projectedOut: 0,
+			receiptsBest: null,
+			receiptsExpected: null,
+			receiptsWorst: null,
+			closingBalance: null,
 		};
 		entry.historicalIn = val.in;
 		entry.historicalOut = val.out;
 		dataMap.set(dateStr, entry);
 	});
 
-	// Fill Projected
-	invoices.forEach((i) => {
-		if (!i.date) return;
-		const entry = dataMap.get(i.date) || {
-			date: i.date,
+	// Fill Projected: expected receipts, weighted by the chance of collection
+	const receiptsByDay = new Map<
+		string,
+		{ best: number; expected: number; worst: number }
+	>();
+	const addReceipt = (
+		date: Date,
+		scenario: "best" | "expected" | "worst",
+		amount: number,
+	) => {
+		const dateStr = date.toISOString().split("T")[0];
+		const day = receiptsByDay.get(dateStr) || {
+			best: 0,
+			expected: 0,
+			worst: 0,
+		};
+		day[scenario] += amount;
+		receiptsByDay.set(dateStr, day);
+	};
+
+	receipts.forEach((r) => {
+		addReceipt(r.bestDate, "best", r.amount);
+		addReceipt(r.expectedDate, "expected", r.amount * r.probability);
+		addReceipt(r.worstDate, "worst", r.amount * r.probability);
+	});
+
+	receiptsByDay.forEach((day, dateStr) => {
+		const entry = dataMap.get(dateStr) || {
+			date: dateStr,
 			historicalIn: 0,
 			historicalOut: 0,
 			projectedIn: 0,
 			projectedOut: 0,
+			receiptsBest: null,
+			receiptsExpected: null,
+			receiptsWorst: null,
+			closingBalance: null,
 		};
-		entry.projectedIn += Number(i.amount);
-		dataMap.set(i.date, entry);
+		entry.projectedIn += day.expected;
+		dataMap.set(dateStr, entry);
 	});
 
 	bills.forEach((b) => {
@@ -275,44 +499,193 @@ export async function getCashflowChartData() {
 			historicalOut: 0,
 			projectedIn: 0,
 			projectedOut: 0,
+			receiptsBest: null,
+			receiptsExpected: null,
+			receiptsWorst: null,
+			closingBalance: null,
 		};
 		entry.projectedOut += Number(b.amount);
 		dataMap.set(b.date, entry);
 	});
 
 	adjustments.forEach((a) => {
-		if (!a.date) return;
-		const entry = dataMap.get(a.date) || {
-			date: a.date,
+		const dateStr = a.date.toISOString().split("T")[0];
+		const entry = dataMap.get(dateStr) || {
+			date: dateStr,
 			historicalIn: 0,
 			historicalOut: 0,
 			projectedIn: 0,
 			projectedOut: 0,
+			receiptsBest: null,
+			receiptsExpected: null,
+			receiptsWorst: null,
+			closingBalance: null,
 		};
-		if (a.type === "IN") entry.projectedIn += Number(a.amount);
-		else entry.projectedOut += Number(a.amount);
-		dataMap.set(a.date, entry);
+		if (a.type === "IN") entry.projectedIn += a.amount;
+		else entry.projectedOut += a.amount;
+		dataMap.set(dateStr, entry);
 	});
 
-	return Array.from(dataMap.values()).sort((a, b) =>
+	// The running balance starts today, even with nothing due
+	const todayStr = new Date().toISOString().split("T")[0];
+	if (!dataMap.has(todayStr)) {
+		dataMap.set(todayStr, {
+			date: todayStr,
+			historicalIn: 0,
+			historicalOut: 0,
+			projectedIn: 0,
+			projectedOut: 0,
+			receiptsBest: null,
+			receiptsExpected: null,
+			receiptsWorst: null,
+			closingBalance: null,
+		});
+	}
+
+	const points = Array.from(dataMap.values()).sort((a, b) =>
 		a.date.localeCompare(b.date),
 	);
+
+	// Running totals of the best, expected and worst receipts from today
+	const running = { best: 0, expected: 0, worst: 0 };
+	for (const point of points) {
+		if (point.date < todayStr) continue;
+		const day = receiptsByDay.get(point.date);
+		running.best += day?.best ?? 0;
+		running.expected += day?.expected ?? 0;
+		running.worst += day?.worst ?? 0;
+		point.receiptsBest = running.best;
+		point.receiptsExpected = running.expected;
+		point.receiptsWorst = running.worst;
+	}
+
+	// Running closing balance from today's bank balances, and the first day
+	// it falls below the org's minimum cash
+	const [opening, minimumCash] = await Promise.all([
+		getOpeningBalance(reporting),
+		getMinimumCash(orgId),
+	]);
+
+	let shortfall: { date: string; balance: number } | null = null;
+	if (opening.asOf) {
+		let balance = opening.balance;
+		for (const point of points) {
+			if (point.date < todayStr) continue;
+			balance += point.projectedIn - point.projectedOut;
+			point.closingBalance = balance;
+			if (!shortfall && minimumCash !== null && balance < minimumCash) {
+				shortfall = { date: point.date, balance };
+			}
+		}
+	}
+
+	return {
+		points,
+		openingBalance: opening.asOf ? opening.balance : null,
+		balanceAsOf: opening.asOf,
+		minimumCash,
+		shortfall,
+	};
+}
+
+/**
+ * Projected closing balance over the next 90 days for the baseline and each
+ * saved scenario, all from today's opening balance
+ */
+export async function getScenarioComparison() {
+	const { userId, orgId } = await auth();
+	if (!orgId) return null;
+
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return null;
+
+	const { tenantIds } = reporting;
+	const amounts = cashflowAmounts(reporting);
+	const today = new Date();
+
+	const [receipts, scenarios, opening] = await Promise.all([
+		getPredictedReceipts(reporting),
+		getScenarioRules(orgId),
+		getOpeningBalance(reporting),
+	]);
+	const scenarioIds = scenarios.map((s) => s.id);
+
+	const horizon = new Date();
+	horizon.setDate(horizon.getDate() + FORECAST_HORIZON_DAYS);
+
+	const [bills, adjustments] = await Promise.all([
+		db
+			.select({
+				amount: amounts.billDue,
+				date: xeroBills.dueDate,
+				supplierId: xeroBills.supplierId,
+			})
+			.from(xeroBills)
+			.where(
+				and(
+					inArray(xeroBills.xeroTenantId, tenantIds),
+					eq(xeroBills.status, "AUTHORISED"),
+					excludeRelatedSuppliers(reporting, xeroBills.supplierId),
+					gte(xeroBills.dueDate, today),
+				),
+			),
+		getAdjustmentOccurrences(reporting, today, horizon, scenarioIds),
+	]);
+
+	const adjustmentsFor = (scenarioId: string | null) =>
+		adjustments
+			.filter((a) => a.scenarioId === scenarioId)
+			.map((a) => ({ amount: a.amount, date: a.date, type: a.type }));
+
+	const baseline: ForecastFlows = {
+		receipts: receipts.map((r) => ({
+			amount: r.amount * r.probability,
+			date: r.expectedDate,
+		})),
+		bills: bills.map((b) => ({
+			amount: Number(b.amount || 0),
+			date: b.date as Date,
+			supplierId: b.supplierId,
+		})),
+		adjustments: adjustmentsFor(null),
+	};
+
+	// Without synced bank balances the projection is the net movement from zero
+	const openingBalance = opening.asOf ? opening.balance : 0;
+	const project = (id: string | null, name: string, flows: ForecastFlows) => {
+		const points = projectBalances(
+			flows,
+			openingBalance,
+			today,
+			FORECAST_HORIZON_DAYS,
+		);
+		return { id, name, points, summary: summariseScenario(flows, points) };
+	};
+
+	return {
+		openingBalance: opening.asOf ? opening.balance : null,
+		series: [
+			project(null, "Baseline", baseline),
+			...scenarios.map((scenario) =>
+				project(
+					scenario.id,
+					scenario.name,
+					applyScenario(baseline, scenario.rules, adjustmentsFor(scenario.id)),
+				),
+			),
+		],
+	};
 }
 
 export async function getCalendarEvents() {
-	const { orgId } = await auth();
+	const { userId, orgId } = await auth();
 	if (!orgId) return [];
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (t, { and, eq }) =>
-			and(
-				eq(t.clerkOrgId, orgId),
-				eq(t.status, "active"),
-				eq(t.provider, "xero"),
-			),
-	});
-	if (!binding) return [];
-	const tenantId = binding.externalTenantId;
+	const reporting = await getReportingScope(orgId, userId);
+	if (!reporting) return [];
+
+	const { tenantIds } = reporting;
+	const amounts = cashflowAmounts(reporting);
 
 	const today = new Date();
 
@@ -321,15 +694,16 @@ export async function getCalendarEvents() {
 		.select({
 			id: xeroInvoices.id,
 			date: xeroInvoices.dueDate,
-			amount: xeroInvoices.amountDue,
+			amount: amounts.invoiceDue,
 			title: sql<string>`'Invoice #' || ${xeroInvoices.xeroInvoiceId}`,
 			type: sql<string>`'IN'`,
 		})
 		.from(xeroInvoices)
 		.where(
 			and(
-				eq(xeroInvoices.xeroTenantId, tenantId),
+				inArray(xeroInvoices.xeroTenantId, tenantIds),
 				eq(xeroInvoices.status, "AUTHORISED"),
+				excludeRelatedCustomers(reporting, xeroInvoices.contactId),
 				gte(xeroInvoices.dueDate, today),
 			),
 		);
@@ -339,35 +713,32 @@ export async function getCalendarEvents() {
 		.select({
 			id: xeroBills.id,
 			date: xeroBills.dueDate,
-			amount: xeroBills.amountDue,
+			amount: amounts.billDue,
 			title: sql<string>`'Bill #' || ${xeroBills.xeroBillId}`,
 			type: sql<string>`'OUT'`,
 		})
 		.from(xeroBills)
 		.where(
 			and(
-				eq(xeroBills.xeroTenantId, tenantId),
+				inArray(xeroBills.xeroTenantId, tenantIds),
 				eq(xeroBills.status, "AUTHORISED"),
+				excludeRelatedSuppliers(reporting, xeroBills.supplierId),
 				gte(xeroBills.dueDate, today),
 			),
 		);
 
-	// Upcoming Adjustments
-	const adjEvents = await db
-		.select({
-			id: cashflowAdjustments.id,
-			date: cashflowAdjustments.date,
-			amount: cashflowAdjustments.amount,
-			title: cashflowAdjustments.description,
-			type: cashflowAdjustments.type,
-		})
-		.from(cashflowAdjustments)
-		.where(
-			and(
-				eq(cashflowAdjustments.xeroTenantId, tenantId),
-				gte(cashflowAdjustments.date, today),
-			),
-		);
+	// Upcoming Adjustments, an event per occurrence of recurring ones
+	const horizon = new Date();
+	horizon.setDate(horizon.getDate() + FORECAST_HORIZON_DAYS);
+	const adjEvents = (
+		await getAdjustmentOccurrences(reporting, today, horizon)
+	).map((a) => ({
+		id: a.recurrence ? `${a.id}:${a.date.toISOString().split("T")[0]}` : a.id,
+		date: a.date,
+		amount: a.amount,
+		title: a.description,
+		type: a.type,
+	}));
 
 	return [...arEvents, ...apEvents, ...adjEvents]
 		.map((e) => ({
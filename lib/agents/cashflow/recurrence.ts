@@ -0,0 +1,149 @@
+/**
+ * Recurring cashflow adjustments
+ *
+ * A recurring adjustment stores its first occurrence as its date and is
+ * expanded into occurrences when the forecast is built:
+ * - WEEKLY / FORTNIGHTLY: every 7 / 14 days from the first date
+ * - MONTHLY: the first date's day of the month, or the month's last day
+ *   when it is shorter (31st -> 30 Apr)
+ * - END_OF_MONTH: the last day of every month
+ * - QUARTERLY_BAS: the ATO quarterly BAS due dates (28 Oct, 28 Feb, 28 Apr,
+ *   28 Jul)
+ *
+ * All dates are UTC days, matching the forecast's YYYY-MM-DD keys.
+ */
+
+export const RECURRENCES = [
+	"WEEKLY",
+	"FORTNIGHTLY",
+	"MONTHLY",
+	"END_OF_MONTH",
+	"QUARTERLY_BAS",
+] as const;
+
+export type Recurrence = (typeof RECURRENCES)[number];
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+	WEEKLY: "Weekly",
+	FORTNIGHTLY: "Fortnightly",
+	MONTHLY: "Monthly",
+	END_OF_MONTH: "End of month",
+	QUARTERLY_BAS: "Quarterly BAS",
+};
+
+// Day and month (0-based) each quarterly BAS falls due
+const BAS_DUE_DATES = [
+	{ month: 1, day: 28 },
+	{ month: 3, day: 28 },
+	{ month: 6, day: 28 },
+	{ month: 9, day: 28 },
+];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+// Stops a bad rule from expanding forever
+const MAX_OCCURRENCES = 1000;
+
+export interface RecurringSchedule {
+	date: Date;
+	recurrence: string | null;
+	recurrenceEndDate: Date | null;
+}
+
+function startOfDay(date: Date) {
+	const day = new Date(date);
+	day.setUTCHours(0, 0, 0, 0);
+	return day;
+}
+
+function daysInMonth(year: number, month: number) {
+	return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+export function isRecurrence(value: string | null): value is Recurrence {
+	return RECURRENCES.includes(value as Recurrence);
+}
+
+/**
+ * The nth date a schedule produces (0 is the first on or after its start)
+ */
+function nthOccurrence(start: Date, recurrence: Recurrence, n: number): Date {
+	const year = start.getUTCFullYear();
+	const month = start.getUTCMonth();
+
+	switch (recurrence) {
+		case "WEEKLY":
+			return new Date(start.getTime() + n * 7 * DAY_MS);
+		case "FORTNIGHTLY":
+			return new Date(start.getTime() + n * 14 * DAY_MS);
+		case "MONTHLY": {
+			const target = new Date(Date.UTC(year, month + n, 1));
+			const day = Math.min(
+				start.getUTCDate(),
+				daysInMonth(target.getUTCFullYear(), target.getUTCMonth()),
+			);
+			target.setUTCDate(day);
+			return target;
+		}
+		case "END_OF_MONTH": {
+			const target = new Date(Date.UTC(year, month + n, 1));
+			target.setUTCDate(
+				daysInMonth(target.getUTCFullYear(), target.getUTCMonth()),
+			);
+			return target;
+		}
+		case "QUARTERLY_BAS": {
+			// Index of the first due date on or after the start
+			let first = BAS_DUE_DATES.findIndex(
+				(due) =>
+					due.month > month ||
+					(due.month === month && due.day >= start.getUTCDate()),
+			);
+			let firstYear = year;
+			if (first === -1) {
+				first = 0;
+				firstYear++;
+			}
+			const index = first + n;
+			const due = BAS_DUE_DATES[index % BAS_DUE_DATES.length];
+			return new Date(
+				Date.UTC(
+					firstYear + Math.floor(index / BAS_DUE_DATES.length),
+					due.month,
+					due.day,
+				),
+			);
+		}
+	}
+}
+
+/**
+ * Every date an adjustment falls on between from and to (inclusive). One-off
+ * adjustments give their own date when it is in range.
+ */
+export function expandOccurrences(
+	schedule: RecurringSchedule,
+	from: Date,
+	to: Date,
+): Date[] {
+	const start = startOfDay(schedule.date);
+	const rangeStart = startOfDay(from);
+	const rangeEnd = startOfDay(to);
+
+	if (!isRecurrence(schedule.recurrence)) {
+		return start >= rangeStart && start <= rangeEnd ? [start] : [];
+	}
+
+	const end =
+		schedule.recurrenceEndDate &&
+		startOfDay(schedule.recurrenceEndDate) < rangeEnd
+			? startOfDay(schedule.recurrenceEndDate)
+			: rangeEnd;
+
+	const dates: Date[] = [];
+	for (let n = 0; n < MAX_OCCURRENCES; n++) {
+		const date = nthOccurrence(start, schedule.recurrence, n);
+		if (date > end) break;
+		if (date >= rangeStart) dates.push(date);
+	}
+	return dates;
+}
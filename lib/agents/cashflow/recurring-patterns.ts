@@ -0,0 +1,188 @@
+/**
+ * Recurring transaction detection for cashflow suggestions
+ *
+ * Transactions are clustered by direction and counterparty (the description
+ * with reference numbers and dates stripped). A cluster is recurring when it
+ * has at least MIN_OCCURRENCES payments whose median gap matches one of the
+ * adjustment recurrences. Confidence is the share of gaps that match that
+ * interval, discounted when the amounts vary.
+ *
+ * Quarterly patterns are taken to follow the BAS calendar. The model only
+ * names the patterns found here; it never decides what is recurring.
+ */
+
+import { expandOccurrences, type Recurrence } from "./recurrence";
+
+export interface PatternTransaction {
+	id: string;
+	date: Date;
+	amount: number;
+	type: string; // SPEND, RECEIVE
+	description: string | null;
+}
+
+export interface RecurringPattern {
+	id: string;
+	// Most common raw description in the cluster
+	description: string;
+	type: "IN" | "OUT";
+	// Median amount
+	amount: number;
+	recurrence: Recurrence;
+	nextDate: Date;
+	confidence: number;
+	transactions: PatternTransaction[];
+}
+
+const MIN_OCCURRENCES = 3;
+
+// Median gap in days each recurrence accepts, and how far a single gap may
+// stray from the recurrence's nominal interval
+const INTERVALS: {
+	recurrence: Recurrence;
+	min: number;
+	max: number;
+	days: number;
+	tolerance: number;
+}[] = [
+	{ recurrence: "WEEKLY", min: 6, max: 8, days: 7, tolerance: 2 },
+	{ recurrence: "FORTNIGHTLY", min: 13, max: 15, days: 14, tolerance: 3 },
+	{ recurrence: "MONTHLY", min: 27, max: 33, days: 30.4, tolerance: 5 },
+	{ recurrence: "QUARTERLY_BAS", min: 85, max: 95, days: 91, tolerance: 10 },
+];
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const MONTH_NAMES =
+	/\b(jan|january|feb|february|mar|march|apr|april|may|jun|june|jul|july|aug|august|sep|sept|september|oct|october|nov|november|dec|december)\b/g;
+
+/**
+ * The counterparty part of a bank description: "Rent INV-1042 Jan 2026"
+ * and "RENT inv-1057 Feb 2026" both become "rent"
+ */
+export function normaliseDescription(description: string | null): string {
+	return (description ?? "")
+		.toLowerCase()
+		.replace(MONTH_NAMES, " ")
+		.replace(/\b[\w-]*\d[\w/-]*/g, " ")
+		.replace(/[^a-z&]+/g, " ")
+		.trim()
+		.replace(/\s+/g, " ");
+}
+
+function median(values: number[]) {
+	const sorted = [...values].sort((a, b) => a - b);
+	const mid = Math.floor(sorted.length / 2);
+	return sorted.length % 2 === 0
+		? (sorted[mid - 1] + sorted[mid]) / 2
+		: sorted[mid];
+}
+
+function isLastDayOfMonth(date: Date) {
+	const next = new Date(date.getTime() + DAY_MS);
+	return next.getUTCDate() === 1;
+}
+
+function mostCommon(values: string[]) {
+	const counts = new Map<string, number>();
+	for (const value of values) counts.set(value, (counts.get(value) ?? 0) + 1);
+	return [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+}
+
+function classify(dates: Date[], medianGap: number): Recurrence | null {
+	const interval = INTERVALS.find(
+		(i) => medianGap >= i.min && medianGap <= i.max,
+	);
+	if (!interval) return null;
+
+	if (interval.recurrence === "MONTHLY" && dates.every(isLastDayOfMonth)) {
+		return "END_OF_MONTH";
+	}
+	return interval.recurrence;
+}
+
+/**
+ * Recurring patterns in a set of transactions, most confident first
+ */
+export function detectRecurringPatterns(
+	transactions: PatternTransaction[],
+	now: Date = new Date(),
+): RecurringPattern[] {
+	const clusters = new Map<string, PatternTransaction[]>();
+	for (const t of transactions) {
+		const counterparty = normaliseDescription(t.description);
+		if (!counterparty || t.amount <= 0) continue;
+		const key = `${t.type}:${counterparty}`;
+		const cluster = clusters.get(key) ?? [];
+		cluster.push(t);
+		clusters.set(key, cluster);
+	}
+
+	const patterns: RecurringPattern[] = [];
+	for (const [key, cluster] of clusters) {
+		if (cluster.length < MIN_OCCURRENCES) continue;
+
+		const sorted = [...cluster].sort(
+			(a, b) => a.date.getTime() - b.date.getTime(),
+		);
+		const gaps = sorted
+			.slice(1)
+			.map((t, i) => (t.date.getTime() - sorted[i].date.getTime()) / DAY_MS);
+		const medianGap = median(gaps);
+		const recurrence = classify(
+			sorted.map((t) => t.date),
+			medianGap,
+		);
+		if (!recurrence) continue;
+
+		const interval = INTERVALS.find(
+			(i) =>
+				i.recurrence === recurrence ||
+				(recurrence === "END_OF_MONTH" && i.recurrence === "MONTHLY"),
+		);
+		if (!interval) continue;
+
+		const regularity =
+			gaps.filter((gap) => Math.abs(gap - interval.days) <= interval.tolerance)
+				.length / gaps.length;
+
+		const amounts = sorted.map((t) => t.amount);
+		const amount = median(amounts);
+		const spread =
+			amounts.reduce((sum, a) => sum + Math.abs(a - amount), 0) /
+			amounts.length /
+			amount;
+		const confidence =
+			Math.round(regularity * Math.max(0, 1 - spread) * 100) / 100;
+
+		// Stopped: nothing for more than two intervals
+		const last = sorted[sorted.length - 1];
+		if (
+			(now.getTime() - last.date.getTime()) / DAY_MS >
+			interval.days * 2 + interval.tolerance
+		) {
+			continue;
+		}
+
+		// The first occurrence after the last payment that is not in the past
+		const [nextDate] = expandOccurrences(
+			{ date: last.date, recurrence, recurrenceEndDate: null },
+			new Date(Math.max(now.getTime(), last.date.getTime() + DAY_MS)),
+			new Date(now.getTime() + 200 * DAY_MS),
+		);
+		if (!nextDate) continue;
+
+		patterns.push({
+			id: key,
+			description: mostCommon(sorted.map((t) => t.description ?? "")),
+			type: sorted[0].type === "RECEIVE" ? "IN" : "OUT",
+			amount,
+			recurrence,
+			nextDate,
+			confidence,
+			transactions: sorted,
+		});
+	}
+
+	return patterns.sort((a, b) => b.confidence - a.confidence);
+}
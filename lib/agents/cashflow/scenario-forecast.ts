@@ -0,0 +1,141 @@
+/**
+ * What-if scenario forecasts
+ *
+ * A scenario is the baseline forecast with its rules applied and its own
+ * adjustments added on top:
+ * - DELAY_RECEIVABLES moves every expected receipt out by N days
+ * - CUT_SUPPLIER_BILLS takes a percentage off one supplier's open bills
+ *
+ * Every scenario is projected from the same opening balance so the closing
+ * balances can be compared day by day against the baseline.
+ */
+
+export type ScenarioRule =
+	| { type: "DELAY_RECEIVABLES"; days: number }
+	| { type: "CUT_SUPPLIER_BILLS"; supplierId: string; percent: number };
+
+export interface ForecastFlows {
+	// Expected receipts, already weighted by the chance of collection
+	receipts: { amount: number; date: Date }[];
+	bills: { amount: number; date: Date; supplierId: string | null }[];
+	adjustments: { amount: number; date: Date; type: string }[];
+}
+
+export interface BalancePoint {
+	date: string;
+	balance: number;
+}
+
+export interface ScenarioSummary {
+	closingBalance: number;
+	lowest: BalancePoint | null;
+	totalIn: number;
+	totalOut: number;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function dateKey(date: Date) {
+	return date.toISOString().split("T")[0];
+}
+
+/**
+ * The baseline flows with a scenario's rules and adjustments applied
+ */
+export function applyScenario(
+	baseline: ForecastFlows,
+	rules: ScenarioRule[],
+	adjustments: ForecastFlows["adjustments"] = [],
+): ForecastFlows {
+	let { receipts, bills } = baseline;
+
+	for (const rule of rules) {
+		if (rule.type === "DELAY_RECEIVABLES") {
+			receipts = receipts.map((r) => ({
+				...r,
+				date: new Date(r.date.getTime() + rule.days * DAY_MS),
+			}));
+		} else {
+			const factor = Math.max(0, 1 - rule.percent / 100);
+			bills = bills.map((b) =>
+				b.supplierId === rule.supplierId
+					? { ...b, amount: b.amount * factor }
+					: b,
+			);
+		}
+	}
+
+	return {
+		receipts,
+		bills,
+		adjustments: [...baseline.adjustments, ...adjustments],
+	};
+}
+
+/**
+ * Closing balance at the end of each day from `from` for `days` days.
+ * Flows dated before `from` land on the first day; flows after the last
+ * day are left out.
+ */
+export function projectBalances(
+	flows: ForecastFlows,
+	openingBalance: number,
+	from: Date,
+	days: number,
+): BalancePoint[] {
+	const start = dateKey(from);
+	const net = new Map<string, number>();
+	const add = (date: Date, amount: number) => {
+		const key = dateKey(date) < start ? start : dateKey(date);
+		net.set(key, (net.get(key) ?? 0) + amount);
+	};
+
+	for (const r of flows.receipts) add(r.date, r.amount);
+	for (const b of flows.bills) add(b.date, -b.amount);
+	for (const a of flows.adjustments) {
+		add(a.date, a.type === "IN" ? a.amount : -a.amount);
+	}
+
+	const points: BalancePoint[] = [];
+	let balance = openingBalance;
+	for (let i = 0; i < days; i++) {
+		const date = dateKey(new Date(from.getTime() + i * DAY_MS));
+		balance += net.get(date) ?? 0;
+		points.push({ date, balance });
+	}
+	return points;
+}
+
+/**
+ * Totals and the low point of a projection, for comparing scenarios
+ */
+export function summariseScenario(
+	flows: ForecastFlows,
+	points: BalancePoint[],
+): ScenarioSummary {
+	const last = points.at(-1)?.date;
+	const within = (date: Date) => !last || dateKey(date) <= last;
+
+	let lowest: BalancePoint | null = null;
+	for (const point of points) {
+		if (!lowest || point.balance < lowest.balance) lowest = point;
+	}
+
+	const adjustmentTotal = (type: string) =>
+		flows.adjustments
+			.filter((a) => a.type === type && within(a.date))
+			.reduce((sum, a) => sum + a.amount, 0);
+
+	return {
+		closingBalance: points.at(-1)?.balance ?? 0,
+		lowest,
+		totalIn:
+			flows.receipts
+				.filter((r) => within(r.date))
+				.reduce((sum, r) => sum + r.amount, 0) + adjustmentTotal("IN"),
+		totalOut:
+			flows.bills
+				.filter((b) => within(b.date))
+				.reduce((sum, b) => sum + b.amount, 0) + adjustmentTotal("OUT"),
+	};
+}
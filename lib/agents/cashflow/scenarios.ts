@@ -0,0 +1,257 @@
+import "server-only";
+
+import { and, asc, desc, eq, inArray } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+	type CashflowScenario,
+	type CashflowScenarioRule,
+	cashflowAdjustments,
+	cashflowScenarioRules,
+	cashflowScenarios,
+	xeroSuppliers,
+} from "@/lib/db/schema";
+import { listActiveXeroBindings } from "@/lib/integrations/xero/tenant-scope";
+import type { ScenarioRule } from "./scenario-forecast";
+
+/**
+ * Saved what-if scenarios. Scenarios belong to the Clerk org; their
+ * adjustments live in cashflow_adjustments with a scenario id so the
+ * baseline forecast can leave them out.
+ */
+
+async function getScenarioInOrg(orgId: string, scenarioId: string) {
+	const scenario = await db.query.cashflowScenarios.findFirst({
+		where: and(
+			eq(cashflowScenarios.id, scenarioId),
+			eq(cashflowScenarios.clerkOrgId, orgId),
+		),
+	});
+	return scenario ?? null;
+}
+
+/**
+ * Stored rule rows as the rules the forecast applies; incomplete rows are
+ * skipped
+ */
+export function toScenarioRules(rows: CashflowScenarioRule[]): ScenarioRule[] {
+	return rows.flatMap((row): ScenarioRule[] => {
+		if (row.type === "DELAY_RECEIVABLES" && row.days !== null) {
+			return [{ type: "DELAY_RECEIVABLES", days: row.days }];
+		}
+		if (
+			row.type === "CUT_SUPPLIER_BILLS" &&
+			row.supplierId &&
+			row.percent !== null
+		) {
+			return [
+				{
+					type: "CUT_SUPPLIER_BILLS",
+					supplierId: row.supplierId,
+					percent: Number(row.percent),
+				},
+			];
+		}
+		return [];
+	});
+}
+
+/**
+ * Every scenario in the org with its rules and adjustments, oldest first
+ */
+export async function listScenarios(orgId: string) {
+	const scenarios = await db
+		.select()
+		.from(cashflowScenarios)
+		.where(eq(cashflowScenarios.clerkOrgId, orgId))
+		.orderBy(asc(cashflowScenarios.createdAt));
+	if (scenarios.length === 0) return [];
+
+	const scenarioIds = scenarios.map((s) => s.id);
+	const [rules, adjustments] = await Promise.all([
+		db
+			.select({
+				rule: cashflowScenarioRules,
+				supplierName: xeroSuppliers.name,
+			})
+			.from(cashflowScenarioRules)
+			.leftJoin(
+				xeroSuppliers,
+				eq(cashflowScenarioRules.supplierId, xeroSuppliers.id),
+			)
+			.where(inArray(cashflowScenarioRules.scenarioId, scenarioIds))
+			.orderBy(asc(cashflowScenarioRules.createdAt)),
+		db
+			.select()
+			.from(cashflowAdjustments)
+			.where(inArray(cashflowAdjustments.scenarioId, scenarioIds))
+			.orderBy(asc(cashflowAdjustments.date)),
+	]);
+
+	return scenarios.map((scenario) => ({
+		...scenario,
+		rules: rules
+			.filter((r) => r.rule.scenarioId === scenario.id)
+			.map((r) => ({
+				...r.rule,
+				percent: r.rule.percent === null ? null : Number(r.rule.percent),
+				supplierName: r.supplierName,
+			})),
+		adjustments: adjustments
+			.filter((a) => a.scenarioId === scenario.id)
+			.map((a) => ({ ...a, amount: Number(a.amount) })),
+	}));
+}
+
+export async function createScenario({
+	orgId,
+	userId,
+	name,
+	description,
+}: {
+	orgId: string;
+	userId: string;
+	name: string;
+	description?: string;
+}): Promise<CashflowScenario> {
+	const [scenario] = await db
+		.insert(cashflowScenarios)
+		.values({
+			clerkOrgId: orgId,
+			name,
+			description: description || null,
+			createdByClerkUserId: userId,
+		})
+		.returning();
+
+	return scenario;
+}
+
+/**
+ * Deletes the scenario along with its rules and adjustments
+ */
+export async function deleteScenario(orgId: string, scenarioId: string) {
+	const [scenario] = await db
+		.delete(cashflowScenarios)
+		.where(
+			and(
+				eq(cashflowScenarios.id, scenarioId),
+				eq(cashflowScenarios.clerkOrgId, orgId),
+			),
+		)
+		.returning();
+
+	if (!scenario) throw new Error("Scenario not found");
+}
+
+export async function addScenarioRule(
+	orgId: string,
+	scenarioId: string,
+	rule: ScenarioRule,
+): Promise<CashflowScenarioRule> {
+	const scenario = await getScenarioInOrg(orgId, scenarioId);
+	if (!scenario) throw new Error("Scenario not found");
+
+	if (rule.type === "CUT_SUPPLIER_BILLS") {
+		const bindings = await listActiveXeroBindings(orgId);
+		const supplier = await db.query.xeroSuppliers.findFirst({
+			where: and(
+				eq(xeroSuppliers.id, rule.supplierId),
+				inArray(
+					xeroSuppliers.xeroTenantId,
+					bindings.map((b) => b.externalTenantId),
+				),
+			),
+		});
+		if (!supplier) throw new Error("Supplier not found");
+	}
+
+	const [row] = await db
+		.insert(cashflowScenarioRules)
+		.values(
+			rule.type === "DELAY_RECEIVABLES"
+				? { scenarioId, type: rule.type, days: rule.days }
+				: {
+						scenarioId,
+						type: rule.type,
+						supplierId: rule.supplierId,
+						percent: rule.percent.toFixed(2),
+					},
+		)
+		.returning();
+
+	await db
+		.update(cashflowScenarios)
+		.set({ updatedAt: new Date() })
+		.where(eq(cashflowScenarios.id, scenarioId));
+
+	return row;
+}
+
+export async function removeScenarioRule(orgId: string, ruleId: string) {
+	const rule = await db.query.cashflowScenarioRules.findFirst({
+		where: eq(cashflowScenarioRules.id, ruleId),
+	});
+	const scenario = rule ? await getScenarioInOrg(orgId, rule.scenarioId) : null;
+	if (!rule || !scenario) throw new Error("Rule not found");
+
+	await db
+		.delete(cashflowScenarioRules)
+		.where(eq(cashflowScenarioRules.id, ruleId));
+}
+
+/**
+ * Checks a scenario id belongs to the org before adjustments are added to it
+ */
+export async function assertScenarioInOrg(orgId: string, scenarioId: string) {
+	const scenario = await getScenarioInOrg(orgId, scenarioId);
+	if (!scenario) throw new Error("Scenario not found");
+}
+
+/**
+ * Active suppliers across the org's Xero organisations, for picking the
+ * supplier a rule applies to
+ */
+export async function listScenarioSuppliers(orgId: string) {
+	const bindings = await listActiveXeroBindings(orgId);
+	const tenantIds = bindings.map((b) => b.externalTenantId);
+	if (tenantIds.length === 0) return [];
+
+	return await db
+		.select({ id: xeroSuppliers.id, name: xeroSuppliers.name })
+		.from(xeroSuppliers)
+		.where(
+			and(
+				inArray(xeroSuppliers.xeroTenantId, tenantIds),
+				eq(xeroSuppliers.contactStatus, "ACTIVE"),
+			),
+		)
+		.orderBy(asc(xeroSuppliers.name));
+}
+
+/**
+ * The scenarios to compare with their forecast rules
+ */
+export async function getScenarioRules(orgId: string) {
+	const scenarios = await db
+		.select()
+		.from(cashflowScenarios)
+		.where(eq(cashflowScenarios.clerkOrgId, orgId))
+		.orderBy(desc(cashflowScenarios.updatedAt));
+	if (scenarios.length === 0) return [];
+
+	const rules = await db
+		.select()
+		.from(cashflowScenarioRules)
+		.where(
+			inArray(
+				cashflowScenarioRules.scenarioId,
+				scenarios.map((s) => s.id),
+			),
+		);
+
+	return scenarios.map((scenario) => ({
+		id: scenario.id,
+		name: scenario.name,
+		rules: toScenarioRules(rules.filter((r) => r.scenarioId === scenario.id)),
+	}));
+}
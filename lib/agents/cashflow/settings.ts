@@ -0,0 +1,50 @@
+import "server-only";
+
+import { eq } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { cashflowSettings } from "@/lib/db/schema";
+
+/**
+ * The org's minimum cash threshold, or null when none is set
+ */
+export async function getMinimumCash(orgId: string): Promise<number | null> {
+	const [settings] = await db
+		.select({ minimumCash: cashflowSettings.minimumCash })
+		.from(cashflowSettings)
+		.where(eq(cashflowSettings.clerkOrgId, orgId));
+
+	return settings ? Number(settings.minimumCash) : null;
+}
+
+/**
+ * Set the org's minimum cash threshold; null clears it
+ */
+export async function saveMinimumCash(
+	orgId: string,
+	userId: string,
+	minimumCash: number | null,
+) {
+	if (minimumCash === null) {
+		await db
+			.delete(cashflowSettings)
+			.where(eq(cashflowSettings.clerkOrgId, orgId));
+		return;
+	}
+
+	const value = minimumCash.toFixed(2);
+	await db
+		.insert(cashflowSettings)
+		.values({
+			clerkOrgId: orgId,
+			minimumCash: value,
+			updatedByClerkUserId: userId,
+		})
+		.onConflictDoUpdate({
+			target: cashflowSettings.clerkOrgId,
+			set: {
+				minimumCash: value,
+				updatedByClerkUserId: userId,
+				updatedAt: new Date(),
+			},
+		});
+}
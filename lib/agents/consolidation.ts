@@ -0,0 +1,223 @@
+import "server-only";
+
+import {
+	type AnyColumn,
+	and,
+	eq,
+	notExists,
+	type SQL,
+	type SQLWrapper,
+	sql,
+} from "drizzle-orm";
+import { db } from "@/lib/db";
+import { getUserSettingsByUserId } from "@/lib/db/queries";
+import { xeroContacts, xeroSuppliers } from "@/lib/db/schema";
+import { getXeroTenantScope } from "@/lib/integrations/xero/tenant-scope";
+
+/**
+ * Reporting view shared by the AR, AP and cashflow dashboards.
+ *
+ * For a single Xero organisation amounts are reported as stored. In the
+ * consolidated view every tenant is summed, amounts are converted into the
+ * user's base currency and, if the user opts in, balances with contacts
+ * flagged as related entities are eliminated.
+ */
+
+// ECB reference rates, no API key needed. Override to use another provider
+// with the same response shape.
+const FX_RATES_URL =
+	process.env.FX_RATES_URL || "https://api.frankfurter.app/latest";
+const FX_RATES_REVALIDATE_SECONDS = 60 * 60 * 6;
+
+export interface ReportingScope {
+	tenantIds: string[];
+	consolidated: boolean;
+	currency: string | null; // Reporting currency; null when amounts are as stored
+	eliminateIntercompany: boolean;
+	rates: Map<string, number>; // Currency code -> multiplier into `currency`
+	ratesDate: string | null;
+	tenantCurrencies: Map<string, string>; // Xero tenant id -> base currency
+}
+
+/**
+ * What the dashboards show about the consolidated view
+ */
+export interface ConsolidationSummary {
+	organisationCount: number;
+	currency: string;
+	ratesDate: string | null; // null when rates were unavailable
+	eliminateIntercompany: boolean;
+}
+
+interface ExchangeRatesResponse {
+	date?: string;
+	rates?: Record<string, number>;
+}
+
+async function getExchangeRates(
+	currency: string,
+): Promise<{ rates: Map<string, number>; date: string | null }> {
+	const rates = new Map<string, number>([[currency, 1]]);
+
+	try {
+		const response = await fetch(`${FX_RATES_URL}?from=${currency}`, {
+			next: { revalidate: FX_RATES_REVALIDATE_SECONDS },
+		});
+		if (!response.ok) {
+			throw new Error(`Exchange rate lookup failed (${response.status})`);
+		}
+
+		const data = (await response.json()) as ExchangeRatesResponse;
+		// Quoted as units of each currency per one unit of ours; invert to convert back
+		for (const [code, rate] of Object.entries(data.rates ?? {})) {
+			if (rate > 0) rates.set(code, 1 / rate);
+		}
+		return { rates, date: data.date ?? null };
+	} catch (error) {
+		console.warn(
+			`[Consolidation] Exchange rates unavailable for ${currency}`,
+			error,
+		);
+		return { rates, date: null };
+	}
+}
+
+export async function getReportingScope(
+	orgId: string,
+	userId: string | null,
+): Promise<ReportingScope | null> {
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) return null;
+
+	const tenantIds = scope.bindings.map((b) => b.externalTenantId);
+
+	if (!scope.consolidated) {
+		return {
+			tenantIds,
+			consolidated: false,
+			currency: null,
+			eliminateIntercompany: false,
+			rates: new Map(),
+			ratesDate: null,
+			tenantCurrencies: new Map(),
+		};
+	}
+
+	const settings = userId ? await getUserSettingsByUserId({ userId }) : null;
+	const currency = settings?.baseCurrency || "AUD";
+	const { rates, date } = await getExchangeRates(currency);
+
+	const tenantCurrencies = new Map<string, string>();
+	for (const binding of scope.bindings) {
+		if (binding.baseCurrency) {
+			tenantCurrencies.set(binding.externalTenantId, binding.baseCurrency);
+		}
+	}
+
+	return {
+		tenantIds,
+		consolidated: true,
+		currency,
+		eliminateIntercompany: settings?.eliminateIntercompany ?? false,
+		rates,
+		ratesDate: date,
+		tenantCurrencies,
+	};
+}
+
+export function getConsolidationSummary(
+	reporting: ReportingScope,
+): ConsolidationSummary | null {
+	if (!reporting.consolidated || !reporting.currency) return null;
+
+	return {
+		organisationCount: reporting.tenantIds.length,
+		currency: reporting.currency,
+		ratesDate: reporting.ratesDate,
+		eliminateIntercompany: reporting.eliminateIntercompany,
+	};
+}
+
+/**
+ * `amount` as numeric, converted from `currency` into the reporting currency.
+ * Unknown currencies (and a failed rate lookup) are left unconverted.
+ */
+export function convertAmount(
+	reporting: ReportingScope,
+	amount: AnyColumn | SQLWrapper,
+	currency: AnyColumn | SQLWrapper,
+): SQL {
+	const value = sql`cast(${amount} as numeric)`;
+	if (!reporting.consolidated || reporting.rates.size <= 1) return value;
+
+	const cases = Array.from(
+		reporting.rates,
+		([code, rate]) => sql`when ${code} then ${rate}::numeric`,
+	);
+	return sql`(${value} * case ${currency} ${sql.join(cases, sql` `)} else 1 end)`;
+}
+
+/**
+ * Base currency of the tenant a row belongs to, for amounts Xero gives us
+ * without a currency (bank transactions, cashflow adjustments)
+ */
+export function tenantCurrency(
+	reporting: ReportingScope,
+	tenantId: AnyColumn,
+): SQL {
+	if (reporting.tenantCurrencies.size === 0) return sql`null`;
+
+	const cases = Array.from(
+		reporting.tenantCurrencies,
+		([id, code]) => sql`when ${id} then ${code}`,
+	);
+	return sql`case ${tenantId} ${sql.join(cases, sql` `)} end`;
+}
+
+/**
+ * Excludes invoices raised to related-entity customers when eliminating
+ */
+export function excludeRelatedCustomers(
+	reporting: ReportingScope,
+	contactId: AnyColumn,
+): SQL | undefined {
+	if (!reporting.consolidated || !reporting.eliminateIntercompany) {
+		return undefined;
+	}
+
+	return notExists(
+		db
+			.select({ id: xeroContacts.id })
+			.from(xeroContacts)
+			.where(
+				and(
+					eq(xeroContacts.id, contactId),
+					eq(xeroContacts.isRelatedEntity, true),
+				),
+			),
+	);
+}
+
+/**
+ * Excludes bills from related-entity suppliers when eliminating
+ */
+export function excludeRelatedSuppliers(
+	reporting: ReportingScope,
+	supplierId: AnyColumn,
+): SQL | undefined {
+	if (!reporting.consolidated || !reporting.eliminateIntercompany) {
+		return undefined;
+	}
+
+	return notExists(
+		db
+			.select({ id: xeroSuppliers.id })
+			.from(xeroSuppliers)
+			.where(
+				and(
+					eq(xeroSuppliers.id, supplierId),
+					eq(xeroSuppliers.isRelatedEntity, true),
+				),
+			),
+	);
+}
@@ -0,0 +1,313 @@
+/**
+ * Structure-aware chunking for RAG
+ *
+ * Plain word windows slice tables mid-row and drop the heading a passage sits
+ * under, so each format gets its own chunker: text and DOCX are split into
+ * sections at headings, PDFs page by page, and sheets into row groups that
+ * repeat the header row. Within a section or page whole lines are packed
+ * together, so a table row is only ever split when it alone is too long.
+ *
+ * Everything here is deterministic and free of I/O so it can be tested
+ * offline; embedding and storage live in lib/ai/rag.ts and lib/db/queries.ts.
+ */
+
+import { parse, unparse } from "papaparse";
+import type { Document, DocumentChunkMetadata } from "@/lib/db/schema";
+
+export const DEFAULT_CHUNK_SIZE = 800;
+export const DEFAULT_CHUNK_OVERLAP = 100;
+// Keeps sheet chunks small enough to cite a useful row range even when rows
+// are short
+export const MAX_ROWS_PER_CHUNK = 50;
+
+// Markdown ATX headings; DOCX headings are converted to these on extraction
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)(?:\s+#+)?$/;
+
+export interface ChunkOptions {
+	chunkSize?: number; // Words per chunk
+	overlap?: number; // Words repeated from the end of the previous chunk
+}
+
+export interface StructuredChunk {
+	content: string;
+	pageNumber: number | null;
+	metadata: DocumentChunkMetadata | null;
+}
+
+const normalizeWhitespace = (value: string) =>
+	value.replace(/\s+/g, " ").trim();
+
+const countWords = (value: string) => value.split(/\s+/).filter(Boolean).length;
+
+const toLines = (text: string) =>
+	text.split(/\r?\n/).map(normalizeWhitespace).filter(Boolean);
+
+/**
+ * Fixed windows of words, ignoring any structure in the text
+ */
+export const chunkText = (text: string, options?: ChunkOptions) => {
+	const chunkSize = options?.chunkSize ?? DEFAULT_CHUNK_SIZE;
+	const overlap = options?.overlap ?? DEFAULT_CHUNK_OVERLAP;
+	const words = normalizeWhitespace(text).split(" ").filter(Boolean);
+	if (words.length === 0) {
+		return [];
+	}
+
+	const chunks: string[] = [];
+	const stride = Math.max(chunkSize - overlap, 1);
+
+	for (let start = 0; start < words.length; start += stride) {
+		const slice = words.slice(start, start + chunkSize);
+		if (slice.length === 0) {
+			break;
+		}
+		chunks.push(slice.join(" "));
+		if (start + chunkSize >= words.length) {
+			break;
+		}
+	}
+
+	return chunks;
+};
+
+/**
+ * Packs whole lines into chunks of up to chunkSize words, carrying trailing
+ * lines of up to overlap words into the next chunk. Only lines longer than a
+ * chunk are split.
+ */
+const packLines = (lines: string[], options?: ChunkOptions) => {
+	const chunkSize = options?.chunkSize ?? DEFAULT_CHUNK_SIZE;
+	const overlap = options?.overlap ?? DEFAULT_CHUNK_OVERLAP;
+	const chunks: string[] = [];
+	let current: string[] = [];
+	let currentWords = 0;
+	// Whether current holds lines not already emitted as overlap
+	let hasNewLines = false;
+
+	const flush = () => {
+		if (hasNewLines) {
+			chunks.push(current.join("\n"));
+		}
+		const carried: string[] = [];
+		let carriedWords = 0;
+		for (let index = current.length - 1; index >= 0; index -= 1) {
+			const words = countWords(current[index] ?? "");
+			if (carriedWords + words > overlap) {
+				break;
+			}
+			carried.unshift(current[index] ?? "");
+			carriedWords += words;
+		}
+		current = carried;
+		currentWords = carriedWords;
+		hasNewLines = false;
+	};
+
+	for (const line of lines) {
+		const words = countWords(line);
+
+		if (words > chunkSize) {
+			flush();
+			chunks.push(...chunkText(line, options));
+			current = [];
+			currentWords = 0;
+			continue;
+		}
+
+		if (hasNewLines && currentWords + words > chunkSize) {
+			flush();
+		}
+		current.push(line);
+		currentWords += words;
+		hasNewLines = true;
+	}
+
+	if (hasNewLines) {
+		chunks.push(current.join("\n"));
+	}
+
+	return chunks;
+};
+
+/**
+ * Splits text into sections at Markdown headings and chunks each section on
+ * its own. Chunks start with their heading path so they are retrievable and
+ * citable by section.
+ */
+export const chunkSections = (
+	text: string,
+	options?: ChunkOptions,
+): StructuredChunk[] => {
+	const sections: Array<{ path: string; lines: string[] }> = [];
+	const headings: Array<{ level: number; title: string }> = [];
+	let current = { path: "", lines: [] as string[] };
+
+	for (const line of toLines(text)) {
+		const match = HEADING_PATTERN.exec(line);
+		if (!match) {
+			current.lines.push(line);
+			continue;
+		}
+
+		if (current.lines.length > 0) {
+			sections.push(current);
+		}
+		const level = match[1]?.length ?? 1;
+		while ((headings.at(-1)?.level ?? 0) >= level) {
+			headings.pop();
+		}
+		headings.push({ level, title: match[2] ?? "" });
+		current = {
+			path: headings.map((heading) => heading.title).join(" > "),
+			lines: [],
+		};
+	}
+	if (current.lines.length > 0) {
+		sections.push(current);
+	}
+
+	return sections.flatMap(({ path, lines }) =>
+		packLines(lines, options).map((content) => ({
+			content: path ? `${path}\n${content}` : content,
+			pageNumber: null,
+			metadata: path ? { section: path } : null,
+		})),
+	);
+};
+
+/**
+ * Chunks each page separately so every chunk can cite the page it came from
+ */
+export const chunkPages = (
+	pages: Array<{ pageNumber: number; text: string }>,
+	options?: ChunkOptions,
+): StructuredChunk[] =>
+	pages.flatMap((page) =>
+		packLines(toLines(page.text), options).map((content) => ({
+			content,
+			pageNumber: page.pageNumber,
+			metadata: null,
+		})),
+	);
+
+/**
+ * Groups CSV/TSV rows into chunks that each start with the header row, so a
+ * chunk's values can be read without the rest of the sheet
+ */
+export const chunkRows = (
+	text: string,
+	options?: ChunkOptions,
+): StructuredChunk[] => {
+	const chunkSize = options?.chunkSize ?? DEFAULT_CHUNK_SIZE;
+	const parsed = parse<string[]>(text.trim(), { skipEmptyLines: true });
+	const rows = parsed.data.filter((row) =>
+		row.some((cell) => cell.trim() !== ""),
+	);
+	const [header, ...body] = rows;
+	if (!header) {
+		return [];
+	}
+
+	const delimiter = parsed.meta.delimiter || ",";
+	const toContent = (group: string[][]) =>
+		unparse([header, ...group], { delimiter, newline: "\n" });
+
+	if (body.length === 0) {
+		return [{ content: toContent([]), pageNumber: null, metadata: null }];
+	}
+
+	const headerWords = countWords(header.join(" "));
+	const chunks: StructuredChunk[] = [];
+	let group: string[][] = [];
+	let groupWords = headerWords;
+	let groupStart = 1;
+
+	body.forEach((row, index) => {
+		const words = countWords(row.join(" "));
+		if (
+			group.length > 0 &&
+			(groupWords + words > chunkSize || group.length >= MAX_ROWS_PER_CHUNK)
+		) {
+			chunks.push({
+				content: toContent(group),
+				pageNumber: null,
+				metadata: { rowStart: groupStart, rowEnd: index },
+			});
+			group = [];
+			groupWords = headerWords;
+			groupStart = index + 1;
+		}
+		group.push(row);
+		groupWords += words;
+	});
+	chunks.push({
+		content: toContent(group),
+		pageNumber: null,
+		metadata: { rowStart: groupStart, rowEnd: body.length },
+	});
+
+	return chunks;
+};
+
+/**
+ * Chunks a document with the chunker for its kind
+ */
+export const chunkDocument = ({
+	kind,
+	text,
+	pages = [],
+	options,
+}: {
+	kind: Document["kind"];
+	text: string;
+	// PDF pages, so chunks can cite the page they came from
+	pages?: Array<{ pageNumber: number; text: string }>;
+	options?: ChunkOptions;
+}): StructuredChunk[] => {
+	if (kind === "pdf" && pages.length > 0) {
+		return chunkPages(pages, options);
+	}
+
+	if (kind === "sheet") {
+		return chunkRows(text, options);
+	}
+
+	if (kind === "code") {
+		// Comment lines such as "# setup" are not headings
+		return packLines(toLines(text), options).map((content) => ({
+			content,
+			pageNumber: null,
+			metadata: null,
+		}));
+	}
+
+	return chunkSections(text, options);
+};
+
+/**
+ * Where a chunk sits in its document, e.g. `page 3, "Annual leave"` or
+ * `rows 51-100`; empty when nothing more specific than the document is known
+ */
+export const describeChunkLocation = ({
+	pageNumber,
+	metadata,
+}: {
+	pageNumber: number | null;
+	metadata: DocumentChunkMetadata | null;
+}) => {
+	const parts: string[] = [];
+	if (pageNumber) {
+		parts.push(`page ${pageNumber}`);
+	}
+	if (metadata?.section) {
+		parts.push(`"${metadata.section}"`);
+	}
+	if (metadata?.rowStart && metadata.rowEnd) {
+		parts.push(
+			metadata.rowStart === metadata.rowEnd
+				? `row ${metadata.rowStart}`
+				: `rows ${metadata.rowStart}-${metadata.rowEnd}`,
+		);
+	}
+	return parts.join(", ");
+};
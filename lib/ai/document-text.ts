@@ -0,0 +1,122 @@
+/**
+ * Text extraction for uploaded documents, shared by chat uploads and the
+ * organisation knowledge base
+ */
+
+import "server-only";
+
+import mammoth from "mammoth";
+import { PDFParse } from "pdf-parse";
+import type { Document } from "@/lib/db/schema";
+
+export const DOCUMENT_CONTENT_TYPES = [
+	"application/pdf",
+	"text/plain",
+	"text/csv",
+	"text/tab-separated-values",
+	"application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+];
+
+/**
+ * Text of each PDF page, so chunks can cite the page they came from
+ */
+export const extractPdfPages = async (
+	fileBuffer: Buffer,
+): Promise<Array<{ pageNumber: number; text: string }>> => {
+	let pdfParser: PDFParse | null = null;
+	try {
+		pdfParser = new PDFParse({ data: fileBuffer });
+		const result = await pdfParser.getText();
+		return result.pages.map((page) => ({
+			pageNumber: page.num,
+			text: page.text,
+		}));
+	} catch (error) {
+		console.error("PDF parsing error:", error);
+		return []; // Triggers validation error downstream
+	} finally {
+		if (pdfParser) {
+			await pdfParser.destroy(); // REQUIRED for memory cleanup
+		}
+	}
+};
+
+const decodeEntities = (value: string) =>
+	value
+		.replace(/&lt;/g, "<")
+		.replace(/&gt;/g, ">")
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;/g, "'")
+		.replace(/&amp;/g, "&");
+
+const stripTags = (value: string) => value.replace(/<[^>]+>/g, "");
+
+/**
+ * Text of mammoth's HTML with headings as Markdown "#" lines, so chunking can
+ * split the document into sections, and each table row on one line
+ */
+const docxHtmlToText = (html: string) =>
+	decodeEntities(
+		stripTags(
+			html
+				.replace(
+					/<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi,
+					(_, level: string, heading: string) =>
+						`\n${"#".repeat(Number(level))} ${stripTags(heading)}\n`,
+				)
+				// Cell paragraphs would otherwise break the row across lines
+				.replace(/<\/p>\s*(<\/t[dh]>)/gi, "$1")
+				.replace(/<\/t[dh]>/gi, " | ")
+				.replace(/<\/(p|li|tr)>|<br\s*\/?>/gi, "\n"),
+		),
+	)
+		.replace(/ \| *\n/g, "\n")
+		.trim();
+
+export const extractText = async (
+	fileBuffer: Buffer,
+	fileType: string,
+): Promise<string> => {
+	if (fileType === "text/plain") {
+		return fileBuffer.toString("utf-8");
+	}
+
+	if (fileType === "text/csv" || fileType === "text/tab-separated-values") {
+		return fileBuffer.toString("utf-8");
+	}
+
+	if (fileType === "application/pdf") {
+		const pages = await extractPdfPages(fileBuffer);
+		return pages.map((page) => page.text).join("\n\n");
+	}
+
+	if (
+		fileType ===
+		"application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+	) {
+		// HTML keeps the heading styles that raw text loses
+		const result = await mammoth.convertToHtml({ buffer: fileBuffer });
+		return docxHtmlToText(result.value);
+	}
+
+	return "";
+};
+
+export const resolveDocumentKind = (fileType: string): Document["kind"] => {
+	if (fileType === "application/pdf") {
+		return "pdf";
+	}
+
+	if (
+		fileType ===
+		"application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+	) {
+		return "docx";
+	}
+
+	if (fileType === "text/csv" || fileType === "text/tab-separated-values") {
+		return "sheet";
+	}
+
+	return "text";
+};
@@ -1,25 +1,81 @@
-export type UserType = "guest" | "regular";
+export const PLAN_IDS = ["free", "pro", "enterprise"] as const;
+
+export type PlanId = (typeof PLAN_IDS)[number];
+
+// Organisations without a plan in their Clerk public metadata
+export const DEFAULT_PLAN: PlanId = "free";
+
+/*
+ * Capabilities that can be switched off per plan
+ */
+export type GatedFeature =
+	| "xero_write" // Chat tools that create or update Xero records
+	| "collection_email"
+	| "bill_commentary"
+	| "cashflow_suggestions";
 
 type Entitlements = {
 	maxMessagesPerDay: number;
+	// Calendar month, across every member of the organisation. null = unlimited
+	monthlyTokenBudget: number | null;
+	monthlyCostBudgetUsd: number | null;
+	// Chat model ids the plan may select; null = every model
+	allowedModels: string[] | null;
+	features: Record<GatedFeature, boolean>;
 };
 
-export const entitlementsByUserType: Record<UserType, Entitlements> = {
+export const entitlementsByPlan: Record<PlanId, Entitlements> = {
 	/*
-	 * For users without an account
+	 * Default for every organisation and for users outside one
 	 */
-	guest: {
-		maxMessagesPerDay: 20,
+	free: {
+		maxMessagesPerDay: 50,
+		monthlyTokenBudget: 2_000_000,
+		monthlyCostBudgetUsd: 5,
+		allowedModels: [
+			"google/gemini-2.5-flash-lite",
+			"anthropic/claude-haiku-4.5",
+			"openai/gpt-5-mini",
+			"xai/grok-4.1-fast-non-reasoning",
+		],
+		features: {
+			xero_write: false,
+			collection_email: true,
+			bill_commentary: true,
+			cashflow_suggestions: true,
+		},
 	},
 
-	/*
-	 * For users with an account
-	 */
-	regular: {
-		maxMessagesPerDay: 50,
+	pro: {
+		maxMessagesPerDay: 500,
+		monthlyTokenBudget: 50_000_000,
+		monthlyCostBudgetUsd: 150,
+		allowedModels: null,
+		features: {
+			xero_write: true,
+			collection_email: true,
+			bill_commentary: true,
+			cashflow_suggestions: true,
+		},
 	},
 
 	/*
-	 * TODO: For users with an account and a paid membership
+	 * Negotiated contracts; usage is metered and recharged rather than capped
 	 */
+	enterprise: {
+		maxMessagesPerDay: 5000,
+		monthlyTokenBudget: null,
+		monthlyCostBudgetUsd: null,
+		allowedModels: null,
+		features: {
+			xero_write: true,
+			collection_email: true,
+			bill_commentary: true,
+			cashflow_suggestions: true,
+		},
+	},
 };
+
+export function isPlanId(value: unknown): value is PlanId {
+	return PLAN_IDS.includes(value as PlanId);
+}
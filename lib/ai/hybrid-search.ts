@@ -0,0 +1,105 @@
+/**
+ * Hybrid retrieval ranking for RAG
+ *
+ * Vector search finds chunks that mean the same thing as the question but is
+ * weak at exact identifiers (invoice numbers, ABNs, account codes); keyword
+ * search is the opposite. The two rankings are merged with reciprocal rank
+ * fusion, then optionally reranked so chunks containing the question's exact
+ * identifiers come first.
+ *
+ * Everything here is deterministic and free of I/O so it can be tested
+ * offline; the searches themselves live in lib/db/queries.ts.
+ */
+
+// Standard RRF constant; dampens the advantage of the very top ranks
+export const RRF_K = 60;
+
+export interface HybridCandidate {
+	id: string;
+	content: string;
+}
+
+export interface HybridResult<T extends HybridCandidate> {
+	chunk: T;
+	score: number;
+	// Exact identifiers from the question found in the chunk
+	exactMatches: number;
+}
+
+/**
+ * Merges rankings by summing 1 / (k + rank) for every list a chunk appears
+ * in. Ties keep the order chunks were first seen in.
+ */
+export function reciprocalRankFusion<T extends HybridCandidate>(
+	rankings: T[][],
+	k = RRF_K,
+): { chunk: T; score: number }[] {
+	const fused = new Map<string, { chunk: T; score: number }>();
+	for (const ranking of rankings) {
+		ranking.forEach((chunk, index) => {
+			const entry = fused.get(chunk.id) ?? { chunk, score: 0 };
+			entry.score += 1 / (k + index + 1);
+			fused.set(chunk.id, entry);
+		});
+	}
+	return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+// "51 824 753 556" and "51824753556" are the same ABN
+const compact = (value: string) =>
+	value.toLowerCase().replace(/(\d)\s+(?=\d)/g, "$1");
+
+const escapeRegExp = (value: string) =>
+	value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Identifier-like terms in a question: anything with a digit in it, such as
+ * INV-1042, 51824753556 or 4-1400
+ */
+export function extractExactTerms(query: string): string[] {
+	const terms = compact(query).match(/[a-z0-9][\w\-/.]*\d[\w\-/.]*/g) ?? [];
+	return [
+		...new Set(
+			terms.map((term) => term.replace(/[.\-/]+$/, "")).filter(Boolean),
+		),
+	].filter((term) => term.length >= 3);
+}
+
+function countExactMatches(content: string, terms: string[]) {
+	const text = compact(content);
+	return terms.filter((term) =>
+		new RegExp(`(^|[^a-z0-9])${escapeRegExp(term)}($|[^a-z0-9])`).test(text),
+	).length;
+}
+
+/**
+ * The top chunks from a vector ranking and a keyword ranking. With rerank,
+ * chunks containing more of the question's exact identifiers move ahead of
+ * the fused order.
+ */
+export function rankHybrid<T extends HybridCandidate>({
+	query,
+	vector,
+	keyword,
+	topK,
+	rerank = true,
+}: {
+	query: string;
+	vector: T[];
+	keyword: T[];
+	topK: number;
+	rerank?: boolean;
+}): HybridResult<T>[] {
+	const terms = extractExactTerms(query);
+	const results = reciprocalRankFusion([vector, keyword]).map((entry) => ({
+		...entry,
+		exactMatches: countExactMatches(entry.chunk.content, terms),
+	}));
+
+	if (rerank && terms.length > 0) {
+		// Array sort is stable, so equal matches keep their fused order
+		results.sort((a, b) => b.exactMatches - a.exactMatches);
+	}
+
+	return results.slice(0, topK);
+}
@@ -0,0 +1,90 @@
+import "server-only";
+
+import { replaceKnowledgeDocumentChunks } from "@/lib/db/queries";
+import type { Document, KnowledgeDocument } from "@/lib/db/schema";
+import { chunkDocument } from "./chunking";
+import { createEmbeddings } from "./rag";
+
+// Org roles that may upload, tag, replace and delete knowledge documents.
+// Every member's chats can search the knowledge base.
+export const KNOWLEDGE_MANAGER_ROLES = ["org:admin", "org:owner"];
+
+export const MAX_TAGS = 10;
+
+export function canManageKnowledge(orgRole: string | null | undefined) {
+	return Boolean(orgRole && KNOWLEDGE_MANAGER_ROLES.includes(orgRole));
+}
+
+/**
+ * Trimmed, lower-cased, de-duplicated tags from a comma separated list
+ */
+export function parseTags(value: string) {
+	return [
+		...new Set(
+			value
+				.split(",")
+				.map((tag) => tag.trim().toLowerCase())
+				.filter(Boolean),
+		),
+	].slice(0, MAX_TAGS);
+}
+
+/**
+ * Replaces a knowledge document's chunks with freshly embedded ones from its
+ * text. Chunks belong to the org rather than a chat, so every member's
+ * retrieval can find them.
+ *
+ * Everything is embedded before the old chunks are touched; the swap and any
+ * changes to the document row (e.g. its new file) are then saved together.
+ */
+export async function indexKnowledgeDocument({
+	knowledgeDocumentId,
+	orgId,
+	userId,
+	kind,
+	text,
+	pages = [],
+	values,
+}: {
+	knowledgeDocumentId: string;
+	orgId: string;
+	userId: string;
+	kind: Document["kind"];
+	text: string;
+	// PDF pages, so chunks can cite the page they came from
+	pages?: Array<{ pageNumber: number; text: string }>;
+	values?: Partial<
+		Pick<KnowledgeDocument, "title" | "contentType" | "blobUrl" | "tags">
+	>;
+}) {
+	const chunks = chunkDocument({ kind, text, pages });
+	const embeddings =
+		chunks.length > 0
+			? await createEmbeddings(chunks.map((chunk) => chunk.content))
+			: [];
+	if (embeddings.length !== chunks.length) {
+		throw new Error("Failed to generate embeddings for all chunks");
+	}
+
+	const createdAt = new Date();
+	await replaceKnowledgeDocumentChunks({
+		knowledgeDocumentId,
+		orgId,
+		values,
+		chunks: chunks.map(({ content, pageNumber, metadata }, index) => ({
+			artifactId: knowledgeDocumentId,
+			knowledgeDocumentId,
+			clerkOrgId: orgId,
+			userId,
+			chatId: null,
+			chunkIndex: index,
+			pageNumber,
+			metadata,
+			content,
+			embedding: embeddings[index] ?? [],
+			createdAt,
+		})),
+	});
+
+	return chunks.length;
+}
@@ -1,6 +1,9 @@
 // Curated list of top models from Vercel AI Gateway
 export const DEFAULT_CHAT_MODEL = "google/gemini-2.5-flash-lite";
 
+// Used for documents, sheets, code and writing suggestions
+export const ARTIFACT_MODEL = "anthropic/claude-haiku-4.5";
+
 export type ChatModel = {
 	id: string;
 	name: string;
@@ -81,3 +84,30 @@ export const modelsByProvider = chatModels.reduce(
 	},
 	{} as Record<string, ChatModel[]>,
 );
+
+// USD per million tokens, from the AI Gateway price list. Models missing here
+// still count towards token budgets but not cost budgets.
+export const modelPricing: Record<string, { input: number; output: number }> = {
+	"anthropic/claude-haiku-4.5": { input: 1, output: 5 },
+	"anthropic/claude-sonnet-4.5": { input: 3, output: 15 },
+	"anthropic/claude-4.5-sonnet-thinking": { input: 3, output: 15 },
+	"openai/gpt-5-mini": { input: 0.25, output: 2 },
+	"openai/gpt-5.2": { input: 1.75, output: 14 },
+	"google/gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+	"google/gemini-3-pro-preview": { input: 2, output: 12 },
+	"xai/grok-4.1-fast-non-reasoning": { input: 0.2, output: 0.5 },
+	"xai/grok-4.1-fast-reasoning": { input: 0.2, output: 0.5 },
+};
+
+export function getModelCostUsd(
+	modelId: string,
+	inputTokens: number,
+	outputTokens: number,
+) {
+	const pricing = modelPricing[modelId];
+	if (!pricing) return 0;
+
+	return (
+		(inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000
+	);
+}
@@ -1,13 +1,12 @@
-export const cashflowSuggestionPrompt = (recurringTransactions: string) => `
+export const cashflowSuggestionPrompt = (recurringPatterns: string) => `
 You are a cashflow analyst.
-Analyze the following recurring transactions (Description, Amount, Date):
-${recurringTransactions}
+These recurring transactions were detected in the last 12 months of bank activity
+(Pattern ID | Direction | Typical amount | Repeats | Example descriptions):
+${recurringPatterns}
 
-Predict the NEXT occurrence of these expenses/incomes.
-Return a JSON array of suggested adjustments:
-[
-  { "description": "Weekly Wages", "amount": 5000, "date": "2024-10-30", "type": "OUT" }
-]
-Only suggest high confidence recurring items (e.g. wages, rent, tax).
-Ignore one-off payments.
+Give each pattern a short name a bookkeeper would recognise (e.g. "Weekly Wages",
+"Office Rent", "Quarterly BAS").
+Leave out patterns that are not ongoing commitments (e.g. transfers between the
+business's own accounts).
+Use the pattern IDs exactly as given.
 `;
@@ -145,6 +145,13 @@ export const updateDocumentPrompt = (
 ${currentContent}`;
 };
 
+export const documentContextPrompt = (documentContext: string) => `DOCUMENT CONTEXT:
+The numbered sources below are passages from the user's uploaded files.
+When your answer uses a source, cite it straight after the claim with its number in square brackets, e.g. [1] or [1][3].
+Only cite numbers listed below and never invent sources.
+
+${documentContext}`;
+
 export const titlePrompt = `Generate a very short chat title (2-5 words max) based on the user's message.
 Rules:
 - Maximum 30 characters
@@ -436,6 +443,14 @@ export const createIntellisyncContext = (partial: {
 	customPrompt: partial.customPrompt,
 });
 
+const COLLECTION_TONE_GUIDANCE = {
+	Polite:
+		"A friendly reminder. Assume the payment has been overlooked and keep it brief.",
+	Firm: "Payment is well overdue and earlier reminders have gone unanswered. Be direct, ask for payment or a payment date within 7 days.",
+	Final:
+		"Final notice before the account is escalated (e.g. credit hold or a collections agency). State the consequence plainly and give a clear deadline.",
+} as const;
+
 export const collectionEmailPrompt = (
 	ctx: {
 		contactName: string;
@@ -450,6 +465,8 @@ export const collectionEmailPrompt = (
 			number: string;
 		}>;
 		historyContext?: string;
+		commitmentsContext?: string;
+		tone?: "Polite" | "Firm" | "Final";
 	}
 ) => `
 You are ${ctx.userFirstName} ${ctx.userLastName} from ${ctx.companyName}${ctx.userLocation ? ` located in ${ctx.userLocation}` : ""}.
@@ -460,6 +477,8 @@ Invoices:
 ${ctx.overdueInvoices.map((i) => `- Invoice ${i.number} (Due: ${i.dueDate}): $${i.amount}`).join("\n")}
 
 ${ctx.historyContext ? `**History & Notes Context:**\n${ctx.historyContext}\n` : ""}
+${ctx.commitmentsContext ? `**Promises & Disputes:**\n${ctx.commitmentsContext}\nDo not ask for payment of disputed amounts; say they are on hold while the dispute is reviewed. Refer to any promise to pay, and if one was broken, say so plainly.\n` : ""}
+${ctx.tone ? `**Escalation Stage:** ${ctx.tone}\n${COLLECTION_TONE_GUIDANCE[ctx.tone]}\n` : ""}
 
 Task: Write a professional and natural email requesting payment.
 If the history context contains relevant previous promises or interactions, acknowledge them appropriately (e.g., "As discussed on [date]...").
@@ -483,4 +502,7 @@ If the history context contains relevant previous promises or interactions, ackn
   - Request payment or a remittance advice.
   - Offer a contact method for queries.
 - **Sign-off:** Professional closing (e.g., "Regards", "Thanks").
+
+**Output Format:**
+The first line must be \`Subject: <subject>\`, followed by a blank line and the plain-text body. No markdown.
 `;
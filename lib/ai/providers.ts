@@ -5,6 +5,7 @@ import {
 	wrapLanguageModel,
 } from "ai";
 import { isTestEnvironment } from "../constants";
+import { ARTIFACT_MODEL } from "./models";
 
 const THINKING_SUFFIX_REGEX = /-thinking$/;
 
@@ -51,7 +52,7 @@ export function getArtifactModel() {
 	if (isTestEnvironment && myProvider) {
 		return myProvider.languageModel("artifact-model");
 	}
-	return gateway.languageModel("anthropic/claude-haiku-4.5");
+	return gateway.languageModel(ARTIFACT_MODEL);
 }
 
 export function getEmbeddingModel() {
@@ -1,10 +1,18 @@
 import { embed, embedMany } from "ai";
+import type { KnowledgeScope } from "@/components/knowledge-scope-selector";
 import { isTestEnvironment } from "@/lib/constants";
-import { getDocumentChunksByUserId } from "@/lib/db/queries";
+import {
+	getDocumentHeadersByIds,
+	getKnowledgeDocumentHeadersByIds,
+	searchDocumentChunks,
+	searchDocumentChunksByKeyword,
+} from "@/lib/db/queries";
+import type { Citation } from "@/lib/types";
+import { describeChunkLocation } from "./chunking";
+import { resolveDocumentKind } from "./document-text";
+import { rankHybrid } from "./hybrid-search";
 import { getEmbeddingModel } from "./providers";
 
-const DEFAULT_CHUNK_SIZE = 800;
-const DEFAULT_CHUNK_OVERLAP = 100;
 // Default number of chunks to retrieve per query.
 // 4 was chosen empirically as a balance between:
 // - enough context to answer most questions, and
@@ -17,31 +25,20 @@ const DEFAULT_TOP_K = 4;
 // higher relevance (fewer but more on-topic chunks), or lower it to be more
 // permissive in low-signal or sparse-data scenarios.
 const DEFAULT_MIN_SCORE = 0.15;
+// Each search fetches this many times topK candidates before fusion, so a
+// chunk ranked low by one search can still be lifted by the other.
+const CANDIDATE_MULTIPLIER = 5;
+// Must match the DocumentChunk.embedding column so test embeddings can be
+// stored and searched like real ones.
+const EMBEDDING_DIMENSIONS = 1536;
 
 const normalizeWhitespace = (value: string) =>
 	value.replace(/\s+/g, " ").trim();
 
-const toWordChunks = (text: string, chunkSize: number, overlap: number) => {
-	const words = normalizeWhitespace(text).split(" ").filter(Boolean);
-	if (words.length === 0) {
-		return [];
-	}
-
-	const chunks: string[] = [];
-	const stride = Math.max(chunkSize - overlap, 1);
-
-	for (let start = 0; start < words.length; start += stride) {
-		const slice = words.slice(start, start + chunkSize);
-		if (slice.length === 0) {
-			break;
-		}
-		chunks.push(slice.join(" "));
-	}
-
-	return chunks;
-};
-
-const createTestEmbedding = (value: string, dimensions = 64) => {
+const createTestEmbedding = (
+	value: string,
+	dimensions = EMBEDDING_DIMENSIONS,
+) => {
 	if (!value.length) {
 		return Array.from({ length: dimensions }, () => 0);
 	}
@@ -54,44 +51,6 @@ const createTestEmbedding = (value: string, dimensions = 64) => {
 	return embedding.map((entry) => entry / value.length);
 };
 
-const isEmbeddingArray = (embedding: unknown): embedding is number[] =>
-	Array.isArray(embedding) &&
-	embedding.every((value) => typeof value === "number");
-
-const cosineSimilarity = (a: number[], b: number[]) => {
-	if (a.length !== b.length || a.length === 0) {
-		return 0;
-	}
-
-	let dot = 0;
-	let normA = 0;
-	let normB = 0;
-
-	for (let index = 0; index < a.length; index += 1) {
-		const valueA = a[index];
-		const valueB = b[index];
-		dot += valueA * valueB;
-		normA += valueA * valueA;
-		normB += valueB * valueB;
-	}
-
-	if (!normA || !normB) {
-		return 0;
-	}
-
-	return dot / (Math.sqrt(normA) * Math.sqrt(normB));
-};
-
-export const chunkText = (
-	text: string,
-	options?: { chunkSize?: number; overlap?: number },
-) =>
-	toWordChunks(
-		text,
-		options?.chunkSize ?? DEFAULT_CHUNK_SIZE,
-		options?.overlap ?? DEFAULT_CHUNK_OVERLAP,
-	);
-
 export const createEmbeddings = async (values: string[]) => {
 	if (values.length === 0) {
 		return [];
@@ -125,51 +84,121 @@ export const createEmbedding = async (value: string) => {
 export const buildRagContext = async ({
 	userId,
 	chatId,
+	orgId,
+	knowledgeScope = "chat",
 	query,
 	topK = DEFAULT_TOP_K,
 	minScore = DEFAULT_MIN_SCORE,
+	rerank = true,
 }: {
 	userId: string;
 	chatId?: string;
+	// Org whose knowledge base is searched when the scope includes it
+	orgId?: string | null;
+	knowledgeScope?: KnowledgeScope;
 	query: string;
 	topK?: number;
 	minScore?: number;
+	rerank?: boolean;
 }) => {
 	const trimmedQuery = normalizeWhitespace(query);
 	if (!trimmedQuery) {
 		return {
 			context: "",
 			chunks: [] as Array<{ content: string; score: number }>,
+			citations: [] as Citation[],
 		};
 	}
 
-	const chunks = await getDocumentChunksByUserId({ userId, chatId });
-	if (chunks.length === 0) {
+	const queryEmbedding = await createEmbedding(trimmedQuery);
+
+	// Vector search (min-score applied in SQL) finds chunks by meaning and
+	// keyword search finds exact terms like invoice numbers; in the test
+	// environment both are deterministic as embeddings come from
+	// createTestEmbedding
+	const candidates = topK * CANDIDATE_MULTIPLIER;
+	const scope = { userId, chatId, orgId, knowledgeScope };
+	const [vectorMatches, keywordMatches] = await Promise.all([
+		searchDocumentChunks({
+			scope,
+			embedding: queryEmbedding,
+			topK: candidates,
+			minScore,
+		}),
+		searchDocumentChunksByKeyword({
+			scope,
+			query: trimmedQuery,
+			limit: candidates,
+		}),
+	]);
+
+	const ranked = rankHybrid({
+		query: trimmedQuery,
+		vector: vectorMatches,
+		keyword: keywordMatches,
+		topK,
+		rerank,
+	});
+	const scoredChunks = ranked.map((result) => ({
+		content: result.chunk.content,
+		score: result.score,
+	}));
+
+	const [headers, knowledgeHeaders] = await Promise.all([
+		getDocumentHeadersByIds({
+			ids: [
+				...new Set(
+					ranked
+						.filter((result) => !result.chunk.knowledgeDocumentId)
+						.map((result) => result.chunk.artifactId),
+				),
+			],
+		}),
+		getKnowledgeDocumentHeadersByIds({
+			ids: [
+				...new Set(
+					ranked.flatMap((result) =>
+						result.chunk.knowledgeDocumentId
+							? [result.chunk.knowledgeDocumentId]
+							: [],
+					),
+				),
+			],
+		}),
+	]);
+	const headersById = new Map(headers.map((header) => [header.id, header]));
+	const knowledgeHeadersById = new Map(
+		knowledgeHeaders.map((header) => [header.id, header]),
+	);
+
+	const citations: Citation[] = ranked.map(({ chunk }, index) => {
+		const knowledgeHeader = chunk.knowledgeDocumentId
+			? knowledgeHeadersById.get(chunk.knowledgeDocumentId)
+			: undefined;
+		const header = headersById.get(chunk.artifactId);
 		return {
-			context: "",
-			chunks: [] as Array<{ content: string; score: number }>,
+			index: index + 1,
+			source: chunk.knowledgeDocumentId ? "knowledge" : "chat",
+			documentId: chunk.artifactId,
+			title: knowledgeHeader?.title ?? header?.title ?? "Untitled document",
+			kind: knowledgeHeader
+				? resolveDocumentKind(knowledgeHeader.contentType)
+				: (header?.kind ?? "text"),
+			url: knowledgeHeader?.blobUrl ?? header?.blobUrl ?? null,
+			chunkIndex: chunk.chunkIndex,
+			pageNumber: chunk.pageNumber,
+			metadata: chunk.metadata,
+			content: chunk.content,
 		};
-	}
-
-	const queryEmbedding = await createEmbedding(trimmedQuery);
+	});
 
-	const scoredChunks = chunks
-		.map((chunk) => {
-			const embedding = isEmbeddingArray(chunk.embedding)
-				? chunk.embedding
-				: [];
-			return {
-				content: chunk.content,
-				score: cosineSimilarity(queryEmbedding, embedding),
-			};
+	// Numbered so the model can cite sources as [1], [2]
+	const context = citations
+		.map((citation) => {
+			const location = describeChunkLocation(citation);
+			return `[${citation.index}] ${citation.title}${location ? `, ${location}` : ""}:\n${citation.content}`;
 		})
-		.filter((chunk) => chunk.score >= minScore)
-		.sort((a, b) => b.score - a.score)
-		.slice(0, topK);
-
-	const context = scoredChunks
-		.map((chunk, index) => `Source ${index + 1}:\n${chunk.content}`)
 		.join("\n\n");
 
-	return { context, chunks: scoredChunks };
+	return { context, chunks: scoredChunks, citations };
 };
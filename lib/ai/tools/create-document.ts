@@ -9,12 +9,14 @@ import { generateUUID } from "@/lib/utils";
 
 type CreateDocumentProps = {
 	userId: string;
+	orgId: string | null;
 	chatId: string;
 	dataStream: UIMessageStreamWriter<ChatMessage>;
 };
 
 export const createDocument = ({
 	userId,
+	orgId,
 	chatId,
 	dataStream,
 }: CreateDocumentProps) =>
@@ -77,6 +79,7 @@ export const createDocument = ({
 				description,
 				dataStream,
 				userId,
+				orgId,
 				chatId,
 			});
 
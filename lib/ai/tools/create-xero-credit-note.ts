@@ -1,11 +1,9 @@
 import { auth } from "@clerk/nextjs/server";
 import { tool } from "ai";
-import { and, eq } from "drizzle-orm";
 import { z } from "zod";
-import { db } from "@/lib/db";
-import { integrationTenantBindings } from "@/lib/db/schema";
 import { handleXeroToolError } from "@/lib/integrations/xero/error-handler";
 import { withTokenRefreshRetry } from "@/lib/integrations/xero/retry-helper";
+import { getXeroWriteBinding } from "@/lib/integrations/xero/tenant-scope";
 
 export const createXeroCreditNote = tool({
 	description: "Creates a new credit note in Xero.",
@@ -29,13 +27,8 @@ export const createXeroCreditNote = tool({
 			const { userId, orgId } = await auth();
 			if (!userId || !orgId) return { error: "Unauthorized" };
 
-			const binding = await db.query.integrationTenantBindings.findFirst({
-				where: and(
-					eq(integrationTenantBindings.clerkOrgId, orgId),
-					eq(integrationTenantBindings.provider, "xero"),
-					eq(integrationTenantBindings.status, "active"),
-				),
-			});
+			const { binding, error } = await getXeroWriteBinding(orgId);
+			if (error) return { error };
 			if (!binding) return { error: "Xero not connected" };
 
 			return await withTokenRefreshRetry(binding.id, orgId, async (client) => {
@@ -1,11 +1,9 @@
 import { auth } from "@clerk/nextjs/server";
 import { tool } from "ai";
-import { and, eq } from "drizzle-orm";
 import { z } from "zod";
-import { db } from "@/lib/db";
-import { integrationTenantBindings } from "@/lib/db/schema";
 import { handleXeroToolError } from "@/lib/integrations/xero/error-handler";
 import { withTokenRefreshRetry } from "@/lib/integrations/xero/retry-helper";
+import { getCurrentXeroBinding } from "@/lib/integrations/xero/tenant-scope";
 
 export const getXeroPayrollTimesheet = tool({
 	description: "Retrieves a specific payroll timesheet from Xero.",
@@ -17,13 +15,7 @@ export const getXeroPayrollTimesheet = tool({
 			const { userId, orgId } = await auth();
 			if (!userId || !orgId) return { error: "Unauthorized" };
 
-			const binding = await db.query.integrationTenantBindings.findFirst({
-				where: and(
-					eq(integrationTenantBindings.clerkOrgId, orgId),
-					eq(integrationTenantBindings.provider, "xero"),
-					eq(integrationTenantBindings.status, "active"),
-				),
-			});
+			const binding = await getCurrentXeroBinding(orgId);
 			if (!binding) return { error: "Xero not connected" };
 
 			return await withTokenRefreshRetry(
@@ -4,15 +4,19 @@ import { getDocumentById, saveSuggestions } from "@/lib/db/queries";
 import type { Suggestion } from "@/lib/db/schema";
 import type { ChatMessage } from "@/lib/types";
 import { generateUUID } from "@/lib/utils";
+import { ARTIFACT_MODEL } from "../models";
 import { getArtifactModel } from "../providers";
+import { recordUsage } from "../usage";
 
 type RequestSuggestionsProps = {
 	userId: string;
+	orgId: string | null;
 	dataStream: UIMessageStreamWriter<ChatMessage>;
 };
 
 export const requestSuggestions = ({
 	userId,
+	orgId,
 	dataStream,
 }: RequestSuggestionsProps) =>
 	tool({
@@ -53,6 +57,14 @@ export const requestSuggestions = ({
 							.describe("The description of the suggestion"),
 					}),
 				}),
+				onFinish: ({ totalUsage }) =>
+					recordUsage({
+						userId,
+						orgId,
+						model: ARTIFACT_MODEL,
+						feature: "suggestions",
+						usage: totalUsage,
+					}),
 			});
 
 			let processedCount = 0;
@@ -6,12 +6,14 @@ import type { ChatMessage } from "@/lib/types";
 
 type UpdateDocumentProps = {
 	userId: string;
+	orgId: string | null;
 	chatId: string;
 	dataStream: UIMessageStreamWriter<ChatMessage>;
 };
 
 export const updateDocument = ({
 	userId,
+	orgId,
 	chatId,
 	dataStream,
 }: UpdateDocumentProps) =>
@@ -52,6 +54,7 @@ export const updateDocument = ({
 				description,
 				dataStream,
 				userId,
+				orgId,
 				chatId,
 			});
 
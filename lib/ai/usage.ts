@@ -0,0 +1,187 @@
+import "server-only";
+
+import { clerkClient } from "@clerk/nextjs/server";
+import type { LanguageModelUsage } from "ai";
+import {
+	DEFAULT_PLAN,
+	entitlementsByPlan,
+	type GatedFeature,
+	isPlanId,
+	type PlanId,
+} from "@/lib/ai/entitlements";
+import { getModelCostUsd } from "@/lib/ai/models";
+import { getDailyLlmUsage, saveLlmUsage } from "@/lib/db/queries";
+import { ChatSDKError } from "@/lib/errors";
+
+export type UsageFeature =
+	| "chat"
+	| "artifact"
+	| "suggestions"
+	| "collection_email"
+	| "bill_commentary"
+	| "cashflow_suggestions";
+
+/**
+ * Records the tokens a model call used against the user and org.
+ * Metering never fails the request it is measuring; errors are logged only.
+ */
+export async function recordUsage({
+	userId,
+	orgId,
+	chatId,
+	model,
+	feature,
+	usage,
+}: {
+	userId: string;
+	orgId: string | null | undefined;
+	chatId?: string;
+	model: string;
+	feature: UsageFeature;
+	usage: LanguageModelUsage;
+}): Promise<void> {
+	const inputTokens = usage.inputTokens ?? 0;
+	const outputTokens = usage.outputTokens ?? 0;
+
+	if (inputTokens === 0 && outputTokens === 0) {
+		return;
+	}
+
+	try {
+		await saveLlmUsage({
+			userId,
+			clerkOrgId: orgId ?? null,
+			chatId,
+			model,
+			feature,
+			inputTokens,
+			outputTokens,
+		});
+	} catch (error) {
+		console.error("Failed to record LLM usage", {
+			userId,
+			orgId,
+			model,
+			feature,
+			error,
+		});
+	}
+}
+
+// Plans change rarely, so each org's is cached per server instance rather
+// than fetched from Clerk on every request (which also counts against its
+// rate limit). A plan change takes up to this long to apply.
+const ORG_PLAN_TTL_MS = 5 * 60 * 1000;
+
+const orgPlanCache = new Map<string, { plan: PlanId; expiresAt: number }>();
+
+/**
+ * The org's plan, read from `plan` in its Clerk public metadata.
+ * Users outside an organisation are on the default plan.
+ */
+export async function getOrgPlan(
+	orgId: string | null | undefined,
+): Promise<PlanId> {
+	if (!orgId) return DEFAULT_PLAN;
+
+	const cached = orgPlanCache.get(orgId);
+	if (cached && cached.expiresAt > Date.now()) {
+		return cached.plan;
+	}
+
+	try {
+		const client = await clerkClient();
+		const org = await client.organizations.getOrganization({
+			organizationId: orgId,
+		});
+		const metadataPlan = org.publicMetadata?.plan;
+		const plan = isPlanId(metadataPlan) ? metadataPlan : DEFAULT_PLAN;
+		orgPlanCache.set(orgId, { plan, expiresAt: Date.now() + ORG_PLAN_TTL_MS });
+		return plan;
+	} catch (error) {
+		// Not cached, so the next request tries Clerk again
+		console.warn("Failed to fetch organisation plan:", error);
+		return DEFAULT_PLAN;
+	}
+}
+
+/**
+ * Tokens and estimated cost since the start of the calendar month (UTC),
+ * for the whole org or, outside an org, the user alone
+ */
+export async function getMonthToDateUsage({
+	userId,
+	orgId,
+}: {
+	userId: string;
+	orgId: string | null | undefined;
+}) {
+	const now = new Date();
+	const since = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+	const rows = await getDailyLlmUsage({ userId, clerkOrgId: orgId, since });
+
+	let tokens = 0;
+	let costUsd = 0;
+	for (const row of rows) {
+		tokens += row.totalTokens;
+		costUsd += getModelCostUsd(row.model, row.inputTokens, row.outputTokens);
+	}
+
+	return { tokens, costUsd };
+}
+
+/**
+ * Checks the org's plan allows the request, throwing a `ChatSDKError` when
+ * the model or feature is not included or the monthly budget is spent.
+ * Returns the plan's entitlements for limits the caller applies itself.
+ */
+export async function assertEntitled({
+	userId,
+	orgId,
+	model,
+	feature,
+}: {
+	userId: string;
+	orgId: string | null | undefined;
+	model?: string;
+	feature?: GatedFeature;
+}) {
+	const plan = await getOrgPlan(orgId);
+	const entitlements = entitlementsByPlan[plan];
+
+	if (
+		model &&
+		entitlements.allowedModels &&
+		!entitlements.allowedModels.includes(model)
+	) {
+		throw new ChatSDKError(
+			"forbidden:model",
+			`The ${plan} plan does not include ${model}`,
+		);
+	}
+
+	if (feature && !entitlements.features[feature]) {
+		throw new ChatSDKError(
+			"forbidden:feature",
+			`The ${plan} plan does not include ${feature}`,
+		);
+	}
+
+	const { monthlyTokenBudget, monthlyCostBudgetUsd } = entitlements;
+	if (monthlyTokenBudget !== null || monthlyCostBudgetUsd !== null) {
+		const usage = await getMonthToDateUsage({ userId, orgId });
+
+		if (
+			(monthlyTokenBudget !== null && usage.tokens >= monthlyTokenBudget) ||
+			(monthlyCostBudgetUsd !== null && usage.costUsd >= monthlyCostBudgetUsd)
+		) {
+			throw new ChatSDKError(
+				"rate_limit:budget",
+				`Used ${usage.tokens} tokens (US$${usage.costUsd.toFixed(2)}) this month on the ${plan} plan`,
+			);
+		}
+	}
+
+	return { plan, ...entitlements };
+}
@@ -3,7 +3,8 @@ import { codeDocumentHandler } from "@/artifacts/code/server";
 import { sheetDocumentHandler } from "@/artifacts/sheet/server";
 import { textDocumentHandler } from "@/artifacts/text/server";
 import type { ArtifactKind } from "@/components/artifact";
-import { chunkText, createEmbeddings } from "@/lib/ai/rag";
+import { chunkDocument } from "@/lib/ai/chunking";
+import { createEmbeddings } from "@/lib/ai/rag";
 import {
 	deleteDocumentChunksByArtifactId,
 	saveDocument,
@@ -29,6 +30,7 @@ export type CreateDocumentCallbackProps = {
 	description?: string;
 	dataStream: UIMessageStreamWriter<ChatMessage>;
 	userId: string;
+	orgId: string | null;
 	chatId: string;
 };
 
@@ -37,6 +39,7 @@ export type UpdateDocumentCallbackProps = {
 	description: string;
 	dataStream: UIMessageStreamWriter<ChatMessage>;
 	userId: string;
+	orgId: string | null;
 	chatId: string;
 };
 
@@ -48,11 +51,13 @@ export type DocumentHandler<T = ArtifactKind> = {
 
 async function reindexDocumentChunks({
 	artifactId,
+	kind,
 	content,
 	userId,
 	chatId,
 }: {
 	artifactId: string;
+	kind: ArtifactKind;
 	content: string;
 	userId: string;
 	chatId: string;
@@ -64,12 +69,14 @@ async function reindexDocumentChunks({
 			chatId,
 		});
 
-		const chunks = chunkText(content);
+		const chunks = chunkDocument({ kind, text: content });
 		if (chunks.length === 0) {
 			return;
 		}
 
-		const embeddings = await createEmbeddings(chunks);
+		const embeddings = await createEmbeddings(
+			chunks.map((chunk) => chunk.content),
+		);
 
 		await saveDocumentChunks({
 			chunks: chunks.map((chunk, index) => ({
@@ -77,7 +84,9 @@ async function reindexDocumentChunks({
 				userId,
 				chatId,
 				chunkIndex: index,
-				content: chunk,
+				pageNumber: chunk.pageNumber,
+				metadata: chunk.metadata,
+				content: chunk.content,
 				embedding: embeddings[index] ?? [],
 				createdAt: new Date(),
 			})),
@@ -107,6 +116,7 @@ export function createDocumentHandler<T extends ArtifactKind>(config: {
 				description: args.description,
 				dataStream: args.dataStream,
 				userId: args.userId,
+				orgId: args.orgId,
 				chatId: args.chatId,
 			});
 
@@ -124,6 +134,7 @@ export function createDocumentHandler<T extends ArtifactKind>(config: {
 				try {
 					await reindexDocumentChunks({
 						artifactId: args.id,
+						kind: config.kind,
 						content: draftContent,
 						userId: args.userId,
 						chatId: args.chatId,
@@ -150,6 +161,7 @@ export function createDocumentHandler<T extends ArtifactKind>(config: {
 				description: args.description,
 				dataStream: args.dataStream,
 				userId: args.userId,
+				orgId: args.orgId,
 				chatId: args.chatId,
 			});
 
@@ -167,6 +179,7 @@ export function createDocumentHandler<T extends ArtifactKind>(config: {
 				try {
 					await reindexDocumentChunks({
 						artifactId: args.document.id,
+						kind: config.kind,
 						content: draftContent,
 						userId: args.userId,
 						chatId: args.chatId,
@@ -0,0 +1,31 @@
+import "server-only";
+
+import { timingSafeEqual } from "node:crypto";
+import { ConfigError, logError } from "@/lib/integrations/errors";
+
+/**
+ * Verify a scheduled request from Vercel Cron, which sends
+ * `Authorization: Bearer ${CRON_SECRET}`.
+ *
+ * @returns An error response to return as-is, or null when authorised
+ */
+export function verifyCronRequest(req: Request): Response | null {
+	const secret = process.env.CRON_SECRET;
+
+	if (!secret) {
+		logError(new ConfigError("CRON_SECRET not configured"));
+		return new Response("Cron endpoint not configured", { status: 503 });
+	}
+
+	const expected = Buffer.from(`Bearer ${secret}`);
+	const received = Buffer.from(req.headers.get("authorization") ?? "");
+
+	if (
+		received.length !== expected.length ||
+		!timingSafeEqual(received, expected)
+	) {
+		return new Response("Unauthorized", { status: 401 });
+	}
+
+	return null;
+}
@@ -0,0 +1,2 @@
+ALTER TABLE "integration_sync_state" DROP CONSTRAINT "integration_sync_state_tenant_binding_id_unique";--> statement-breakpoint
+ALTER TABLE "integration_sync_state" ADD CONSTRAINT "integration_sync_state_tenant_binding_id_data_type_unique" UNIQUE("tenant_binding_id","data_type");
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE "integration_sync_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"tenant_binding_id" uuid NOT NULL,
+	"data_type" varchar(50) NOT NULL,
+	"trigger" varchar NOT NULL,
+	"status" varchar DEFAULT 'running' NOT NULL,
+	"record_count" integer,
+	"error_code" varchar(100),
+	"error_message" text,
+	"started_at" timestamp DEFAULT now() NOT NULL,
+	"finished_at" timestamp
+);
+--> statement-breakpoint
+ALTER TABLE "integration_sync_runs" ADD CONSTRAINT "integration_sync_runs_tenant_binding_id_integration_tenant_bindings_id_fk" FOREIGN KEY ("tenant_binding_id") REFERENCES "public"."integration_tenant_bindings"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "integration_sync_runs_binding_started_idx" ON "integration_sync_runs" USING btree ("tenant_binding_id","started_at");
\ No newline at end of file
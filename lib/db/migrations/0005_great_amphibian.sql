@@ -0,0 +1 @@
+ALTER TABLE "xero_contacts" ADD COLUMN "contact_status" varchar(50);
\ No newline at end of file
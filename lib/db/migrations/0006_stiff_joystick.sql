@@ -0,0 +1,25 @@
+CREATE TABLE "xero_line_items" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"xero_tenant_id" text NOT NULL,
+	"invoice_id" uuid,
+	"bill_id" uuid,
+	"xero_line_item_id" text,
+	"description" text,
+	"quantity" numeric(19, 4),
+	"unit_amount" numeric(19, 4),
+	"line_amount" numeric(19, 4),
+	"tax_amount" numeric(19, 4),
+	"account_code" varchar(50),
+	"tax_type" varchar(50),
+	"item_code" text,
+	"tracking" json,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "xero_line_items" ADD CONSTRAINT "xero_line_items_invoice_id_xero_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."xero_invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "xero_line_items" ADD CONSTRAINT "xero_line_items_bill_id_xero_bills_id_fk" FOREIGN KEY ("bill_id") REFERENCES "public"."xero_bills"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "xero_line_items_tenant_idx" ON "xero_line_items" USING btree ("xero_tenant_id");--> statement-breakpoint
+CREATE INDEX "xero_line_items_invoice_idx" ON "xero_line_items" USING btree ("invoice_id");--> statement-breakpoint
+CREATE INDEX "xero_line_items_bill_idx" ON "xero_line_items" USING btree ("bill_id");--> statement-breakpoint
+CREATE INDEX "xero_line_items_account_code_idx" ON "xero_line_items" USING btree ("xero_tenant_id","account_code");--> statement-breakpoint
+CREATE INDEX "xero_line_items_item_code_idx" ON "xero_line_items" USING btree ("xero_tenant_id","item_code");
\ No newline at end of file
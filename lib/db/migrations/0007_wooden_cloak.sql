@@ -0,0 +1,4 @@
+ALTER TABLE "integration_tenant_bindings" ADD COLUMN "base_currency" varchar(3);--> statement-breakpoint
+ALTER TABLE "UserSettings" ADD COLUMN "eliminateIntercompany" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "xero_contacts" ADD COLUMN "is_related_entity" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "xero_suppliers" ADD COLUMN "is_related_entity" boolean DEFAULT false NOT NULL;
\ No newline at end of file
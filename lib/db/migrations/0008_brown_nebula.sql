@@ -0,0 +1,9 @@
+CREATE TABLE "ap_risk_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_org_id" text NOT NULL,
+	"config" json NOT NULL,
+	"updated_by_clerk_user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "ap_risk_settings_clerk_org_id_unique" UNIQUE("clerk_org_id")
+);
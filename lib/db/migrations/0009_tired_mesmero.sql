@@ -0,0 +1,15 @@
+CREATE TABLE "llm_usage" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" text NOT NULL,
+	"clerk_org_id" text,
+	"chat_id" uuid,
+	"model" varchar(128) NOT NULL,
+	"feature" varchar(64) NOT NULL,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"total_tokens" integer DEFAULT 0 NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX "llm_usage_user_created_idx" ON "llm_usage" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "llm_usage_org_created_idx" ON "llm_usage" USING btree ("clerk_org_id","created_at");
\ No newline at end of file
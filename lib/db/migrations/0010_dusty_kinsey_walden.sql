@@ -0,0 +1,22 @@
+CREATE TABLE "collection_emails" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_org_id" text NOT NULL,
+	"xero_tenant_id" text NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"tone" varchar(20) NOT NULL,
+	"to_email" text,
+	"subject" text NOT NULL,
+	"body" text NOT NULL,
+	"status" varchar(20) DEFAULT 'DRAFT' NOT NULL,
+	"scheduled_for" timestamp,
+	"sent_at" timestamp,
+	"message_id" text,
+	"error" text,
+	"created_by_clerk_user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "collection_emails" ADD CONSTRAINT "collection_emails_contact_id_xero_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."xero_contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "collection_emails_contact_idx" ON "collection_emails" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "collection_emails_status_scheduled_idx" ON "collection_emails" USING btree ("status","scheduled_for");
\ No newline at end of file
@@ -0,0 +1,37 @@
+CREATE TABLE "invoice_disputes" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_org_id" text NOT NULL,
+	"xero_tenant_id" text NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"amount" numeric(19, 4) NOT NULL,
+	"reason" text NOT NULL,
+	"status" varchar(20) DEFAULT 'OPEN' NOT NULL,
+	"resolved_at" timestamp,
+	"created_by_clerk_user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "payment_promises" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_org_id" text NOT NULL,
+	"xero_tenant_id" text NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"amount" numeric(19, 4) NOT NULL,
+	"promised_date" timestamp NOT NULL,
+	"paid_at_creation" numeric(19, 4) NOT NULL,
+	"note" text,
+	"status" varchar(20) DEFAULT 'OPEN' NOT NULL,
+	"resolved_at" timestamp,
+	"created_by_clerk_user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_disputes" ADD CONSTRAINT "invoice_disputes_contact_id_xero_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."xero_contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_disputes" ADD CONSTRAINT "invoice_disputes_invoice_id_xero_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."xero_invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "payment_promises" ADD CONSTRAINT "payment_promises_contact_id_xero_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."xero_contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "invoice_disputes_contact_idx" ON "invoice_disputes" USING btree ("contact_id");--> statement-breakpoint
+CREATE INDEX "invoice_disputes_invoice_idx" ON "invoice_disputes" USING btree ("invoice_id");--> statement-breakpoint
+CREATE INDEX "payment_promises_contact_idx" ON "payment_promises" USING btree ("contact_id");
\ No newline at end of file
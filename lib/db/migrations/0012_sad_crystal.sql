@@ -0,0 +1,2 @@
+ALTER TABLE "xero_invoices" ADD COLUMN "amount_credited" numeric(19, 4);--> statement-breakpoint
+ALTER TABLE "xero_invoices" ADD COLUMN "fully_paid_on" timestamp;
\ No newline at end of file
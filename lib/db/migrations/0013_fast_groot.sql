@@ -0,0 +1,20 @@
+CREATE TABLE "cashflow_settings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_org_id" text NOT NULL,
+	"minimum_cash" numeric(19, 4) NOT NULL,
+	"updated_by_clerk_user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "cashflow_settings_clerk_org_id_unique" UNIQUE("clerk_org_id")
+);
+--> statement-breakpoint
+CREATE TABLE "xero_bank_balances" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"xero_tenant_id" text NOT NULL,
+	"xero_account_id" text NOT NULL,
+	"name" text NOT NULL,
+	"balance" numeric(19, 4) NOT NULL,
+	"as_of" timestamp NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "xero_bank_balances_xero_tenant_id_xero_account_id_unique" UNIQUE("xero_tenant_id","xero_account_id")
+);
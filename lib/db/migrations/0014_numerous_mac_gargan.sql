@@ -0,0 +1,27 @@
+CREATE TABLE "cashflow_scenario_rules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scenario_id" uuid NOT NULL,
+	"type" varchar(50) NOT NULL,
+	"days" integer,
+	"supplier_id" uuid,
+	"percent" numeric(5, 2),
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "cashflow_scenarios" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_org_id" text NOT NULL,
+	"name" text NOT NULL,
+	"description" text,
+	"created_by_clerk_user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "cashflow_adjustments" ADD COLUMN "scenario_id" uuid;--> statement-breakpoint
+ALTER TABLE "cashflow_scenario_rules" ADD CONSTRAINT "cashflow_scenario_rules_scenario_id_cashflow_scenarios_id_fk" FOREIGN KEY ("scenario_id") REFERENCES "public"."cashflow_scenarios"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "cashflow_scenario_rules" ADD CONSTRAINT "cashflow_scenario_rules_supplier_id_xero_suppliers_id_fk" FOREIGN KEY ("supplier_id") REFERENCES "public"."xero_suppliers"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "cashflow_scenario_rules_scenario_idx" ON "cashflow_scenario_rules" USING btree ("scenario_id");--> statement-breakpoint
+CREATE INDEX "cashflow_scenarios_org_idx" ON "cashflow_scenarios" USING btree ("clerk_org_id");--> statement-breakpoint
+ALTER TABLE "cashflow_adjustments" ADD CONSTRAINT "cashflow_adjustments_scenario_id_cashflow_scenarios_id_fk" FOREIGN KEY ("scenario_id") REFERENCES "public"."cashflow_scenarios"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "cashflow_adjustments_scenario_idx" ON "cashflow_adjustments" USING btree ("scenario_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "cashflow_adjustments" ADD COLUMN "recurrence" varchar(50);--> statement-breakpoint
+ALTER TABLE "cashflow_adjustments" ADD COLUMN "recurrence_end_date" timestamp;
\ No newline at end of file
@@ -0,0 +1,2 @@
+CREATE INDEX "DocumentChunk_user_chat_idx" ON "DocumentChunk" USING btree ("userId","chatId");--> statement-breakpoint
+CREATE INDEX "DocumentChunk_embedding_idx" ON "DocumentChunk" USING hnsw ("embedding" vector_cosine_ops);
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE INDEX "DocumentChunk_content_search_idx" ON "DocumentChunk" USING gin (to_tsvector('english', "content"));
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "DocumentChunk" ADD COLUMN "pageNumber" integer;
\ No newline at end of file
@@ -0,0 +1,19 @@
+CREATE TABLE "knowledge_documents" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"clerk_org_id" text NOT NULL,
+	"title" text NOT NULL,
+	"content_type" varchar(255) NOT NULL,
+	"blob_url" text NOT NULL,
+	"tags" json DEFAULT '[]'::json NOT NULL,
+	"uploaded_by_clerk_user_id" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "DocumentChunk" ALTER COLUMN "chatId" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "Chat" ADD COLUMN "knowledgeScope" varchar DEFAULT 'all' NOT NULL;--> statement-breakpoint
+ALTER TABLE "DocumentChunk" ADD COLUMN "clerkOrgId" text;--> statement-breakpoint
+ALTER TABLE "DocumentChunk" ADD COLUMN "knowledgeDocumentId" uuid;--> statement-breakpoint
+CREATE INDEX "knowledge_documents_org_idx" ON "knowledge_documents" USING btree ("clerk_org_id");--> statement-breakpoint
+ALTER TABLE "DocumentChunk" ADD CONSTRAINT "DocumentChunk_knowledgeDocumentId_knowledge_documents_id_fk" FOREIGN KEY ("knowledgeDocumentId") REFERENCES "public"."knowledge_documents"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "DocumentChunk_org_idx" ON "DocumentChunk" USING btree ("clerkOrgId");
\ No newline at end of file
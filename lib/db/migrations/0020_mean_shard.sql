@@ -0,0 +1 @@
+ALTER TABLE "DocumentChunk" ADD COLUMN "metadata" json;
\ No newline at end of file
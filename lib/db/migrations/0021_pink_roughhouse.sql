@@ -0,0 +1,3 @@
+ALTER TABLE "xero_invoices" ADD COLUMN "invoice_number" text;--> statement-breakpoint
+-- Existing rows have no invoice number: resync invoices in full to fill it in
+UPDATE "integration_sync_state" SET "last_sync_at" = NULL, "cursor" = NULL WHERE "data_type" = 'invoices';
@@ -0,0 +1 @@
+ALTER TABLE "integration_sync_runs" ADD COLUMN "heartbeat_at" timestamp;
\ No newline at end of file
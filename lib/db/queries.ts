@@ -3,18 +3,22 @@ import "server-only";
 import {
 	and,
 	asc,
+	cosineDistance,
 	count,
 	desc,
 	eq,
 	gt,
 	gte,
 	inArray,
+	isNull,
 	lt,
+	or,
 	type SQL,
 	sql,
 } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/postgres-js";
 import postgres from "postgres";
+import type { KnowledgeScope } from "@/components/knowledge-scope-selector";
 import type { VisibilityType } from "@/components/visibility-selector";
 import { ChatSDKError } from "../errors";
 import type { ChatHistoryItem } from "../types";
@@ -26,6 +30,9 @@ import {
 	type Document,
 	document,
 	documentChunk,
+	type KnowledgeDocument,
+	knowledgeDocuments,
+	llmUsage,
 	message,
 	type Suggestion,
 	stream,
@@ -99,11 +106,13 @@ export async function saveChat({
 	userId,
 	title,
 	visibility,
+	knowledgeScope,
 }: {
 	id: string;
 	userId: string;
 	title: string;
 	visibility: VisibilityType;
+	knowledgeScope?: KnowledgeScope;
 }) {
 	try {
 		return await db.insert(chat).values({
@@ -112,6 +121,7 @@ export async function saveChat({
 			userId,
 			title,
 			visibility,
+			knowledgeScope,
 		});
 	} catch (_error) {
 		throw new ChatSDKError("bad_request:database", "Failed to save chat");
@@ -209,6 +219,7 @@ export async function getChatsByUserId({
 			title: chat.title,
 			userId: chat.userId,
 			visibility: chat.visibility,
+			knowledgeScope: chat.knowledgeScope,
 		};
 
 		const query = (whereCondition?: SQL<any>) =>
@@ -461,34 +472,138 @@ export async function saveDocumentChunks({
 	}
 }
 
-export async function getDocumentChunksByUserId({
+/**
+ * Which chunks RAG may search. Chat chunks are the user's own uploads (to
+ * one chat when chatId is given); org chunks are the knowledge base shared
+ * by everyone in the Clerk org.
+ */
+export type DocumentChunkScope = {
+	userId: string;
+	chatId?: string;
+	orgId?: string | null;
+	knowledgeScope: KnowledgeScope;
+};
+
+function documentChunkScopeFilter({
 	userId,
 	chatId,
+	orgId,
+	knowledgeScope,
+}: DocumentChunkScope): SQL {
+	const chatChunks = and(
+		eq(documentChunk.userId, userId),
+		chatId ? eq(documentChunk.chatId, chatId) : undefined,
+		isNull(documentChunk.knowledgeDocumentId),
+	) as SQL;
+	const orgChunks = orgId ? eq(documentChunk.clerkOrgId, orgId) : undefined;
+
+	if (knowledgeScope === "chat") {
+		return chatChunks;
+	}
+	if (knowledgeScope === "organisation") {
+		return orgChunks ?? sql`false`;
+	}
+	return orgChunks ? (or(chatChunks, orgChunks) as SQL) : chatChunks;
+}
+
+/**
+ * Chunks in scope closest to an embedding by cosine similarity, best first.
+ * Ordering by distance lets Postgres use the HNSW index on embedding.
+ *
+ * The scope filter is applied to what the index scan returns, and a plain
+ * scan returns only about hnsw.ef_search (40) neighbours from the whole
+ * table, so a tenant could get few or no chunks. Iterative scans (pgvector
+ * 0.8.0 or later) keep scanning until topK chunks in scope are found. The
+ * min-score filter sits outside the scan, as pgvector recommends, so a high
+ * threshold doesn't make it walk the whole index.
+ */
+export async function searchDocumentChunks({
+	scope,
+	embedding,
+	topK,
+	minScore,
 }: {
-	userId: string;
-	chatId?: string;
+	scope: DocumentChunkScope;
+	embedding: number[];
+	topK: number;
+	minScore: number;
 }) {
 	try {
-		if (chatId) {
-			return await db
-				.select()
+		const distance = cosineDistance(documentChunk.embedding, embedding);
+
+		return await db.transaction(async (tx) => {
+			await tx.execute(sql`SET LOCAL hnsw.iterative_scan = relaxed_order`);
+
+			const nearest = tx
+				.select({
+					id: documentChunk.id,
+					artifactId: documentChunk.artifactId,
+					knowledgeDocumentId: documentChunk.knowledgeDocumentId,
+					chunkIndex: documentChunk.chunkIndex,
+					pageNumber: documentChunk.pageNumber,
+					metadata: documentChunk.metadata,
+					content: documentChunk.content,
+					score: sql<number>`1 - (${distance})`.as("score"),
+				})
 				.from(documentChunk)
-				.where(
-					and(
-						eq(documentChunk.userId, userId),
-						eq(documentChunk.chatId, chatId),
-					),
-				);
-		}
+				.where(documentChunkScopeFilter(scope))
+				.orderBy(distance)
+				.limit(topK)
+				.as("nearest");
+
+			// Relaxed order can return neighbours slightly out of order
+			return await tx
+				.select()
+				.from(nearest)
+				.where(gte(nearest.score, minScore))
+				.orderBy(desc(nearest.score));
+		});
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to search document chunks",
+		);
+	}
+}
+
+/**
+ * Chunks in scope matching any of the query's words, best first. Uses the
+ * same to_tsvector expression as the GIN index so the index can be used.
+ */
+export async function searchDocumentChunksByKeyword({
+	scope,
+	query,
+	limit,
+}: {
+	scope: DocumentChunkScope;
+	query: string;
+	limit: number;
+}) {
+	try {
+		const document = sql`to_tsvector('english', ${documentChunk.content})`;
+		// plainto_tsquery ANDs every word; OR them so one exact match is enough
+		const terms = sql`replace(plainto_tsquery('english', ${query})::text, '&', '|')::tsquery`;
+		const score = sql<number>`ts_rank_cd(${document}, ${terms})`;
 
 		return await db
-			.select()
+			.select({
+				id: documentChunk.id,
+				artifactId: documentChunk.artifactId,
+				knowledgeDocumentId: documentChunk.knowledgeDocumentId,
+				chunkIndex: documentChunk.chunkIndex,
+				pageNumber: documentChunk.pageNumber,
+				metadata: documentChunk.metadata,
+				content: documentChunk.content,
+				score,
+			})
 			.from(documentChunk)
-			.where(eq(documentChunk.userId, userId));
+			.where(and(documentChunkScopeFilter(scope), sql`${document} @@ ${terms}`))
+			.orderBy(desc(score))
+			.limit(limit);
 	} catch (_error) {
 		throw new ChatSDKError(
 			"bad_request:database",
-			"Failed to get document chunks by user id",
+			"Failed to search document chunks by keyword",
 		);
 	}
 }
@@ -555,6 +670,229 @@ export async function getDocumentById({ id }: { id: string }) {
 	}
 }
 
+/**
+ * The latest title, kind and file of each document, for citing RAG sources
+ */
+export async function getDocumentHeadersByIds({ ids }: { ids: string[] }) {
+	if (ids.length === 0) {
+		return [];
+	}
+
+	try {
+		return await db
+			.selectDistinctOn([document.id], {
+				id: document.id,
+				title: document.title,
+				kind: document.kind,
+				blobUrl: document.blobUrl,
+			})
+			.from(document)
+			.where(inArray(document.id, ids))
+			.orderBy(document.id, desc(document.createdAt));
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to get document headers by ids",
+		);
+	}
+}
+
+export async function saveKnowledgeDocument(
+	values: typeof knowledgeDocuments.$inferInsert,
+) {
+	try {
+		const [saved] = await db
+			.insert(knowledgeDocuments)
+			.values(values)
+			.returning();
+		return saved;
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to save knowledge document",
+		);
+	}
+}
+
+export async function getKnowledgeDocumentsByOrgId({
+	orgId,
+}: {
+	orgId: string;
+}): Promise<KnowledgeDocument[]> {
+	try {
+		return await db
+			.select()
+			.from(knowledgeDocuments)
+			.where(eq(knowledgeDocuments.clerkOrgId, orgId))
+			.orderBy(asc(knowledgeDocuments.title));
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to get knowledge documents by org id",
+		);
+	}
+}
+
+export async function getKnowledgeDocumentById({
+	id,
+	orgId,
+}: {
+	id: string;
+	orgId: string;
+}): Promise<KnowledgeDocument | undefined> {
+	try {
+		const [selected] = await db
+			.select()
+			.from(knowledgeDocuments)
+			.where(
+				and(
+					eq(knowledgeDocuments.id, id),
+					eq(knowledgeDocuments.clerkOrgId, orgId),
+				),
+			);
+		return selected;
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to get knowledge document by id",
+		);
+	}
+}
+
+export async function updateKnowledgeDocument({
+	id,
+	orgId,
+	values,
+}: {
+	id: string;
+	orgId: string;
+	values: Partial<
+		Pick<KnowledgeDocument, "title" | "contentType" | "blobUrl" | "tags">
+	>;
+}) {
+	try {
+		return await db
+			.update(knowledgeDocuments)
+			.set({ ...values, updatedAt: new Date() })
+			.where(
+				and(
+					eq(knowledgeDocuments.id, id),
+					eq(knowledgeDocuments.clerkOrgId, orgId),
+				),
+			);
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to update knowledge document",
+		);
+	}
+}
+
+/**
+ * Deletes a knowledge document; its chunks are removed by the cascade
+ */
+export async function deleteKnowledgeDocumentById({
+	id,
+	orgId,
+}: {
+	id: string;
+	orgId: string;
+}) {
+	try {
+		return await db
+			.delete(knowledgeDocuments)
+			.where(
+				and(
+					eq(knowledgeDocuments.id, id),
+					eq(knowledgeDocuments.clerkOrgId, orgId),
+				),
+			);
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to delete knowledge document",
+		);
+	}
+}
+
+/**
+ * Swaps a knowledge document's chunks for new ones and applies any changes to
+ * the document in one transaction, so a failure leaves the old file and its
+ * chunks searchable
+ */
+export async function replaceKnowledgeDocumentChunks({
+	knowledgeDocumentId,
+	orgId,
+	values,
+	chunks,
+}: {
+	knowledgeDocumentId: string;
+	orgId: string;
+	values?: Partial<
+		Pick<KnowledgeDocument, "title" | "contentType" | "blobUrl" | "tags">
+	>;
+	chunks: Array<typeof documentChunk.$inferInsert>;
+}) {
+	try {
+		return await db.transaction(async (tx) => {
+			await tx
+				.delete(documentChunk)
+				.where(eq(documentChunk.knowledgeDocumentId, knowledgeDocumentId));
+
+			if (chunks.length > 0) {
+				await tx.insert(documentChunk).values(chunks);
+			}
+
+			if (values) {
+				await tx
+					.update(knowledgeDocuments)
+					.set({ ...values, updatedAt: new Date() })
+					.where(
+						and(
+							eq(knowledgeDocuments.id, knowledgeDocumentId),
+							eq(knowledgeDocuments.clerkOrgId, orgId),
+						),
+					);
+			}
+		});
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to replace knowledge document chunks",
+		);
+	}
+}
+
+/**
+ * Title and file of each knowledge document, for citing RAG sources
+ */
+export async function getKnowledgeDocumentHeadersByIds({
+	ids,
+}: {
+	ids: string[];
+}) {
+	if (ids.length === 0) {
+		return [];
+	}
+
+	try {
+		return await db
+			.select({
+				id: knowledgeDocuments.id,
+				title: knowledgeDocuments.title,
+				contentType: knowledgeDocuments.contentType,
+				blobUrl: knowledgeDocuments.blobUrl,
+			})
+			.from(knowledgeDocuments)
+			.where(inArray(knowledgeDocuments.id, ids));
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to get knowledge document headers by ids",
+		);
+	}
+}
+
 export async function deleteDocumentsByIdAfterTimestamp({
 	id,
 	timestamp,
@@ -685,6 +1023,26 @@ export async function updateChatVisibilityById({
 	}
 }
 
+export async function updateChatKnowledgeScopeById({
+	chatId,
+	knowledgeScope,
+}: {
+	chatId: string;
+	knowledgeScope: KnowledgeScope;
+}) {
+	try {
+		return await db
+			.update(chat)
+			.set({ knowledgeScope })
+			.where(eq(chat.id, chatId));
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to update chat knowledge scope by id",
+		);
+	}
+}
+
 export async function updateChatTitleById({
 	chatId,
 	title,
@@ -840,19 +1198,26 @@ export async function upsertUserSettings({
 	timezone,
 	baseCurrency,
 	dateFormat,
+	eliminateIntercompany,
 }: {
 	userId: string;
 	companyName?: string | null;
 	timezone?: string | null;
 	baseCurrency?: string | null;
 	dateFormat?: string | null;
+	eliminateIntercompany?: boolean | null;
 }): Promise<UserSettings> {
 	try {
 		// Prepare the update set, only including fields that are explicitly provided.
 		const updateSet: Partial<
 			Pick<
 				UserSettings,
-				"companyName" | "timezone" | "baseCurrency" | "dateFormat" | "updatedAt"
+				| "companyName"
+				| "timezone"
+				| "baseCurrency"
+				| "dateFormat"
+				| "eliminateIntercompany"
+				| "updatedAt"
 			>
 		> = {
 			updatedAt: new Date(),
@@ -861,6 +1226,8 @@ export async function upsertUserSettings({
 		if (timezone !== undefined) updateSet.timezone = timezone;
 		if (baseCurrency !== undefined) updateSet.baseCurrency = baseCurrency;
 		if (dateFormat !== undefined) updateSet.dateFormat = dateFormat;
+		if (eliminateIntercompany !== undefined && eliminateIntercompany !== null)
+			updateSet.eliminateIntercompany = eliminateIntercompany;
 
 		const [result] = await db
 			.insert(userSettings)
@@ -870,6 +1237,7 @@ export async function upsertUserSettings({
 				timezone: timezone ?? "Australia/Brisbane", // Corrected default timezone
 				baseCurrency: baseCurrency ?? "AUD",
 				dateFormat: dateFormat ?? "DD/MM/YYYY",
+				eliminateIntercompany: eliminateIntercompany ?? false,
 				createdAt: new Date(),
 				updatedAt: new Date(),
 			})
@@ -888,3 +1256,81 @@ export async function upsertUserSettings({
 		);
 	}
 }
+
+// LLM usage metering
+
+export async function saveLlmUsage({
+	userId,
+	clerkOrgId,
+	chatId,
+	model,
+	feature,
+	inputTokens,
+	outputTokens,
+}: {
+	userId: string;
+	clerkOrgId: string | null;
+	chatId?: string | null;
+	model: string;
+	feature: string;
+	inputTokens: number;
+	outputTokens: number;
+}) {
+	try {
+		await db.insert(llmUsage).values({
+			userId,
+			clerkOrgId,
+			chatId: chatId ?? null,
+			model,
+			feature,
+			inputTokens,
+			outputTokens,
+			totalTokens: inputTokens + outputTokens,
+		});
+	} catch (_error) {
+		throw new ChatSDKError("bad_request:database", "Failed to save LLM usage");
+	}
+}
+
+/**
+ * Token totals per day and model. Scoped to the org when `clerkOrgId` is
+ * given, otherwise to the user's own usage.
+ */
+export async function getDailyLlmUsage({
+	userId,
+	clerkOrgId,
+	since,
+}: {
+	userId: string;
+	clerkOrgId?: string | null;
+	since: Date;
+}) {
+	try {
+		const day = sql<string>`to_char(date_trunc('day', ${llmUsage.createdAt}), 'YYYY-MM-DD')`;
+
+		return await db
+			.select({
+				day,
+				model: llmUsage.model,
+				inputTokens: sql<number>`cast(sum(${llmUsage.inputTokens}) as integer)`,
+				outputTokens: sql<number>`cast(sum(${llmUsage.outputTokens}) as integer)`,
+				totalTokens: sql<number>`cast(sum(${llmUsage.totalTokens}) as integer)`,
+			})
+			.from(llmUsage)
+			.where(
+				and(
+					clerkOrgId
+						? eq(llmUsage.clerkOrgId, clerkOrgId)
+						: eq(llmUsage.userId, userId),
+					gte(llmUsage.createdAt, since),
+				),
+			)
+			.groupBy(day, llmUsage.model)
+			.orderBy(asc(day));
+	} catch (_error) {
+		throw new ChatSDKError(
+			"bad_request:database",
+			"Failed to get daily LLM usage",
+		);
+	}
+}
@@ -1,4 +1,4 @@
-import type { InferSelectModel } from "drizzle-orm";
+import { type InferSelectModel, sql } from "drizzle-orm";
 import {
 	boolean,
 	foreignKey,
@@ -15,6 +15,7 @@ import {
 	varchar,
 	vector,
 } from "drizzle-orm/pg-core";
+import type { RiskScoringConfig } from "@/lib/agents/ap/risk-scoring";
 
 export const user = pgTable("User", {
 	id: text("id").primaryKey().notNull(),
@@ -34,6 +35,10 @@ export const userSettings = pgTable("UserSettings", {
 	timezone: varchar("timezone", { length: 64 }).default("Australia/Brisbane"),
 	baseCurrency: varchar("baseCurrency", { length: 3 }).default("AUD"),
 	dateFormat: varchar("dateFormat", { length: 20 }).default("DD/MM/YYYY"),
+	// Consolidated dashboards drop balances with contacts flagged as related entities
+	eliminateIntercompany: boolean("eliminateIntercompany")
+		.notNull()
+		.default(false),
 	createdAt: timestamp("createdAt").notNull().defaultNow(),
 	updatedAt: timestamp("updatedAt").notNull().defaultNow(),
 });
@@ -50,6 +55,13 @@ export const chat = pgTable("Chat", {
 	visibility: varchar("visibility", { enum: ["public", "private"] })
 		.notNull()
 		.default("private"),
+	// Which uploaded documents RAG searches: this chat's, the org knowledge
+	// base, or both
+	knowledgeScope: varchar("knowledgeScope", {
+		enum: ["chat", "organisation", "all"],
+	})
+		.notNull()
+		.default("all"),
 });
 
 export type Chat = InferSelectModel<typeof chat>;
@@ -154,20 +166,76 @@ export const document = pgTable(
 
 export type Document = InferSelectModel<typeof document>;
 
-export const documentChunk = pgTable("DocumentChunk", {
-	id: uuid("id").notNull().defaultRandom().primaryKey(),
-	artifactId: uuid("artifactId").notNull(),
-	userId: text("userId")
-		.notNull()
-		.references(() => user.id),
-	chatId: uuid("chatId")
-		.notNull()
-		.references(() => chat.id),
-	chunkIndex: integer("chunkIndex").notNull(),
-	content: text("content").notNull(),
-	embedding: vector("embedding", { dimensions: 1536 }).notNull(),
-	createdAt: timestamp("createdAt").notNull(),
-});
+// Org-wide documents shared with every member's chats
+export const knowledgeDocuments = pgTable(
+	"knowledge_documents",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		clerkOrgId: text("clerk_org_id").notNull(),
+		title: text("title").notNull(),
+		contentType: varchar("content_type", { length: 255 }).notNull(),
+		blobUrl: text("blob_url").notNull(),
+		tags: json("tags").$type<string[]>().notNull().default([]),
+		uploadedByClerkUserId: text("uploaded_by_clerk_user_id").notNull(),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		orgIdx: index("knowledge_documents_org_idx").on(table.clerkOrgId),
+	}),
+);
+
+export type KnowledgeDocument = InferSelectModel<typeof knowledgeDocuments>;
+
+// Where in its document a chunk came from, beyond the page
+export interface DocumentChunkMetadata {
+	section?: string; // Heading path, e.g. "Leave > Annual leave"
+	rowStart?: number; // First and last data row of a sheet chunk, 1-based
+	rowEnd?: number;
+}
+
+export const documentChunk = pgTable(
+	"DocumentChunk",
+	{
+		id: uuid("id").notNull().defaultRandom().primaryKey(),
+		// Document or knowledge document the chunk was cut from
+		artifactId: uuid("artifactId").notNull(),
+		userId: text("userId")
+			.notNull()
+			.references(() => user.id),
+		// Null for knowledge base chunks, which belong to an org instead
+		chatId: uuid("chatId").references(() => chat.id),
+		clerkOrgId: text("clerkOrgId"),
+		knowledgeDocumentId: uuid("knowledgeDocumentId").references(
+			() => knowledgeDocuments.id,
+			{ onDelete: "cascade" },
+		),
+		chunkIndex: integer("chunkIndex").notNull(),
+		// 1-based page the chunk came from, for PDFs
+		pageNumber: integer("pageNumber"),
+		metadata: json("metadata").$type<DocumentChunkMetadata>(),
+		content: text("content").notNull(),
+		embedding: vector("embedding", { dimensions: 1536 }).notNull(),
+		createdAt: timestamp("createdAt").notNull(),
+	},
+	(table) => ({
+		userChatIdx: index("DocumentChunk_user_chat_idx").on(
+			table.userId,
+			table.chatId,
+		),
+		orgIdx: index("DocumentChunk_org_idx").on(table.clerkOrgId),
+		// Approximate nearest neighbour search on cosine distance
+		embeddingIdx: index("DocumentChunk_embedding_idx").using(
+			"hnsw",
+			table.embedding.op("vector_cosine_ops"),
+		),
+		// Keyword search for exact terms like invoice numbers and ABNs
+		contentSearchIdx: index("DocumentChunk_content_search_idx").using(
+			"gin",
+			sql`to_tsvector('english', ${table.content})`,
+		),
+	}),
+);
 
 export type DocumentChunk = InferSelectModel<typeof documentChunk>;
 
@@ -256,6 +324,7 @@ export const integrationTenantBindings = pgTable(
 		provider: varchar("provider", { length: 50 }).notNull().default("xero"),
 		externalTenantId: text("external_tenant_id").notNull(),
 		externalTenantName: text("external_tenant_name"),
+		baseCurrency: varchar("base_currency", { length: 3 }), // From Xero /Organisation, set on sync
 		activeGrantId: uuid("active_grant_id")
 			.notNull()
 			.references(() => integrationGrants.id),
@@ -290,17 +359,59 @@ export const integrationWebhookEvents = pgTable("integration_webhook_events", {
 	createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
-export const integrationSyncState = pgTable("integration_sync_state", {
-	id: uuid("id").primaryKey().notNull().defaultRandom(),
-	tenantBindingId: uuid("tenant_binding_id")
-		.notNull()
-		.references(() => integrationTenantBindings.id)
-		.unique(),
-	dataType: varchar("data_type", { length: 50 }).notNull(), // e.g. "invoices", "contacts"
-	cursor: text("cursor"),
-	lastSyncAt: timestamp("last_sync_at"),
-	updatedAt: timestamp("updated_at").notNull().defaultNow(),
-});
+export const integrationSyncState = pgTable(
+	"integration_sync_state",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		tenantBindingId: uuid("tenant_binding_id")
+			.notNull()
+			.references(() => integrationTenantBindings.id),
+		dataType: varchar("data_type", { length: 50 }).notNull(), // e.g. "invoices", "contacts"
+		cursor: text("cursor"),
+		lastSyncAt: timestamp("last_sync_at"),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		// One cursor per data type per tenant binding
+		unq: unique().on(table.tenantBindingId, table.dataType),
+	}),
+);
+
+export type IntegrationSyncState = InferSelectModel<
+	typeof integrationSyncState
+>;
+
+export const integrationSyncRuns = pgTable(
+	"integration_sync_runs",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		tenantBindingId: uuid("tenant_binding_id")
+			.notNull()
+			.references(() => integrationTenantBindings.id),
+		dataType: varchar("data_type", { length: 50 }).notNull(),
+		trigger: varchar("trigger", {
+			enum: ["manual", "webhook", "schedule"],
+		}).notNull(),
+		status: varchar("status", { enum: ["running", "success", "failed"] })
+			.notNull()
+			.default("running"),
+		recordCount: integer("record_count"), // Rows upserted from Xero
+		errorCode: varchar("error_code", { length: 100 }), // IntegrationError code
+		errorMessage: text("error_message"),
+		startedAt: timestamp("started_at").notNull().defaultNow(),
+		// Touched as a running sync makes progress; a stale one means it died
+		heartbeatAt: timestamp("heartbeat_at"),
+		finishedAt: timestamp("finished_at"),
+	},
+	(table) => ({
+		bindingStartedIdx: index("integration_sync_runs_binding_started_idx").on(
+			table.tenantBindingId,
+			table.startedAt,
+		),
+	}),
+);
+
+export type IntegrationSyncRun = InferSelectModel<typeof integrationSyncRuns>;
 
 export const xeroContacts = pgTable(
 	"xero_contacts",
@@ -311,6 +422,9 @@ export const xeroContacts = pgTable(
 		name: text("name").notNull(),
 		email: text("email"),
 		phone: text("phone"),
+		contactStatus: varchar("contact_status", { length: 50 }), // ACTIVE, ARCHIVED, GDPRREQUEST
+		// Set locally, never by sync: another entity in the group (intercompany)
+		isRelatedEntity: boolean("is_related_entity").notNull().default(false),
 		updatedAt: timestamp("updated_at").notNull().defaultNow(),
 	},
 	(table) => ({
@@ -327,6 +441,7 @@ export const xeroInvoices = pgTable(
 		id: uuid("id").primaryKey().notNull().defaultRandom(),
 		xeroTenantId: text("xero_tenant_id").notNull(),
 		xeroInvoiceId: text("xero_invoice_id").notNull(),
+		invoiceNumber: text("invoice_number"), // As printed on the invoice, e.g. INV-0042
 		contactId: uuid("contact_id").references(() => xeroContacts.id),
 		type: varchar("type", { length: 50 }),
 		status: varchar("status", { length: 50 }),
@@ -334,8 +449,10 @@ export const xeroInvoices = pgTable(
 		dueDate: timestamp("due_date"),
 		amountDue: numeric("amount_due", { precision: 19, scale: 4 }),
 		amountPaid: numeric("amount_paid", { precision: 19, scale: 4 }),
+		amountCredited: numeric("amount_credited", { precision: 19, scale: 4 }),
 		total: numeric("total", { precision: 19, scale: 4 }),
 		currencyCode: varchar("currency_code", { length: 10 }),
+		fullyPaidOn: timestamp("fully_paid_on"),
 		updatedAt: timestamp("updated_at").notNull().defaultNow(),
 	},
 	(table) => ({
@@ -361,6 +478,8 @@ export const xeroSuppliers = pgTable(
 		contactStatus: varchar("contact_status", { length: 50 }),
 		bankAccountNumber: text("bank_account_number"),
 		bankAccountName: text("bank_account_name"),
+		// Set locally, never by sync: another entity in the group (intercompany)
+		isRelatedEntity: boolean("is_related_entity").notNull().default(false),
 		updatedAt: timestamp("updated_at").notNull().defaultNow(),
 	},
 	(table) => ({
@@ -406,6 +525,52 @@ export const xeroBills = pgTable(
 
 export type XeroBill = InferSelectModel<typeof xeroBills>;
 
+export interface XeroLineItemTracking {
+	name: string; // Tracking category, e.g. "Region"
+	option: string; // Tracking option, e.g. "North"
+}
+
+// Line items for both invoices and bills; exactly one parent is set
+export const xeroLineItems = pgTable(
+	"xero_line_items",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		xeroTenantId: text("xero_tenant_id").notNull(),
+		invoiceId: uuid("invoice_id").references(() => xeroInvoices.id, {
+			onDelete: "cascade",
+		}),
+		billId: uuid("bill_id").references(() => xeroBills.id, {
+			onDelete: "cascade",
+		}),
+		xeroLineItemId: text("xero_line_item_id"),
+		description: text("description"),
+		quantity: numeric("quantity", { precision: 19, scale: 4 }),
+		unitAmount: numeric("unit_amount", { precision: 19, scale: 4 }),
+		lineAmount: numeric("line_amount", { precision: 19, scale: 4 }),
+		taxAmount: numeric("tax_amount", { precision: 19, scale: 4 }),
+		accountCode: varchar("account_code", { length: 50 }),
+		taxType: varchar("tax_type", { length: 50 }),
+		itemCode: text("item_code"),
+		tracking: json("tracking").$type<XeroLineItemTracking[]>(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		tenantIdx: index("xero_line_items_tenant_idx").on(table.xeroTenantId),
+		invoiceIdx: index("xero_line_items_invoice_idx").on(table.invoiceId),
+		billIdx: index("xero_line_items_bill_idx").on(table.billId),
+		accountCodeIdx: index("xero_line_items_account_code_idx").on(
+			table.xeroTenantId,
+			table.accountCode,
+		),
+		itemCodeIdx: index("xero_line_items_item_code_idx").on(
+			table.xeroTenantId,
+			table.itemCode,
+		),
+	}),
+);
+
+export type XeroLineItem = InferSelectModel<typeof xeroLineItems>;
+
 export const xeroTransactions = pgTable(
 	"xero_transactions",
 	{
@@ -428,6 +593,73 @@ export const xeroTransactions = pgTable(
 
 export type XeroTransaction = InferSelectModel<typeof xeroTransactions>;
 
+// Bank account balances from Xero's Bank Summary report, replaced on each sync
+export const xeroBankBalances = pgTable(
+	"xero_bank_balances",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		xeroTenantId: text("xero_tenant_id").notNull(),
+		xeroAccountId: text("xero_account_id").notNull(),
+		name: text("name").notNull(),
+		balance: numeric("balance", { precision: 19, scale: 4 }).notNull(), // Tenant base currency
+		asOf: timestamp("as_of").notNull(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		unq: unique().on(table.xeroTenantId, table.xeroAccountId),
+	}),
+);
+
+export type XeroBankBalance = InferSelectModel<typeof xeroBankBalances>;
+
+// Named what-if cashflow forecasts, compared against the baseline
+export const cashflowScenarios = pgTable(
+	"cashflow_scenarios",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		clerkOrgId: text("clerk_org_id").notNull(),
+		name: text("name").notNull(),
+		description: text("description"),
+		createdByClerkUserId: text("created_by_clerk_user_id").notNull(),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		orgIdx: index("cashflow_scenarios_org_idx").on(table.clerkOrgId),
+	}),
+);
+
+export type CashflowScenario = InferSelectModel<typeof cashflowScenarios>;
+
+// Rule-based shifts a scenario applies on top of the baseline forecast
+export const cashflowScenarioRules = pgTable(
+	"cashflow_scenario_rules",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		scenarioId: uuid("scenario_id")
+			.notNull()
+			.references(() => cashflowScenarios.id, { onDelete: "cascade" }),
+		type: varchar("type", { length: 50 }).notNull(), // DELAY_RECEIVABLES, CUT_SUPPLIER_BILLS
+		// DELAY_RECEIVABLES: days every receipt arrives later
+		days: integer("days"),
+		// CUT_SUPPLIER_BILLS: the supplier, and the percentage taken off its bills
+		supplierId: uuid("supplier_id").references(() => xeroSuppliers.id, {
+			onDelete: "cascade",
+		}),
+		percent: numeric("percent", { precision: 5, scale: 2 }),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		scenarioIdx: index("cashflow_scenario_rules_scenario_idx").on(
+			table.scenarioId,
+		),
+	}),
+);
+
+export type CashflowScenarioRule = InferSelectModel<
+	typeof cashflowScenarioRules
+>;
+
 export const cashflowAdjustments = pgTable(
 	"cashflow_adjustments",
 	{
@@ -436,11 +668,19 @@ export const cashflowAdjustments = pgTable(
 			.notNull()
 			.references(() => user.id, { onDelete: "cascade" }),
 		xeroTenantId: text("xero_tenant_id").notNull(),
+		// Set on adjustments that only apply within a scenario
+		scenarioId: uuid("scenario_id").references(() => cashflowScenarios.id, {
+			onDelete: "cascade",
+		}),
 		date: timestamp("date").notNull(),
 		amount: numeric("amount", { precision: 19, scale: 4 }).notNull(),
 		description: text("description").notNull(),
 		type: varchar("type", { length: 50 }).notNull(), // IN, OUT
 		status: varchar("status", { length: 50 }).default("SUGGESTED"), // SUGGESTED, CONFIRMED
+		// Repeats from date: WEEKLY, FORTNIGHTLY, MONTHLY, END_OF_MONTH, QUARTERLY_BAS
+		recurrence: varchar("recurrence", { length: 50 }),
+		// Last day a recurring adjustment can fall on; open-ended when null
+		recurrenceEndDate: timestamp("recurrence_end_date"),
 		createdAt: timestamp("created_at").notNull().defaultNow(),
 	},
 	(table) => ({
@@ -448,7 +688,161 @@ export const cashflowAdjustments = pgTable(
 			table.xeroTenantId,
 			table.date,
 		),
+		scenarioIdx: index("cashflow_adjustments_scenario_idx").on(
+			table.scenarioId,
+		),
 	}),
 );
 
 export type CashflowAdjustment = InferSelectModel<typeof cashflowAdjustments>;
+
+// Per-org cashflow forecast settings; orgs without a row have no minimum
+export const cashflowSettings = pgTable("cashflow_settings", {
+	id: uuid("id").primaryKey().notNull().defaultRandom(),
+	clerkOrgId: text("clerk_org_id").notNull().unique(),
+	// Alert when the projected closing balance drops below this
+	minimumCash: numeric("minimum_cash", { precision: 19, scale: 4 }).notNull(),
+	updatedByClerkUserId: text("updated_by_clerk_user_id").notNull(),
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+	updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type CashflowSettings = InferSelectModel<typeof cashflowSettings>;
+
+// AR dunning emails: drafts, scheduled follow-ups and the send log per contact
+export const collectionEmails = pgTable(
+	"collection_emails",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		clerkOrgId: text("clerk_org_id").notNull(),
+		xeroTenantId: text("xero_tenant_id").notNull(),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => xeroContacts.id, { onDelete: "cascade" }),
+		tone: varchar("tone", { length: 20 }).notNull(), // Polite, Firm, Final
+		toEmail: text("to_email"),
+		subject: text("subject").notNull(),
+		body: text("body").notNull(),
+		status: varchar("status", { length: 20 }).notNull().default("DRAFT"), // DRAFT, SCHEDULED, SENDING, SENT, FAILED, CANCELLED
+		scheduledFor: timestamp("scheduled_for"),
+		sentAt: timestamp("sent_at"),
+		messageId: text("message_id"),
+		error: text("error"),
+		createdByClerkUserId: text("created_by_clerk_user_id").notNull(),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		contactIdx: index("collection_emails_contact_idx").on(table.contactId),
+		dueIdx: index("collection_emails_status_scheduled_idx").on(
+			table.status,
+			table.scheduledFor,
+		),
+	}),
+);
+
+export type CollectionEmail = InferSelectModel<typeof collectionEmails>;
+
+// A customer's commitment to pay an amount by a date. Kept or broken is
+// decided from payments recorded against the contact's invoices after it.
+export const paymentPromises = pgTable(
+	"payment_promises",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		clerkOrgId: text("clerk_org_id").notNull(),
+		xeroTenantId: text("xero_tenant_id").notNull(),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => xeroContacts.id, { onDelete: "cascade" }),
+		amount: numeric("amount", { precision: 19, scale: 4 }).notNull(),
+		promisedDate: timestamp("promised_date").notNull(),
+		// Sum of amountPaid across the contact's invoices when recorded
+		paidAtCreation: numeric("paid_at_creation", {
+			precision: 19,
+			scale: 4,
+		}).notNull(),
+		note: text("note"),
+		status: varchar("status", { length: 20 }).notNull().default("OPEN"), // OPEN, KEPT, BROKEN, CANCELLED
+		resolvedAt: timestamp("resolved_at"),
+		createdByClerkUserId: text("created_by_clerk_user_id").notNull(),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		contactIdx: index("payment_promises_contact_idx").on(table.contactId),
+	}),
+);
+
+export type PaymentPromise = InferSelectModel<typeof paymentPromises>;
+
+// An invoice (or part of one) the customer disputes. Open disputes are left
+// out of risk scoring and are not chased by collection emails.
+export const invoiceDisputes = pgTable(
+	"invoice_disputes",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		clerkOrgId: text("clerk_org_id").notNull(),
+		xeroTenantId: text("xero_tenant_id").notNull(),
+		contactId: uuid("contact_id")
+			.notNull()
+			.references(() => xeroContacts.id, { onDelete: "cascade" }),
+		invoiceId: uuid("invoice_id")
+			.notNull()
+			.references(() => xeroInvoices.id, { onDelete: "cascade" }),
+		amount: numeric("amount", { precision: 19, scale: 4 }).notNull(),
+		reason: text("reason").notNull(),
+		status: varchar("status", { length: 20 }).notNull().default("OPEN"), // OPEN, RESOLVED
+		resolvedAt: timestamp("resolved_at"),
+		createdByClerkUserId: text("created_by_clerk_user_id").notNull(),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+		updatedAt: timestamp("updated_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		contactIdx: index("invoice_disputes_contact_idx").on(table.contactId),
+		invoiceIdx: index("invoice_disputes_invoice_idx").on(table.invoiceId),
+	}),
+);
+
+export type InvoiceDispute = InferSelectModel<typeof invoiceDisputes>;
+
+// Per-org AP risk scoring rules; orgs without a row use the built-in defaults
+export const apRiskSettings = pgTable("ap_risk_settings", {
+	id: uuid("id").primaryKey().notNull().defaultRandom(),
+	clerkOrgId: text("clerk_org_id").notNull().unique(),
+	config: json("config").$type<RiskScoringConfig>().notNull(),
+	updatedByClerkUserId: text("updated_by_clerk_user_id").notNull(),
+	createdAt: timestamp("created_at").notNull().defaultNow(),
+	updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type ApRiskSettings = InferSelectModel<typeof apRiskSettings>;
+
+// One row per model call, for the Usage page and recharging AI costs to client
+// entities. No foreign key to User so the history survives account deletion.
+export const llmUsage = pgTable(
+	"llm_usage",
+	{
+		id: uuid("id").primaryKey().notNull().defaultRandom(),
+		userId: text("user_id").notNull(),
+		clerkOrgId: text("clerk_org_id"),
+		chatId: uuid("chat_id"),
+		model: varchar("model", { length: 128 }).notNull(),
+		feature: varchar("feature", { length: 64 }).notNull(), // chat, artifact, collection_email, ...
+		inputTokens: integer("input_tokens").notNull().default(0),
+		outputTokens: integer("output_tokens").notNull().default(0),
+		totalTokens: integer("total_tokens").notNull().default(0),
+		createdAt: timestamp("created_at").notNull().defaultNow(),
+	},
+	(table) => ({
+		userCreatedIdx: index("llm_usage_user_created_idx").on(
+			table.userId,
+			table.createdAt,
+		),
+		orgCreatedIdx: index("llm_usage_org_created_idx").on(
+			table.clerkOrgId,
+			table.createdAt,
+		),
+	}),
+);
+
+export type LlmUsage = InferSelectModel<typeof llmUsage>;
@@ -16,6 +16,9 @@ export type Surface =
 	| "vote"
 	| "document"
 	| "suggestions"
+	| "budget"
+	| "model"
+	| "feature"
 	| "activate_gateway";
 
 export type ErrorCode = `${ErrorType}:${Surface}`;
@@ -32,6 +35,9 @@ export const visibilityBySurface: Record<Surface, ErrorVisibility> = {
 	vote: "response",
 	document: "response",
 	suggestions: "response",
+	budget: "response",
+	model: "response",
+	feature: "response",
 	activate_gateway: "response",
 };
 
@@ -94,6 +100,12 @@ export function getMessageByErrorCode(errorCode: ErrorCode): string {
 
 		case "rate_limit:chat":
 			return "You have exceeded your maximum number of messages for the day. Please try again later.";
+		case "rate_limit:budget":
+			return "Your organisation has used its AI budget for this month. Upgrade your plan or try again next month.";
+		case "forbidden:model":
+			return "Your plan does not include this model. Please choose another model or upgrade your plan.";
+		case "forbidden:feature":
+			return "Your plan does not include this feature. Upgrade your plan to use it.";
 		case "not_found:chat":
 			return "The requested chat was not found. Please check the chat ID and try again.";
 		case "forbidden:chat":
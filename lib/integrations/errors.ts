@@ -150,6 +150,15 @@ export class WebhookError extends IntegrationError {
 	}
 }
 
+/**
+ * Outbound email delivery errors
+ */
+export class MailError extends IntegrationError {
+	constructor(message: string, context?: Record<string, unknown>) {
+		super(message, "MAIL_ERROR", 502, true, context);
+	}
+}
+
 /**
  * Type guard to check if an error is an IntegrationError
  */
@@ -1,5 +1,8 @@
 import "server-only";
 
+import { RateLimitError } from "@/lib/integrations/errors";
+import { redis } from "@/lib/redis/client";
+
 export interface RateLimitInfo {
 	minuteRemaining?: number;
 	dayRemaining?: number;
@@ -8,6 +11,85 @@ export interface RateLimitInfo {
 	resetAt?: Date;
 }
 
+// Xero per-tenant limits: 60 calls per minute, 5000 calls per rolling day
+const MINUTE_LIMIT = 60;
+const MINUTE_WINDOW_MS = 60 * 1000;
+const DAY_LIMIT = 5000;
+const DAY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Longest a caller will wait for a slot before giving up with a RateLimitError
+const DEFAULT_MAX_WAIT_MS = 20 * 1000;
+
+const KEY_PREFIX = "xero-rate-limit";
+
+function bucketKeys(tenantId: string) {
+	return {
+		minute: `${KEY_PREFIX}:${tenantId}:minute`,
+		day: `${KEY_PREFIX}:${tenantId}:day`,
+		blocked: `${KEY_PREFIX}:${tenantId}:blocked-until`,
+	};
+}
+
+// Take one token from both the minute and day buckets, or report how long to wait.
+// Buckets refill continuously: capacity tokens per window.
+// KEYS: minute bucket, day bucket, blocked-until
+// ARGV: now (ms), minute capacity, minute window (ms), day capacity, day window (ms)
+const ACQUIRE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local blocked = tonumber(redis.call('GET', KEYS[3]) or '0')
+if blocked > now then
+	return blocked - now
+end
+local function level(key, capacity, window)
+	local state = redis.call('HMGET', key, 'tokens', 'ts')
+	local tokens = tonumber(state[1]) or capacity
+	local ts = tonumber(state[2]) or now
+	return math.min(capacity, tokens + (now - ts) * capacity / window)
+end
+local minuteCap, minuteWindow = tonumber(ARGV[2]), tonumber(ARGV[3])
+local dayCap, dayWindow = tonumber(ARGV[4]), tonumber(ARGV[5])
+local minute = level(KEYS[1], minuteCap, minuteWindow)
+local day = level(KEYS[2], dayCap, dayWindow)
+if minute < 1 or day < 1 then
+	local wait = 0
+	if minute < 1 then
+		wait = math.max(wait, math.ceil((1 - minute) * minuteWindow / minuteCap))
+	end
+	if day < 1 then
+		wait = math.max(wait, math.ceil((1 - day) * dayWindow / dayCap))
+	end
+	return wait
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(minute - 1), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], minuteWindow)
+redis.call('HSET', KEYS[2], 'tokens', tostring(day - 1), 'ts', now)
+redis.call('PEXPIRE', KEYS[2], dayWindow)
+return 0
+`;
+
+// Lower a bucket to what Xero reports as remaining (other apps share the limit)
+// KEYS: bucket | ARGV: now (ms), remaining, capacity, window (ms)
+const RECONCILE_SCRIPT = `
+local now = tonumber(ARGV[1])
+local capacity, window = tonumber(ARGV[3]), tonumber(ARGV[4])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + (now - ts) * capacity / window)
+tokens = math.min(tokens, tonumber(ARGV[2]))
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+redis.call('PEXPIRE', KEYS[1], window)
+return 0
+`;
+
+/**
+ * The governor is shared through Redis; without it each process is on its own
+ * and we fall back to Xero's own 429s.
+ */
+function isGovernorAvailable() {
+	return Boolean(process.env.REDIS_URL) && redis.isReady;
+}
+
 export function extractRateLimits(responseHeaders: Headers): RateLimitInfo {
 	const info: RateLimitInfo = {};
 
@@ -36,7 +118,6 @@ export function extractRateLimits(responseHeaders: Headers): RateLimitInfo {
 
 /**
  * Log rate limits for observability.
- * Ideally this would persist to DB/Redis for coordinated throttling.
  */
 export function logRateLimits(tenantId: string, info: RateLimitInfo) {
 	if (info.minuteRemaining !== undefined && info.minuteRemaining < 10) {
@@ -50,3 +131,96 @@ export function logRateLimits(tenantId: string, info: RateLimitInfo) {
 		);
 	}
 }
+
+/**
+ * Wait for a slot in the tenant's shared Xero call budget.
+ * Every process (sync worker, chat tools, manual syncs) draws from the same
+ * Redis token buckets, so together they stay under Xero's limits.
+ *
+ * @throws RateLimitError when the wait would exceed `maxWaitMs`
+ */
+export async function acquireRateLimitToken(
+	tenantId: string,
+	maxWaitMs = DEFAULT_MAX_WAIT_MS,
+): Promise<void> {
+	if (!isGovernorAvailable()) return;
+
+	const deadline = Date.now() + maxWaitMs;
+
+	while (true) {
+		const keys = bucketKeys(tenantId);
+		let waitMs: number;
+		try {
+			waitMs = Number(
+				await redis.eval(ACQUIRE_SCRIPT, {
+					keys: [keys.minute, keys.day, keys.blocked],
+					arguments: [
+						Date.now().toString(),
+						MINUTE_LIMIT.toString(),
+						MINUTE_WINDOW_MS.toString(),
+						DAY_LIMIT.toString(),
+						DAY_WINDOW_MS.toString(),
+					],
+				}),
+			);
+		} catch (error) {
+			// Fail open: a Redis hiccup shouldn't take Xero access down with it
+			console.error("[RateLimiter] Failed to acquire rate limit token", error);
+			return;
+		}
+
+		if (waitMs <= 0) return;
+
+		if (Date.now() + waitMs > deadline) {
+			throw new RateLimitError(
+				"Xero rate limit reached for this organisation",
+				Math.ceil(waitMs / 1000),
+				{ tenantId },
+			);
+		}
+
+		await new Promise((resolve) => setTimeout(resolve, waitMs));
+	}
+}
+
+/**
+ * Log rate limit headers and feed them back into the shared buckets.
+ * A 429's Retry-After pauses every caller for this tenant.
+ */
+export async function recordRateLimits(tenantId: string, info: RateLimitInfo) {
+	logRateLimits(tenantId, info);
+
+	if (!isGovernorAvailable()) return;
+
+	const keys = bucketKeys(tenantId);
+	const now = Date.now().toString();
+
+	if (info.minuteRemaining !== undefined) {
+		await redis.eval(RECONCILE_SCRIPT, {
+			keys: [keys.minute],
+			arguments: [
+				now,
+				info.minuteRemaining.toString(),
+				MINUTE_LIMIT.toString(),
+				MINUTE_WINDOW_MS.toString(),
+			],
+		});
+	}
+	if (info.dayRemaining !== undefined) {
+		await redis.eval(RECONCILE_SCRIPT, {
+			keys: [keys.day],
+			arguments: [
+				now,
+				info.dayRemaining.toString(),
+				DAY_LIMIT.toString(),
+				DAY_WINDOW_MS.toString(),
+			],
+		});
+	}
+	if (info.retryAfter && info.retryAfter > 0) {
+		const retryAfterMs = info.retryAfter * 1000;
+		await redis.set(keys.blocked, (Date.now() + retryAfterMs).toString(), {
+			PX: retryAfterMs,
+		});
+	}
+}
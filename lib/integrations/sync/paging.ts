@@ -0,0 +1,89 @@
+import { ExternalAPIError } from "@/lib/integrations/errors";
+import type { TokenService } from "@/lib/integrations/token-service";
+
+export type XeroApiClient = Awaited<
+	ReturnType<typeof TokenService.getClientForTenantBinding>
+>;
+
+export const PAGE_SIZE = 100; // Xero returns at most 100 records per page
+export const MAX_PAGES = 100; // Pages fetched per run; later pages wait for the next run
+
+export interface PagedFetchResult {
+	total: number;
+	// MAX_PAGES full pages were read and the collection may continue past them
+	truncated: boolean;
+}
+
+/**
+ * Format a date for Xero's If-Modified-Since header (UTC, no milliseconds)
+ */
+export function formatIfModifiedSince(date: Date): string {
+	return date.toISOString().split(".")[0];
+}
+
+export interface PagedFetchOptions<T> {
+	path: string;
+	collectionKey: string;
+	modifiedSince: Date | null;
+	startPage: number;
+	onPage: (items: T[]) => Promise<void>;
+	// Called after each page, so long syncs show they are still alive
+	heartbeat?: () => Promise<void>;
+}
+
+/**
+ * Page through a Xero collection endpoint from `startPage`, handing each page
+ * to `onPage`. Stops on an empty or short page, or after MAX_PAGES pages.
+ *
+ * Records are ordered by UpdatedDateUTC so page numbers stay stable between
+ * runs: a record changed mid-sync moves to the end rather than shifting the
+ * pages a truncated sync resumes from.
+ */
+export async function fetchAllPages<T>(
+	client: Pick<XeroApiClient, "fetch">,
+	{
+		path,
+		collectionKey,
+		modifiedSince,
+		startPage,
+		onPage,
+		heartbeat,
+	}: PagedFetchOptions<T>,
+): Promise<PagedFetchResult> {
+	const headers: Record<string, string> = {};
+	if (modifiedSince) {
+		headers["If-Modified-Since"] = formatIfModifiedSince(modifiedSince);
+	}
+
+	const separator = path.includes("?") ? "&" : "?";
+	let total = 0;
+
+	for (let page = startPage; page < startPage + MAX_PAGES; page++) {
+		let response: Response;
+		try {
+			response = await client.fetch(
+				`${path}${separator}order=UpdatedDateUTC&page=${page}`,
+				{ headers },
+			);
+		} catch (error) {
+			// Xero may answer 304 Not Modified when nothing changed since the header date
+			if (error instanceof ExternalAPIError && error.apiStatusCode === 304) {
+				return { total, truncated: false };
+			}
+			throw error;
+		}
+		const data = (await response.json()) as Record<string, T[] | undefined>;
+		const items = data[collectionKey] ?? [];
+
+		if (items.length === 0) return { total, truncated: false };
+
+		await onPage(items);
+		await heartbeat?.();
+		total += items.length;
+
+		if (items.length < PAGE_SIZE) return { total, truncated: false };
+	}
+
+	// Every page was full, so there may be more
+	return { total, truncated: true };
+}
@@ -1,24 +1,298 @@
+import { randomUUID } from "node:crypto";
 import { redis } from "@/lib/redis/client";
 
-export const QUEUE_KEY = "xero-sync-queue";
+export const QUEUE_KEY = "xero-sync-queue"; // list of ready job ids
+const JOBS_KEY = `${QUEUE_KEY}:jobs`; // hash: job id -> job JSON
+const INFLIGHT_KEY = `${QUEUE_KEY}:inflight`; // zset: job id -> lease expiry (ms)
+const DELAYED_KEY = `${QUEUE_KEY}:delayed`; // zset: job id -> retry at (ms)
+const DEDUPE_KEY = `${QUEUE_KEY}:dedupe`; // hash: dedupe key -> pending job id
+export const DEAD_LETTER_KEY = `${QUEUE_KEY}:dead`; // list of dead job ids
 
-interface SyncJob {
+export const MAX_ATTEMPTS = 5;
+const LEASE_MS = 10 * 60 * 1000; // Long enough for a full tenant sync
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+
+export interface SyncJob {
 	tenantBindingId: string;
 	eventId?: string; // Optional: ID of the webhook event that triggered this
-	resourceType?: string; // e.g. "Invoice"
+	resourceType?: string; // Xero eventCategory, e.g. "INVOICE" or "CONTACT"
+	resourceId?: string;
+}
+
+export interface QueuedSyncJob {
+	id: string;
+	tenantBindingId: string;
+	resourceType?: string;
 	resourceId?: string;
+	eventIds: string[]; // Every webhook event coalesced into this job
+	dedupeKey: string;
+	attempts: number;
+	enqueuedAt: string;
+	lastError?: string;
+	failedAt?: string;
+}
+
+export interface QueueStats {
+	pending: number;
+	inFlight: number;
+	delayed: number;
+	dead: number;
+}
+
+// Coalesce into an identical pending job, recording the extra webhook event.
+// KEYS: pending, jobs, dedupe | ARGV: dedupeKey, id, job JSON, eventId
+const ENQUEUE_SCRIPT = `
+local existing = redis.call('HGET', KEYS[3], ARGV[1])
+if existing then
+	local raw = redis.call('HGET', KEYS[2], existing)
+	if raw then
+		if ARGV[4] ~= '' then
+			local job = cjson.decode(raw)
+			table.insert(job.eventIds, ARGV[4])
+			redis.call('HSET', KEYS[2], existing, cjson.encode(job))
+		end
+		return existing
+	end
+end
+redis.call('HSET', KEYS[2], ARGV[2], ARGV[3])
+redis.call('HSET', KEYS[3], ARGV[1], ARGV[2])
+redis.call('RPUSH', KEYS[1], ARGV[2])
+return ARGV[2]
+`;
+
+// Promote due retries, reclaim expired leases, then lease the next job.
+// Jobs whose lease expired on their final attempt are dead-lettered.
+// KEYS: pending, inflight, delayed, jobs, dedupe, dead
+// ARGV: now (ms), lease expiry (ms), max attempts, now (ISO)
+const DEQUEUE_SCRIPT = `
+local now = tonumber(ARGV[1])
+for _, id in ipairs(redis.call('ZRANGEBYSCORE', KEYS[3], '-inf', now)) do
+	redis.call('ZREM', KEYS[3], id)
+	redis.call('RPUSH', KEYS[1], id)
+end
+for _, id in ipairs(redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', now)) do
+	redis.call('ZREM', KEYS[2], id)
+	redis.call('RPUSH', KEYS[1], id)
+end
+while true do
+	local id = redis.call('LPOP', KEYS[1])
+	if not id then
+		return false
+	end
+	local raw = redis.call('HGET', KEYS[4], id)
+	if raw then
+		local job = cjson.decode(raw)
+		if redis.call('HGET', KEYS[5], job.dedupeKey) == id then
+			redis.call('HDEL', KEYS[5], job.dedupeKey)
+		end
+		if job.attempts >= tonumber(ARGV[3]) then
+			job.lastError = 'Lease expired before the job completed'
+			job.failedAt = ARGV[4]
+			redis.call('HSET', KEYS[4], id, cjson.encode(job))
+			redis.call('RPUSH', KEYS[6], id)
+		else
+			job.attempts = job.attempts + 1
+			local updated = cjson.encode(job)
+			redis.call('HSET', KEYS[4], id, updated)
+			redis.call('ZADD', KEYS[2], ARGV[2], id)
+			return updated
+		end
+	end
+end
+`;
+
+// KEYS: dead, jobs, pending | ARGV: id
+const REPLAY_SCRIPT = `
+if redis.call('LREM', KEYS[1], 0, ARGV[1]) == 0 then
+	return 0
+end
+local raw = redis.call('HGET', KEYS[2], ARGV[1])
+if not raw then
+	return 0
+end
+local job = cjson.decode(raw)
+job.attempts = 0
+job.failedAt = nil
+redis.call('HSET', KEYS[2], ARGV[1], cjson.encode(job))
+redis.call('RPUSH', KEYS[3], ARGV[1])
+return 1
+`;
+
+/**
+ * Jobs for the same tenant and resource are interchangeable while pending
+ */
+export function getDedupeKey(job: SyncJob): string {
+	return job.resourceId
+		? `${job.tenantBindingId}:${job.resourceType ?? ""}:${job.resourceId}`
+		: `${job.tenantBindingId}:*`;
+}
+
+/**
+ * Exponential backoff before the next attempt: 30s, 1m, 2m, 4m... capped at 1h
+ */
+export function getBackoffMs(attempts: number): number {
+	return Math.min(
+		BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1),
+		MAX_BACKOFF_MS,
+	);
+}
+
+function parseJob(raw: string): QueuedSyncJob {
+	const job = JSON.parse(raw) as QueuedSyncJob;
+	// Lua's cjson encodes empty arrays as {}
+	job.eventIds = Array.isArray(job.eventIds) ? job.eventIds : [];
+	return job;
 }
 
 export class SyncQueue {
-	static async enqueue(job: SyncJob) {
-		// Enqueue to Redis List (Right Push)
-		await redis.rPush(QUEUE_KEY, JSON.stringify(job));
+	/**
+	 * Enqueue a job, coalescing it into an identical pending job if one exists.
+	 * @returns The id of the queued job and whether it was coalesced
+	 */
+	static async enqueue(
+		job: SyncJob,
+	): Promise<{ id: string; deduped: boolean }> {
+		const queued: QueuedSyncJob = {
+			id: randomUUID(),
+			tenantBindingId: job.tenantBindingId,
+			resourceType: job.resourceType,
+			resourceId: job.resourceId,
+			eventIds: job.eventId ? [job.eventId] : [],
+			dedupeKey: getDedupeKey(job),
+			attempts: 0,
+			enqueuedAt: new Date().toISOString(),
+		};
+
+		const id = (await redis.eval(ENQUEUE_SCRIPT, {
+			keys: [QUEUE_KEY, JOBS_KEY, DEDUPE_KEY],
+			arguments: [
+				queued.dedupeKey,
+				queued.id,
+				JSON.stringify(queued),
+				job.eventId ?? "",
+			],
+		})) as string;
+
+		return { id, deduped: id !== queued.id };
+	}
+
+	/**
+	 * Lease the next ready job. It stays in flight until `ack` or `fail`;
+	 * if neither happens before the lease expires it is handed out again.
+	 */
+	static async dequeue(): Promise<QueuedSyncJob | null> {
+		const now = Date.now();
+		const raw = (await redis.eval(DEQUEUE_SCRIPT, {
+			keys: [
+				QUEUE_KEY,
+				INFLIGHT_KEY,
+				DELAYED_KEY,
+				JOBS_KEY,
+				DEDUPE_KEY,
+				DEAD_LETTER_KEY,
+			],
+			arguments: [
+				now.toString(),
+				(now + LEASE_MS).toString(),
+				MAX_ATTEMPTS.toString(),
+				new Date(now).toISOString(),
+			],
+		})) as string | null;
+
+		return raw ? parseJob(raw) : null;
+	}
+
+	/**
+	 * Mark a leased job as done
+	 */
+	static async ack(jobId: string) {
+		await redis
+			.multi()
+			.zRem(INFLIGHT_KEY, jobId)
+			.lRem(QUEUE_KEY, 0, jobId)
+			.hDel(JOBS_KEY, jobId)
+			.exec();
+	}
+
+	/**
+	 * Schedule a retry with exponential backoff, or dead-letter the job once
+	 * it has used all its attempts or the error is not retryable.
+	 * @returns "retry" or "dead"
+	 */
+	static async fail(
+		job: QueuedSyncJob,
+		error: string,
+		options: { retryable?: boolean; retryAfterMs?: number } = {},
+	): Promise<"retry" | "dead"> {
+		const { retryable = true, retryAfterMs } = options;
+		const dead = !retryable || job.attempts >= MAX_ATTEMPTS;
+		const updated: QueuedSyncJob = {
+			...job,
+			lastError: error,
+			failedAt: dead ? new Date().toISOString() : undefined,
+		};
+
+		const tx = redis
+			.multi()
+			.zRem(INFLIGHT_KEY, job.id)
+			.hSet(JOBS_KEY, job.id, JSON.stringify(updated));
+
+		if (dead) {
+			tx.rPush(DEAD_LETTER_KEY, job.id);
+		} else {
+			const delay = Math.max(retryAfterMs ?? 0, getBackoffMs(job.attempts));
+			tx.zAdd(DELAYED_KEY, { score: Date.now() + delay, value: job.id });
+		}
+
+		await tx.exec();
+		return dead ? "dead" : "retry";
+	}
+
+	/**
+	 * All dead-lettered jobs, oldest first
+	 */
+	static async listDeadLetters(): Promise<QueuedSyncJob[]> {
+		const ids = await redis.lRange(DEAD_LETTER_KEY, 0, -1);
+		if (ids.length === 0) return [];
+
+		const raws = await redis.hmGet(JOBS_KEY, ids);
+		return raws
+			.filter((raw): raw is string => typeof raw === "string")
+			.map(parseJob);
+	}
+
+	/**
+	 * Move a dead-lettered job back onto the queue with a fresh attempt budget
+	 * @returns false if the job is not in the dead-letter list
+	 */
+	static async replayDeadLetter(jobId: string): Promise<boolean> {
+		const replayed = await redis.eval(REPLAY_SCRIPT, {
+			keys: [DEAD_LETTER_KEY, JOBS_KEY, QUEUE_KEY],
+			arguments: [jobId],
+		});
+		return replayed === 1;
+	}
+
+	/**
+	 * Permanently discard a dead-lettered job
+	 * @returns false if the job is not in the dead-letter list
+	 */
+	static async discardDeadLetter(jobId: string): Promise<boolean> {
+		const removed = await redis.lRem(DEAD_LETTER_KEY, 0, jobId);
+		if (removed === 0) return false;
+
+		await redis.hDel(JOBS_KEY, jobId);
+		return true;
 	}
 
-	static async dequeue(): Promise<SyncJob | null> {
-		// Dequeue from Redis List (Left Pop)
-		const item = await redis.lPop(QUEUE_KEY);
-		if (!item) return null;
-		return JSON.parse(item);
+	static async getStats(): Promise<QueueStats> {
+		const [pending, inFlight, delayed, dead] = await Promise.all([
+			redis.lLen(QUEUE_KEY),
+			redis.zCard(INFLIGHT_KEY),
+			redis.zCard(DELAYED_KEY),
+			redis.lLen(DEAD_LETTER_KEY),
+		]);
+		return { pending, inFlight, delayed, dead };
 	}
 }
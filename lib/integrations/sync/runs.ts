@@ -0,0 +1,89 @@
+import { and, eq, lt, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import { integrationSyncRuns } from "@/lib/db/schema";
+import { getErrorCode, getErrorMessage } from "@/lib/integrations/errors";
+
+/**
+ * What started a sync run: a user clicking sync, a Xero webhook, or the cron
+ */
+export type SyncTrigger = "manual" | "webhook" | "schedule";
+
+// A running sync heartbeats after every page it fetches, however long the
+// whole run takes (the sync-worker script has no time limit). One with no
+// heartbeat for this long had its process killed and will never finish.
+export const SYNC_RUN_HEARTBEAT_TIMEOUT_MS = 10 * 60 * 1000;
+
+export interface SyncRunTarget {
+	tenantBindingId: string;
+	dataType: string;
+	trigger: SyncTrigger;
+}
+
+/**
+ * Mark runs with no heartbeat for SYNC_RUN_HEARTBEAT_TIMEOUT_MS as failed, so
+ * a sync killed mid-operation doesn't show as in progress forever. Called by
+ * the sync cron and queue processor.
+ */
+export async function failStaleSyncRuns(): Promise<void> {
+	await db
+		.update(integrationSyncRuns)
+		.set({
+			status: "failed",
+			errorCode: "SYNC_RUN_TIMEOUT",
+			errorMessage: "Sync run stopped responding before it finished",
+			finishedAt: new Date(),
+		})
+		.where(
+			and(
+				eq(integrationSyncRuns.status, "running"),
+				lt(
+					sql`coalesce(${integrationSyncRuns.heartbeatAt}, ${integrationSyncRuns.startedAt})`,
+					new Date(Date.now() - SYNC_RUN_HEARTBEAT_TIMEOUT_MS),
+				),
+			),
+		);
+}
+
+/**
+ * Run a sync operation and record it in `integration_sync_runs`.
+ * The operation returns the number of rows it upserted, and calls `heartbeat`
+ * as it makes progress; failures are recorded with their IntegrationError
+ * code and rethrown.
+ */
+export async function recordSyncRun(
+	target: SyncRunTarget,
+	operation: (heartbeat: () => Promise<void>) => Promise<number>,
+): Promise<number> {
+	const startedAt = new Date();
+	const [run] = await db
+		.insert(integrationSyncRuns)
+		.values({ ...target, startedAt, heartbeatAt: startedAt })
+		.returning({ id: integrationSyncRuns.id });
+
+	const heartbeat = async () => {
+		await db
+			.update(integrationSyncRuns)
+			.set({ heartbeatAt: new Date() })
+			.where(eq(integrationSyncRuns.id, run.id));
+	};
+
+	try {
+		const recordCount = await operation(heartbeat);
+		await db
+			.update(integrationSyncRuns)
+			.set({ status: "success", recordCount, finishedAt: new Date() })
+			.where(eq(integrationSyncRuns.id, run.id));
+		return recordCount;
+	} catch (error) {
+		await db
+			.update(integrationSyncRuns)
+			.set({
+				status: "failed",
+				errorCode: getErrorCode(error),
+				errorMessage: getErrorMessage(error),
+				finishedAt: new Date(),
+			})
+			.where(eq(integrationSyncRuns.id, run.id));
+		throw error;
+	}
+}
@@ -1,13 +1,304 @@
-import { eq } from "drizzle-orm";
+import { addMinutes, subYears } from "date-fns";
+import { and, eq, inArray } from "drizzle-orm";
 import { db } from "@/lib/db";
 import {
+	type IntegrationTenantBinding,
 	integrationSyncState,
 	integrationTenantBindings,
+	integrationWebhookEvents,
 } from "@/lib/db/schema";
-import { TokenService } from "@/lib/integrations/token-service";
+import {
+	ExternalAPIError,
+	getErrorCode,
+	getErrorMessage,
+	logError,
+	RateLimitError,
+	SyncError,
+	TokenError,
+} from "@/lib/integrations/errors";
+import {
+	fetchAllPages,
+	formatIfModifiedSince,
+	MAX_PAGES,
+	type PagedFetchResult,
+	type XeroApiClient,
+} from "@/lib/integrations/sync/paging";
+import { type QueuedSyncJob, SyncQueue } from "@/lib/integrations/sync/queue";
+import {
+	failStaleSyncRuns,
+	recordSyncRun,
+	type SyncTrigger,
+} from "@/lib/integrations/sync/runs";
+import { withTokenRefreshRetry } from "@/lib/integrations/xero/retry-helper";
+import {
+	invoiceSyncWhereClause,
+	type XeroBankTransaction,
+	type XeroContact,
+	type XeroContactResponse,
+	type XeroInvoice,
+	type XeroInvoiceResponse,
+	type XeroPayment,
+} from "@/lib/integrations/xero/types";
+import {
+	loadContactIdMap,
+	loadSupplierIdMap,
+	syncXeroBankBalances,
+	upsertXeroBankTransactions,
+	upsertXeroBills,
+	upsertXeroContacts,
+	upsertXeroInvoices,
+	upsertXeroPayments,
+	upsertXeroSuppliers,
+} from "@/lib/integrations/xero/upserts";
+
+/**
+ * Data types synced into the local Xero mirror, in dependency order.
+ * Contacts must run first so invoices and bills can link to them.
+ */
+export const SYNC_DATA_TYPES = [
+	"contacts",
+	"invoices",
+	"bills",
+	"bank_transactions",
+	"payments",
+	"bank_balances",
+] as const;
+
+export type SyncDataType = (typeof SYNC_DATA_TYPES)[number];
+
+interface SyncContext {
+	client: XeroApiClient;
+	tenantId: string;
+	modifiedSince: Date | null;
+	// Page to resume from after a run that stopped at MAX_PAGES
+	startPage: number;
+	heartbeat: () => Promise<void>;
+}
+
+export interface TenantSyncResult {
+	tenantBindingId: string;
+	counts: Partial<Record<SyncDataType, number>>;
+	errors: Array<{ dataType: SyncDataType; code: string; message: string }>;
+}
+
+export interface QueueRunResult {
+	processed: number;
+	failed: number;
+}
+
+// Webhook event categories we can resync one resource at a time
+const TARGETED_RESOURCE_TYPES = ["INVOICE", "CONTACT"] as const;
+
+// Sync run data type recorded for a targeted resync. Xero reports bills as
+// INVOICE events too, so they are recorded under "invoices".
+const RESOURCE_DATA_TYPES: Record<string, SyncDataType> = {
+	INVOICE: "invoices",
+	CONTACT: "contacts",
+};
+
+// Re-read a small window before the last sync to absorb clock skew between
+// our servers and Xero's UpdatedDateUTC. Upserts are idempotent.
+const SYNC_OVERLAP_MINUTES = 5;
+
+function dateWhereClause(from: Date) {
+	const whereDate = from.toISOString().split("T")[0];
+	return encodeURIComponent(`Date>=DateTime.Parse("${whereDate}")`);
+}
+
+const SYNC_HANDLERS: Record<
+	SyncDataType,
+	(context: SyncContext) => Promise<PagedFetchResult>
+> = {
+	contacts: ({ client, tenantId, ...paging }) =>
+		fetchAllPages<XeroContact>(client, {
+			...paging,
+			// Archived contacts are only returned on request
+			path: "/Contacts?includeArchived=true",
+			collectionKey: "Contacts",
+			onPage: async (contacts) => {
+				// Contacts feed both the AR (customers) and AP (suppliers) mirrors
+				await upsertXeroContacts(tenantId, contacts);
+				await upsertXeroSuppliers(tenantId, contacts);
+			},
+		}),
+
+	invoices: async ({ client, tenantId, ...paging }) => {
+		const contactMap = await loadContactIdMap(tenantId);
+		const whereClause = invoiceSyncWhereClause("ACCREC");
+		return fetchAllPages<XeroInvoice>(client, {
+			...paging,
+			path: `/Invoices?where=${encodeURIComponent(whereClause)}`,
+			collectionKey: "Invoices",
+			onPage: (invoices) => upsertXeroInvoices(tenantId, invoices, contactMap),
+		});
+	},
+
+	bills: async ({ client, tenantId, ...paging }) => {
+		const supplierMap = await loadSupplierIdMap(tenantId);
+		const whereClause = invoiceSyncWhereClause("ACCPAY");
+		return fetchAllPages<XeroInvoice>(client, {
+			...paging,
+			path: `/Invoices?where=${encodeURIComponent(whereClause)}`,
+			collectionKey: "Invoices",
+			onPage: (bills) => upsertXeroBills(tenantId, bills, supplierMap),
+		});
+	},
+
+	// Bank transactions and payments are limited to the last year, matching
+	// the window used by the cashflow agent.
+	bank_transactions: ({ client, tenantId, ...paging }) =>
+		fetchAllPages<XeroBankTransaction>(client, {
+			...paging,
+			path: `/BankTransactions?where=${dateWhereClause(subYears(new Date(), 1))}`,
+			collectionKey: "BankTransactions",
+			onPage: (bankTransactions) =>
+				upsertXeroBankTransactions(tenantId, bankTransactions),
+		}),
+
+	payments: ({ client, tenantId, ...paging }) =>
+		fetchAllPages<XeroPayment>(client, {
+			...paging,
+			path: `/Payments?where=${dateWhereClause(subYears(new Date(), 1))}`,
+			collectionKey: "Payments",
+			onPage: (payments) => upsertXeroPayments(tenantId, payments),
+		}),
+
+	// Refreshed in full on every run; see syncXeroBankBalances
+	bank_balances: async ({ client, tenantId }) => ({
+		total: await syncXeroBankBalances(client, tenantId),
+		truncated: false,
+	}),
+};
+
+/**
+ * Fetch a single contact by ID and upsert it into both contact mirrors
+ */
+async function syncContactById(
+	client: XeroApiClient,
+	tenantId: string,
+	contactId: string,
+) {
+	const response = await client.fetch(`/Contacts/${contactId}`);
+	const data = (await response.json()) as XeroContactResponse;
+	await upsertXeroContacts(tenantId, data.Contacts ?? []);
+	await upsertXeroSuppliers(tenantId, data.Contacts ?? []);
+}
+
+/**
+ * Fetch a single invoice or bill by ID and upsert it into the matching mirror.
+ * The contact is pulled in first when we have not mirrored it yet.
+ */
+async function syncInvoiceById(
+	client: XeroApiClient,
+	tenantId: string,
+	invoiceId: string,
+) {
+	const response = await client.fetch(`/Invoices/${invoiceId}`);
+	const data = (await response.json()) as XeroInvoiceResponse;
+
+	for (const invoice of data.Invoices ?? []) {
+		const contactId = invoice.Contact.ContactID;
+
+		if (invoice.Type === "ACCPAY") {
+			let supplierMap = await loadSupplierIdMap(tenantId);
+			if (!supplierMap.has(contactId)) {
+				await syncContactById(client, tenantId, contactId);
+				supplierMap = await loadSupplierIdMap(tenantId);
+			}
+			await upsertXeroBills(tenantId, [invoice], supplierMap);
+		} else {
+			let contactMap = await loadContactIdMap(tenantId);
+			if (!contactMap.has(contactId)) {
+				await syncContactById(client, tenantId, contactId);
+				contactMap = await loadContactIdMap(tenantId);
+			}
+			await upsertXeroInvoices(tenantId, [invoice], contactMap);
+		}
+	}
+}
+
+/**
+ * Record the organisation's base currency on its binding. The consolidated
+ * dashboards convert bank transactions with it, as they carry no currency.
+ */
+async function syncBaseCurrency(client: XeroApiClient, bindingId: string) {
+	const response = await client.fetch("/Organisation");
+	const data = (await response.json()) as {
+		Organisations?: Array<{ BaseCurrency?: string }>;
+	};
+	const baseCurrency = data.Organisations?.[0]?.BaseCurrency;
+	if (!baseCurrency) return;
+
+	await db
+		.update(integrationTenantBindings)
+		.set({ baseCurrency, updatedAt: new Date() })
+		.where(eq(integrationTenantBindings.id, bindingId));
+}
+
+/**
+ * Page a data type's next sync starts from. The cursor holds a page number
+ * only while a sync that stopped at MAX_PAGES is being resumed.
+ */
+function parseResumePage(cursor: string | null | undefined): number {
+	const page = Number(cursor);
+	return Number.isInteger(page) && page > 1 ? page : 1;
+}
+
+/**
+ * Upsert a data type's sync state for a tenant binding
+ */
+async function saveSyncState(
+	tenantBindingId: string,
+	dataType: SyncDataType,
+	values: { lastSyncAt?: Date; cursor: string | null },
+) {
+	await db
+		.insert(integrationSyncState)
+		.values({ tenantBindingId, dataType, ...values })
+		.onConflictDoUpdate({
+			target: [
+				integrationSyncState.tenantBindingId,
+				integrationSyncState.dataType,
+			],
+			set: { ...values, updatedAt: new Date() },
+		});
+}
+
+/**
+ * Errors that will fail the same way on every attempt go straight to the
+ * dead-letter list instead of burning through retries.
+ */
+function isRetryableError(error: unknown): boolean {
+	if (error instanceof SyncError) {
+		return error.code !== "BINDING_NOT_FOUND";
+	}
+	if (error instanceof TokenError) {
+		return error.code !== "INSUFFICIENT_SCOPE";
+	}
+	if (error instanceof ExternalAPIError && error.apiStatusCode) {
+		// Xero rejected the request itself - retrying won't change that
+		return error.apiStatusCode >= 500;
+	}
+	return true;
+}
 
 export class SyncWorker {
-	static async runTenantSyncOnce(tenantBindingId: string) {
+	/**
+	 * Incrementally sync every supported data type for a tenant binding.
+	 *
+	 * Each data type keeps its own cursor in `integration_sync_state`; only
+	 * records modified in Xero since the last successful run are fetched.
+	 * A failing data type is logged and retried on the next run without
+	 * blocking the others. Every data type is recorded as a sync run.
+	 * A data type with more than MAX_PAGES pages to fetch is recorded as
+	 * failed with PAGE_LIMIT_REACHED, and the next run carries on from the
+	 * page where it stopped before the cursor moves.
+	 */
+	static async runTenantSyncOnce(
+		tenantBindingId: string,
+		dataTypes: readonly SyncDataType[] = SYNC_DATA_TYPES,
+		trigger: SyncTrigger = "schedule",
+	): Promise<TenantSyncResult> {
 		console.log(`Starting sync for binding ${tenantBindingId}`);
 
 		// 1. Load binding to enforce org ownership for token access
@@ -16,40 +307,301 @@ export class SyncWorker {
 		});
 
 		if (!binding) {
-			throw new Error("Tenant binding not found");
+			throw new SyncError("Tenant binding not found", "BINDING_NOT_FOUND", {
+				tenantBindingId,
+			});
 		}
 
-		// 2. Get Client (Handling Refresh)
-		const client = await TokenService.getClientForTenantBinding(
+		const result: TenantSyncResult = {
 			tenantBindingId,
-			binding.clerkOrgId,
-		);
-		void client;
+			counts: {},
+			errors: [],
+		};
 
-		// 3. Load Sync State
-		const state = await db.query.integrationSyncState.findFirst({
+		if (binding.status !== "active") {
+			console.log(
+				`Skipping sync for binding ${tenantBindingId} (status: ${binding.status})`,
+			);
+			return result;
+		}
+
+		if (!binding.baseCurrency) {
+			try {
+				await withTokenRefreshRetry(binding.id, binding.clerkOrgId, (client) =>
+					syncBaseCurrency(client, binding.id),
+				);
+			} catch (error) {
+				// Only the consolidated view needs it; don't hold up the data sync
+				logError(error, { context: "sync_worker", tenantBindingId });
+			}
+		}
+
+		// 2. Load sync state for every data type
+		const states = await db.query.integrationSyncState.findMany({
 			where: eq(integrationSyncState.tenantBindingId, tenantBindingId),
 		});
+		const stateByType = new Map(states.map((s) => [s.dataType, s]));
+
+		// 3. Sync each data type in dependency order
+		for (const dataType of SYNC_DATA_TYPES) {
+			if (!dataTypes.includes(dataType)) continue;
 
-		// Initialize state if missing (stub logic for now, assuming "invoices" sync)
-		if (!state) {
-			// Check if we should insert? Or maybe we insert on first connection.
-			// For now, let's just proceed.
-			// Ideally, we'd loop through supported data types.
+			const startedAt = new Date();
+			const state = stateByType.get(dataType);
+			const lastSyncAt = state?.lastSyncAt ?? null;
+			const modifiedSince = lastSyncAt
+				? addMinutes(lastSyncAt, -SYNC_OVERLAP_MINUTES)
+				: null;
+			const startPage = parseResumePage(state?.cursor);
+
+			try {
+				const count = await recordSyncRun(
+					{ tenantBindingId, dataType, trigger },
+					async (heartbeat) => {
+						const { total, truncated } = await withTokenRefreshRetry(
+							binding.id,
+							binding.clerkOrgId,
+							(client) =>
+								SYNC_HANDLERS[dataType]({
+									client,
+									tenantId: binding.externalTenantId,
+									modifiedSince,
+									startPage,
+									heartbeat,
+								}),
+						);
+
+						if (truncated) {
+							// Keep the cursor where it is so the rows past the page limit
+							// are still fetched; the next run picks up from the next page
+							const nextPage = startPage + MAX_PAGES;
+							await saveSyncState(tenantBindingId, dataType, {
+								cursor: String(nextPage),
+							});
+							throw new SyncError(
+								`Synced ${total} ${dataType} before reaching the ${MAX_PAGES} page limit; the next run resumes from page ${nextPage}`,
+								"PAGE_LIMIT_REACHED",
+								{ tenantBindingId, dataType, nextPage, recordCount: total },
+							);
+						}
+						return total;
+					},
+				);
+
+				// 4. Advance the cursor to when this run started, so changes made
+				// in Xero while we were paging are picked up next time
+				await saveSyncState(tenantBindingId, dataType, {
+					lastSyncAt: startedAt,
+					cursor: null,
+				});
+
+				result.counts[dataType] = count;
+				console.log(
+					`Synced ${count} ${dataType} for ${tenantBindingId}${lastSyncAt ? ` (modified since ${formatIfModifiedSince(lastSyncAt)})` : " (full)"}`,
+				);
+			} catch (error) {
+				logError(error, {
+					context: "sync_worker",
+					tenantBindingId,
+					dataType,
+				});
+				result.errors.push({
+					dataType,
+					code: getErrorCode(error),
+					message: getErrorMessage(error),
+				});
+			}
 		}
 
-		// 3. Perform Sync (Stub Implementation)
-		// In a real app, this would use `client` to fetch endpoints like /Invoices
-		// utilizing the `if-modified-since` header based on `state.lastSyncAt`.
+		console.log(`Sync completed for ${tenantBindingId}`, {
+			counts: result.counts,
+			failed: result.errors.map((e) => e.dataType),
+		});
 
-		console.log("Fetching data from Xero...");
+		return result;
+	}
 
-		// Simulating a fetch
-		// const response = await client.fetch("/Invoices?...");
+	/**
+	 * Resync a single Xero resource named by a webhook event
+	 */
+	static async syncResource(
+		binding: IntegrationTenantBinding,
+		resourceType: string,
+		resourceId: string,
+	) {
+		const tenantId = binding.externalTenantId;
 
-		// 4. Update State
-		// await db.insert(integrationSyncState).values({...}).onConflictDoUpdate(...)
+		await recordSyncRun(
+			{
+				tenantBindingId: binding.id,
+				dataType: RESOURCE_DATA_TYPES[resourceType] ?? resourceType,
+				trigger: "webhook",
+			},
+			async () => {
+				try {
+					await withTokenRefreshRetry(
+						binding.id,
+						binding.clerkOrgId,
+						async (client) => {
+							if (resourceType === "INVOICE") {
+								await syncInvoiceById(client, tenantId, resourceId);
+							} else if (resourceType === "CONTACT") {
+								await syncContactById(client, tenantId, resourceId);
+							}
+						},
+					);
+					return 1;
+				} catch (error) {
+					// Resource no longer visible in Xero - nothing to mirror
+					if (
+						error instanceof ExternalAPIError &&
+						error.apiStatusCode === 404
+					) {
+						console.warn(
+							`${resourceType} ${resourceId} not found in Xero, skipping resync`,
+						);
+						return 0;
+					}
+					throw error;
+				}
+			},
+		);
+	}
 
-		console.log(`Sync completed for ${tenantBindingId}`);
+	/**
+	 * Process one queued job: a targeted resync when the job names a supported
+	 * resource, otherwise a full incremental sync for the tenant.
+	 * Marks every webhook event coalesced into the job as processed on success.
+	 */
+	static async processJob(job: QueuedSyncJob) {
+		const binding = await db.query.integrationTenantBindings.findFirst({
+			where: eq(integrationTenantBindings.id, job.tenantBindingId),
+		});
+
+		if (!binding) {
+			throw new SyncError("Tenant binding not found", "BINDING_NOT_FOUND", {
+				tenantBindingId: job.tenantBindingId,
+			});
+		}
+
+		if (binding.status !== "active") {
+			console.log(
+				`Skipping job for binding ${binding.id} (status: ${binding.status})`,
+			);
+		} else if (
+			job.resourceType &&
+			job.resourceId &&
+			(TARGETED_RESOURCE_TYPES as readonly string[]).includes(job.resourceType)
+		) {
+			await SyncWorker.syncResource(binding, job.resourceType, job.resourceId);
+		} else if (job.resourceType) {
+			console.log(
+				`No targeted resync for ${job.resourceType} events, ignoring`,
+			);
+		} else {
+			const result = await SyncWorker.runTenantSyncOnce(
+				binding.id,
+				SYNC_DATA_TYPES,
+				"webhook",
+			);
+			if (result.errors.length > 0) {
+				throw new SyncError("Incremental sync failed", "PARTIAL_SYNC_FAILURE", {
+					tenantBindingId: binding.id,
+					failed: result.errors.map((e) => e.dataType),
+				});
+			}
+		}
+
+		if (job.eventIds.length > 0) {
+			await db
+				.update(integrationWebhookEvents)
+				.set({ processedAt: new Date() })
+				.where(inArray(integrationWebhookEvents.externalEventId, job.eventIds));
+		}
+	}
+
+	/**
+	 * Drain the sync queue until it is empty, `maxJobs` have run or the time
+	 * budget is spent. Failed jobs are retried with backoff and dead-lettered
+	 * once they run out of attempts. Runs left behind by dead syncs are marked
+	 * failed first.
+	 */
+	static async processQueue(
+		options: { maxJobs?: number; timeBudgetMs?: number } = {},
+	): Promise<QueueRunResult> {
+		const { maxJobs = 100, timeBudgetMs = 50_000 } = options;
+		const deadline = Date.now() + timeBudgetMs;
+		const result: QueueRunResult = { processed: 0, failed: 0 };
+
+		await failStaleSyncRuns();
+
+		while (result.processed + result.failed < maxJobs) {
+			if (Date.now() >= deadline) break;
+
+			const job = await SyncQueue.dequeue();
+			if (!job) break;
+
+			try {
+				await SyncWorker.processJob(job);
+				await SyncQueue.ack(job.id);
+				result.processed++;
+			} catch (error) {
+				const outcome = await SyncQueue.fail(
+					job,
+					`[${getErrorCode(error)}] ${getErrorMessage(error)}`,
+					{
+						retryable: isRetryableError(error),
+						retryAfterMs:
+							error instanceof RateLimitError && error.retryAfter
+								? error.retryAfter * 1000
+								: undefined,
+					},
+				);
+				logError(error, {
+					context: "sync_queue",
+					jobId: job.id,
+					attempt: job.attempts,
+					outcome,
+					tenantBindingId: job.tenantBindingId,
+					resourceType: job.resourceType,
+					resourceId: job.resourceId,
+				});
+				result.failed++;
+			}
+		}
+
+		return result;
+	}
+
+	/**
+	 * Run an incremental sync for every active Xero tenant binding, after
+	 * marking runs left behind by dead syncs as failed
+	 */
+	static async runAllTenantsOnce(): Promise<TenantSyncResult[]> {
+		await failStaleSyncRuns();
+
+		const bindings = await db
+			.select({ id: integrationTenantBindings.id })
+			.from(integrationTenantBindings)
+			.where(
+				and(
+					eq(integrationTenantBindings.status, "active"),
+					eq(integrationTenantBindings.provider, "xero"),
+				),
+			);
+
+		const results: TenantSyncResult[] = [];
+		// Sequential on purpose: keeps us well inside Xero's rate limits
+		for (const binding of bindings) {
+			try {
+				results.push(await SyncWorker.runTenantSyncOnce(binding.id));
+			} catch (error) {
+				logError(error, {
+					context: "sync_worker",
+					tenantBindingId: binding.id,
+				});
+			}
+		}
+		return results;
 	}
 }
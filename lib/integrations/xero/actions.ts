@@ -1,71 +1,30 @@
 "use server";
 
 import { auth } from "@clerk/nextjs/server";
-import { and, eq, sql } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
-import { db } from "@/lib/db";
-import {
-	xeroBills,
-	xeroContacts,
-	xeroInvoices,
-	xeroSuppliers,
-	xeroTransactions,
-} from "@/lib/db/schema";
+import type { IntegrationTenantBinding } from "@/lib/db/schema";
 import { ExternalAPIError } from "@/lib/integrations/errors";
+import { recordSyncRun } from "@/lib/integrations/sync/runs";
 import { withTokenRefreshRetry } from "./retry-helper";
-import { parseXeroDate } from "./utils";
-
-// Define simplified Xero types
-interface XeroContactResponse {
-	Contacts: Array<{
-		ContactID: string;
-		Name: string;
-		EmailAddress?: string;
-		Phones?: Array<{ PhoneType: string; PhoneNumber: string }>;
-		TaxNumber?: string;
-		ContactStatus?: string; // ACTIVE, ARCHIVED, GDPRREQUEST
-		BankAccountDetails?: string; // Account number (name not available in API)
-	}>;
-}
-
-interface XeroInvoiceResponse {
-	Invoices: Array<{
-		InvoiceID: string;
-		Contact: { ContactID: string };
-		Type: string;
-		Status: string;
-		DateString?: string;
-		DueDateString?: string;
-		AmountDue: number;
-		AmountPaid: number;
-		Total: number;
-		CurrencyCode: string;
-		LineItems?: Array<{ Description?: string; LineAmount?: number }>;
-		InvoiceNumber?: string; // Tax invoice number
-		BankAccountNumber?: string; // Bank account for this specific bill (NOTE: Xero API limitation - not available)
-	}>;
-}
-
-interface XeroBankTransactionResponse {
-	BankTransactions: Array<{
-		BankTransactionID: string;
-		Type: string; // SPEND or RECEIVE
-		Total: number;
-		DateString?: string;
-		LineItems?: Array<{ Description?: string; LineAmount?: number }>;
-	}>;
-}
-
-interface XeroPaymentResponse {
-	Payments: Array<{
-		PaymentID: string;
-		Date: string; // Typically YYYY-MM-DD
-		Amount: number;
-		PaymentType: string; // ACCREC PAYMENT or ACCPAY PAYMENT
-		Reference?: string;
-		Invoice?: { InvoiceID: string; Type: string }; // Depending on endpoint details
-	}>;
-}
+import { getXeroTenantScope } from "./tenant-scope";
+import {
+	invoiceSyncWhereClause,
+	type XeroBankTransactionResponse,
+	type XeroContactResponse,
+	type XeroInvoiceResponse,
+	type XeroPaymentResponse,
+} from "./types";
+import {
+	loadContactIdMap,
+	loadSupplierIdMap,
+	syncXeroBankBalances,
+	upsertXeroBankTransactions,
+	upsertXeroBills,
+	upsertXeroContacts,
+	upsertXeroInvoices,
+	upsertXeroPayments,
+	upsertXeroSuppliers,
+} from "./upserts";
 
 export async function syncXeroData() {
 	const { orgId } = await auth();
@@ -73,151 +32,111 @@ export async function syncXeroData() {
 		throw new Error("No organization selected");
 	}
 
-	// Find active tenant binding for this org
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (table, { and, eq }) =>
-			and(
-				eq(table.clerkOrgId, orgId),
-				eq(table.status, "active"),
-				eq(table.provider, "xero"),
-			),
-	});
-
-	if (!binding) {
+	// Sync every Xero organisation in view (all of them when consolidated)
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) {
 		throw new Error("No active Xero connection found");
 	}
 
+	const counts = { contacts: 0, invoices: 0 };
+	for (const binding of scope.bindings) {
+		const synced = await syncReceivables(binding, orgId);
+		counts.contacts += synced.contacts;
+		counts.invoices += synced.invoices;
+	}
+
+	revalidatePath("/agents/ar");
+	return { success: true, counts };
+}
+
+async function syncReceivables(
+	binding: IntegrationTenantBinding,
+	orgId: string,
+) {
 	return await withTokenRefreshRetry(binding.id, orgId, async (client) => {
 		// 1. Fetch Contacts
-		const contactsRes = await client.fetch("/Contacts");
-		if (!contactsRes.ok) {
-			const errorBody = await contactsRes.text();
-			throw new ExternalAPIError(
-				"Failed to fetch Xero contacts",
-				"xero",
-				contactsRes.status,
-				{ endpoint: "/Contacts", response: errorBody },
-			);
-		}
-		const contactsData = (await contactsRes.json()) as XeroContactResponse;
-
-		console.log(`Synced ${contactsData.Contacts.length} contacts`);
-
-		// Batch Upsert Contacts
-		if (contactsData.Contacts.length > 0) {
-			await db
-				.insert(xeroContacts)
-				.values(
-					contactsData.Contacts.map((contact) => ({
-						xeroTenantId: binding.externalTenantId,
-						xeroContactId: contact.ContactID,
-						name: contact.Name,
-						email: contact.EmailAddress,
-						phone: contact.Phones?.find(
-							(p) => p.PhoneType === "DEFAULT" || p.PhoneType === "MOBILE",
-						)?.PhoneNumber,
-					})),
-				)
-				.onConflictDoUpdate({
-					target: [xeroContacts.xeroTenantId, xeroContacts.xeroContactId],
-					set: {
-						name: sql`excluded.name`,
-						email: sql`excluded.email`,
-						phone: sql`excluded.phone`,
-						updatedAt: new Date(),
-					},
-				});
-		}
-
-		// Load internal Contact Map for linking
-		const internalContacts = await db.query.xeroContacts.findMany({
-			where: and(eq(xeroContacts.xeroTenantId, binding.externalTenantId)),
-			columns: {
-				id: true,
-				xeroContactId: true,
+		const totalContacts = await recordSyncRun(
+			{ tenantBindingId: binding.id, dataType: "contacts", trigger: "manual" },
+			async () => {
+				const contactsRes = await client.fetch(
+					"/Contacts?includeArchived=true",
+				);
+				if (!contactsRes.ok) {
+					const errorBody = await contactsRes.text();
+					throw new ExternalAPIError(
+						"Failed to fetch Xero contacts",
+						"xero",
+						contactsRes.status,
+						{ endpoint: "/Contacts", response: errorBody },
+					);
+				}
+				const contactsData = (await contactsRes.json()) as XeroContactResponse;
+
+				console.log(`Synced ${contactsData.Contacts.length} contacts`);
+
+				// Batch Upsert Contacts
+				await upsertXeroContacts(
+					binding.externalTenantId,
+					contactsData.Contacts,
+				);
+				return contactsData.Contacts.length;
 			},
-		});
-		const contactMap = new Map(
-			internalContacts.map((c) => [c.xeroContactId, c.id]),
 		);
 
+		// Load internal Contact Map for linking
+		const contactMap = await loadContactIdMap(binding.externalTenantId);
+
 		// 2. Fetch Invoices
-		const whereClause =
-			'Type=="ACCREC" AND (Status=="AUTHORISED" OR Status=="PAID")';
-		let page = 1;
-		let totalInvoices = 0;
+		const whereClause = invoiceSyncWhereClause("ACCREC");
 		const maxPages = 100; // Safety limit to prevent infinite loops
 
-		while (page <= maxPages) {
-			const invoicesRes = await client.fetch(
-				`/Invoices?where=${encodeURIComponent(whereClause)}&page=${page}`,
-			);
-			if (!invoicesRes.ok) {
-				const errorBody = await invoicesRes.text();
-				// Log partial success before throwing
-				console.error(
-					`Xero sync partial failure: Synced ${totalInvoices} invoices before error on page ${page}`,
-				);
-				throw new ExternalAPIError(
-					"Failed to fetch Xero invoices",
-					"xero",
-					invoicesRes.status,
-					{ endpoint: "/Invoices", response: errorBody, page, totalSynced: totalInvoices },
-				);
-			}
-			const invoicesData = (await invoicesRes.json()) as XeroInvoiceResponse;
-
-			if (invoicesData.Invoices.length === 0) break;
-			totalInvoices += invoicesData.Invoices.length;
-
-			// Prepare Invoice Data
-			const invoiceValues = invoicesData.Invoices.map((invoice) => {
-				const contactId = contactMap.get(invoice.Contact.ContactID);
-				const date = parseXeroDate(invoice.DateString);
-				const dueDate = parseXeroDate(invoice.DueDateString);
-
-				return {
-					xeroTenantId: binding.externalTenantId,
-					xeroInvoiceId: invoice.InvoiceID,
-					contactId: contactId || null,
-					type: invoice.Type,
-					status: invoice.Status,
-					date: date,
-					dueDate: dueDate,
-					amountDue: invoice.AmountDue.toString(),
-					amountPaid: invoice.AmountPaid.toString(),
-					total: invoice.Total.toString(),
-					currencyCode: invoice.CurrencyCode,
-				};
-			});
-
-			if (invoiceValues.length > 0) {
-				await db
-					.insert(xeroInvoices)
-					.values(invoiceValues)
-					.onConflictDoUpdate({
-						target: [xeroInvoices.xeroTenantId, xeroInvoices.xeroInvoiceId],
-						set: {
-							status: sql`excluded.status`,
-							amountDue: sql`excluded.amount_due`,
-							amountPaid: sql`excluded.amount_paid`,
-							total: sql`excluded.total`,
-							updatedAt: new Date(),
-						},
-					});
-			}
-			page++;
-		}
+		const totalInvoices = await recordSyncRun(
+			{ tenantBindingId: binding.id, dataType: "invoices", trigger: "manual" },
+			async () => {
+				let page = 1;
+				let synced = 0;
+
+				while (page <= maxPages) {
+					const invoicesRes = await client.fetch(
+						`/Invoices?where=${encodeURIComponent(whereClause)}&page=${page}`,
+					);
+					if (!invoicesRes.ok) {
+						const errorBody = await invoicesRes.text();
+						// Log partial success before throwing
+						console.error(
+							`Xero sync partial failure: Synced ${synced} invoices before error on page ${page}`,
+						);
+						throw new ExternalAPIError(
+							"Failed to fetch Xero invoices",
+							"xero",
+							invoicesRes.status,
+							{
+								endpoint: "/Invoices",
+								response: errorBody,
+								page,
+								totalSynced: synced,
+							},
+						);
+					}
+					const invoicesData =
+						(await invoicesRes.json()) as XeroInvoiceResponse;
+
+					if (invoicesData.Invoices.length === 0) break;
+					synced += invoicesData.Invoices.length;
+
+					await upsertXeroInvoices(
+						binding.externalTenantId,
+						invoicesData.Invoices,
+						contactMap,
+					);
+					page++;
+				}
+				return synced;
+			},
+		);
 
 		console.log(`Synced ${totalInvoices} invoices`);
-		revalidatePath("/agents/ar");
-		return {
-			success: true,
-			counts: {
-				contacts: contactsData.Contacts.length,
-				invoices: totalInvoices,
-			},
-		};
+		return { contacts: totalContacts, invoices: totalInvoices };
 	});
 }
 
@@ -227,168 +146,105 @@ export async function syncXeroBills() {
 		throw new Error("No organization selected");
 	}
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (table, { and, eq }) =>
-			and(
-				eq(table.clerkOrgId, orgId),
-				eq(table.status, "active"),
-				eq(table.provider, "xero"),
-			),
-	});
-
-	if (!binding) {
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) {
 		throw new Error("No active Xero connection found");
 	}
 
+	const counts = { suppliers: 0, bills: 0 };
+	for (const binding of scope.bindings) {
+		const synced = await syncPayables(binding, orgId);
+		counts.suppliers += synced.suppliers;
+		counts.bills += synced.bills;
+	}
+
+	revalidatePath("/agents/ap");
+	return { success: true, counts };
+}
+
+async function syncPayables(binding: IntegrationTenantBinding, orgId: string) {
 	return await withTokenRefreshRetry(binding.id, orgId, async (client) => {
 		// 1. Fetch Suppliers (Contacts)
 		// We sync all contacts to suppliers table for simplicity, or we can assume contacts are shared.
 		// Given separate tables requirement, we upsert to xeroSuppliers.
-		const contactsRes = await client.fetch("/Contacts");
-		if (!contactsRes.ok) {
-			const errorBody = await contactsRes.text();
-			throw new ExternalAPIError(
-				"Failed to fetch Xero contacts/suppliers",
-				"xero",
-				contactsRes.status,
-				{ endpoint: "/Contacts", response: errorBody },
-			);
-		}
-		const contactsData = (await contactsRes.json()) as XeroContactResponse;
-
-		if (contactsData.Contacts.length > 0) {
-			await db
-				.insert(xeroSuppliers)
-				.values(
-					contactsData.Contacts.map((contact) => ({
-						xeroTenantId: binding.externalTenantId,
-						xeroContactId: contact.ContactID,
-						name: contact.Name,
-						email: contact.EmailAddress,
-						phone: contact.Phones?.find(
-							(p) => p.PhoneType === "DEFAULT" || p.PhoneType === "MOBILE",
-						)?.PhoneNumber,
-						taxNumber: contact.TaxNumber || null,
-						contactStatus: contact.ContactStatus || null,
-						bankAccountNumber: contact.BankAccountDetails || null,
-						bankAccountName: null, // NOTE: Not available in Xero API
-					})),
-				)
-				.onConflictDoUpdate({
-					target: [xeroSuppliers.xeroTenantId, xeroSuppliers.xeroContactId],
-					set: {
-						name: sql`excluded.name`,
-						email: sql`excluded.email`,
-						phone: sql`excluded.phone`,
-						taxNumber: sql`excluded.tax_number`,
-						contactStatus: sql`excluded.contact_status`,
-						bankAccountNumber: sql`excluded.bank_account_number`,
-						bankAccountName: sql`excluded.bank_account_name`,
-						updatedAt: new Date(),
-					},
-				});
-		}
-
-		// Load internal Supplier Map
-		const internalSuppliers = await db.query.xeroSuppliers.findMany({
-			where: and(eq(xeroSuppliers.xeroTenantId, binding.externalTenantId)),
-			columns: {
-				id: true,
-				xeroContactId: true,
+		const totalSuppliers = await recordSyncRun(
+			{ tenantBindingId: binding.id, dataType: "contacts", trigger: "manual" },
+			async () => {
+				const contactsRes = await client.fetch(
+					"/Contacts?includeArchived=true",
+				);
+				if (!contactsRes.ok) {
+					const errorBody = await contactsRes.text();
+					throw new ExternalAPIError(
+						"Failed to fetch Xero contacts/suppliers",
+						"xero",
+						contactsRes.status,
+						{ endpoint: "/Contacts", response: errorBody },
+					);
+				}
+				const contactsData = (await contactsRes.json()) as XeroContactResponse;
+
+				await upsertXeroSuppliers(
+					binding.externalTenantId,
+					contactsData.Contacts,
+				);
+				return contactsData.Contacts.length;
 			},
-		});
-		const supplierMap = new Map(
-			internalSuppliers.map((s) => [s.xeroContactId, s.id]),
 		);
 
+		// Load internal Supplier Map
+		const supplierMap = await loadSupplierIdMap(binding.externalTenantId);
+
 		// 2. Fetch Bills (ACCPAY)
-		const whereClause =
-			'Type=="ACCPAY" AND (Status=="AUTHORISED" OR Status=="PAID")';
-		let page = 1;
-		let totalBills = 0;
+		const whereClause = invoiceSyncWhereClause("ACCPAY");
 		const maxPages = 100; // Safety limit to prevent infinite loops
 
-		while (page <= maxPages) {
-			const billsRes = await client.fetch(
-				`/Invoices?where=${encodeURIComponent(whereClause)}&page=${page}`,
-			);
-			if (!billsRes.ok) {
-				const errorBody = await billsRes.text();
-				// Log partial success before throwing
-				console.error(
-					`Xero AP sync partial failure: Synced ${totalBills} bills before error on page ${page}`,
-				);
-				throw new ExternalAPIError(
-					"Failed to fetch Xero bills",
-					"xero",
-					billsRes.status,
-					{ endpoint: "/Invoices", response: errorBody, page, totalSynced: totalBills },
-				);
-			}
-			const billsData = (await billsRes.json()) as XeroInvoiceResponse;
-
-			if (billsData.Invoices.length === 0) break;
-			totalBills += billsData.Invoices.length;
-
-			const billValues = billsData.Invoices.map((bill) => {
-				const supplierId = supplierMap.get(bill.Contact.ContactID);
-				const date = parseXeroDate(bill.DateString);
-				const dueDate = parseXeroDate(bill.DueDateString);
-				const lineItemsSummary =
-					bill.LineItems?.map(
-						(l) => `${l.Description || "Item"} ($${l.LineAmount})`,
-					).join("; ") || "";
-
-				return {
-					xeroTenantId: binding.externalTenantId,
-					xeroBillId: bill.InvoiceID,
-					supplierId: supplierId || null,
-					type: bill.Type,
-					status: bill.Status,
-					date: date,
-					dueDate: dueDate,
-					amountDue: bill.AmountDue.toString(),
-					amountPaid: bill.AmountPaid.toString(),
-					total: bill.Total.toString(),
-					currencyCode: bill.CurrencyCode,
-					lineItemsSummary: lineItemsSummary,
-					invoiceNumber: bill.InvoiceNumber || null,
-					billBankAccountNumber: bill.BankAccountNumber || null, // NOTE: Not available in Xero API
-					billBankAccountName: null, // NOTE: Not available in Xero API
-				};
-			});
-
-			if (billValues.length > 0) {
-				await db
-					.insert(xeroBills)
-					.values(billValues)
-					.onConflictDoUpdate({
-						target: [xeroBills.xeroTenantId, xeroBills.xeroBillId],
-						set: {
-							status: sql`excluded.status`,
-							amountDue: sql`excluded.amount_due`,
-							amountPaid: sql`excluded.amount_paid`,
-							total: sql`excluded.total`,
-							lineItemsSummary: sql`excluded.line_items_summary`,
-							invoiceNumber: sql`excluded.invoice_number`,
-							billBankAccountNumber: sql`excluded.bill_bank_account_number`,
-							billBankAccountName: sql`excluded.bill_bank_account_name`,
-							updatedAt: new Date(),
-						},
-					});
-			}
-			page++;
-		}
+		const totalBills = await recordSyncRun(
+			{ tenantBindingId: binding.id, dataType: "bills", trigger: "manual" },
+			async () => {
+				let page = 1;
+				let synced = 0;
+
+				while (page <= maxPages) {
+					const billsRes = await client.fetch(
+						`/Invoices?where=${encodeURIComponent(whereClause)}&page=${page}`,
+					);
+					if (!billsRes.ok) {
+						const errorBody = await billsRes.text();
+						// Log partial success before throwing
+						console.error(
+							`Xero AP sync partial failure: Synced ${synced} bills before error on page ${page}`,
+						);
+						throw new ExternalAPIError(
+							"Failed to fetch Xero bills",
+							"xero",
+							billsRes.status,
+							{
+								endpoint: "/Invoices",
+								response: errorBody,
+								page,
+								totalSynced: synced,
+							},
+						);
+					}
+					const billsData = (await billsRes.json()) as XeroInvoiceResponse;
+
+					if (billsData.Invoices.length === 0) break;
+					synced += billsData.Invoices.length;
+
+					await upsertXeroBills(
+						binding.externalTenantId,
+						billsData.Invoices,
+						supplierMap,
+					);
+					page++;
+				}
+				return synced;
+			},
+		);
 
 		console.log(`Synced ${totalBills} bills`);
-		revalidatePath("/agents/ap");
-		return {
-			success: true,
-			counts: {
-				suppliers: contactsData.Contacts.length,
-				bills: totalBills,
-			},
-		};
+		return { suppliers: totalSuppliers, bills: totalBills };
 	});
 }
 
@@ -396,127 +252,105 @@ export async function syncXeroTransactions() {
 	const { orgId } = await auth();
 	if (!orgId) throw new Error("No organization selected");
 
-	const binding = await db.query.integrationTenantBindings.findFirst({
-		where: (table, { and, eq }) =>
-			and(
-				eq(table.clerkOrgId, orgId),
-				eq(table.status, "active"),
-				eq(table.provider, "xero"),
-			),
-	});
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) throw new Error("No active Xero connection found");
 
-	if (!binding) throw new Error("No active Xero connection found");
+	const counts = { transactions: 0, payments: 0, balances: 0 };
+	for (const binding of scope.bindings) {
+		const synced = await syncCashflow(binding, orgId);
+		counts.transactions += synced.transactions;
+		counts.payments += synced.payments;
+		counts.balances += synced.balances;
+	}
 
-	return await withTokenRefreshRetry(binding.id, orgId, async (client) => {
-		let transactionsCount = 0;
-		let paymentsCount = 0;
+	revalidatePath("/agents/cashflow");
+	return { success: true, counts };
+}
 
+async function syncCashflow(binding: IntegrationTenantBinding, orgId: string) {
+	return await withTokenRefreshRetry(binding.id, orgId, async (client) => {
 		// 1. Sync Bank Transactions (Spend/Receive Money)
 		const oneYearAgo = new Date();
 		oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
 		const whereDate = oneYearAgo.toISOString().split("T")[0];
-
-		let page = 1;
 		const maxPages = 100; // Safety limit to prevent infinite loops
-		while (page <= maxPages) {
-			const btRes = await client.fetch(
-				`/BankTransactions?where=Date>=DateTime.Parse("${whereDate}")&page=${page}`,
-			);
-			if (!btRes.ok) {
-				// Log partial success for bank transactions
-				console.error(
-					`Xero cashflow sync partial failure: Synced ${transactionsCount} transactions before error on page ${page}`,
-				);
-				break; // Continue with payments sync even if bank transactions fail partially
-			}
-			const btData = (await btRes.json()) as XeroBankTransactionResponse;
-			if (btData.BankTransactions.length === 0) break;
-
-			const btValues = btData.BankTransactions.map((bt) => {
-				const date = parseXeroDate(bt.DateString);
-				const desc =
-					bt.LineItems?.map((l) => l.Description).join("; ") ||
-					"Bank Transaction";
-				return {
-					xeroTenantId: binding.externalTenantId,
-					xeroId: bt.BankTransactionID,
-					type: bt.Type,
-					amount: bt.Total.toString(),
-					date: date,
-					description: desc,
-					source: "BANK_TRANS",
-				};
-			});
-
-			if (btValues.length > 0) {
-				await db
-					.insert(xeroTransactions)
-					.values(btValues)
-					.onConflictDoUpdate({
-						target: [xeroTransactions.xeroTenantId, xeroTransactions.xeroId],
-						set: {
-							amount: sql`excluded.amount`,
-							description: sql`excluded.description`,
-							updatedAt: new Date(),
-						},
-					});
-			}
-			transactionsCount += btData.BankTransactions.length;
-			page++;
-		}
+
+		const transactionsCount = await recordSyncRun(
+			{
+				tenantBindingId: binding.id,
+				dataType: "bank_transactions",
+				trigger: "manual",
+			},
+			async () => {
+				let page = 1;
+				let synced = 0;
+				while (page <= maxPages) {
+					const btRes = await client.fetch(
+						`/BankTransactions?where=Date>=DateTime.Parse("${whereDate}")&page=${page}`,
+					);
+					if (!btRes.ok) {
+						// Log partial success for bank transactions
+						console.error(
+							`Xero cashflow sync partial failure: Synced ${synced} transactions before error on page ${page}`,
+						);
+						break; // Continue with payments sync even if bank transactions fail partially
+					}
+					const btData = (await btRes.json()) as XeroBankTransactionResponse;
+					if (btData.BankTransactions.length === 0) break;
+
+					await upsertXeroBankTransactions(
+						binding.externalTenantId,
+						btData.BankTransactions,
+					);
+					synced += btData.BankTransactions.length;
+					page++;
+				}
+				return synced;
+			},
+		);
 
 		// 2. Sync Payments (Invoice Payments)
-		page = 1;
-		while (page <= maxPages) {
-			const payRes = await client.fetch(
-				`/Payments?where=Date>=DateTime.Parse("${whereDate}")&page=${page}`,
-			);
-			if (!payRes.ok) {
-				// Log partial success for payments
-				console.error(
-					`Xero payments sync partial failure: Synced ${paymentsCount} payments before error on page ${page}`,
-				);
-				break; // Partial success is acceptable for payments
-			}
-			const payData = (await payRes.json()) as XeroPaymentResponse;
-			if (payData.Payments.length === 0) break;
-
-			const payValues = payData.Payments.map((pay) => {
-				const type = pay.PaymentType === "ACCREC PAYMENT" ? "RECEIVE" : "SPEND";
-				const date = parseXeroDate(pay.Date);
-				const desc = `${pay.PaymentType} - Ref: ${pay.Reference || "N/A"}`;
-
-				return {
-					xeroTenantId: binding.externalTenantId,
-					xeroId: pay.PaymentID,
-					type: type,
-					amount: pay.Amount.toString(),
-					date: date,
-					description: desc,
-					source: "PAYMENT",
-				};
-			});
-
-			if (payValues.length > 0) {
-				await db
-					.insert(xeroTransactions)
-					.values(payValues)
-					.onConflictDoUpdate({
-						target: [xeroTransactions.xeroTenantId, xeroTransactions.xeroId],
-						set: {
-							amount: sql`excluded.amount`,
-							updatedAt: new Date(),
-						},
-					});
-			}
-			paymentsCount += payData.Payments.length;
-			page++;
-		}
-
-		revalidatePath("/agents/cashflow");
+		const paymentsCount = await recordSyncRun(
+			{ tenantBindingId: binding.id, dataType: "payments", trigger: "manual" },
+			async () => {
+				let page = 1;
+				let synced = 0;
+				while (page <= maxPages) {
+					const payRes = await client.fetch(
+						`/Payments?where=Date>=DateTime.Parse("${whereDate}")&page=${page}`,
+					);
+					if (!payRes.ok) {
+						// Log partial success for payments
+						console.error(
+							`Xero payments sync partial failure: Synced ${synced} payments before error on page ${page}`,
+						);
+						break; // Partial success is acceptable for payments
+					}
+					const payData = (await payRes.json()) as XeroPaymentResponse;
+					if (payData.Payments.length === 0) break;
+
+					await upsertXeroPayments(binding.externalTenantId, payData.Payments);
+					synced += payData.Payments.length;
+					page++;
+				}
+				return synced;
+			},
+		);
+
+		// 3. Bank balances, the opening position for the forecast
+		const balancesCount = await recordSyncRun(
+			{
+				tenantBindingId: binding.id,
+				dataType: "bank_balances",
+				trigger: "manual",
+			},
+			() => syncXeroBankBalances(client, binding.externalTenantId),
+		);
+
 		return {
-			success: true,
-			counts: { transactions: transactionsCount, payments: paymentsCount },
+			transactions: transactionsCount,
+			payments: paymentsCount,
+			balances: balancesCount,
 		};
 	});
 }
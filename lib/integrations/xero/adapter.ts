@@ -273,6 +273,12 @@ export class XeroAdapter {
 					headers.set("Xero-tenant-id", tenantId);
 					headers.set("Accept", "application/json");
 
+					const { acquireRateLimitToken, extractRateLimits, recordRateLimits } =
+						await import("@/lib/integrations/rate-limiter");
+
+					// Wait for a slot in this tenant's shared call budget
+					await acquireRateLimitToken(tenantId);
+
 					const response = await fetch(url, {
 						...init,
 						headers,
@@ -280,11 +286,8 @@ export class XeroAdapter {
 
 					// Track rate limits
 					try {
-						const { extractRateLimits, logRateLimits } = await import(
-							"@/lib/integrations/rate-limiter"
-						);
 						const rateLimits = extractRateLimits(response.headers);
-						logRateLimits(tenantId, rateLimits);
+						await recordRateLimits(tenantId, rateLimits);
 					} catch (e) {
 						// Ignore rate limit tracking errors to not block main flow
 						console.error("Failed to track rate limits", e);
@@ -0,0 +1,125 @@
+import "server-only";
+
+import { and, asc, eq } from "drizzle-orm";
+import { cookies } from "next/headers";
+import { db } from "@/lib/db";
+import {
+	type IntegrationTenantBinding,
+	integrationTenantBindings,
+} from "@/lib/db/schema";
+
+/**
+ * An org can bind several Xero organisations (e.g. a trading company and a
+ * holding company). Each user picks which one they are looking at; the choice
+ * lives in a per-org session cookie so switching Clerk orgs keeps it separate.
+ */
+
+export const CONSOLIDATED_SCOPE = "consolidated";
+
+const COOKIE_MAX_AGE_SECONDS = 60 * 60 * 24 * 365;
+
+export interface XeroTenantScope {
+	bindings: IntegrationTenantBinding[]; // Bindings in view, primary first
+	consolidated: boolean;
+}
+
+export function getTenantCookieName(orgId: string) {
+	return `xero-tenant-${orgId}`;
+}
+
+/**
+ * Active Xero bindings for an org, oldest first. The first is the primary.
+ */
+export async function listActiveXeroBindings(
+	orgId: string,
+): Promise<IntegrationTenantBinding[]> {
+	return await db
+		.select()
+		.from(integrationTenantBindings)
+		.where(
+			and(
+				eq(integrationTenantBindings.clerkOrgId, orgId),
+				eq(integrationTenantBindings.status, "active"),
+				eq(integrationTenantBindings.provider, "xero"),
+			),
+		)
+		.orderBy(asc(integrationTenantBindings.createdAt));
+}
+
+async function getSelection(orgId: string): Promise<string | undefined> {
+	const cookieStore = await cookies();
+	return cookieStore.get(getTenantCookieName(orgId))?.value;
+}
+
+/**
+ * Remember the user's choice of tenant binding (or the consolidated view)
+ */
+export async function setTenantSelection(orgId: string, selection: string) {
+	const cookieStore = await cookies();
+	cookieStore.set(getTenantCookieName(orgId), selection, {
+		httpOnly: true,
+		sameSite: "lax",
+		secure: process.env.NODE_ENV === "production",
+		path: "/",
+		maxAge: COOKIE_MAX_AGE_SECONDS,
+	});
+}
+
+/**
+ * Bindings the current session is looking at: the selected binding, or every
+ * active binding in the consolidated view. Falls back to the primary binding
+ * when nothing (or a binding that is no longer active) is selected.
+ */
+export async function getXeroTenantScope(
+	orgId: string,
+): Promise<XeroTenantScope | null> {
+	const bindings = await listActiveXeroBindings(orgId);
+	if (bindings.length === 0) return null;
+
+	const selection = await getSelection(orgId);
+
+	if (selection === CONSOLIDATED_SCOPE && bindings.length > 1) {
+		return { bindings, consolidated: true };
+	}
+
+	const selected = bindings.find((b) => b.id === selection) ?? bindings[0];
+	return { bindings: [selected], consolidated: false };
+}
+
+/**
+ * The single binding that read-only tools query. In the consolidated view
+ * this is the primary binding.
+ */
+export async function getCurrentXeroBinding(
+	orgId: string,
+): Promise<IntegrationTenantBinding | null> {
+	const scope = await getXeroTenantScope(orgId);
+	return scope?.bindings[0] ?? null;
+}
+
+export interface XeroWriteBinding {
+	binding: IntegrationTenantBinding | null; // Null when Xero isn't connected
+	error?: string; // Why writes are refused, even though Xero is connected
+}
+
+/**
+ * The binding that tools and actions which change data act on. Refused in the
+ * consolidated view: the user is looking at several organisations' records,
+ * so writing to the primary one could change a different entity than meant.
+ */
+export async function getXeroWriteBinding(
+	orgId: string,
+): Promise<XeroWriteBinding> {
+	const scope = await getXeroTenantScope(orgId);
+	if (!scope) return { binding: null };
+
+	if (scope.consolidated) {
+		return {
+			binding: null,
+			error:
+				"Changes can't be made in the consolidated view. Select the Xero organisation to change in the organisation switcher, then try again.",
+		};
+	}
+
+	return { binding: scope.bindings[0] };
+}
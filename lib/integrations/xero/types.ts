@@ -0,0 +1,104 @@
+// Simplified Xero Accounting API response types used by the local mirror sync
+
+export interface XeroContactResponse {
+	Contacts: Array<{
+		ContactID: string;
+		Name: string;
+		EmailAddress?: string;
+		Phones?: Array<{ PhoneType: string; PhoneNumber: string }>;
+		TaxNumber?: string;
+		ContactStatus?: string; // ACTIVE, ARCHIVED, GDPRREQUEST
+		BankAccountDetails?: string; // Account number (name not available in API)
+	}>;
+}
+
+export interface XeroInvoiceResponse {
+	Invoices: Array<{
+		InvoiceID: string;
+		Contact: { ContactID: string };
+		Type: string;
+		Status: string;
+		DateString?: string;
+		DueDateString?: string;
+		AmountDue: number;
+		AmountPaid: number;
+		AmountCredited?: number;
+		Total: number;
+		CurrencyCode: string;
+		FullyPaidOnDate?: string; // Set once Status is PAID
+		LineItems?: Array<{
+			LineItemID?: string;
+			Description?: string;
+			Quantity?: number;
+			UnitAmount?: number;
+			LineAmount?: number;
+			TaxAmount?: number;
+			AccountCode?: string;
+			TaxType?: string;
+			ItemCode?: string;
+			Tracking?: Array<{ Name: string; Option: string }>;
+		}>;
+		InvoiceNumber?: string; // Tax invoice number
+		BankAccountNumber?: string; // Bank account for this specific bill (NOTE: Xero API limitation - not available)
+	}>;
+}
+
+export interface XeroBankTransactionResponse {
+	BankTransactions: Array<{
+		BankTransactionID: string;
+		Type: string; // SPEND or RECEIVE
+		Total: number;
+		DateString?: string;
+		LineItems?: Array<{ Description?: string; LineAmount?: number }>;
+	}>;
+}
+
+export interface XeroPaymentResponse {
+	Payments: Array<{
+		PaymentID: string;
+		Date: string; // Typically YYYY-MM-DD
+		Amount: number;
+		PaymentType: string; // ACCREC PAYMENT or ACCPAY PAYMENT
+		Reference?: string;
+		Invoice?: { InvoiceID: string; Type: string }; // Depending on endpoint details
+	}>;
+}
+
+// Xero's generic report shape; Bank Summary rows are one bank account each
+export interface XeroReportResponse {
+	Reports: Array<{
+		ReportName: string;
+		ReportDate?: string;
+		Rows: XeroReportRow[];
+	}>;
+}
+
+export interface XeroReportRow {
+	RowType: string; // Header, Section, Row, SummaryRow
+	Title?: string;
+	Cells?: Array<{
+		Value: string;
+		Attributes?: Array<{ Id: string; Value: string }>;
+	}>;
+	Rows?: XeroReportRow[];
+}
+
+/**
+ * Invoice statuses that mean the invoice or bill no longer exists in Xero.
+ * Local rows are kept as tombstones with this status and excluded from dashboards.
+ */
+export const REMOVED_INVOICE_STATUSES = ["VOIDED", "DELETED"];
+
+/**
+ * Where filter for invoice and bill syncs: live statuses plus removed ones,
+ * so voiding or deleting in Xero reaches rows we already hold
+ */
+export function invoiceSyncWhereClause(type: "ACCREC" | "ACCPAY") {
+	return `Type=="${type}" AND (Status=="AUTHORISED" OR Status=="PAID" OR Status=="VOIDED" OR Status=="DELETED")`;
+}
+
+export type XeroContact = XeroContactResponse["Contacts"][number];
+export type XeroInvoice = XeroInvoiceResponse["Invoices"][number];
+export type XeroBankTransaction =
+	XeroBankTransactionResponse["BankTransactions"][number];
+export type XeroPayment = XeroPaymentResponse["Payments"][number];
@@ -0,0 +1,501 @@
+import "server-only";
+
+import { and, eq, inArray, notInArray, sql } from "drizzle-orm";
+import { db } from "@/lib/db";
+import {
+	xeroBankBalances,
+	xeroBills,
+	xeroContacts,
+	xeroInvoices,
+	xeroLineItems,
+	xeroSuppliers,
+	xeroTransactions,
+} from "@/lib/db/schema";
+import type { TokenService } from "@/lib/integrations/token-service";
+import {
+	REMOVED_INVOICE_STATUSES,
+	type XeroBankTransaction,
+	type XeroContact,
+	type XeroInvoice,
+	type XeroPayment,
+	type XeroReportResponse,
+	type XeroReportRow,
+} from "./types";
+import { parseXeroDate } from "./utils";
+
+/**
+ * Upserts into the local Xero mirror tables.
+ * Shared by the manual sync actions, the incremental sync worker
+ * and webhook-driven resyncs so every path writes rows the same way.
+ */
+
+type XeroApiClient = Awaited<
+	ReturnType<typeof TokenService.getClientForTenantBinding>
+>;
+
+function getPrimaryPhone(contact: XeroContact) {
+	return contact.Phones?.find(
+		(p) => p.PhoneType === "DEFAULT" || p.PhoneType === "MOBILE",
+	)?.PhoneNumber;
+}
+
+/**
+ * Split invoices into live ones to upsert and voided/deleted ones to tombstone,
+ * grouped by their removed status
+ */
+function partitionRemoved(invoices: XeroInvoice[]) {
+	const live: XeroInvoice[] = [];
+	const removed = new Map<string, string[]>();
+	for (const invoice of invoices) {
+		if (REMOVED_INVOICE_STATUSES.includes(invoice.Status)) {
+			const ids = removed.get(invoice.Status) ?? [];
+			ids.push(invoice.InvoiceID);
+			removed.set(invoice.Status, ids);
+		} else {
+			live.push(invoice);
+		}
+	}
+	return { live, removed };
+}
+
+export async function upsertXeroContacts(
+	tenantId: string,
+	contacts: XeroContact[],
+) {
+	if (contacts.length === 0) return;
+
+	await db
+		.insert(xeroContacts)
+		.values(
+			contacts.map((contact) => ({
+				xeroTenantId: tenantId,
+				xeroContactId: contact.ContactID,
+				name: contact.Name,
+				email: contact.EmailAddress,
+				phone: getPrimaryPhone(contact),
+				contactStatus: contact.ContactStatus || null,
+			})),
+		)
+		.onConflictDoUpdate({
+			target: [xeroContacts.xeroTenantId, xeroContacts.xeroContactId],
+			set: {
+				name: sql`excluded.name`,
+				email: sql`excluded.email`,
+				phone: sql`excluded.phone`,
+				contactStatus: sql`excluded.contact_status`,
+				updatedAt: new Date(),
+			},
+		});
+}
+
+export async function upsertXeroSuppliers(
+	tenantId: string,
+	contacts: XeroContact[],
+) {
+	if (contacts.length === 0) return;
+
+	await db
+		.insert(xeroSuppliers)
+		.values(
+			contacts.map((contact) => ({
+				xeroTenantId: tenantId,
+				xeroContactId: contact.ContactID,
+				name: contact.Name,
+				email: contact.EmailAddress,
+				phone: getPrimaryPhone(contact),
+				taxNumber: contact.TaxNumber || null,
+				contactStatus: contact.ContactStatus || null,
+				bankAccountNumber: contact.BankAccountDetails || null,
+				bankAccountName: null, // NOTE: Not available in Xero API
+			})),
+		)
+		.onConflictDoUpdate({
+			target: [xeroSuppliers.xeroTenantId, xeroSuppliers.xeroContactId],
+			set: {
+				name: sql`excluded.name`,
+				email: sql`excluded.email`,
+				phone: sql`excluded.phone`,
+				taxNumber: sql`excluded.tax_number`,
+				contactStatus: sql`excluded.contact_status`,
+				bankAccountNumber: sql`excluded.bank_account_number`,
+				bankAccountName: sql`excluded.bank_account_name`,
+				updatedAt: new Date(),
+			},
+		});
+}
+
+function toNumeric(value: number | undefined) {
+	return value === undefined ? null : value.toString();
+}
+
+/**
+ * Rewrite the stored line items of the given invoices or bills, so lines
+ * removed or edited in Xero don't linger.
+ * @param parentIds - Xero InvoiceID -> internal invoice or bill id
+ */
+async function replaceLineItems(
+	tenantId: string,
+	parent: "invoiceId" | "billId",
+	parentIds: Map<string, string>,
+	invoices: XeroInvoice[],
+) {
+	if (parentIds.size === 0) return;
+
+	const lineValues = invoices.flatMap((invoice) => {
+		const parentId = parentIds.get(invoice.InvoiceID);
+		if (!parentId) return [];
+
+		return (invoice.LineItems ?? []).map((line) => ({
+			xeroTenantId: tenantId,
+			[parent]: parentId,
+			xeroLineItemId: line.LineItemID || null,
+			description: line.Description || null,
+			quantity: toNumeric(line.Quantity),
+			unitAmount: toNumeric(line.UnitAmount),
+			lineAmount: toNumeric(line.LineAmount),
+			taxAmount: toNumeric(line.TaxAmount),
+			accountCode: line.AccountCode || null,
+			taxType: line.TaxType || null,
+			itemCode: line.ItemCode || null,
+			tracking: (line.Tracking ?? []).map((t) => ({
+				name: t.Name,
+				option: t.Option,
+			})),
+		}));
+	});
+
+	await db.transaction(async (tx) => {
+		await tx
+			.delete(xeroLineItems)
+			.where(inArray(xeroLineItems[parent], [...parentIds.values()]));
+		if (lineValues.length > 0) {
+			await tx.insert(xeroLineItems).values(lineValues);
+		}
+	});
+}
+
+/**
+ * Map of Xero ContactID -> internal xero_contacts.id for linking invoices
+ */
+export async function loadContactIdMap(tenantId: string) {
+	const internalContacts = await db.query.xeroContacts.findMany({
+		where: eq(xeroContacts.xeroTenantId, tenantId),
+		columns: {
+			id: true,
+			xeroContactId: true,
+		},
+	});
+	return new Map(internalContacts.map((c) => [c.xeroContactId, c.id]));
+}
+
+/**
+ * Map of Xero ContactID -> internal xero_suppliers.id for linking bills
+ */
+export async function loadSupplierIdMap(tenantId: string) {
+	const internalSuppliers = await db.query.xeroSuppliers.findMany({
+		where: eq(xeroSuppliers.xeroTenantId, tenantId),
+		columns: {
+			id: true,
+			xeroContactId: true,
+		},
+	});
+	return new Map(internalSuppliers.map((s) => [s.xeroContactId, s.id]));
+}
+
+/**
+ * Upsert live invoices. Voided or deleted invoices only update rows we already
+ * hold, leaving a tombstone with the removed status and nothing due.
+ */
+export async function upsertXeroInvoices(
+	tenantId: string,
+	invoices: XeroInvoice[],
+	contactMap: Map<string, string>,
+) {
+	const { live, removed } = partitionRemoved(invoices);
+
+	for (const [status, invoiceIds] of removed) {
+		await db
+			.update(xeroInvoices)
+			.set({ status, amountDue: "0", updatedAt: new Date() })
+			.where(
+				and(
+					eq(xeroInvoices.xeroTenantId, tenantId),
+					inArray(xeroInvoices.xeroInvoiceId, invoiceIds),
+				),
+			);
+	}
+
+	if (live.length === 0) return;
+
+	const invoiceValues = live.map((invoice) => ({
+		xeroTenantId: tenantId,
+		xeroInvoiceId: invoice.InvoiceID,
+		invoiceNumber: invoice.InvoiceNumber || null,
+		contactId: contactMap.get(invoice.Contact.ContactID) || null,
+		type: invoice.Type,
+		status: invoice.Status,
+		date: parseXeroDate(invoice.DateString),
+		dueDate: parseXeroDate(invoice.DueDateString),
+		amountDue: invoice.AmountDue.toString(),
+		amountPaid: invoice.AmountPaid.toString(),
+		amountCredited: (invoice.AmountCredited ?? 0).toString(),
+		total: invoice.Total.toString(),
+		currencyCode: invoice.CurrencyCode,
+		fullyPaidOn: parseXeroDate(invoice.FullyPaidOnDate),
+	}));
+
+	const rows = await db
+		.insert(xeroInvoices)
+		.values(invoiceValues)
+		.onConflictDoUpdate({
+			target: [xeroInvoices.xeroTenantId, xeroInvoices.xeroInvoiceId],
+			set: {
+				invoiceNumber: sql`excluded.invoice_number`,
+				status: sql`excluded.status`,
+				amountDue: sql`excluded.amount_due`,
+				amountPaid: sql`excluded.amount_paid`,
+				amountCredited: sql`excluded.amount_credited`,
+				total: sql`excluded.total`,
+				fullyPaidOn: sql`excluded.fully_paid_on`,
+				updatedAt: new Date(),
+			},
+		})
+		.returning({
+			id: xeroInvoices.id,
+			xeroInvoiceId: xeroInvoices.xeroInvoiceId,
+		});
+
+	await replaceLineItems(
+		tenantId,
+		"invoiceId",
+		new Map(rows.map((r) => [r.xeroInvoiceId, r.id])),
+		live,
+	);
+}
+
+/**
+ * Upsert live bills. Voided or deleted bills are tombstoned like invoices.
+ */
+export async function upsertXeroBills(
+	tenantId: string,
+	bills: XeroInvoice[],
+	supplierMap: Map<string, string>,
+) {
+	const { live, removed } = partitionRemoved(bills);
+
+	for (const [status, billIds] of removed) {
+		await db
+			.update(xeroBills)
+			.set({ status, amountDue: "0", updatedAt: new Date() })
+			.where(
+				and(
+					eq(xeroBills.xeroTenantId, tenantId),
+					inArray(xeroBills.xeroBillId, billIds),
+				),
+			);
+	}
+
+	if (live.length === 0) return;
+
+	const billValues = live.map((bill) => {
+		const lineItemsSummary =
+			bill.LineItems?.map(
+				(l) => `${l.Description || "Item"} ($${l.LineAmount})`,
+			).join("; ") || "";
+
+		return {
+			xeroTenantId: tenantId,
+			xeroBillId: bill.InvoiceID,
+			supplierId: supplierMap.get(bill.Contact.ContactID) || null,
+			type: bill.Type,
+			status: bill.Status,
+			date: parseXeroDate(bill.DateString),
+			dueDate: parseXeroDate(bill.DueDateString),
+			amountDue: bill.AmountDue.toString(),
+			amountPaid: bill.AmountPaid.toString(),
+			total: bill.Total.toString(),
+			currencyCode: bill.CurrencyCode,
+			lineItemsSummary,
+			invoiceNumber: bill.InvoiceNumber || null,
+			billBankAccountNumber: bill.BankAccountNumber || null, // NOTE: Not available in Xero API
+			billBankAccountName: null, // NOTE: Not available in Xero API
+		};
+	});
+
+	const rows = await db
+		.insert(xeroBills)
+		.values(billValues)
+		.onConflictDoUpdate({
+			target: [xeroBills.xeroTenantId, xeroBills.xeroBillId],
+			set: {
+				status: sql`excluded.status`,
+				amountDue: sql`excluded.amount_due`,
+				amountPaid: sql`excluded.amount_paid`,
+				total: sql`excluded.total`,
+				lineItemsSummary: sql`excluded.line_items_summary`,
+				invoiceNumber: sql`excluded.invoice_number`,
+				billBankAccountNumber: sql`excluded.bill_bank_account_number`,
+				billBankAccountName: sql`excluded.bill_bank_account_name`,
+				updatedAt: new Date(),
+			},
+		})
+		.returning({ id: xeroBills.id, xeroBillId: xeroBills.xeroBillId });
+
+	await replaceLineItems(
+		tenantId,
+		"billId",
+		new Map(rows.map((r) => [r.xeroBillId, r.id])),
+		live,
+	);
+}
+
+export async function upsertXeroBankTransactions(
+	tenantId: string,
+	bankTransactions: XeroBankTransaction[],
+) {
+	if (bankTransactions.length === 0) return;
+
+	const btValues = bankTransactions.map((bt) => ({
+		xeroTenantId: tenantId,
+		xeroId: bt.BankTransactionID,
+		type: bt.Type,
+		amount: bt.Total.toString(),
+		date: parseXeroDate(bt.DateString),
+		description:
+			bt.LineItems?.map((l) => l.Description).join("; ") || "Bank Transaction",
+		source: "BANK_TRANS",
+	}));
+
+	await db
+		.insert(xeroTransactions)
+		.values(btValues)
+		.onConflictDoUpdate({
+			target: [xeroTransactions.xeroTenantId, xeroTransactions.xeroId],
+			set: {
+				amount: sql`excluded.amount`,
+				description: sql`excluded.description`,
+				updatedAt: new Date(),
+			},
+		});
+}
+
+export async function upsertXeroPayments(
+	tenantId: string,
+	payments: XeroPayment[],
+) {
+	if (payments.length === 0) return;
+
+	const payValues = payments.map((pay) => ({
+		xeroTenantId: tenantId,
+		xeroId: pay.PaymentID,
+		type: pay.PaymentType === "ACCREC PAYMENT" ? "RECEIVE" : "SPEND",
+		amount: pay.Amount.toString(),
+		date: parseXeroDate(pay.Date),
+		description: `${pay.PaymentType} - Ref: ${pay.Reference || "N/A"}`,
+		source: "PAYMENT",
+	}));
+
+	await db
+		.insert(xeroTransactions)
+		.values(payValues)
+		.onConflictDoUpdate({
+			target: [xeroTransactions.xeroTenantId, xeroTransactions.xeroId],
+			set: {
+				amount: sql`excluded.amount`,
+				updatedAt: new Date(),
+			},
+		});
+}
+
+/**
+ * Replace a tenant's bank balances with the closing balances on a Bank
+ * Summary report. Accounts no longer on the report are removed.
+ * @returns The number of accounts stored
+ */
+export async function upsertXeroBankBalances(
+	tenantId: string,
+	report: XeroReportResponse["Reports"][number],
+	asOf: Date,
+) {
+	const header = report.Rows.find((r) => r.RowType === "Header");
+	const closingIndex =
+		header?.Cells?.findIndex((c) => c.Value === "Closing Balance") ?? -1;
+
+	const accountRows = report.Rows.flatMap((r: XeroReportRow) =>
+		r.RowType === "Section" ? (r.Rows ?? []) : [],
+	).filter((r) => r.RowType === "Row");
+
+	const balanceValues = accountRows.flatMap((row) => {
+		const cells = row.Cells ?? [];
+		const accountId = cells[0]?.Attributes?.find(
+			(a) => a.Id === "accountID",
+		)?.Value;
+		const closing =
+			cells[closingIndex >= 0 ? closingIndex : cells.length - 1]?.Value;
+		if (!accountId || closing === undefined) return [];
+
+		return [
+			{
+				xeroTenantId: tenantId,
+				xeroAccountId: accountId,
+				name: cells[0].Value,
+				balance: (Number(closing.replace(/,/g, "")) || 0).toString(),
+				asOf,
+			},
+		];
+	});
+
+	// One transaction, so a failed insert never leaves the tenant without an
+	// opening balance
+	await db.transaction(async (tx) => {
+		await tx.delete(xeroBankBalances).where(
+			and(
+				eq(xeroBankBalances.xeroTenantId, tenantId),
+				balanceValues.length > 0
+					? notInArray(
+							xeroBankBalances.xeroAccountId,
+							balanceValues.map((b) => b.xeroAccountId),
+						)
+					: undefined,
+			),
+		);
+
+		if (balanceValues.length === 0) return;
+
+		await tx
+			.insert(xeroBankBalances)
+			.values(balanceValues)
+			.onConflictDoUpdate({
+				target: [xeroBankBalances.xeroTenantId, xeroBankBalances.xeroAccountId],
+				set: {
+					name: sql`excluded.name`,
+					balance: sql`excluded.balance`,
+					asOf: sql`excluded.as_of`,
+					updatedAt: new Date(),
+				},
+			});
+	});
+
+	return balanceValues.length;
+}
+
+/**
+ * Fetch today's Bank Summary report and store its closing balances.
+ * A report rather than a collection: it ignores If-Modified-Since, so
+ * balances are refreshed in full on every call.
+ * @returns The number of accounts stored
+ */
+export async function syncXeroBankBalances(
+	client: XeroApiClient,
+	tenantId: string,
+) {
+	const today = new Date().toISOString().split("T")[0];
+	const response = await client.fetch(
+		`/Reports/BankSummary?fromDate=${today}&toDate=${today}`,
+	);
+	const data = (await response.json()) as XeroReportResponse;
+	const report = data.Reports?.[0];
+	return report
+		? await upsertXeroBankBalances(tenantId, report, new Date())
+		: 0;
+}
@@ -0,0 +1,157 @@
+import "server-only";
+
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+import nodemailer from "nodemailer";
+import {
+	ConfigError,
+	getErrorMessage,
+	MailError,
+} from "@/lib/integrations/errors";
+
+/**
+ * Outbound email. The transport is picked by MAIL_TRANSPORT:
+ *
+ * - `smtp`: delivers through SMTP_HOST (the default when it is set)
+ * - `file`: writes each message as an .eml file to MAIL_FILE_DIR, for dev
+ * - `console`: logs the message, the default when nothing is configured
+ */
+
+export const MAIL_TRANSPORT_KINDS = ["smtp", "file", "console"] as const;
+
+export type MailTransportKind = (typeof MAIL_TRANSPORT_KINDS)[number];
+
+export interface MailMessage {
+	to: string;
+	subject: string;
+	text: string;
+	replyTo?: string;
+}
+
+export interface SentMail {
+	messageId: string;
+	transport: MailTransportKind;
+}
+
+export interface MailTransport {
+	kind: MailTransportKind;
+	send(message: MailMessage): Promise<SentMail>;
+}
+
+const DEFAULT_FROM = "Accounts <no-reply@localhost>";
+
+function getFromAddress() {
+	return process.env.MAIL_FROM || DEFAULT_FROM;
+}
+
+function createSmtpTransport(): MailTransport {
+	const host = process.env.SMTP_HOST;
+	if (!host) {
+		throw new ConfigError("SMTP_HOST not configured for the smtp transport");
+	}
+
+	const port = Number(process.env.SMTP_PORT || 587);
+	const transporter = nodemailer.createTransport({
+		host,
+		port,
+		secure: port === 465,
+		auth: process.env.SMTP_USER
+			? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+			: undefined,
+	});
+
+	return {
+		kind: "smtp",
+		async send(message) {
+			const info = await transporter.sendMail({
+				from: getFromAddress(),
+				...message,
+			});
+			return { messageId: info.messageId, transport: "smtp" };
+		},
+	};
+}
+
+function createFileTransport(): MailTransport {
+	const dir = path.resolve(process.env.MAIL_FILE_DIR || ".mail-outbox");
+	const transporter = nodemailer.createTransport({
+		streamTransport: true,
+		buffer: true,
+	});
+
+	return {
+		kind: "file",
+		async send(message) {
+			const info = await transporter.sendMail({
+				from: getFromAddress(),
+				...message,
+			});
+
+			await mkdir(dir, { recursive: true });
+			const file = path.join(dir, `${Date.now()}-${info.envelope.to[0]}.eml`);
+			await writeFile(file, info.message);
+
+			return { messageId: info.messageId, transport: "file" };
+		},
+	};
+}
+
+function createConsoleTransport(): MailTransport {
+	const transporter = nodemailer.createTransport({ jsonTransport: true });
+
+	return {
+		kind: "console",
+		async send(message) {
+			const info = await transporter.sendMail({
+				from: getFromAddress(),
+				...message,
+			});
+			console.log("[Mail] Console transport:", info.message);
+			return { messageId: info.messageId, transport: "console" };
+		},
+	};
+}
+
+let cachedTransport: MailTransport | null = null;
+
+export function getMailTransport(): MailTransport {
+	if (cachedTransport) return cachedTransport;
+
+	const configured = process.env.MAIL_TRANSPORT;
+	const kind: MailTransportKind = MAIL_TRANSPORT_KINDS.includes(
+		configured as MailTransportKind,
+	)
+		? (configured as MailTransportKind)
+		: process.env.SMTP_HOST
+			? "smtp"
+			: "console";
+
+	switch (kind) {
+		case "smtp":
+			cachedTransport = createSmtpTransport();
+			break;
+		case "file":
+			cachedTransport = createFileTransport();
+			break;
+		default:
+			cachedTransport = createConsoleTransport();
+	}
+
+	return cachedTransport;
+}
+
+/**
+ * Sends through the configured transport, wrapping delivery failures
+ * in a `MailError`
+ */
+export async function sendMail(message: MailMessage): Promise<SentMail> {
+	const transport = getMailTransport();
+
+	try {
+		return await transport.send(message);
+	} catch (error) {
+		throw new MailError(`Failed to send email: ${getErrorMessage(error)}`, {
+			transport: transport.kind,
+		});
+	}
+}
@@ -7,7 +7,12 @@ import type { getWeather } from "./ai/tools/get-weather";
 import type { requestSuggestions } from "./ai/tools/request-suggestions";
 import type { searchABNByName } from "./ai/tools/search-abn-by-name";
 import type { updateDocument } from "./ai/tools/update-document";
-import type { Chat, Suggestion } from "./db/schema";
+import type {
+	Chat,
+	Document,
+	DocumentChunkMetadata,
+	Suggestion,
+} from "./db/schema";
 
 export type DataPart = { type: "append-message"; message: string };
 
@@ -35,6 +40,25 @@ export type ChatTools = {
 	searchABNByName?: abnSearchTool;
 };
 
+/**
+ * A retrieved document chunk the answer can cite as [index]
+ */
+export type Citation = {
+	index: number;
+	// Uploaded to the chat, or from the organisation knowledge base
+	source: "chat" | "knowledge";
+	documentId: string;
+	title: string;
+	kind: Document["kind"];
+	// Uploaded file, for kinds the artifact panel cannot show
+	url: string | null;
+	chunkIndex: number;
+	pageNumber: number | null;
+	// Section heading path or sheet row range
+	metadata: DocumentChunkMetadata | null;
+	content: string;
+};
+
 export type CustomUIDataTypes = {
 	textDelta: string;
 	imageDelta: string;
@@ -49,6 +73,7 @@ export type CustomUIDataTypes = {
 	clear: null;
 	finish: null;
 	"chat-title": string;
+	citations: Citation[];
 };
 
 export type ChatMessage = UIMessage<
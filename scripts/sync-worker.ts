@@ -0,0 +1,46 @@
+/**
+ * Long-running Xero sync queue worker for self-hosted deployments.
+ * On Vercel the same work is done by the /api/cron/process-queue cron.
+ *
+ * Usage: pnpm sync:worker
+ */
+import { config } from "dotenv";
+
+config({ path: ".env.local" });
+
+const POLL_INTERVAL_MS = 5000;
+
+let running = true;
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+	process.on(signal, () => {
+		console.log(`Received ${signal}, stopping after the current batch...`);
+		running = false;
+	});
+}
+
+async function main() {
+	// Imported after dotenv so the DB and Redis clients see .env.local
+	const { SyncWorker } = await import("../lib/integrations/sync/worker");
+
+	console.log("⏳ Sync worker started");
+
+	while (running) {
+		const { processed, failed } = await SyncWorker.processQueue();
+
+		if (processed > 0 || failed > 0) {
+			console.log(`Processed ${processed} job(s), ${failed} failed`);
+		} else {
+			await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+		}
+	}
+
+	console.log("✅ Sync worker stopped");
+	process.exit(0);
+}
+
+main().catch((err) => {
+	console.error("❌ Sync worker crashed");
+	console.error(err);
+	process.exit(1);
+});
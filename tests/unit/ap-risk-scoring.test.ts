@@ -0,0 +1,105 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+	calculateVendorRisk,
+	DEFAULT_RISK_SCORING_CONFIG,
+	getPaymentTermDays,
+	type RiskScoringConfig,
+} from "../../lib/agents/ap/risk-scoring";
+
+const cleanBill = {
+	taxNumber: "12345678901",
+	invoiceNumber: "INV-001",
+	billStatus: "AUTHORISED",
+	contactStatus: "ACTIVE",
+	supplierBankAccount: "123456",
+	billBankAccount: "123456",
+};
+
+test("uses the org's weights and thresholds", () => {
+	const config: RiskScoringConfig = {
+		...DEFAULT_RISK_SCORING_CONFIG,
+		weights: {
+			...DEFAULT_RISK_SCORING_CONFIG.weights,
+			missingTaxNumber: 50,
+		},
+		thresholds: { medium: 10, high: 40, critical: 90 },
+	};
+
+	const result = calculateVendorRisk({ ...cleanBill, taxNumber: null }, config);
+
+	assert.strictEqual(result.riskScore, 50);
+	assert.strictEqual(result.riskLevel, "High");
+});
+
+test("ignores a factor weighted 0", () => {
+	const config: RiskScoringConfig = {
+		...DEFAULT_RISK_SCORING_CONFIG,
+		weights: {
+			...DEFAULT_RISK_SCORING_CONFIG.weights,
+			missingInvoiceNumber: 0,
+		},
+	};
+
+	const result = calculateVendorRisk(
+		{ ...cleanBill, invoiceNumber: null },
+		config,
+	);
+
+	assert.strictEqual(result.riskScore, 0);
+	assert.deepStrictEqual(result.riskFactors, []);
+});
+
+test("records custom rules that fire", () => {
+	const config: RiskScoringConfig = {
+		...DEFAULT_RISK_SCORING_CONFIG,
+		customRules: [
+			{ id: "large", type: "bill_total_over", value: 10000, points: 15 },
+			{
+				id: "terms",
+				type: "short_payment_terms",
+				value: 7,
+				points: 10,
+				label: "Rushed payment",
+			},
+			{ id: "new", type: "new_supplier", value: 30, points: 20 },
+		],
+	};
+
+	const result = calculateVendorRisk(
+		{
+			...cleanBill,
+			billTotal: 25000,
+			paymentTermDays: 3,
+			supplierFirstBillDate: new Date("2020-01-01"),
+		},
+		config,
+	);
+
+	assert.strictEqual(result.riskScore, 25);
+	assert.strictEqual(result.riskLevel, "Medium");
+	assert.deepStrictEqual(result.riskFactors, [
+		"Bill over $10,000",
+		"Rushed payment",
+	]);
+});
+
+test("skips custom rules without the data to check them", () => {
+	const config: RiskScoringConfig = {
+		...DEFAULT_RISK_SCORING_CONFIG,
+		customRules: [
+			{ id: "large", type: "bill_total_over", value: 10000, points: 15 },
+		],
+	};
+
+	const result = calculateVendorRisk(cleanBill, config);
+	assert.strictEqual(result.riskScore, 0);
+});
+
+test("payment terms count days from bill date to due date", () => {
+	assert.strictEqual(
+		getPaymentTermDays(new Date("2025-01-01"), new Date("2025-01-15")),
+		14,
+	);
+	assert.strictEqual(getPaymentTermDays(null, new Date("2025-01-15")), null);
+});
@@ -0,0 +1,128 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+	type CustomerInvoiceHistory,
+	calculateCustomerRisk,
+	getCustomerRiskLevel,
+} from "../../lib/agents/ar/risk-scoring";
+
+const NOW = new Date("2026-06-30T00:00:00Z");
+
+function daysAgo(days: number) {
+	return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000);
+}
+
+// A paid invoice due `dueDaysAgo` days ago and paid `daysLate` days after that
+function paidInvoice(
+	dueDaysAgo: number,
+	daysLate: number,
+	overrides: Partial<CustomerInvoiceHistory> = {},
+): CustomerInvoiceHistory {
+	return {
+		total: 1000,
+		amountDue: 0,
+		amountCredited: 0,
+		date: daysAgo(dueDaysAgo + 30),
+		dueDate: daysAgo(dueDaysAgo),
+		fullyPaidOn: daysAgo(dueDaysAgo - daysLate),
+		...overrides,
+	};
+}
+
+test("customer who pays on time scores below the base", () => {
+	const result = calculateCustomerRisk(
+		[paidInvoice(200, 0), paidInvoice(150, 0), paidInvoice(100, 0)],
+		0.05,
+		NOW,
+	);
+
+	assert.strictEqual(result.riskScore, 0.05);
+	assert.deepStrictEqual(result.riskFactors, ["Pays on time (3 invoices)"]);
+	assert.strictEqual(result.averageDaysLate, 0);
+});
+
+test("history of late payment raises the score and is explained", () => {
+	const result = calculateCustomerRisk(
+		[paidInvoice(200, 30), paidInvoice(150, 30), paidInvoice(120, 30)],
+		0,
+		NOW,
+	);
+
+	assert.strictEqual(result.averageDaysLate, 30);
+	assert.ok(Math.abs(result.riskScore - 0.35) < 1e-9);
+	assert.ok(
+		result.riskFactors.includes("Pays 30 days late on average (3 invoices)"),
+	);
+});
+
+test("paying later recently than before is flagged as a trend", () => {
+	const result = calculateCustomerRisk(
+		[
+			paidInvoice(300, 0),
+			paidInvoice(250, 0),
+			paidInvoice(60, 20),
+			paidInvoice(40, 20),
+		],
+		0,
+		NOW,
+	);
+
+	assert.ok(
+		result.riskFactors.includes(
+			"Paying later: 20 days late recently vs 0 before",
+		),
+	);
+});
+
+test("current arrears, credit notes and concentration each add a factor", () => {
+	const result = calculateCustomerRisk(
+		[
+			paidInvoice(200, 0, { amountCredited: 100 }),
+			paidInvoice(150, 0),
+			paidInvoice(100, 0),
+			{
+				total: 5000,
+				amountDue: 5000,
+				amountCredited: 0,
+				date: daysAgo(75),
+				dueDate: daysAgo(45),
+				fullyPaidOn: null,
+			},
+		],
+		0.4,
+		NOW,
+	);
+
+	assert.deepStrictEqual(result.riskFactors, [
+		"Oldest invoice 45 days overdue",
+		"Pays on time (3 invoices)",
+		"Credit notes on 1 of 4 invoices",
+		"40% of revenue",
+	]);
+});
+
+test("wholly disputed invoices do not count as arrears", () => {
+	const result = calculateCustomerRisk(
+		[
+			{
+				total: 5000,
+				amountDue: 0, // Everything owing is under dispute
+				amountCredited: 0,
+				date: daysAgo(120),
+				dueDate: daysAgo(90),
+				fullyPaidOn: null,
+			},
+		],
+		0,
+		NOW,
+	);
+
+	assert.deepStrictEqual(result.riskFactors, ["Little payment history"]);
+	assert.ok(Math.abs(result.riskScore - 0.15) < 1e-9);
+});
+
+test("risk levels band the score", () => {
+	assert.strictEqual(getCustomerRiskLevel(0.1), "Low");
+	assert.strictEqual(getCustomerRiskLevel(0.5), "Medium");
+	assert.strictEqual(getCustomerRiskLevel(0.71), "High");
+});
@@ -0,0 +1,67 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import { expandOccurrences } from "../../lib/agents/cashflow/recurrence";
+
+function dates(
+	start: string,
+	recurrence: string | null,
+	from: string,
+	to: string,
+	end: string | null = null,
+) {
+	return expandOccurrences(
+		{
+			date: new Date(`${start}T00:00:00Z`),
+			recurrence,
+			recurrenceEndDate: end ? new Date(`${end}T00:00:00Z`) : null,
+		},
+		new Date(`${from}T00:00:00Z`),
+		new Date(`${to}T00:00:00Z`),
+	).map((d) => d.toISOString().split("T")[0]);
+}
+
+test("one-off adjustments only fall on their own date", () => {
+	assert.deepStrictEqual(
+		dates("2026-07-10", null, "2026-07-01", "2026-07-31"),
+		["2026-07-10"],
+	);
+	assert.deepStrictEqual(
+		dates("2026-08-10", null, "2026-07-01", "2026-07-31"),
+		[],
+	);
+});
+
+test("fortnightly adjustments started in the past continue into the range", () => {
+	assert.deepStrictEqual(
+		dates("2026-06-01", "FORTNIGHTLY", "2026-07-01", "2026-07-31"),
+		["2026-07-13", "2026-07-27"],
+	);
+});
+
+test("monthly adjustments keep their day and clamp to short months", () => {
+	assert.deepStrictEqual(
+		dates("2026-01-31", "MONTHLY", "2026-01-01", "2026-04-30"),
+		["2026-01-31", "2026-02-28", "2026-03-31", "2026-04-30"],
+	);
+});
+
+test("end of month adjustments fall on each month's last day", () => {
+	assert.deepStrictEqual(
+		dates("2026-02-10", "END_OF_MONTH", "2026-01-01", "2026-04-15"),
+		["2026-02-28", "2026-03-31"],
+	);
+});
+
+test("quarterly BAS falls on the ATO due dates", () => {
+	assert.deepStrictEqual(
+		dates("2026-07-01", "QUARTERLY_BAS", "2026-07-01", "2027-07-31"),
+		["2026-07-28", "2026-10-28", "2027-02-28", "2027-04-28", "2027-07-28"],
+	);
+});
+
+test("recurring adjustments stop at their end date", () => {
+	assert.deepStrictEqual(
+		dates("2026-07-01", "WEEKLY", "2026-07-01", "2026-12-31", "2026-07-20"),
+		["2026-07-01", "2026-07-08", "2026-07-15"],
+	);
+});
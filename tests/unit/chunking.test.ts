@@ -0,0 +1,128 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+	chunkDocument,
+	chunkPages,
+	chunkRows,
+	chunkSections,
+	chunkText,
+	describeChunkLocation,
+} from "../../lib/ai/chunking";
+
+test("sections carry their heading path and nested headings replace siblings", () => {
+	const chunks = chunkSections(
+		[
+			"Intro paragraph.",
+			"# Leave",
+			"## Annual leave",
+			"Four weeks per year.",
+			"## Sick leave",
+			"Ten days per year.",
+			"# Expenses",
+			"Submit receipts monthly.",
+		].join("\n"),
+	);
+
+	assert.deepStrictEqual(
+		chunks.map((chunk) => chunk.metadata?.section ?? null),
+		[null, "Leave > Annual leave", "Leave > Sick leave", "Expenses"],
+	);
+	assert.strictEqual(
+		chunks[2]?.content,
+		"Leave > Sick leave\nTen days per year.",
+	);
+});
+
+test("long sections are packed by whole lines with overlap", () => {
+	const lines = Array.from(
+		{ length: 6 },
+		(_, index) => `row ${index} alpha beta`,
+	);
+	const chunks = chunkPages([{ pageNumber: 2, text: lines.join("\n") }], {
+		chunkSize: 8,
+		overlap: 4,
+	});
+
+	assert.deepStrictEqual(
+		chunks.map((chunk) => chunk.content),
+		[
+			"row 0 alpha beta\nrow 1 alpha beta",
+			"row 1 alpha beta\nrow 2 alpha beta",
+			"row 2 alpha beta\nrow 3 alpha beta",
+			"row 3 alpha beta\nrow 4 alpha beta",
+			"row 4 alpha beta\nrow 5 alpha beta",
+		],
+	);
+	assert.ok(chunks.every((chunk) => chunk.pageNumber === 2));
+});
+
+test("sheet row groups repeat the header and record their row range", () => {
+	const rows = Array.from(
+		{ length: 120 },
+		(_, index) => `INV-${index + 1},${index * 10}`,
+	);
+	const chunks = chunkRows(["Invoice,Amount", ...rows].join("\n"));
+
+	assert.strictEqual(chunks.length, 3);
+	assert.ok(
+		chunks.every((chunk) => chunk.content.startsWith("Invoice,Amount\n")),
+	);
+	assert.deepStrictEqual(
+		chunks.map((chunk) => chunk.metadata),
+		[
+			{ rowStart: 1, rowEnd: 50 },
+			{ rowStart: 51, rowEnd: 100 },
+			{ rowStart: 101, rowEnd: 120 },
+		],
+	);
+	assert.ok(chunks[2]?.content.endsWith("INV-120,1190"));
+});
+
+test("tab separated sheets keep their delimiter", () => {
+	const [chunk] = chunkDocument({
+		kind: "sheet",
+		text: "Name\tRole\nAda\tEngineer",
+	});
+
+	assert.strictEqual(chunk?.content, "Name\tRole\nAda\tEngineer");
+});
+
+test("code comments are not treated as headings", () => {
+	const chunks = chunkDocument({
+		kind: "code",
+		text: "# setup\nimport os\nprint(os.getcwd())",
+	});
+
+	assert.strictEqual(chunks.length, 1);
+	assert.strictEqual(chunks[0]?.metadata, null);
+});
+
+test("word windows do not emit a tail already covered by the previous chunk", () => {
+	const text = Array.from({ length: 10 }, (_, index) => `w${index}`).join(" ");
+
+	assert.deepStrictEqual(chunkText(text, { chunkSize: 6, overlap: 2 }), [
+		"w0 w1 w2 w3 w4 w5",
+		"w4 w5 w6 w7 w8 w9",
+	]);
+});
+
+test("chunk locations combine page, section and rows", () => {
+	assert.strictEqual(
+		describeChunkLocation({
+			pageNumber: 3,
+			metadata: { section: "Leave" },
+		}),
+		'page 3, "Leave"',
+	);
+	assert.strictEqual(
+		describeChunkLocation({
+			pageNumber: null,
+			metadata: { rowStart: 4, rowEnd: 4 },
+		}),
+		"row 4",
+	);
+	assert.strictEqual(
+		describeChunkLocation({ pageNumber: null, metadata: null }),
+		"",
+	);
+});
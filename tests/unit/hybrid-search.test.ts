@@ -0,0 +1,67 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+	extractExactTerms,
+	RRF_K,
+	rankHybrid,
+	reciprocalRankFusion,
+} from "../../lib/ai/hybrid-search";
+
+const chunk = (id: string, content = id) => ({ id, content });
+
+test("chunks found by both searches outrank chunks found by one", () => {
+	const fused = reciprocalRankFusion([
+		[chunk("a"), chunk("b")],
+		[chunk("b"), chunk("c")],
+	]);
+
+	assert.deepStrictEqual(
+		fused.map((entry) => entry.chunk.id),
+		["b", "a", "c"],
+	);
+	assert.strictEqual(fused[0].score, 1 / (RRF_K + 2) + 1 / (RRF_K + 1));
+});
+
+test("identifiers are extracted from the question, with spaced ABNs joined", () => {
+	assert.deepStrictEqual(
+		extractExactTerms("Who is ABN 51 824 753 556 and what about INV-1042?"),
+		["51824753556", "inv-1042"],
+	);
+	assert.deepStrictEqual(extractExactTerms("What did we spend on rent?"), []);
+});
+
+test("reranking puts the chunk with the exact invoice number first", () => {
+	const results = rankHybrid({
+		query: "What is the total on INV-1042?",
+		vector: [
+			chunk("near", "Invoice INV-1043 total $500"),
+			chunk("exact", "Invoice INV-1042 total $1,200"),
+		],
+		keyword: [chunk("near", "Invoice INV-1043 total $500")],
+		topK: 2,
+	});
+
+	assert.deepStrictEqual(
+		results.map((r) => r.chunk.id),
+		["exact", "near"],
+	);
+	assert.strictEqual(results[0].exactMatches, 1);
+});
+
+test("without reranking the fused order is kept and cut to topK", () => {
+	const results = rankHybrid({
+		query: "What is the total on INV-1042?",
+		vector: [
+			chunk("near", "Invoice INV-1043 total $500"),
+			chunk("exact", "Invoice INV-1042 total $1,200"),
+		],
+		keyword: [chunk("near", "Invoice INV-1043 total $500")],
+		topK: 1,
+		rerank: false,
+	});
+
+	assert.deepStrictEqual(
+		results.map((r) => r.chunk.id),
+		["near"],
+	);
+});
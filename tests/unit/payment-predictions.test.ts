@@ -0,0 +1,67 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+	percentile,
+	predictReceipt,
+} from "../../lib/agents/cashflow/payment-predictions";
+
+const NOW = new Date("2026-06-30T00:00:00Z");
+const EMPTY = { daysLate: [], openDaysOverdue: [] };
+
+function day(offset: number) {
+	return new Date(NOW.getTime() + offset * 24 * 60 * 60 * 1000);
+}
+
+test("percentile uses the nearest rank", () => {
+	const sorted = [0, 10, 20, 30, 40, 50, 60, 70, 80, 90];
+	assert.strictEqual(percentile(sorted, 0.1), 0);
+	assert.strictEqual(percentile(sorted, 0.5), 40);
+	assert.strictEqual(percentile(sorted, 0.9), 80);
+	assert.strictEqual(percentile([], 0.5), 0);
+});
+
+test("invoices without any history are expected on their due date", () => {
+	const result = predictReceipt(day(10), EMPTY, EMPTY, NOW);
+
+	assert.deepStrictEqual(result.expectedDate, day(10));
+	assert.strictEqual(result.probability, 1);
+});
+
+test("customers who pay late push the expected date out", () => {
+	const customer = { daysLate: [15, 20, 20, 25, 30], openDaysOverdue: [] };
+	const result = predictReceipt(day(10), customer, EMPTY, NOW);
+
+	assert.deepStrictEqual(result.bestDate, day(25));
+	assert.deepStrictEqual(result.expectedDate, day(30));
+	assert.deepStrictEqual(result.worstDate, day(40));
+	assert.strictEqual(result.probability, 1);
+});
+
+test("thin customer history falls back to the organisation's", () => {
+	const customer = { daysLate: [60], openDaysOverdue: [] };
+	const organisation = { daysLate: [0, 0, 5, 5, 10], openDaysOverdue: [] };
+	const result = predictReceipt(day(10), customer, organisation, NOW);
+
+	assert.deepStrictEqual(result.expectedDate, day(15));
+});
+
+test("overdue invoices use only payments at least as late", () => {
+	const customer = {
+		daysLate: [0, 5, 10, 40, 50, 60],
+		openDaysOverdue: [30, 120],
+	};
+	// Due 30 days ago
+	const result = predictReceipt(day(-30), customer, EMPTY, NOW);
+
+	assert.deepStrictEqual(result.expectedDate, day(20));
+	// Three paid invoices reached this age; one open one is past 90 days
+	assert.strictEqual(result.probability, 0.75);
+});
+
+test("invoices overdue beyond all history get a default prediction", () => {
+	const customer = { daysLate: [0, 5, 10], openDaysOverdue: [200] };
+	const result = predictReceipt(day(-200), customer, EMPTY, NOW);
+
+	assert.deepStrictEqual(result.expectedDate, day(14));
+	assert.strictEqual(result.probability, 0.5);
+});
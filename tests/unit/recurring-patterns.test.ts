@@ -0,0 +1,113 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+	detectRecurringPatterns,
+	normaliseDescription,
+	type PatternTransaction,
+} from "../../lib/agents/cashflow/recurring-patterns";
+
+const NOW = new Date("2026-06-30T00:00:00Z");
+
+let nextId = 0;
+function spend(
+	date: string,
+	amount: number,
+	description: string,
+	type = "SPEND",
+): PatternTransaction {
+	nextId++;
+	return {
+		id: `t${nextId}`,
+		date: new Date(`${date}T00:00:00Z`),
+		amount,
+		type,
+		description,
+	};
+}
+
+test("descriptions cluster on the counterparty, not references or months", () => {
+	assert.strictEqual(normaliseDescription("Rent INV-1042 Jan 2026"), "rent");
+	assert.strictEqual(normaliseDescription("RENT inv-1057 February"), "rent");
+	assert.strictEqual(
+		normaliseDescription("Marketing Co 12/05"),
+		"marketing co",
+	);
+});
+
+test("monthly rent is detected with its next date and supporting transactions", () => {
+	const rent = [
+		spend("2026-03-01", 3500, "Office Rent Mar"),
+		spend("2026-04-01", 3500, "Office Rent Apr"),
+		spend("2026-05-01", 3500, "Office Rent May"),
+		spend("2026-06-01", 3500, "Office Rent Jun"),
+	];
+	const [pattern] = detectRecurringPatterns(rent, NOW);
+
+	assert.strictEqual(pattern.recurrence, "MONTHLY");
+	assert.strictEqual(pattern.type, "OUT");
+	assert.strictEqual(pattern.amount, 3500);
+	assert.strictEqual(pattern.confidence, 1);
+	assert.strictEqual(
+		pattern.nextDate.toISOString().split("T")[0],
+		"2026-07-01",
+	);
+	assert.deepStrictEqual(
+		pattern.transactions.map((t) => t.id),
+		rent.map((t) => t.id),
+	);
+});
+
+test("weekly wages with varying amounts lose some confidence", () => {
+	const [pattern] = detectRecurringPatterns(
+		[
+			spend("2026-06-02", 5000, "Wages"),
+			spend("2026-06-09", 5200, "Wages"),
+			spend("2026-06-16", 4800, "Wages"),
+			spend("2026-06-23", 5000, "Wages"),
+		],
+		NOW,
+	);
+
+	assert.strictEqual(pattern.recurrence, "WEEKLY");
+	assert.ok(pattern.confidence < 1 && pattern.confidence > 0.9);
+	assert.strictEqual(
+		pattern.nextDate.toISOString().split("T")[0],
+		"2026-06-30",
+	);
+});
+
+test("irregular, one-off and stopped transactions are not suggested", () => {
+	const patterns = detectRecurringPatterns(
+		[
+			// Irregular gaps
+			spend("2026-01-05", 800, "Repairs"),
+			spend("2026-01-09", 800, "Repairs"),
+			spend("2026-04-20", 800, "Repairs"),
+			// Too few
+			spend("2026-05-01", 8500, "Equipment"),
+			spend("2026-06-01", 8500, "Equipment"),
+			// Stopped in January
+			spend("2025-11-01", 99, "Old Software"),
+			spend("2025-12-01", 99, "Old Software"),
+			spend("2026-01-01", 99, "Old Software"),
+		],
+		NOW,
+	);
+
+	assert.deepStrictEqual(patterns, []);
+});
+
+test("receipts and spending with the same description stay separate", () => {
+	const patterns = detectRecurringPatterns(
+		[
+			spend("2026-04-15", 1000, "Acme", "RECEIVE"),
+			spend("2026-05-15", 1000, "Acme", "RECEIVE"),
+			spend("2026-06-15", 1000, "Acme", "RECEIVE"),
+			spend("2026-06-20", 50, "Acme"),
+		],
+		NOW,
+	);
+
+	assert.strictEqual(patterns.length, 1);
+	assert.strictEqual(patterns[0].type, "IN");
+});
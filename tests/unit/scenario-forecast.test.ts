@@ -0,0 +1,92 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+	applyScenario,
+	type ForecastFlows,
+	projectBalances,
+	summariseScenario,
+} from "../../lib/agents/cashflow/scenario-forecast";
+
+const NOW = new Date("2026-06-30T00:00:00Z");
+
+function day(offset: number) {
+	return new Date(NOW.getTime() + offset * 24 * 60 * 60 * 1000);
+}
+
+const BASELINE: ForecastFlows = {
+	receipts: [{ amount: 1000, date: day(2) }],
+	bills: [
+		{ amount: 400, date: day(1), supplierId: "rent" },
+		{ amount: 100, date: day(3), supplierId: "power" },
+	],
+	adjustments: [{ amount: 50, date: day(0), type: "OUT" }],
+};
+
+test("balances run forward from the opening balance day by day", () => {
+	const points = projectBalances(BASELINE, 500, NOW, 4);
+
+	assert.deepStrictEqual(
+		points.map((p) => p.balance),
+		[450, 50, 1050, 950],
+	);
+	assert.strictEqual(points[0].date, "2026-06-30");
+});
+
+test("flows before the first day land on it and after the last are left out", () => {
+	const flows: ForecastFlows = {
+		receipts: [
+			{ amount: 200, date: day(-5) },
+			{ amount: 300, date: day(10) },
+		],
+		bills: [],
+		adjustments: [],
+	};
+
+	const points = projectBalances(flows, 0, NOW, 3);
+
+	assert.deepStrictEqual(
+		points.map((p) => p.balance),
+		[200, 200, 200],
+	);
+});
+
+test("delaying receivables moves every receipt out", () => {
+	const delayed = applyScenario(BASELINE, [
+		{ type: "DELAY_RECEIVABLES", days: 2 },
+	]);
+	const points = projectBalances(delayed, 500, NOW, 5);
+
+	assert.strictEqual(points[3].balance, -50);
+	assert.strictEqual(points[4].balance, 950);
+	// The baseline is untouched
+	assert.deepStrictEqual(BASELINE.receipts[0].date, day(2));
+});
+
+test("cutting a supplier's bills only changes that supplier", () => {
+	const cut = applyScenario(BASELINE, [
+		{ type: "CUT_SUPPLIER_BILLS", supplierId: "rent", percent: 25 },
+	]);
+
+	assert.deepStrictEqual(
+		cut.bills.map((b) => b.amount),
+		[300, 100],
+	);
+});
+
+test("scenario adjustments add to the baseline's", () => {
+	const scenario = applyScenario(
+		BASELINE,
+		[],
+		[{ amount: 2000, date: day(1), type: "OUT" }],
+	);
+	const points = projectBalances(scenario, 500, NOW, 4);
+	const summary = summariseScenario(scenario, points);
+
+	assert.strictEqual(summary.closingBalance, -1050);
+	assert.deepStrictEqual(summary.lowest, {
+		date: "2026-07-01",
+		balance: -1950,
+	});
+	assert.strictEqual(summary.totalIn, 1000);
+	assert.strictEqual(summary.totalOut, 2550);
+});
@@ -0,0 +1,82 @@
+import assert from "node:assert";
+import { test } from "node:test";
+import {
+	fetchAllPages,
+	MAX_PAGES,
+	PAGE_SIZE,
+} from "../../lib/integrations/sync/paging";
+
+// Serves a collection of `count` records, PAGE_SIZE per page
+function createClient(count: number) {
+	const requested: number[] = [];
+	const client = {
+		fetch: async (path: string) => {
+			const page = Number(
+				new URL(path, "https://xero.test").searchParams.get("page"),
+			);
+			requested.push(page);
+			const start = (page - 1) * PAGE_SIZE;
+			const items = Array.from(
+				{ length: Math.max(0, Math.min(PAGE_SIZE, count - start)) },
+				(_, index) => ({ id: start + index }),
+			);
+			return new Response(JSON.stringify({ Invoices: items }));
+		},
+	};
+	return { client, requested };
+}
+
+test("stops at a short page without truncating", async () => {
+	const { client, requested } = createClient(250);
+	const seen: number[] = [];
+	let heartbeats = 0;
+
+	const result = await fetchAllPages<{ id: number }>(client as never, {
+		path: "/Invoices",
+		collectionKey: "Invoices",
+		modifiedSince: null,
+		startPage: 1,
+		onPage: async (items) => {
+			seen.push(...items.map((item) => item.id));
+		},
+		heartbeat: async () => {
+			heartbeats++;
+		},
+	});
+
+	assert.deepStrictEqual(result, { total: 250, truncated: false });
+	assert.deepStrictEqual(requested, [1, 2, 3]);
+	assert.strictEqual(seen.length, 250);
+	assert.strictEqual(heartbeats, 3);
+});
+
+test("reports truncation at the page limit and resumes from the next page", async () => {
+	const count = (MAX_PAGES + 1) * PAGE_SIZE + 30;
+	const { client, requested } = createClient(count);
+	const seen = new Set<number>();
+	const options = {
+		path: "/Invoices",
+		collectionKey: "Invoices",
+		modifiedSince: null,
+		onPage: async (items: { id: number }[]) => {
+			for (const item of items) seen.add(item.id);
+		},
+	};
+
+	const first = await fetchAllPages(client as never, {
+		...options,
+		startPage: 1,
+	});
+	assert.deepStrictEqual(first, {
+		total: MAX_PAGES * PAGE_SIZE,
+		truncated: true,
+	});
+	assert.strictEqual(requested.at(-1), MAX_PAGES);
+
+	const resumed = await fetchAllPages(client as never, {
+		...options,
+		startPage: MAX_PAGES + 1,
+	});
+	assert.deepStrictEqual(resumed, { total: PAGE_SIZE + 30, truncated: false });
+	assert.strictEqual(seen.size, count);
+});
@@ -3,12 +3,21 @@ declare module "mammoth" {
 		value: string;
 	};
 
+	type ConvertToHtmlResult = {
+		value: string;
+	};
+
 	const extractRawText: (input: {
 		buffer: Buffer;
 	}) => Promise<ExtractRawTextResult>;
 
-	export { extractRawText };
+	const convertToHtml: (input: {
+		buffer: Buffer;
+	}) => Promise<ConvertToHtmlResult>;
+
+	export { convertToHtml, extractRawText };
 	export default {
+		convertToHtml,
 		extractRawText,
 	};
 }